@@ -1,5 +1,20 @@
-import { Connection, PublicKey } from "@solana/web3.js";
-import { DePINfinityClient } from "../sdk/src";
+import { Connection, MemcmpFilter } from "@solana/web3.js";
+import {
+    DePINfinityClient,
+    DataSubmission,
+    RoamingAgreement,
+    InfrastructureContract,
+    NetworkInsights,
+    B2BBackend,
+    DEFAULT_COST_UNIT,
+    accountDecoder,
+    decodeAccounts,
+    BridgeError,
+    CordaRequestError,
+    DePINfinityError,
+    DeviceType,
+    findQualityIssues,
+} from "../sdk/src";
 
 /**
  * Corda Bridge - Handles data migration from Solana to Corda
@@ -47,7 +62,12 @@ export class CordaBridge {
             return anonymizedData;
         } catch (error) {
             console.error("Error aggregating network data:", error);
-            throw new Error("Failed to aggregate network data");
+            if (error instanceof DePINfinityError) throw error;
+            throw new BridgeError(
+                "AggregationFailed",
+                "Failed to aggregate network data",
+                error
+            );
         }
     }
 
@@ -91,8 +111,10 @@ export class CordaBridge {
             );
 
             if (!response.ok) {
-                throw new Error(
-                    `Corda migration failed: ${response.statusText}`
+                throw new CordaRequestError(
+                    "Corda migration failed",
+                    response.status,
+                    response.statusText
                 );
             }
 
@@ -102,7 +124,12 @@ export class CordaBridge {
             return result.transactionId;
         } catch (error) {
             console.error("Error migrating to Corda:", error);
-            throw new Error("Failed to migrate data to Corda");
+            if (error instanceof DePINfinityError) throw error;
+            throw new BridgeError(
+                "MigrationFailed",
+                "Failed to migrate data to Corda",
+                error
+            );
         }
     }
 
@@ -155,65 +182,45 @@ export class CordaBridge {
      * Get data submissions from Solana program
      *
      * Queries on-chain DataSubmission accounts using getProgramAccounts with
-     * memcmp filters, then applies timestamp and optional geographic filters.
+     * a discriminator memcmp filter, then applies timestamp and optional
+     * geographic filters.
+     *
+     * Accounts are decoded through the shared IDL decoder, which throws an
+     * AccountLayoutError on any discriminator or size mismatch rather than
+     * returning garbage values when the program layout drifts.
      *
-     * Account data layout (after 8-byte Anchor discriminator):
-     *   device:          Pubkey  (32 bytes) offset  8
-     *   timestamp:       i64     ( 8 bytes) offset 40
-     *   signal_strength: i32     ( 4 bytes) offset 48
-     *   latency:         u32     ( 4 bytes) offset 52
-     *   throughput:      u64     ( 8 bytes) offset 56
-     *   availability:    f32     ( 4 bytes) offset 64
-     *   location.latitude:  f64  ( 8 bytes) offset 68
-     *   location.longitude: f64  ( 8 bytes) offset 76
-     *   location.accuracy:  f32  ( 4 bytes) offset 84
+     * The program accepts any values, so submissions that fail the SDK's
+     * measurement validation (including the submitting device type's
+     * plausibility rules) are dropped before they reach the aggregates.
      */
     private async getDataSubmissions(
         timeRange: { start: number; end: number },
         region?: { latitude: number; longitude: number; radius: number }
     ): Promise<DataSubmission[]> {
-        // Anchor discriminator for the DataSubmission account
-        // sha256("account:DataSubmission")[0..8]
-        const crypto = await import("crypto");
-        const discriminator = crypto
-            .createHash("sha256")
-            .update("account:DataSubmission")
-            .digest()
-            .subarray(0, 8);
-
-        const programId = this.solanaClient["program"].programId;
+        const programId = this.solanaClient.programId;
 
         // Fetch all DataSubmission accounts filtered by discriminator
         const accounts = await this.connection.getProgramAccounts(programId, {
-            filters: [
-                {
-                    memcmp: {
-                        offset: 0,
-                        bytes: Buffer.from(discriminator).toString("base64"),
-                        encoding: "base64" as any,
-                    },
-                },
-            ],
+            filters: [this.discriminatorFilter("DataSubmission")],
         });
 
         const dataSubmissions: DataSubmission[] = [];
-
-        for (const { account } of accounts) {
-            const data = account.data;
-
-            // Parse fields from the account data buffer
-            const device = new PublicKey(data.subarray(8, 40)).toString();
-            const timestamp = Number(data.readBigInt64LE(40));
-            const signalStrength = data.readInt32LE(48);
-            const latency = data.readUInt32LE(52);
-            const throughput = Number(data.readBigUInt64LE(56));
-            const availability = data.readFloatLE(64);
-            const latitude = data.readDoubleLE(68);
-            const longitude = data.readDoubleLE(76);
-            const accuracy = data.readFloatLE(84);
-
+        const deviceTypes =
+            accounts.length > 0 ? await this.getDeviceTypes() : new Map();
+        let rejected = 0;
+
+        // Accounts that do not decode count as invalid submissions
+        const submissions = decodeAccounts(
+            accounts,
+            (data) => accountDecoder.decodeDataSubmission(data),
+            () => rejected++
+        );
+        for (const { value: submission } of submissions) {
             // Filter by time range
-            if (timestamp < timeRange.start || timestamp > timeRange.end) {
+            if (
+                submission.timestamp < timeRange.start ||
+                submission.timestamp > timeRange.end
+            ) {
                 continue;
             }
 
@@ -222,28 +229,51 @@ export class CordaBridge {
                 const distance = this.calculateDistance(
                     region.latitude,
                     region.longitude,
-                    latitude,
-                    longitude
+                    submission.location.latitude,
+                    submission.location.longitude
                 );
                 if (distance > region.radius) {
                     continue;
                 }
             }
 
-            dataSubmissions.push({
-                device,
-                timestamp,
-                signalStrength,
-                latency,
-                throughput,
-                availability,
-                location: { latitude, longitude, accuracy },
-            });
+            if (
+                findQualityIssues(
+                    submission,
+                    deviceTypes.get(submission.device)
+                ).length > 0
+            ) {
+                rejected++;
+                continue;
+            }
+
+            dataSubmissions.push(submission);
+        }
+
+        if (rejected > 0) {
+            console.warn(`Skipped ${rejected} invalid data submissions`);
         }
 
         return dataSubmissions;
     }
 
+    /**
+     * Device type of every registered device, keyed by device address
+     */
+    private async getDeviceTypes(): Promise<Map<string, DeviceType>> {
+        const programId = this.solanaClient.programId;
+
+        const accounts = await this.connection.getProgramAccounts(programId, {
+            filters: [this.discriminatorFilter("Device")],
+        });
+
+        return new Map(
+            decodeAccounts(accounts, (data) =>
+                accountDecoder.decodeDevice(data)
+            ).map(({ address, value }) => [address, value.deviceType])
+        );
+    }
+
     /**
      * Process and aggregate data submissions
      */
@@ -374,6 +404,18 @@ export class CordaBridge {
         return R * c;
     }
 
+    private discriminatorFilter(
+        name: "Device" | "DataSubmission"
+    ): MemcmpFilter {
+        return {
+            memcmp: {
+                offset: 0,
+                bytes: accountDecoder.discriminator(name).toString("base64"),
+                encoding: "base64",
+            },
+        };
+    }
+
     private toRadians(degrees: number): number {
         return degrees * (Math.PI / 180);
     }
@@ -382,19 +424,7 @@ export class CordaBridge {
 /**
  * Data structures for Corda integration
  */
-export interface DataSubmission {
-    device: string;
-    timestamp: number;
-    signalStrength: number;
-    latency: number;
-    throughput: number;
-    availability: number;
-    location: {
-        latitude: number;
-        longitude: number;
-        accuracy: number;
-    };
-}
+export type { DataSubmission };
 
 export interface AggregatedNetworkData {
     region: {
@@ -414,7 +444,7 @@ export interface AggregatedNetworkData {
 /**
  * Corda API client for B2B transactions
  */
-export class CordaAPIClient {
+export class CordaAPIClient implements B2BBackend {
     private endpoint: string;
     private apiKey: string;
 
@@ -440,8 +470,10 @@ export class CordaAPIClient {
         );
 
         if (!response.ok) {
-            throw new Error(
-                `Failed to create roaming agreement: ${response.statusText}`
+            throw new CordaRequestError(
+                "Failed to create roaming agreement",
+                response.status,
+                response.statusText
             );
         }
 
@@ -450,9 +482,9 @@ export class CordaAPIClient {
     }
 
     /**
-     * Execute infrastructure sharing contract
+     * Create an infrastructure sharing contract
      */
-    async executeInfrastructureContract(
+    async createInfrastructureContract(
         contract: InfrastructureContract
     ): Promise<string> {
         const response = await fetch(
@@ -463,13 +495,21 @@ export class CordaAPIClient {
                     "Content-Type": "application/json",
                     Authorization: `Bearer ${this.apiKey}`,
                 },
-                body: JSON.stringify(contract),
+                body: JSON.stringify({
+                    ...contract,
+                    terms: {
+                        ...contract.terms,
+                        costUnit: contract.terms.costUnit ?? DEFAULT_COST_UNIT,
+                    },
+                }),
             }
         );
 
         if (!response.ok) {
-            throw new Error(
-                `Failed to execute infrastructure contract: ${response.statusText}`
+            throw new CordaRequestError(
+                "Failed to create infrastructure contract",
+                response.status,
+                response.statusText
             );
         }
 
@@ -477,6 +517,77 @@ export class CordaAPIClient {
         return result.contractId;
     }
 
+    /**
+     * Execute an active roaming agreement
+     */
+    async executeRoamingAgreement(agreementId: string): Promise<string> {
+        const response = await fetch(
+            `${this.endpoint}/api/v1/roaming-agreements/${encodeURIComponent(
+                agreementId
+            )}/execute`,
+            {
+                method: "POST",
+                headers: {
+                    Authorization: `Bearer ${this.apiKey}`,
+                },
+            }
+        );
+
+        if (!response.ok) {
+            throw new CordaRequestError(
+                "Failed to execute roaming agreement",
+                response.status,
+                response.statusText
+            );
+        }
+
+        const result = await response.json();
+        return result.transactionId;
+    }
+
+    /**
+     * Execute infrastructure sharing contract
+     *
+     * @deprecated Creates the contract; use createInfrastructureContract
+     */
+    async executeInfrastructureContract(
+        contract: InfrastructureContract
+    ): Promise<string> {
+        return this.createInfrastructureContract(contract);
+    }
+
+    /**
+     * Execute an active infrastructure sharing contract
+     */
+    async executeInfrastructureContractById(
+        contractId: string
+    ): Promise<string> {
+        const response = await fetch(
+            `${
+                this.endpoint
+            }/api/v1/infrastructure-contracts/${encodeURIComponent(
+                contractId
+            )}/execute`,
+            {
+                method: "POST",
+                headers: {
+                    Authorization: `Bearer ${this.apiKey}`,
+                },
+            }
+        );
+
+        if (!response.ok) {
+            throw new CordaRequestError(
+                "Failed to execute infrastructure contract",
+                response.status,
+                response.statusText
+            );
+        }
+
+        const result = await response.json();
+        return result.transactionId;
+    }
+
     /**
      * Get network quality insights for B2B decisions
      */
@@ -494,8 +605,10 @@ export class CordaAPIClient {
         );
 
         if (!response.ok) {
-            throw new Error(
-                `Failed to get network insights: ${response.statusText}`
+            throw new CordaRequestError(
+                "Failed to get network insights",
+                response.status,
+                response.statusText
             );
         }
 
@@ -503,48 +616,4 @@ export class CordaAPIClient {
     }
 }
 
-export interface RoamingAgreement {
-    partnerId: string;
-    region: string;
-    terms: {
-        dataSharing: boolean;
-        infrastructureAccess: boolean;
-        revenueSharing: number;
-        duration: number;
-    };
-    networkData: {
-        averageQuality: number;
-        coverageArea: number;
-        deviceCount: number;
-    };
-}
-
-export interface InfrastructureContract {
-    partnerId: string;
-    contractType: "tower_sharing" | "fiber_access" | "spectrum_sharing";
-    terms: {
-        duration: number;
-        cost: number;
-        performanceMetrics: string[];
-    };
-    networkRequirements: {
-        minimumQuality: number;
-        coverageArea: number;
-        uptimeRequirement: number;
-    };
-}
-
-export interface NetworkInsights {
-    region: string;
-    timeRange: { start: number; end: number };
-    metrics: {
-        averageQuality: number;
-        coverageDensity: number;
-        performanceTrends: number[];
-    };
-    recommendations: {
-        infrastructureInvestment: string[];
-        partnershipOpportunities: string[];
-        costOptimization: string[];
-    };
-}
+export type { RoamingAgreement, InfrastructureContract, NetworkInsights };
@@ -0,0 +1,181 @@
+/**
+ * Backend factory for DePINfinity
+ *
+ * Picks the mock or the real implementation of each side of the system from
+ * configuration, so the same app and demo scenarios can run against the
+ * mocks in CI and against a local validator / Corda node in staging.
+ */
+
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import {
+    B2BBackend,
+    DePINBackend,
+    DePINfinityClient,
+    RemoteSigner,
+    Signer,
+    SimulationClock,
+} from "../../sdk/src";
+import { CordaAPIClient } from "../../bridge/corda-bridge";
+import type { MockSolanaProgram } from "../../mock-solana/src";
+import type { MockCordaNetwork } from "../../mock-corda/src";
+import { loadDemoFixture } from "./fixtures";
+
+export type DePINBackendKind = "mock" | "solana";
+export type B2BBackendKind = "mock" | "corda";
+
+export interface BackendConfig {
+    depin: DePINBackendKind;
+    b2b: B2BBackendKind;
+    /** Solana RPC endpoint (solana backend) */
+    rpcUrl?: string;
+    /** Deployed program ID (solana backend) */
+    programId?: string;
+    /** Wallet used to sign transactions (solana backend) */
+    wallet?: Signer;
+    /** Signing daemon URL or Unix socket, used when no wallet is given */
+    signerEndpoint?: string;
+    /** Public key held by the signing daemon */
+    signerPublicKey?: string;
+    /** Path to a keypair file, used when there is no wallet or daemon */
+    walletPath?: string;
+    /** Corda API endpoint (corda backend) */
+    cordaEndpoint?: string;
+    /** Corda API key (corda backend) */
+    cordaApiKey?: string;
+    /** Seed of the mocks' simulations; set to replay a recorded run */
+    seed?: number;
+    /** Time source of the mocks (real time by default) */
+    clock?: SimulationClock;
+    /** Built-in fixture name or fixture file the mocks start from */
+    fixture?: string;
+}
+
+export interface Backends {
+    depin: DePINBackend;
+    b2b: B2BBackend;
+}
+
+/**
+ * Read backend configuration from environment variables.
+ * Both sides default to the mocks.
+ */
+export function backendConfigFromEnv(
+    env: Record<string, string | undefined> = process.env
+): BackendConfig {
+    return {
+        depin: env.DEPIN_BACKEND === "solana" ? "solana" : "mock",
+        b2b: env.B2B_BACKEND === "corda" ? "corda" : "mock",
+        rpcUrl: env.SOLANA_RPC_URL,
+        programId: env.PROGRAM_ID,
+        signerEndpoint: env.SIGNER_ENDPOINT,
+        signerPublicKey: env.SIGNER_PUBLIC_KEY,
+        walletPath: env.ANCHOR_WALLET,
+        cordaEndpoint: env.CORDA_ENDPOINT,
+        cordaApiKey: env.CORDA_API_KEY,
+        seed: env.DEMO_SEED ? Number(env.DEMO_SEED) : undefined,
+        fixture: env.DEMO_FIXTURE,
+    };
+}
+
+/**
+ * Create the DePIN and B2B backends described by the configuration
+ */
+export function createBackends(
+    config: BackendConfig = backendConfigFromEnv()
+): Backends {
+    const backends = {
+        depin: createDePINBackend(config),
+        b2b: createB2BBackend(config),
+    };
+
+    // Fixtures only seed the mocks; real backends keep their own state
+    if (config.fixture) {
+        const { solana, corda } = loadDemoFixture(config.fixture);
+        if (solana && config.depin === "mock") {
+            (backends.depin as MockSolanaProgram).restore(solana);
+        }
+        if (corda && config.b2b === "mock") {
+            (backends.b2b as MockCordaNetwork).restore(corda);
+        }
+    }
+
+    return backends;
+}
+
+function createDePINBackend(config: BackendConfig): DePINBackend {
+    if (config.depin === "mock") {
+        // Loaded lazily so the mock is never created in solana mode
+        const mock = require("../../mock-solana/src");
+        return isSimulationConfigured(config)
+            ? mock.createMockSolanaProgram(simulationOptions(config))
+            : mock.default;
+    }
+
+    if (!config.programId) {
+        throw new Error("PROGRAM_ID is required for the solana backend");
+    }
+
+    const connection = new Connection(
+        config.rpcUrl ?? "http://127.0.0.1:8899",
+        "confirmed"
+    );
+
+    return new DePINfinityClient(
+        connection,
+        config.wallet ?? createSigner(config),
+        new PublicKey(config.programId)
+    );
+}
+
+// Seeded or virtual-time runs get their own mocks; otherwise the shared
+// singletons are used
+function isSimulationConfigured(config: BackendConfig): boolean {
+    return config.seed !== undefined || config.clock !== undefined;
+}
+
+const simulationOptions = ({ seed, clock }: BackendConfig) => ({ seed, clock });
+
+function createSigner(config: BackendConfig): Signer {
+    if (!config.signerEndpoint) {
+        return new Wallet(loadKeypair(config.walletPath));
+    }
+    if (!config.signerPublicKey) {
+        throw new Error("SIGNER_PUBLIC_KEY is required with SIGNER_ENDPOINT");
+    }
+
+    // Anything that is not an http(s) URL is taken as a Unix socket path
+    const endpoint = config.signerEndpoint;
+    return new RemoteSigner(
+        new PublicKey(config.signerPublicKey),
+        /^https?:/.test(endpoint) ? { url: endpoint } : { socketPath: endpoint }
+    );
+}
+
+function createB2BBackend(config: BackendConfig): B2BBackend {
+    if (config.b2b === "mock") {
+        const mock = require("../../mock-corda/src");
+        return isSimulationConfigured(config)
+            ? mock.createMockCordaNetwork(simulationOptions(config))
+            : mock.default;
+    }
+
+    if (!config.cordaEndpoint || !config.cordaApiKey) {
+        throw new Error(
+            "CORDA_ENDPOINT and CORDA_API_KEY are required for the corda backend"
+        );
+    }
+
+    return new CordaAPIClient(config.cordaEndpoint, config.cordaApiKey);
+}
+
+function loadKeypair(walletPath?: string): Keypair {
+    if (!walletPath) {
+        throw new Error("ANCHOR_WALLET is required for the solana backend");
+    }
+
+    // Only needed on Node; React Native callers pass a wallet instead
+    const fs = require("fs");
+    const keypairData = JSON.parse(fs.readFileSync(walletPath, "utf8"));
+    return Keypair.fromSecretKey(new Uint8Array(keypairData));
+}
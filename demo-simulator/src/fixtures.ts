@@ -0,0 +1,156 @@
+/**
+ * Named fixtures for the demo
+ *
+ * A fixture is a pair of mock snapshots the demo starts from instead of an
+ * empty network. Built-in fixtures are generated from a fixed seed, so
+ * they are the same on every run; any other name is read as the path of a
+ * fixture JSON file.
+ */
+
+import { DeviceType, SNAPSHOT_VERSION, seededRandom } from "../../sdk/src";
+import type { Device, MockSolanaSnapshot } from "../../mock-solana/src";
+import type { MockCordaSnapshot, RoamingAgreement } from "../../mock-corda/src";
+
+export interface DemoFixture {
+    /** State of the mock Solana program */
+    solana?: MockSolanaSnapshot;
+    /** State of the mock Corda network */
+    corda?: MockCordaSnapshot;
+}
+
+export interface DemoFixtureDefinition {
+    description: string;
+    build(): DemoFixture;
+}
+
+export const DEMO_FIXTURES: Record<string, DemoFixtureDefinition> = {
+    "tokyo-500": {
+        description: "Tokyo: 500 devices, 3 active agreements",
+        build: () => cityFixture(TOKYO, 500, 3),
+    },
+    "osaka-50": {
+        description: "Osaka: 50 devices, 1 active agreement",
+        build: () => cityFixture(OSAKA, 50, 1),
+    },
+};
+
+/**
+ * Build a built-in fixture by name, or read a fixture file
+ */
+export function loadDemoFixture(nameOrPath: string): DemoFixture {
+    const definition = DEMO_FIXTURES[nameOrPath];
+    if (definition) {
+        return definition.build();
+    }
+
+    // Only needed on Node; React Native callers use the built-in fixtures
+    const fs = require("fs");
+    if (!fs.existsSync(nameOrPath)) {
+        throw new Error(
+            `Unknown demo fixture: ${nameOrPath} (built-in: ${Object.keys(
+                DEMO_FIXTURES
+            ).join(", ")})`
+        );
+    }
+    return JSON.parse(fs.readFileSync(nameOrPath, "utf8"));
+}
+
+interface City {
+    region: string;
+    latitude: number;
+    longitude: number;
+}
+
+const TOKYO: City = { region: "Tokyo", latitude: 35.6762, longitude: 139.6503 };
+const OSAKA: City = { region: "Osaka", latitude: 34.6937, longitude: 135.5023 };
+
+/** Time the built-in fixtures were taken at (2024-01-01T00:00:00Z) */
+const FIXTURE_TIME = Date.UTC(2024, 0, 1);
+const FIXTURE_SEED = 20240101;
+
+const DEVICE_TYPES: DeviceType[] = [
+    "Smartphone",
+    "Router",
+    "IoTDevice",
+    "Hotspot",
+];
+const PARTNERS = ["softbank_mobile", "kddi_au", "ntt_docomo", "rakuten_mobile"];
+
+// Freshly registered devices around a city, with agreements already
+// active so the B2B simulation has something to execute
+function cityFixture(
+    city: City,
+    deviceCount: number,
+    agreementCount: number
+): DemoFixture {
+    const random = seededRandom(FIXTURE_SEED);
+    const prefix = city.region.toLowerCase();
+
+    const devices: Device[] = Array.from({ length: deviceCount }, (_, i) => {
+        const deviceId = `${prefix}_device_${i + 1}`;
+        return {
+            id: deviceId,
+            deviceId,
+            owner: `${prefix}_owner_${(i % 50) + 1}`,
+            deviceType: DEVICE_TYPES[i % DEVICE_TYPES.length],
+            location: {
+                latitude: city.latitude + (random() - 0.5) * 0.2,
+                longitude: city.longitude + (random() - 0.5) * 0.2,
+                accuracy: 5 + random() * 45,
+            },
+            isActive: random() < 0.9,
+            totalUptime: 0,
+            totalRewardsEarned: 0,
+            lastActivity: FIXTURE_TIME / 1000,
+            submissionCount: 0,
+        };
+    });
+
+    const roamingAgreements: RoamingAgreement[] = Array.from(
+        { length: agreementCount },
+        (_, i) => ({
+            id: `agreement_${prefix}_${i + 1}`,
+            partnerId: PARTNERS[i % PARTNERS.length],
+            region: city.region,
+            terms: {
+                dataSharing: true,
+                infrastructureAccess: i % 2 === 0,
+                revenueSharing: 10 + i * 2.5,
+                duration: 12,
+            },
+            networkData: {
+                averageQuality: 0.85 + random() * 0.13,
+                coverageArea: 1000,
+                deviceCount,
+            },
+            status: "ACTIVE",
+            creationTime: FIXTURE_TIME,
+            lastExecutionTime: FIXTURE_TIME,
+        })
+    );
+
+    return {
+        solana: {
+            version: SNAPSHOT_VERSION,
+            kind: "mock-solana",
+            createdAt: FIXTURE_TIME,
+            devices,
+            programState: {
+                authority: "mock_authority",
+                totalDevices: deviceCount,
+                totalRewardsDistributed: 0,
+                isActive: true,
+            },
+            rewardVault: 1000000000,
+            submissions: [],
+        },
+        corda: {
+            version: SNAPSHOT_VERSION,
+            kind: "mock-corda",
+            createdAt: FIXTURE_TIME,
+            networkData: [],
+            roamingAgreements,
+            infrastructureContracts: [],
+        },
+    };
+}
@@ -5,9 +5,18 @@
  * for hackathon demonstration purposes.
  */
 
-// Import mock services - these will be resolved at runtime
-const mockSolanaProgram = require("../mock-solana/src");
-const mockCordaNetwork = require("../mock-corda/src");
+import { EventEmitter } from "events";
+import {
+    SimulationClock,
+    VirtualClock,
+    systemSimulationClock,
+} from "../../sdk/src";
+import {
+    Backends,
+    BackendConfig,
+    backendConfigFromEnv,
+    createBackends,
+} from "./backends";
 
 export interface DemoScenario {
     name: string;
@@ -26,12 +35,40 @@ export interface DemoAction {
     data: any;
 }
 
-class DemoSimulator {
+// Demo-only helpers that only the mock backends provide
+interface MockBackend {
+    reset(): void;
+    getNetworkStats(): any;
+    start(): void;
+    stop(): void;
+}
+
+function isMockBackend(backend: object): backend is MockBackend {
+    return (
+        typeof (backend as Partial<MockBackend>).reset === "function" &&
+        typeof (backend as Partial<MockBackend>).getNetworkStats ===
+            "function" &&
+        typeof (backend as Partial<MockBackend>).start === "function" &&
+        typeof (backend as Partial<MockBackend>).stop === "function"
+    );
+}
+
+/** Virtual start time of replayed runs (2024-01-01T00:00:00Z) */
+export const DEMO_EPOCH = Date.UTC(2024, 0, 1);
+
+export class DemoSimulator {
     private isRunning: boolean = false;
     private currentScenario: DemoScenario | null = null;
-    private actionTimeouts: NodeJS.Timeout[] = [];
+    private actionTimeouts: unknown[] = [];
+    private backends: Backends;
+    private clock: SimulationClock;
 
-    constructor() {
+    constructor(
+        backends: Backends = createBackends(),
+        clock: SimulationClock = systemSimulationClock
+    ) {
+        this.backends = backends;
+        this.clock = clock;
         this.setupEventListeners();
     }
 
@@ -48,7 +85,8 @@ class DemoSimulator {
         console.log("🎬 Starting DePINfinity Demo Simulation");
 
         // Initialize systems
-        await mockSolanaProgram.initialize();
+        this.mockBackends().forEach((backend) => backend.start());
+        await this.backends.depin.initialize();
 
         // Create demo scenarios
         const scenarios = this.createDemoScenarios();
@@ -58,6 +96,7 @@ class DemoSimulator {
             await this.runScenario(scenario);
         }
 
+        this.mockBackends().forEach((backend) => backend.stop());
         console.log("🎬 Demo simulation completed");
         this.isRunning = false;
     }
@@ -235,7 +274,7 @@ class DemoSimulator {
 
         // Execute actions with delays
         for (const action of scenario.actions) {
-            const timeout = setTimeout(async () => {
+            const timeout = this.clock.setTimeout(async () => {
                 await this.executeAction(action);
             }, action.delay);
 
@@ -243,10 +282,14 @@ class DemoSimulator {
         }
 
         // Wait for scenario to complete
-        await new Promise((resolve) => setTimeout(resolve, scenario.duration));
+        await new Promise((resolve) =>
+            this.clock.setTimeout(() => resolve(undefined), scenario.duration)
+        );
 
         // Clear timeouts
-        this.actionTimeouts.forEach((timeout) => clearTimeout(timeout));
+        this.actionTimeouts.forEach((timeout) =>
+            this.clock.clearTimeout(timeout)
+        );
         this.actionTimeouts = [];
     }
 
@@ -257,7 +300,7 @@ class DemoSimulator {
         try {
             switch (action.type) {
                 case "register_device":
-                    await mockSolanaProgram.registerDevice(
+                    await this.backends.depin.registerDevice(
                         action.data.deviceId,
                         action.data.deviceType,
                         action.data.location,
@@ -269,7 +312,7 @@ class DemoSimulator {
                     break;
 
                 case "submit_data":
-                    await mockSolanaProgram.submitData(
+                    await this.backends.depin.submitData(
                         action.data.deviceId,
                         action.data.qualityData
                     );
@@ -279,19 +322,14 @@ class DemoSimulator {
                     break;
 
                 case "create_agreement":
-                    await mockCordaNetwork.createRoamingAgreement(
-                        action.data.partnerId,
-                        action.data.region,
-                        action.data.terms,
-                        action.data.networkData
-                    );
+                    await this.backends.b2b.createRoamingAgreement(action.data);
                     console.log(
                         `🤝 Roaming agreement created with: ${action.data.partnerId}`
                     );
                     break;
 
                 case "execute_contract":
-                    await mockCordaNetwork.executeInfrastructureContract(
+                    await this.backends.b2b.executeInfrastructureContractById(
                         action.data.contractId
                     );
                     console.log(
@@ -308,25 +346,30 @@ class DemoSimulator {
      * Setup event listeners for demo feedback
      */
     private setupEventListeners(): void {
-        mockSolanaProgram.on("deviceRegistered", (device: any) => {
+        const { depin, b2b } = this.backends;
+
+        depin.on("deviceRegistered", (device) => {
             console.log(
-                `✅ Device registered: ${device.id} (${device.deviceType})`
+                `✅ Device registered: ${device.deviceId} (${device.deviceType})`
             );
         });
 
-        mockSolanaProgram.on("dataSubmitted", (data: any) => {
+        depin.on("dataSubmitted", (data) => {
             console.log(
                 `📊 Data submitted: ${data.deviceId}, reward: ${data.rewardAmount} tokens`
             );
         });
 
-        mockCordaNetwork.on("roamingAgreementCreated", (agreement: any) => {
+        // Only the mock Corda network pushes events; the REST client does not
+        if (!(b2b instanceof EventEmitter)) return;
+
+        b2b.on("roamingAgreementCreated", (agreement: any) => {
             console.log(
                 `🤝 Roaming agreement created: ${agreement.id} with ${agreement.partnerId}`
             );
         });
 
-        mockCordaNetwork.on("roamingAgreementExecuted", (data: any) => {
+        b2b.on("roamingAgreementExecuted", (data: any) => {
             console.log(
                 `💰 Agreement executed: ${data.agreement.id}, revenue: $${data.revenue}`
             );
@@ -338,8 +381,11 @@ class DemoSimulator {
      */
     stopDemo(): void {
         this.isRunning = false;
-        this.actionTimeouts.forEach((timeout) => clearTimeout(timeout));
+        this.actionTimeouts.forEach((timeout) =>
+            this.clock.clearTimeout(timeout)
+        );
         this.actionTimeouts = [];
+        this.mockBackends().forEach((backend) => backend.stop());
         console.log("🛑 Demo simulation stopped");
     }
 
@@ -348,11 +394,15 @@ class DemoSimulator {
      */
     resetDemo(): void {
         this.stopDemo();
-        mockSolanaProgram.reset();
-        mockCordaNetwork.reset();
+        this.mockBackends().forEach((backend) => backend.reset());
         console.log("🔄 Demo state reset");
     }
 
+    private mockBackends(): MockBackend[] {
+        const backends: object[] = [this.backends.depin, this.backends.b2b];
+        return backends.filter(isMockBackend);
+    }
+
     /**
      * Get demo statistics
      */
@@ -362,13 +412,47 @@ class DemoSimulator {
         isRunning: boolean;
     } {
         return {
-            solanaStats: mockSolanaProgram.getNetworkStats(),
-            cordaStats: mockCordaNetwork.getNetworkStats(),
+            solanaStats: isMockBackend(this.backends.depin)
+                ? this.backends.depin.getNetworkStats()
+                : null,
+            cordaStats: isMockBackend(this.backends.b2b)
+                ? this.backends.b2b.getNetworkStats()
+                : null,
             isRunning: this.isRunning,
         };
     }
 }
 
+/**
+ * Run the whole demo against seeded mocks in virtual time. It finishes
+ * without waiting on real timers, and the same seed always produces the
+ * same run, down to every line logged.
+ */
+export async function replayDemo(
+    seed: number,
+    config: BackendConfig = backendConfigFromEnv()
+): Promise<DemoSimulator> {
+    const clock = new VirtualClock(DEMO_EPOCH);
+    const simulator = new DemoSimulator(
+        createBackends({ ...config, depin: "mock", b2b: "mock", seed, clock }),
+        clock
+    );
+
+    await clock.run(simulator.startDemo());
+    return simulator;
+}
+
 // Export singleton instance
 export const demoSimulator = new DemoSimulator();
 export default demoSimulator;
+
+// `DEMO_SEED=<seed> ts-node src/index.ts` replays a recorded run
+if (require.main === module) {
+    const { seed } = backendConfigFromEnv();
+    const run =
+        seed === undefined ? demoSimulator.startDemo() : replayDemo(seed);
+    run.catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
+}
@@ -12,38 +12,33 @@ import {
     Switch,
     Dimensions,
 } from "react-native";
-// Mock services for demo - these will be resolved at runtime
-const mockSolanaProgram = require("../mock-solana/src");
-const mockCordaNetwork = require("../mock-corda/src");
-const demoSimulator = require("../demo-simulator/src");
-
-// Type definitions
-interface Device {
-    id: string;
-    owner: string;
-    deviceType: "Smartphone" | "Router" | "IoTDevice" | "Hotspot";
-    location: {
-        latitude: number;
-        longitude: number;
-        accuracy: number;
-    };
-    isActive: boolean;
-    totalUptime: number;
-    totalRewardsEarned: number;
-    lastActivity: number;
-}
-
-interface NetworkData {
-    signalStrength: number;
-    latency: number;
-    throughput: number;
-    availability: number;
-    location: {
-        latitude: number;
-        longitude: number;
-        accuracy: number;
-    };
-}
+// Backends are picked from configuration (mocks by default) - these will be
+// resolved at runtime
+const { createBackends } = require("../demo-simulator/src/backends");
+const { DemoSimulator } = require("../demo-simulator/src");
+const { depin, b2b } = createBackends();
+const demoSimulator = new DemoSimulator({ depin, b2b });
+
+// Device location, coarsened before it is submitted. Without a geolocation
+// API (e.g. in the simulator) the demo reports a fixed Tokyo location.
+const {
+    ReactNativeLocationProvider,
+    StaticLocationProvider,
+    withLocationPrivacy,
+} = require("../sdk/src/location");
+const locationProvider = withLocationPrivacy(
+    typeof navigator !== "undefined" && navigator.geolocation
+        ? new ReactNativeLocationProvider(navigator.geolocation)
+        : new StaticLocationProvider({
+              latitude: 35.6762,
+              longitude: 139.6503,
+              accuracy: 100,
+          }),
+    { precisionMeters: 100 }
+);
+
+// Shared account shapes from the mock / SDK
+import type { Device, NetworkData } from "../mock-solana/src";
 
 const { width, height } = Dimensions.get("window");
 
@@ -70,36 +65,39 @@ const App: React.FC = () => {
 
     const initializeConnection = async () => {
         try {
-            // Initialize mock services
-            await mockSolanaProgram.initialize();
+            // Initialize the DePIN backend
+            await depin.initialize();
             setIsConnected(true);
 
             // Set up event listeners
-            mockSolanaProgram.on("deviceRegistered", (device: Device) => {
+            depin.on("deviceRegistered", (device: Device) => {
                 console.log("Device registered:", device);
                 loadDeviceStats();
             });
 
-            mockSolanaProgram.on("dataSubmitted", (data: any) => {
+            depin.on("dataSubmitted", (data: any) => {
                 console.log("Data submitted:", data);
                 setNetworkData(data.qualityData);
                 loadDeviceStats();
             });
 
-            mockSolanaProgram.on("deviceUpdated", (device: Device) => {
+            depin.on("deviceUpdated", (device: Device) => {
                 console.log("Device updated:", device);
                 loadDeviceStats();
             });
 
-            mockCordaNetwork.on("networkDataMigrated", (data: any) => {
-                console.log("Network data migrated to Corda:", data);
-                loadB2bStats();
-            });
+            // Only the mock Corda network pushes events
+            if (typeof b2b.on === "function") {
+                b2b.on("networkDataMigrated", (data: any) => {
+                    console.log("Network data migrated to Corda:", data);
+                    loadB2bStats();
+                });
 
-            mockCordaNetwork.on("roamingAgreementExecuted", (data: any) => {
-                console.log("Roaming agreement executed:", data);
-                loadB2bStats();
-            });
+                b2b.on("roamingAgreementExecuted", (data: any) => {
+                    console.log("Roaming agreement executed:", data);
+                    loadB2bStats();
+                });
+            }
 
             // Load initial stats
             await loadDeviceStats();
@@ -115,7 +113,7 @@ const App: React.FC = () => {
 
     const loadDeviceStats = async () => {
         try {
-            const device = await mockSolanaProgram.getDevice(deviceId);
+            const device = await depin.getDevice(deviceId);
             if (device) {
                 setDeviceStats({
                     totalUptime: device.totalUptime,
@@ -131,7 +129,8 @@ const App: React.FC = () => {
 
     const loadB2bStats = async () => {
         try {
-            const stats = mockCordaNetwork.getNetworkStats();
+            if (typeof b2b.getNetworkStats !== "function") return;
+            const stats = b2b.getNetworkStats();
             setB2bStats(stats);
         } catch (error) {
             console.log("B2B stats not available");
@@ -143,7 +142,7 @@ const App: React.FC = () => {
             const deviceType = "Smartphone";
             const location = await getCurrentLocation();
 
-            await mockSolanaProgram.registerDevice(
+            await depin.registerDevice(
                 deviceId,
                 deviceType,
                 location,
@@ -157,41 +156,7 @@ const App: React.FC = () => {
         }
     };
 
-    const getCurrentLocation = async (): Promise<{
-        latitude: number;
-        longitude: number;
-        accuracy: number;
-    }> => {
-        return new Promise((resolve, reject) => {
-            if (typeof navigator !== "undefined" && navigator.geolocation) {
-                navigator.geolocation.getCurrentPosition(
-                    (position: any) => {
-                        resolve({
-                            latitude: position.coords.latitude,
-                            longitude: position.coords.longitude,
-                            accuracy: position.coords.accuracy,
-                        });
-                    },
-                    (error: any) => {
-                        console.error("Geolocation error:", error);
-                        // Fallback to Tokyo coordinates
-                        resolve({
-                            latitude: 35.6762,
-                            longitude: 139.6503,
-                            accuracy: 100,
-                        });
-                    }
-                );
-            } else {
-                // Fallback to Tokyo coordinates for demo
-                resolve({
-                    latitude: 35.6762,
-                    longitude: 139.6503,
-                    accuracy: 100,
-                });
-            }
-        });
-    };
+    const getCurrentLocation = () => locationProvider.getLocation();
 
     const toggleDataCollection = async () => {
         if (isDataCollectionActive) {
@@ -226,7 +191,7 @@ const App: React.FC = () => {
                 location,
             };
 
-            await mockSolanaProgram.submitData(deviceId, qualityData);
+            await depin.submitData(deviceId, qualityData);
             setNetworkData(qualityData);
             await loadDeviceStats();
         } catch (error) {
@@ -238,8 +203,9 @@ const App: React.FC = () => {
         return tokens.toFixed(2); // Format token rewards
     };
 
+    // Device timestamps are Unix seconds, as on-chain
     const formatTime = (timestamp: number) => {
-        return new Date(timestamp).toLocaleString();
+        return new Date(timestamp * 1000).toLocaleString();
     };
 
     const startDemo = async () => {
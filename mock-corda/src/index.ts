@@ -6,6 +6,37 @@
  */
 
 import { EventEmitter } from "events";
+import type { B2BBackend } from "../../sdk/src/backend";
+import type {
+    RoamingAgreement as RoamingAgreementRequest,
+    InfrastructureContract as InfrastructureContractRequest,
+} from "../../sdk/src/types/b2b";
+import { DEFAULT_COST_UNIT } from "../../sdk/src/types/b2b";
+import {
+    AgreementInactiveError,
+    AgreementNotFoundError,
+    ContractInactiveError,
+    ContractNotFoundError,
+} from "../../sdk/src/errors";
+import {
+    RandomSource,
+    SNAPSHOT_VERSION,
+    SimulationClock,
+    SimulationOptions,
+    SnapshotHeader,
+    checkSnapshot,
+    randomSeed,
+    readSnapshotFile,
+    seededRandom,
+    systemSimulationClock,
+    writeSnapshotFile,
+} from "../../sdk/src/simulation";
+import {
+    LedgerTransaction,
+    TransactionFilter,
+    TransactionLedger,
+    mockTransactionHash,
+} from "../../sdk/src/ledger";
 
 export interface NetworkData {
     region: string;
@@ -78,16 +109,40 @@ export interface B2BInsights {
     };
 }
 
-class MockCordaNetwork extends EventEmitter {
+/**
+ * Saved state of a MockCordaNetwork
+ */
+export interface MockCordaSnapshot extends SnapshotHeader {
+    kind: "mock-corda";
+    networkData: NetworkData[];
+    roamingAgreements: RoamingAgreement[];
+    infrastructureContracts: InfrastructureContract[];
+    /** Missing in snapshots written before the ledger existed */
+    transactions?: LedgerTransaction[];
+}
+
+export class MockCordaNetwork extends EventEmitter implements B2BBackend {
     private networkData: NetworkData[] = [];
     private roamingAgreements: Map<string, RoamingAgreement> = new Map();
     private infrastructureContracts: Map<string, InfrastructureContract> =
         new Map();
-    private isSimulating: boolean = false;
-
-    constructor() {
+    private simulation: unknown = null;
+    private clock: SimulationClock;
+    private random: RandomSource;
+    private ledger: TransactionLedger;
+    /** Seed of the simulated transactions; log it to replay a run */
+    readonly seed: number;
+
+    constructor(options: SimulationOptions = {}) {
         super();
-        this.startB2BSimulation();
+        this.clock = options.clock ?? systemSimulationClock;
+        this.seed = options.seed ?? randomSeed();
+        this.random = seededRandom(this.seed);
+        this.ledger = new TransactionLedger(
+            this.clock,
+            mockTransactionHash,
+            this.seed
+        );
     }
 
     /**
@@ -105,7 +160,7 @@ class MockCordaNetwork extends EventEmitter {
         const aggregatedData: NetworkData = {
             region,
             metrics: this.aggregateMetrics(solanaData),
-            timestamp: Date.now(),
+            timestamp: this.clock.now(),
         };
 
         this.networkData.push(aggregatedData);
@@ -113,29 +168,30 @@ class MockCordaNetwork extends EventEmitter {
         console.log(`📊 Network data migrated for region: ${region}`);
         this.emit("networkDataMigrated", aggregatedData);
 
-        return "mock_corda_tx_migrate_123";
+        return this.recordTransaction(
+            "migrateNetworkDataFromSolana",
+            region,
+            { region, dataPoints: solanaData.length },
+            aggregatedData
+        );
     }
 
     /**
      * Create roaming agreement
      */
     async createRoamingAgreement(
-        partnerId: string,
-        region: string,
-        terms: any,
-        networkData: any
+        request: RoamingAgreementRequest
     ): Promise<string> {
-        const agreementId = `agreement_${Date.now()}`;
+        const { partnerId } = request;
+        // The ledger sequence keeps IDs unique when the clock stands still
+        const agreementId = `agreement_${this.clock.now()}_${this.ledger.nextSequence}`;
 
         const agreement: RoamingAgreement = {
             id: agreementId,
-            partnerId,
-            region,
-            terms,
-            networkData,
+            ...request,
             status: "PENDING",
-            creationTime: Date.now(),
-            lastExecutionTime: Date.now(),
+            creationTime: this.clock.now(),
+            lastExecutionTime: this.clock.now(),
         };
 
         this.roamingAgreements.set(agreementId, agreement);
@@ -144,6 +200,12 @@ class MockCordaNetwork extends EventEmitter {
             `🤝 Roaming agreement created: ${agreementId} with ${partnerId}`
         );
         this.emit("roamingAgreementCreated", agreement);
+        this.recordTransaction(
+            "createRoamingAgreement",
+            agreementId,
+            request,
+            agreement
+        );
 
         return agreementId;
     }
@@ -152,22 +214,23 @@ class MockCordaNetwork extends EventEmitter {
      * Create infrastructure contract
      */
     async createInfrastructureContract(
-        partnerId: string,
-        contractType: string,
-        terms: any,
-        networkRequirements: any
+        request: InfrastructureContractRequest
     ): Promise<string> {
-        const contractId = `contract_${Date.now()}`;
+        const { partnerId } = request;
+        const contractId = `contract_${this.clock.now()}_${this.ledger.nextSequence}`;
 
         const contract: InfrastructureContract = {
             id: contractId,
-            partnerId,
-            contractType: contractType as any,
-            terms,
-            networkRequirements,
+            ...request,
+            terms: {
+                ...request.terms,
+                costUnit: request.terms.costUnit ?? DEFAULT_COST_UNIT,
+            },
+            contractType:
+                request.contractType.toUpperCase() as InfrastructureContract["contractType"],
             status: "PENDING",
-            creationTime: Date.now(),
-            lastExecutionTime: Date.now(),
+            creationTime: this.clock.now(),
+            lastExecutionTime: this.clock.now(),
         };
 
         this.infrastructureContracts.set(contractId, contract);
@@ -176,6 +239,12 @@ class MockCordaNetwork extends EventEmitter {
             `🏗️ Infrastructure contract created: ${contractId} with ${partnerId}`
         );
         this.emit("infrastructureContractCreated", contract);
+        this.recordTransaction(
+            "createInfrastructureContract",
+            contractId,
+            request,
+            contract
+        );
 
         return contractId;
     }
@@ -186,23 +255,37 @@ class MockCordaNetwork extends EventEmitter {
     async executeRoamingAgreement(agreementId: string): Promise<string> {
         const agreement = this.roamingAgreements.get(agreementId);
         if (!agreement) {
-            throw new Error("Roaming agreement not found");
+            throw new AgreementNotFoundError(agreementId);
         }
 
         if (agreement.status !== "ACTIVE") {
-            throw new Error("Agreement is not active");
+            throw new AgreementInactiveError(agreementId);
         }
 
         // Simulate agreement execution
         const revenue = this.calculateRevenue(agreement);
-        agreement.lastExecutionTime = Date.now();
+        agreement.lastExecutionTime = this.clock.now();
 
         console.log(
             `💰 Roaming agreement executed: ${agreementId}, revenue: ${revenue}`
         );
         this.emit("roamingAgreementExecuted", { agreement, revenue });
 
-        return "mock_corda_tx_execute_agreement_123";
+        return this.recordTransaction(
+            "executeRoamingAgreement",
+            agreementId,
+            { agreementId },
+            { revenue }
+        );
+    }
+
+    /**
+     * Execute infrastructure contract by ID, as B2BBackend names it
+     */
+    async executeInfrastructureContractById(
+        contractId: string
+    ): Promise<string> {
+        return this.executeInfrastructureContract(contractId);
     }
 
     /**
@@ -211,23 +294,61 @@ class MockCordaNetwork extends EventEmitter {
     async executeInfrastructureContract(contractId: string): Promise<string> {
         const contract = this.infrastructureContracts.get(contractId);
         if (!contract) {
-            throw new Error("Infrastructure contract not found");
+            throw new ContractNotFoundError(contractId);
         }
 
         if (contract.status !== "ACTIVE") {
-            throw new Error("Contract is not active");
+            throw new ContractInactiveError(contractId);
         }
 
         // Simulate contract execution
         const cost = this.calculateInfrastructureCost(contract);
-        contract.lastExecutionTime = Date.now();
+        contract.lastExecutionTime = this.clock.now();
 
         console.log(
             `🏗️ Infrastructure contract executed: ${contractId}, cost: ${cost}`
         );
         this.emit("infrastructureContractExecuted", { contract, cost });
 
-        return "mock_corda_tx_execute_contract_123";
+        return this.recordTransaction(
+            "executeInfrastructureContract",
+            contractId,
+            { contractId },
+            { cost }
+        );
+    }
+
+    /**
+     * Get a transaction by the hash its flow returned
+     */
+    async getTransaction(hash: string): Promise<LedgerTransaction | null> {
+        return this.ledger.get(hash);
+    }
+
+    /**
+     * Get the network's transactions, newest first
+     */
+    async listTransactions(
+        filter: TransactionFilter = {}
+    ): Promise<LedgerTransaction[]> {
+        return this.ledger.list(filter);
+    }
+
+    // Only completed flows reach the ledger, like notarised transactions
+    private recordTransaction(
+        operation: string,
+        subject: string | null,
+        payload: unknown,
+        result: unknown
+    ): string {
+        const transaction = this.ledger.record(
+            operation,
+            subject,
+            payload,
+            result
+        );
+        this.emit("transactionRecorded", transaction);
+        return transaction.id;
     }
 
     /**
@@ -235,9 +356,9 @@ class MockCordaNetwork extends EventEmitter {
      */
     async getNetworkInsights(
         region: string,
-        startTime: number,
-        endTime: number
+        timeRange: { start: number; end: number }
     ): Promise<B2BInsights> {
+        const { start: startTime, end: endTime } = timeRange;
         const relevantData = this.networkData.filter(
             (data) =>
                 data.region === region &&
@@ -311,7 +432,7 @@ class MockCordaNetwork extends EventEmitter {
     }> {
         const agreement = this.roamingAgreements.get(agreementId);
         if (!agreement) {
-            throw new Error("Roaming agreement not found");
+            throw new AgreementNotFoundError(agreementId);
         }
 
         const totalRevenue = usageData.dataUsage * usageData.costPerMB;
@@ -434,25 +555,33 @@ class MockCordaNetwork extends EventEmitter {
     }
 
     /**
-     * Start B2B simulation for demo
+     * Start executing simulated B2B transactions every 2 minutes
      */
-    private startB2BSimulation(): void {
-        if (this.isSimulating) return;
-
-        this.isSimulating = true;
+    start(): void {
+        if (this.simulation !== null) return;
 
-        // Simulate B2B transactions every 2 minutes
-        setInterval(() => {
+        this.simulation = this.clock.setInterval(() => {
             this.simulateB2BTransactions();
         }, 120000);
 
-        console.log("🔄 B2B simulation started");
+        console.log(`🔄 B2B simulation started (seed ${this.seed})`);
+    }
+
+    /**
+     * Stop the B2B simulation
+     */
+    stop(): void {
+        if (this.simulation === null) return;
+
+        this.clock.clearInterval(this.simulation);
+        this.simulation = null;
+        console.log("⏹️ B2B simulation stopped");
     }
 
     /**
      * Simulate B2B transactions for demo
      */
-    private simulateB2BTransactions(): void {
+    private async simulateB2BTransactions(): Promise<void> {
         const activeAgreements = Array.from(
             this.roamingAgreements.values()
         ).filter((agreement) => agreement.status === "ACTIVE");
@@ -465,18 +594,29 @@ class MockCordaNetwork extends EventEmitter {
         if (activeAgreements.length > 0) {
             const randomAgreement =
                 activeAgreements[
-                    Math.floor(Math.random() * activeAgreements.length)
+                    Math.floor(this.random() * activeAgreements.length)
                 ];
-            this.executeRoamingAgreement(randomAgreement.id);
+            try {
+                await this.executeRoamingAgreement(randomAgreement.id);
+            } catch (error) {
+                console.error("Error simulating roaming agreement:", error);
+            }
         }
 
         // Simulate contract execution
         if (activeContracts.length > 0) {
             const randomContract =
                 activeContracts[
-                    Math.floor(Math.random() * activeContracts.length)
+                    Math.floor(this.random() * activeContracts.length)
                 ];
-            this.executeInfrastructureContract(randomContract.id);
+            try {
+                await this.executeInfrastructureContract(randomContract.id);
+            } catch (error) {
+                console.error(
+                    "Error simulating infrastructure contract:",
+                    error
+                );
+            }
         }
     }
 
@@ -515,10 +655,82 @@ class MockCordaNetwork extends EventEmitter {
         this.networkData = [];
         this.roamingAgreements.clear();
         this.infrastructureContracts.clear();
+        this.ledger.clear();
+        // Replaying from a reset repeats the same random choices
+        this.random = seededRandom(this.seed);
         console.log("🔄 Mock Corda network reset");
     }
+
+    /**
+     * Copy of the network's state, to restore later
+     */
+    snapshot(): MockCordaSnapshot {
+        const snapshot: MockCordaSnapshot = {
+            version: SNAPSHOT_VERSION,
+            kind: "mock-corda",
+            createdAt: this.clock.now(),
+            networkData: this.networkData,
+            roamingAgreements: Array.from(this.roamingAgreements.values()),
+            infrastructureContracts: Array.from(
+                this.infrastructureContracts.values()
+            ),
+            transactions: this.ledger.entries(),
+        };
+        return JSON.parse(JSON.stringify(snapshot));
+    }
+
+    /**
+     * Replace the network's state with a snapshot
+     */
+    restore(snapshot: MockCordaSnapshot): void {
+        checkSnapshot(snapshot, "mock-corda");
+        const state: MockCordaSnapshot = JSON.parse(JSON.stringify(snapshot));
+
+        this.networkData = state.networkData;
+        this.roamingAgreements = new Map(
+            state.roamingAgreements.map((agreement) => [
+                agreement.id,
+                agreement,
+            ])
+        );
+        this.infrastructureContracts = new Map(
+            state.infrastructureContracts.map((contract) => [
+                contract.id,
+                contract,
+            ])
+        );
+        this.ledger.load(state.transactions ?? []);
+
+        console.log(
+            `📦 Mock Corda network restored: ${this.roamingAgreements.size} agreements, ${this.infrastructureContracts.size} contracts`
+        );
+    }
+
+    /**
+     * Write a snapshot of the network's state to a JSON file (Node only)
+     */
+    async saveSnapshot(filePath: string): Promise<void> {
+        await writeSnapshotFile(filePath, this.snapshot());
+    }
+
+    /**
+     * Restore the network's state from a snapshot file (Node only)
+     */
+    async loadSnapshot(filePath: string): Promise<void> {
+        this.restore(await readSnapshotFile<MockCordaSnapshot>(filePath));
+    }
+}
+
+/**
+ * Create an isolated mock network. The B2B simulation only runs once
+ * `start()` is called.
+ */
+export function createMockCordaNetwork(
+    options: SimulationOptions = {}
+): MockCordaNetwork {
+    return new MockCordaNetwork(options);
 }
 
 // Export singleton instance
-export const mockCordaNetwork = new MockCordaNetwork();
+export const mockCordaNetwork = createMockCordaNetwork();
 export default mockCordaNetwork;
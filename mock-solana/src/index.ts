@@ -6,62 +6,126 @@
  */
 
 import { EventEmitter } from "events";
-
-export interface Device {
+import {
+    Device as SdkDevice,
+    DeviceType,
+    LocationData,
+    NetworkQualityData,
+} from "../../sdk/src/types/depinfinity";
+import { estimateReward } from "../../sdk/src/rewards";
+import { validateQualityData } from "../../sdk/src/validation";
+import {
+    DeviceInactiveError,
+    DeviceNotFoundError,
+    InsufficientRewardsError,
+    ProgramPausedError,
+    UnauthorizedError,
+} from "../../sdk/src/errors";
+import { TransactionFailedError } from "../../sdk/src/transactions";
+import {
+    SubmissionHistoryOptions,
+    SubmissionHistoryPage,
+    SubmissionRecord,
+    paginateSubmissions,
+} from "../../sdk/src/history";
+import type { DePINBackend } from "../../sdk/src/backend";
+import type { AuthorityInfo } from "../../sdk/src/admin";
+import {
+    RandomSource,
+    SNAPSHOT_VERSION,
+    SimulationClock,
+    SimulationOptions,
+    SnapshotHeader,
+    checkSnapshot,
+    randomSeed,
+    readSnapshotFile,
+    seededRandom,
+    systemSimulationClock,
+    writeSnapshotFile,
+} from "../../sdk/src/simulation";
+import {
+    LedgerTransaction,
+    TransactionFilter,
+    TransactionLedger,
+    mockSignature,
+} from "../../sdk/src/ledger";
+
+export interface Device extends Omit<SdkDevice, "bump"> {
     id: string;
-    owner: string;
-    deviceType: "Smartphone" | "Router" | "IoTDevice" | "Hotspot";
-    location: {
-        latitude: number;
-        longitude: number;
-        accuracy: number;
-    };
-    isActive: boolean;
-    totalUptime: number;
-    totalRewardsEarned: number;
-    lastActivity: number;
 }
 
-export interface NetworkData {
-    signalStrength: number;
-    latency: number;
-    throughput: number;
-    availability: number;
-    location: {
-        latitude: number;
-        longitude: number;
-        accuracy: number;
-    };
-}
+export type NetworkData = NetworkQualityData;
 
 export interface ProgramState {
+    authority: string;
     totalDevices: number;
     totalRewardsDistributed: number;
     isActive: boolean;
 }
 
-class MockSolanaProgram extends EventEmitter {
+/**
+ * Saved state of a MockSolanaProgram
+ */
+export interface MockSolanaSnapshot extends SnapshotHeader {
+    kind: "mock-solana";
+    devices: Device[];
+    programState: ProgramState;
+    rewardVault: number;
+    submissions: SubmissionRecord[];
+    /** Missing in snapshots written before the ledger existed */
+    transactions?: LedgerTransaction[];
+}
+
+const MOCK_AUTHORITY = "mock_authority";
+
+const submissionAddress = (deviceId: string, index: number): string =>
+    `mock_submission_${deviceId}_${index}`;
+
+export class MockSolanaProgram extends EventEmitter implements DePINBackend {
     private devices: Map<string, Device> = new Map();
     private programState: ProgramState = {
+        authority: MOCK_AUTHORITY,
         totalDevices: 0,
         totalRewardsDistributed: 0,
         isActive: true,
     };
     private rewardVault: number = 1000000000; // 1 billion tokens
-    private isSimulating: boolean = false;
-
-    constructor() {
+    private submissions: SubmissionRecord[] = [];
+    private simulation: unknown = null;
+    private clock: SimulationClock;
+    private random: RandomSource;
+    private ledger: TransactionLedger;
+    /** Seed of the simulated submissions; log it to replay a run */
+    readonly seed: number;
+
+    constructor(options: SimulationOptions = {}) {
         super();
-        this.startDataSimulation();
+        this.clock = options.clock ?? systemSimulationClock;
+        this.seed = options.seed ?? randomSeed();
+        this.random = seededRandom(this.seed);
+        this.ledger = new TransactionLedger(
+            this.clock,
+            mockSignature,
+            this.seed
+        );
     }
 
     /**
-     * Initialize the program
+     * Initialize the program. Like on-chain, the signer given as
+     * `authority` becomes the program authority.
      */
-    async initialize(): Promise<string> {
+    async initialize(authority?: string): Promise<string> {
+        if (authority !== undefined) {
+            this.programState.authority = authority;
+        }
         console.log("🚀 Mock Solana Program Initialized");
         this.emit("programInitialized", this.programState);
-        return "mock_tx_initialize_123";
+        return this.recordTransaction(
+            "initialize",
+            null,
+            { authority: authority ?? null },
+            this.programState
+        );
     }
 
     /**
@@ -69,19 +133,34 @@ class MockSolanaProgram extends EventEmitter {
      */
     async registerDevice(
         deviceId: string,
-        deviceType: "Smartphone" | "Router" | "IoTDevice" | "Hotspot",
-        location: { latitude: number; longitude: number; accuracy: number },
-        owner: string
+        deviceType: DeviceType,
+        location: LocationData,
+        owner: string = "mock_owner"
     ): Promise<string> {
+        // The program's `init` fails when the device account already
+        // exists, before the instruction body checks the pause
+        if (this.devices.has(deviceId)) {
+            throw new TransactionFailedError(
+                `Device already registered: ${deviceId}`,
+                []
+            );
+        }
+
+        if (!this.programState.isActive) {
+            throw new ProgramPausedError();
+        }
+
         const device: Device = {
             id: deviceId,
+            deviceId,
             owner,
             deviceType,
             location,
             isActive: true,
             totalUptime: 0,
             totalRewardsEarned: 0,
-            lastActivity: Date.now(),
+            lastActivity: this.unixTimestamp(),
+            submissionCount: 0,
         };
 
         this.devices.set(deviceId, device);
@@ -90,48 +169,115 @@ class MockSolanaProgram extends EventEmitter {
         console.log(`📱 Device registered: ${deviceId} (${deviceType})`);
         this.emit("deviceRegistered", device);
 
-        return "mock_tx_register_device_123";
+        return this.recordTransaction(
+            "registerDevice",
+            deviceId,
+            { deviceId, deviceType, location, owner },
+            device
+        );
     }
 
     /**
-     * Submit network quality data
+     * Submit network quality data. `owner` is checked against the device's
+     * owner when given, like the program's signer constraint.
      */
     async submitData(
         deviceId: string,
-        qualityData: NetworkData
+        qualityData: NetworkData,
+        owner?: string
     ): Promise<string> {
-        const device = this.devices.get(deviceId);
-        if (!device) {
-            throw new Error("Device not found");
+        const device = this.findDevice(deviceId, owner);
+
+        if (!this.programState.isActive) {
+            throw new ProgramPausedError();
         }
 
         if (!device.isActive) {
-            throw new Error("Device is not active");
+            throw new DeviceInactiveError();
         }
 
+        // Rejected the same way the SDK rejects it before sending
+        const measurement = validateQualityData(qualityData, device.deviceType);
+
         // Calculate rewards based on data quality
-        const rewardAmount = this.calculateReward(
-            qualityData,
-            device.totalUptime
-        );
+        const rewardAmount = estimateReward(measurement, device.totalUptime);
 
-        // Update device stats
-        device.totalUptime++;
-        device.totalRewardsEarned += rewardAmount;
-        device.lastActivity = Date.now();
-        device.location = qualityData.location;
+        // The program's token transfer fails, and with it the whole
+        // submission, when the vault cannot cover the reward
+        if (rewardAmount > this.rewardVault) {
+            throw new InsufficientRewardsError();
+        }
 
-        // Update program state
-        this.programState.totalRewardsDistributed += rewardAmount;
-        this.rewardVault -= rewardAmount;
+        // Keep the submission like the program's DataSubmission account,
+        // addressed by the device's submission count. The device keeps its
+        // registered location; only update_location moves it.
+        const address = submissionAddress(deviceId, device.submissionCount++);
+        this.submissions.push({
+            address,
+            device: deviceId,
+            timestamp: this.unixTimestamp(),
+            signalStrength: measurement.signalStrength,
+            latency: measurement.latency,
+            throughput: measurement.throughput,
+            availability: measurement.availability,
+            location: measurement.location,
+        });
+
+        // Like the program, only a paid submission counts as uptime
+        if (rewardAmount > 0) {
+            device.totalRewardsEarned += rewardAmount;
+            device.lastActivity = this.unixTimestamp();
+            device.totalUptime++;
+
+            this.programState.totalRewardsDistributed += rewardAmount;
+            this.rewardVault -= rewardAmount;
+        }
 
         console.log(
             `📊 Data submitted for ${deviceId}, reward: ${rewardAmount} tokens`
         );
-        this.emit("dataSubmitted", { deviceId, qualityData, rewardAmount });
+        this.emit("dataSubmitted", {
+            deviceId,
+            qualityData: measurement,
+            rewardAmount,
+        });
+        this.emit("deviceUpdated", device);
+
+        return this.recordTransaction(
+            "submitData",
+            deviceId,
+            { deviceId, qualityData: measurement },
+            { submission: address, rewardAmount }
+        );
+    }
+
+    /**
+     * Move a device (owner only). Allowed while the program is paused,
+     * like on-chain.
+     */
+    async updateLocation(
+        deviceId: string,
+        newLocation: LocationData,
+        owner?: string
+    ): Promise<string> {
+        const device = this.findDevice(deviceId, owner);
+
+        if (!device.isActive) {
+            throw new DeviceInactiveError();
+        }
+
+        device.location = newLocation;
+        device.lastActivity = this.unixTimestamp();
+
+        console.log(`📍 Device ${deviceId} location updated`);
         this.emit("deviceUpdated", device);
 
-        return "mock_tx_submit_data_123";
+        return this.recordTransaction(
+            "updateLocation",
+            deviceId,
+            { deviceId, location: newLocation },
+            device
+        );
     }
 
     /**
@@ -142,23 +288,59 @@ class MockSolanaProgram extends EventEmitter {
     }
 
     /**
-     * Get program state
+     * Get device information; the mock has no cache to bypass
      */
-    async getProgramState(): Promise<ProgramState> {
-        return { ...this.programState };
+    async getDeviceUncached(deviceId: string): Promise<Device | null> {
+        return this.getDevice(deviceId);
     }
 
     /**
-     * Toggle device status
+     * Get the addresses of a device's data submissions, oldest first
      */
-    async toggleDeviceStatus(deviceId: string): Promise<string> {
+    async getSubmissionAddresses(deviceId: string): Promise<string[]> {
         const device = this.devices.get(deviceId);
         if (!device) {
-            throw new Error("Device not found");
+            throw new DeviceNotFoundError(deviceId);
         }
 
+        return Array.from({ length: device.submissionCount }, (_, index) =>
+            submissionAddress(deviceId, index)
+        );
+    }
+
+    /**
+     * Get a device's data submissions, newest first
+     */
+    async getSubmissionHistory(
+        deviceId: string,
+        options: SubmissionHistoryOptions = {}
+    ): Promise<SubmissionHistoryPage> {
+        return paginateSubmissions(
+            this.submissions.filter(
+                (submission) => submission.device === deviceId
+            ),
+            options
+        );
+    }
+
+    /**
+     * Get program state
+     */
+    async getProgramState(): Promise<ProgramState> {
+        return { ...this.programState };
+    }
+
+    /**
+     * Toggle device status (owner only)
+     */
+    async toggleDeviceStatus(
+        deviceId: string,
+        owner?: string
+    ): Promise<string> {
+        const device = this.findDevice(deviceId, owner);
+
         device.isActive = !device.isActive;
-        device.lastActivity = Date.now();
+        device.lastActivity = this.unixTimestamp();
 
         console.log(
             `🔄 Device ${deviceId} status: ${
@@ -167,98 +349,207 @@ class MockSolanaProgram extends EventEmitter {
         );
         this.emit("deviceStatusChanged", device);
 
-        return "mock_tx_toggle_status_123";
+        return this.recordTransaction(
+            "toggleDeviceStatus",
+            deviceId,
+            { deviceId },
+            device
+        );
     }
 
     /**
-     * Calculate reward based on data quality
+     * Get the current authority and pause state
      */
-    private calculateReward(qualityData: NetworkData, uptime: number): number {
-        const baseReward = 1000; // Base reward in tokens
-
-        // Quality multipliers
-        const signalMultiplier =
-            qualityData.signalStrength > -70
-                ? 1.5
-                : qualityData.signalStrength > -80
-                ? 0.8
-                : 0.3;
-        const latencyMultiplier =
-            qualityData.latency < 50
-                ? 1.2
-                : qualityData.latency < 100
-                ? 1.0
-                : 0.6;
-        const throughputMultiplier =
-            qualityData.throughput > 1000000
-                ? 1.3
-                : qualityData.throughput > 500000
-                ? 1.0
-                : 0.7;
-        const availabilityMultiplier = qualityData.availability;
-
-        // Uptime bonus
-        const uptimeBonus = 1.0 + (uptime / 1000) * 0.5;
-
-        const totalMultiplier =
-            signalMultiplier *
-            latencyMultiplier *
-            throughputMultiplier *
-            availabilityMultiplier *
-            uptimeBonus;
-
-        return Math.floor(baseReward * totalMultiplier);
+    async getAuthorityInfo(
+        caller: string = MOCK_AUTHORITY
+    ): Promise<AuthorityInfo> {
+        return {
+            programState: "mock_program_state",
+            authority: this.programState.authority,
+            isPaused: !this.programState.isActive,
+            isAuthority: caller === this.programState.authority,
+        };
     }
 
     /**
-     * Start data simulation for demo
+     * Emergency pause the program (authority only)
      */
-    private startDataSimulation(): void {
-        if (this.isSimulating) return;
+    async pauseProgram(authority: string = MOCK_AUTHORITY): Promise<string> {
+        this.requireAuthority(authority);
+        this.programState.isActive = false;
+
+        console.log("⏸️ Program paused by authority");
+        this.emit("programPaused", { programState: { ...this.programState } });
+
+        return this.recordTransaction(
+            "pauseProgram",
+            null,
+            { authority },
+            this.programState
+        );
+    }
+
+    /**
+     * Resume the program (authority only)
+     */
+    async resumeProgram(authority: string = MOCK_AUTHORITY): Promise<string> {
+        this.requireAuthority(authority);
+        this.programState.isActive = true;
+
+        console.log("▶️ Program resumed by authority");
+        this.emit("programResumed", { programState: { ...this.programState } });
+
+        return this.recordTransaction(
+            "resumeProgram",
+            null,
+            { authority },
+            this.programState
+        );
+    }
+
+    /**
+     * Hand the program over to a new authority (authority only)
+     */
+    async transferAuthority(
+        newAuthority: string,
+        authority: string = MOCK_AUTHORITY
+    ): Promise<string> {
+        this.requireAuthority(authority);
+        this.programState.authority = newAuthority;
+
+        console.log(`🔑 Authority transferred to: ${newAuthority}`);
+        this.emit("authorityTransferred", {
+            programState: { ...this.programState },
+        });
+
+        return this.recordTransaction(
+            "transferAuthority",
+            null,
+            { newAuthority, authority },
+            this.programState
+        );
+    }
 
-        this.isSimulating = true;
+    /**
+     * Get a transaction by the signature its write returned
+     */
+    async getTransaction(signature: string): Promise<LedgerTransaction | null> {
+        return this.ledger.get(signature);
+    }
 
-        // Simulate data submission every 30 seconds
-        setInterval(() => {
+    /**
+     * Get the program's transactions, newest first. The sequence number
+     * plays the part of the slot.
+     */
+    async listTransactions(
+        filter: TransactionFilter = {}
+    ): Promise<LedgerTransaction[]> {
+        return this.ledger.list(filter);
+    }
+
+    // Only successful writes reach the ledger, like confirmed transactions
+    private recordTransaction(
+        operation: string,
+        subject: string | null,
+        payload: unknown,
+        result: unknown
+    ): string {
+        const transaction = this.ledger.record(
+            operation,
+            subject,
+            payload,
+            result
+        );
+        this.emit("transactionRecorded", transaction);
+        return transaction.id;
+    }
+
+    private requireAuthority(authority: string): void {
+        if (authority !== this.programState.authority) {
+            throw new UnauthorizedError();
+        }
+    }
+
+    // Device instructions are signed by the device owner; omitting `owner`
+    // acts as the owner, the way the SDK client acts for its wallet
+    private findDevice(deviceId: string, owner?: string): Device {
+        const device = this.devices.get(deviceId);
+        if (!device) {
+            throw new DeviceNotFoundError(deviceId);
+        }
+        if (owner !== undefined && owner !== device.owner) {
+            throw new UnauthorizedError();
+        }
+        return device;
+    }
+
+    // Seconds, like the program's Clock::unix_timestamp
+    private unixTimestamp(): number {
+        return Math.floor(this.clock.now() / 1000);
+    }
+
+    /**
+     * Start submitting simulated data every 30 seconds
+     */
+    start(): void {
+        if (this.simulation !== null) return;
+
+        this.simulation = this.clock.setInterval(() => {
             this.simulateDataSubmission();
         }, 30000);
 
-        console.log("🔄 Data simulation started");
+        console.log(`🔄 Data simulation started (seed ${this.seed})`);
+    }
+
+    /**
+     * Stop the data simulation
+     */
+    stop(): void {
+        if (this.simulation === null) return;
+
+        this.clock.clearInterval(this.simulation);
+        this.simulation = null;
+        console.log("⏹️ Data simulation stopped");
     }
 
     /**
      * Simulate data submission for demo
      */
-    private simulateDataSubmission(): void {
+    private async simulateDataSubmission(): Promise<void> {
         const activeDevices = Array.from(this.devices.values()).filter(
             (d) => d.isActive
         );
 
-        if (activeDevices.length === 0) return;
+        if (!this.programState.isActive || activeDevices.length === 0) return;
 
         // Randomly select a device
         const randomDevice =
-            activeDevices[Math.floor(Math.random() * activeDevices.length)];
+            activeDevices[Math.floor(this.random() * activeDevices.length)];
 
         // Generate realistic network data
         const qualityData: NetworkData = {
-            signalStrength: -65 + Math.random() * 20, // -65 to -45 dBm
-            latency: 20 + Math.random() * 80, // 20-100ms
-            throughput: 500000 + Math.random() * 1500000, // 0.5-2 Mbps
-            availability: 0.8 + Math.random() * 0.2, // 80-100%
+            signalStrength: -65 + this.random() * 20, // -65 to -45 dBm
+            latency: 20 + this.random() * 80, // 20-100ms
+            throughput: 500000 + this.random() * 1500000, // 0.5-2 Mbps
+            availability: 0.8 + this.random() * 0.2, // 80-100%
             location: {
                 latitude:
                     randomDevice.location.latitude +
-                    (Math.random() - 0.5) * 0.01,
+                    (this.random() - 0.5) * 0.01,
                 longitude:
                     randomDevice.location.longitude +
-                    (Math.random() - 0.5) * 0.01,
-                accuracy: 10 + Math.random() * 50,
+                    (this.random() - 0.5) * 0.01,
+                accuracy: 10 + this.random() * 50,
             },
         };
 
-        // Submit data
-        this.submitData(randomDevice.id, qualityData);
+        // Submit data. Once the vault runs dry submissions are refused;
+        // the simulation logs that and carries on.
+        try {
+            await this.submitData(randomDevice.id, qualityData);
+        } catch (error) {
+            console.error("Error simulating data submission:", error);
+        }
     }
 
     /**
@@ -301,15 +592,86 @@ class MockSolanaProgram extends EventEmitter {
     reset(): void {
         this.devices.clear();
         this.programState = {
+            authority: MOCK_AUTHORITY,
             totalDevices: 0,
             totalRewardsDistributed: 0,
             isActive: true,
         };
         this.rewardVault = 1000000000;
+        this.submissions = [];
+        this.ledger.clear();
+        // Replaying from a reset repeats the same random choices
+        this.random = seededRandom(this.seed);
         console.log("🔄 Mock program reset");
     }
+
+    /**
+     * Copy of the program's state, to restore later
+     */
+    snapshot(): MockSolanaSnapshot {
+        const snapshot: MockSolanaSnapshot = {
+            version: SNAPSHOT_VERSION,
+            kind: "mock-solana",
+            createdAt: this.clock.now(),
+            devices: this.getAllDevices(),
+            programState: this.programState,
+            rewardVault: this.rewardVault,
+            submissions: this.submissions,
+            transactions: this.ledger.entries(),
+        };
+        return JSON.parse(JSON.stringify(snapshot));
+    }
+
+    /**
+     * Replace the program's state with a snapshot
+     */
+    restore(snapshot: MockSolanaSnapshot): void {
+        this.rollback(snapshot);
+        console.log(`📦 Mock program restored: ${this.devices.size} devices`);
+    }
+
+    /**
+     * Return to a snapshot taken moments ago, without logging. Used to undo
+     * failed and simulated transactions.
+     */
+    rollback(snapshot: MockSolanaSnapshot): void {
+        checkSnapshot(snapshot, "mock-solana");
+        const state: MockSolanaSnapshot = JSON.parse(JSON.stringify(snapshot));
+
+        this.devices = new Map(
+            state.devices.map((device) => [device.id, device])
+        );
+        this.programState = state.programState;
+        this.rewardVault = state.rewardVault;
+        this.submissions = state.submissions;
+        this.ledger.load(state.transactions ?? []);
+    }
+
+    /**
+     * Write a snapshot of the program's state to a JSON file (Node only)
+     */
+    async saveSnapshot(filePath: string): Promise<void> {
+        await writeSnapshotFile(filePath, this.snapshot());
+    }
+
+    /**
+     * Restore the program's state from a snapshot file (Node only)
+     */
+    async loadSnapshot(filePath: string): Promise<void> {
+        this.restore(await readSnapshotFile<MockSolanaSnapshot>(filePath));
+    }
+}
+
+/**
+ * Create an isolated mock program. The data simulation only runs once
+ * `start()` is called.
+ */
+export function createMockSolanaProgram(
+    options: SimulationOptions = {}
+): MockSolanaProgram {
+    return new MockSolanaProgram(options);
 }
 
 // Export singleton instance
-export const mockSolanaProgram = new MockSolanaProgram();
+export const mockSolanaProgram = createMockSolanaProgram();
 export default mockSolanaProgram;
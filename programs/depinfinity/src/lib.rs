@@ -31,6 +31,8 @@ pub mod depinfinity {
         let device = &mut ctx.accounts.device;
         let program_state = &mut ctx.accounts.program_state;
         
+        require!(program_state.is_active, ErrorCode::ProgramPaused);
+        
         device.owner = ctx.accounts.user.key();
         device.device_id = device_id;
         device.device_type = device_type;
@@ -40,10 +42,11 @@ pub mod depinfinity {
         device.total_rewards_earned = 0;
         device.last_activity = Clock::get()?.unix_timestamp;
         device.bump = ctx.bumps.device;
+        device.submission_count = 0;
         
         program_state.total_devices += 1;
         
-        msg!("Device registered: {}", device.device_id);
+        msg!("Device registered: {} by {}", device.device_id, device.owner);
         Ok(())
     }
 
@@ -56,7 +59,8 @@ pub mod depinfinity {
         let data_submission = &mut ctx.accounts.data_submission;
         let program_state = &mut ctx.accounts.program_state;
         
-        // Validate device is active
+        // Validate program and device are active
+        require!(program_state.is_active, ErrorCode::ProgramPaused);
         require!(device.is_active, ErrorCode::DeviceInactive);
         
         // Store the anonymized data
@@ -68,18 +72,24 @@ pub mod depinfinity {
         data_submission.availability = quality_data.availability;
         data_submission.location = quality_data.location;
         
+        // The next submission gets the next address
+        device.submission_count += 1;
+        
         // Calculate rewards based on data quality and uptime
         let reward_amount = calculate_reward(&quality_data, device.total_uptime);
         
         if reward_amount > 0 {
-            // Transfer tokens to user
+            // Transfer tokens to user, signed by the ProgramState PDA that
+            // owns the reward vault
+            let bump = [program_state.bump];
+            let signer_seeds: &[&[&[u8]]] = &[&[b"program_state", &bump]];
             let cpi_accounts = Transfer {
                 from: ctx.accounts.reward_vault.to_account_info(),
                 to: ctx.accounts.user_token_account.to_account_info(),
-                authority: ctx.accounts.program_state.to_account_info(),
+                authority: program_state.to_account_info(),
             };
             let cpi_program = ctx.accounts.token_program.to_account_info();
-            let cpi_ctx = CpiContext::new(cpi_program, cpi_accounts);
+            let cpi_ctx = CpiContext::new_with_signer(cpi_program, cpi_accounts, signer_seeds);
             
             token::transfer(cpi_ctx, reward_amount)?;
             
@@ -139,6 +149,17 @@ pub mod depinfinity {
         msg!("Program resumed by authority");
         Ok(())
     }
+
+    /// Hand the program over to a new authority (authority only).
+    /// The new authority co-signs so control can never move to a key
+    /// nobody holds.
+    pub fn transfer_authority(ctx: Context<TransferAuthority>) -> Result<()> {
+        let program_state = &mut ctx.accounts.program_state;
+        program_state.authority = ctx.accounts.new_authority.key();
+        
+        msg!("Authority transferred to: {}", program_state.authority);
+        Ok(())
+    }
 }
 
 #[derive(Accounts)]
@@ -189,7 +210,7 @@ pub struct SubmitData<'info> {
         mut,
         seeds = [b"device", device.owner.as_ref(), device.device_id.as_bytes()],
         bump = device.bump,
-        constraint = device.owner == user.key()
+        constraint = device.owner == user.key() @ ErrorCode::Unauthorized
     )]
     pub device: Account<'info, Device>,
     
@@ -197,7 +218,7 @@ pub struct SubmitData<'info> {
         init,
         payer = user,
         space = 8 + DataSubmission::INIT_SPACE,
-        seeds = [b"data", device.key().as_ref(), &Clock::get()?.unix_timestamp.to_le_bytes()],
+        seeds = [b"data", device.key().as_ref(), &device.submission_count.to_le_bytes()],
         bump
     )]
     pub data_submission: Account<'info, DataSubmission>,
@@ -229,7 +250,7 @@ pub struct UpdateLocation<'info> {
         mut,
         seeds = [b"device", device.owner.as_ref(), device.device_id.as_bytes()],
         bump = device.bump,
-        constraint = device.owner == user.key()
+        constraint = device.owner == user.key() @ ErrorCode::Unauthorized
     )]
     pub device: Account<'info, Device>,
     
@@ -242,7 +263,7 @@ pub struct ToggleDeviceStatus<'info> {
         mut,
         seeds = [b"device", device.owner.as_ref(), device.device_id.as_bytes()],
         bump = device.bump,
-        constraint = device.owner == user.key()
+        constraint = device.owner == user.key() @ ErrorCode::Unauthorized
     )]
     pub device: Account<'info, Device>,
     
@@ -255,7 +276,7 @@ pub struct PauseProgram<'info> {
         mut,
         seeds = [b"program_state"],
         bump = program_state.bump,
-        constraint = program_state.authority == authority.key()
+        constraint = program_state.authority == authority.key() @ ErrorCode::Unauthorized
     )]
     pub program_state: Account<'info, ProgramState>,
     
@@ -268,13 +289,28 @@ pub struct ResumeProgram<'info> {
         mut,
         seeds = [b"program_state"],
         bump = program_state.bump,
-        constraint = program_state.authority == authority.key()
+        constraint = program_state.authority == authority.key() @ ErrorCode::Unauthorized
     )]
     pub program_state: Account<'info, ProgramState>,
     
     pub authority: Signer<'info>,
 }
 
+#[derive(Accounts)]
+pub struct TransferAuthority<'info> {
+    #[account(
+        mut,
+        seeds = [b"program_state"],
+        bump = program_state.bump,
+        constraint = program_state.authority == authority.key() @ ErrorCode::Unauthorized
+    )]
+    pub program_state: Account<'info, ProgramState>,
+    
+    pub authority: Signer<'info>,
+    
+    pub new_authority: Signer<'info>,
+}
+
 #[account]
 pub struct ProgramState {
     pub authority: Pubkey,
@@ -299,10 +335,12 @@ pub struct Device {
     pub total_rewards_earned: u64,
     pub last_activity: i64,
     pub bump: u8,
+    /// Submissions made so far; seeds the next DataSubmission address
+    pub submission_count: u64,
 }
 
 impl Device {
-    pub const INIT_SPACE: usize = 32 + 4 + 32 + 1 + 16 + 1 + 8 + 8 + 8 + 1;
+    pub const INIT_SPACE: usize = 32 + 4 + 32 + 1 + 20 + 1 + 8 + 8 + 8 + 1 + 8;
 }
 
 #[account]
@@ -317,7 +355,7 @@ pub struct DataSubmission {
 }
 
 impl DataSubmission {
-    pub const INIT_SPACE: usize = 32 + 8 + 4 + 4 + 8 + 4 + 16;
+    pub const INIT_SPACE: usize = 32 + 8 + 4 + 4 + 8 + 4 + 20;
 }
 
 #[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, PartialEq, Eq)]
@@ -354,6 +392,8 @@ pub enum ErrorCode {
     InvalidDataQuality,
     #[msg("Insufficient rewards in vault")]
     InsufficientRewards,
+    #[msg("Signer is not authorized for this account")]
+    Unauthorized,
 }
 
 // Helper function to calculate rewards based on data quality
@@ -0,0 +1,89 @@
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import * as fs from "fs";
+import { DePINfinityClient, DePINfinityError } from "../sdk/src";
+
+/**
+ * DePINfinity Admin Script
+ *
+ * Emergency controls for the program authority:
+ *
+ *   ts-node scripts/admin.ts status
+ *   ts-node scripts/admin.ts pause
+ *   ts-node scripts/admin.ts resume
+ *   ts-node scripts/admin.ts transfer <new-authority-keypair.json>
+ *
+ * Reads SOLANA_RPC_URL, PROGRAM_ID and AUTHORITY_KEYPAIR (defaults to
+ * ./keys/authority.json). Exits non-zero on failure so it can be scripted.
+ */
+
+function loadKeypair(filePath: string): Keypair {
+    const keypairData = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    return Keypair.fromSecretKey(new Uint8Array(keypairData));
+}
+
+async function main(): Promise<void> {
+    const [command, argument] = process.argv.slice(2);
+
+    const connection = new Connection(
+        process.env.SOLANA_RPC_URL || "https://api.devnet.solana.com",
+        "confirmed"
+    );
+    const authority = loadKeypair(
+        process.env.AUTHORITY_KEYPAIR || "./keys/authority.json"
+    );
+    const admin = new DePINfinityClient(
+        connection,
+        new Wallet(authority),
+        new PublicKey(
+            process.env.PROGRAM_ID ||
+                "DePINfinity111111111111111111111111111111111"
+        )
+    ).admin();
+
+    switch (command) {
+        case "status": {
+            const info = await admin.getAuthorityInfo();
+            console.log(`Authority: ${info.authority}`);
+            console.log(`Status:    ${info.isPaused ? "paused" : "active"}`);
+            if (!info.isAuthority) {
+                console.log(
+                    `⚠️ ${authority.publicKey.toBase58()} is not the authority`
+                );
+            }
+            break;
+        }
+        case "pause":
+            console.log(`⏸️ Program paused: ${await admin.pauseProgram()}`);
+            break;
+        case "resume":
+            console.log(`▶️ Program resumed: ${await admin.resumeProgram()}`);
+            break;
+        case "transfer": {
+            if (!argument) {
+                throw new Error("Usage: transfer <new-authority-keypair.json>");
+            }
+            const newAuthority = new Wallet(loadKeypair(argument));
+            const signature = await admin.transferAuthority(newAuthority);
+            console.log(
+                `🔑 Authority transferred to ${newAuthority.publicKey.toBase58()}: ${signature}`
+            );
+            break;
+        }
+        default:
+            throw new Error(
+                "Usage: admin.ts <status|pause|resume|transfer <keypair>>"
+            );
+    }
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error(
+            error instanceof DePINfinityError
+                ? `❌ ${error.code}: ${error.message}`
+                : error
+        );
+        process.exit(1);
+    });
+}
@@ -0,0 +1,891 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+
+/**
+ * DePINfinity Codegen
+ *
+ * Generates the SDK's view of the program from its single source of truth,
+ * programs/depinfinity/src/lib.rs (plus the crate metadata in Cargo.toml):
+ *
+ *   sdk/src/generated/idl.json          IDL, in Anchor's JSON layout
+ *   sdk/src/generated/depinfinity.ts    IDL type and constant, account and
+ *                                       argument models
+ *   sdk/src/generated/pdas.ts           PDA helpers from the `seeds` constraints
+ *   sdk/src/generated/instructions.ts   Instruction builders that need no
+ *                                       provider or connection
+ *
+ *   ts-node scripts/codegen.ts          regenerate the files
+ *   ts-node scripts/codegen.ts --check  exit non-zero if any file is stale
+ *
+ * The parser understands the subset of Rust and Anchor the program uses and
+ * throws on anything else, so an unsupported change fails loudly instead of
+ * generating a wrong SDK.
+ */
+
+const ROOT = path.join(__dirname, "..");
+const PROGRAM_SOURCE = "programs/depinfinity/src/lib.rs";
+const PROGRAM_MANIFEST = "programs/depinfinity/Cargo.toml";
+const OUTPUT_DIR = "sdk/src/generated";
+
+/** IDL spec version the SDK decoder is written against */
+const IDL_SPEC = "0.1.0";
+
+const HEADER = [
+    `// Generated by scripts/codegen.ts from ${PROGRAM_SOURCE}.`,
+    "// Do not edit by hand: change the program and run `npm run codegen`.",
+].join("\n");
+
+type IdlType = string | { defined: { name: string } };
+
+interface IdlField {
+    name: string;
+    type: IdlType;
+}
+
+interface Idl {
+    address: string;
+    metadata: {
+        name: string;
+        version: string;
+        spec: string;
+        description: string;
+    };
+    instructions: {
+        name: string;
+        discriminator: number[];
+        accounts: { name: string; writable: boolean; signer?: true }[];
+        args: IdlField[];
+    }[];
+    accounts: { name: string; discriminator: number[]; data: IdlField[] }[];
+    types: {
+        name: string;
+        type:
+            | { kind: "struct"; fields: IdlField[] }
+            | { kind: "enum"; variants: { name: string }[] };
+    }[];
+    errors: { code: number; name: string; msg: string }[];
+}
+
+interface RustField {
+    name: string;
+    type: string;
+    docs: string[];
+    attributes: string[];
+}
+
+interface RustItem {
+    kind: "struct" | "enum";
+    name: string;
+    docs: string[];
+    attributes: string[];
+    /** Struct fields, or enum variants (with an empty type) */
+    fields: RustField[];
+}
+
+interface InstructionSpec {
+    name: string;
+    docs: string[];
+    accountsStruct: string;
+    args: { name: string; type: string }[];
+}
+
+/** Everything the generators need, parsed from the program */
+export interface ProgramModel {
+    idl: Idl;
+    instructions: {
+        name: string;
+        docs: string[];
+        accounts: {
+            name: string;
+            writable: boolean;
+            signer: boolean;
+            /** Well-known program or sysvar the account defaults to */
+            fixed: string | null;
+        }[];
+        args: IdlField[];
+    }[];
+    /** Field docs of account and argument types, keyed by type name */
+    docs: Record<string, Record<string, string[]>>;
+    pdas: PdaSpec[];
+}
+
+type SeedSpec =
+    | { kind: "literal"; value: string }
+    | { kind: "pubkey"; name: string }
+    | { kind: "string"; name: string }
+    | { kind: "u64"; name: string };
+
+interface PdaSpec {
+    /** Account name, e.g. "dataSubmission" */
+    account: string;
+    seeds: SeedSpec[];
+}
+
+const PRIMITIVES = new Set([
+    "bool",
+    "u8",
+    "i32",
+    "u32",
+    "f32",
+    "u64",
+    "i64",
+    "f64",
+]);
+
+// Program and sysvar accounts the builders fill in by default
+const FIXED_ACCOUNTS: Record<string, string> = {
+    "Program<'info, System>": "SystemProgram.programId",
+    "Program<'info, Token>": "TOKEN_PROGRAM_ID",
+    "Sysvar<'info, Rent>": "SYSVAR_RENT_PUBKEY",
+};
+
+const camelCase = (name: string): string =>
+    name.replace(/_([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+
+const pascalCase = (name: string): string =>
+    camelCase(name).replace(/^[a-z]/, (letter) => letter.toUpperCase());
+
+const discriminator = (preimage: string): number[] => [
+    ...createHash("sha256").update(preimage).digest().subarray(0, 8),
+];
+
+/**
+ * Index just past the bracket closing the one at `open`
+ */
+function closingIndex(source: string, open: number): number {
+    const pairs: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+    const stack: string[] = [];
+    for (let index = open; index < source.length; index++) {
+        const char = source[index];
+        if (char === '"') {
+            index = source.indexOf('"', index + 1);
+        } else if (pairs[char]) {
+            stack.push(pairs[char]);
+        } else if (char === stack[stack.length - 1]) {
+            stack.pop();
+            if (stack.length === 0) return index + 1;
+        }
+    }
+    throw new Error(`Unbalanced ${source[open]} at offset ${open}`);
+}
+
+/**
+ * Split on commas that are not nested in brackets, generics or strings
+ */
+function splitTopLevel(source: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let index = 0; index < source.length; index++) {
+        const char = source[index];
+        if (char === '"') {
+            index = source.indexOf('"', index + 1);
+        } else if ("([{<".includes(char)) {
+            depth++;
+        } else if (")]}>".includes(char) && source[index - 1] !== "-") {
+            depth--;
+        } else if (char === "," && depth === 0) {
+            parts.push(source.slice(start, index));
+            start = index + 1;
+        }
+    }
+    parts.push(source.slice(start));
+    return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Read doc comments and attributes preceding an item, returning them with
+ * the offset of the item itself
+ */
+function readPreamble(
+    source: string,
+    offset: number
+): { docs: string[]; attributes: string[]; offset: number } {
+    const docs: string[] = [];
+    const attributes: string[] = [];
+
+    for (;;) {
+        const rest = source.slice(offset);
+        const whitespace = rest.match(/^\s*/)![0].length;
+        offset += whitespace;
+
+        if (source.startsWith("///", offset)) {
+            const end = source.indexOf("\n", offset);
+            docs.push(source.slice(offset + 3, end).trim());
+            offset = end;
+        } else if (source.startsWith("//", offset)) {
+            offset = source.indexOf("\n", offset);
+        } else if (source.startsWith("#[", offset)) {
+            const end = closingIndex(source, offset + 1);
+            attributes.push(source.slice(offset + 2, end - 1).trim());
+            offset = end;
+        } else {
+            return { docs, attributes, offset };
+        }
+    }
+}
+
+/**
+ * Fields of a struct body, or variants of an enum body
+ */
+function parseFields(body: string, kind: "struct" | "enum"): RustField[] {
+    const fields: RustField[] = [];
+    let offset = 0;
+
+    for (;;) {
+        const preamble = readPreamble(body, offset);
+        offset = preamble.offset;
+        if (offset >= body.length) return fields;
+
+        if (kind === "enum") {
+            const match = body.slice(offset).match(/^(\w+)\s*,?/);
+            if (!match) {
+                throw new Error(
+                    `Unsupported enum variant: ${body.slice(offset)}`
+                );
+            }
+            fields.push({ name: match[1], type: "", ...preamble });
+            offset += match[0].length;
+            continue;
+        }
+
+        const match = body.slice(offset).match(/^pub (\w+):\s*/);
+        if (!match) {
+            throw new Error(`Unsupported struct field: ${body.slice(offset)}`);
+        }
+        offset += match[0].length;
+
+        // The type runs to the next top-level comma
+        let depth = 0;
+        let end = offset;
+        while (end < body.length && (depth > 0 || body[end] !== ",")) {
+            if (body[end] === "<") depth++;
+            if (body[end] === ">") depth--;
+            end++;
+        }
+        fields.push({
+            name: match[1],
+            type: body.slice(offset, end).trim(),
+            docs: preamble.docs,
+            attributes: preamble.attributes,
+        });
+        offset = end + 1;
+    }
+}
+
+/**
+ * Top-level structs and enums with their attributes
+ */
+function parseItems(source: string): RustItem[] {
+    const items: RustItem[] = [];
+    const pattern = /\npub (struct|enum) (\w+)(?:<'info>)? \{/g;
+
+    for (const match of source.matchAll(pattern)) {
+        const start = match.index! + 1;
+        const open = start + match[0].length - 2;
+        const body = source.slice(open + 1, closingIndex(source, open) - 1);
+
+        // Walk back over the doc comments and attributes of the item
+        const before = source.slice(0, start);
+        const lines = before.split("\n");
+        const preambleLines: string[] = [];
+        for (let index = lines.length - 2; index >= 0; index--) {
+            const line = lines[index].trim();
+            if (!line.startsWith("#[") && !line.startsWith("///")) break;
+            preambleLines.unshift(line);
+        }
+        const preamble = readPreamble(preambleLines.join("\n") + "\n", 0);
+
+        items.push({
+            kind: match[1] as "struct" | "enum",
+            name: match[2],
+            docs: preamble.docs,
+            attributes: preamble.attributes,
+            fields: parseFields(body, match[1] as "struct" | "enum"),
+        });
+    }
+
+    return items;
+}
+
+function parseInstructions(source: string): InstructionSpec[] {
+    const module = source.match(/#\[program\]\s*pub mod \w+ \{/);
+    if (!module) {
+        throw new Error("No #[program] module found");
+    }
+    const open = module.index! + module[0].length - 1;
+    const body = source.slice(open + 1, closingIndex(source, open) - 1);
+
+    const instructions: InstructionSpec[] = [];
+    const pattern = /pub fn (\w+)\(/g;
+    for (const match of body.matchAll(pattern)) {
+        const paren = match.index! + match[0].length - 1;
+        const params = splitTopLevel(
+            body.slice(paren + 1, closingIndex(body, paren) - 1)
+        );
+
+        const context = params[0].match(/^ctx: Context<(\w+)>$/);
+        if (!context) {
+            throw new Error(`${match[1]}: first parameter must be the context`);
+        }
+
+        const docs: string[] = [];
+        const lines = body.slice(0, match.index!).split("\n");
+        for (let index = lines.length - 2; index >= 0; index--) {
+            const line = lines[index].trim();
+            if (!line.startsWith("///")) break;
+            docs.unshift(line.slice(3).trim());
+        }
+
+        instructions.push({
+            name: match[1],
+            docs,
+            accountsStruct: context[1],
+            args: params.slice(1).map((param) => {
+                const [name, type] = param.split(":").map((s) => s.trim());
+                return { name, type };
+            }),
+        });
+    }
+    return instructions;
+}
+
+function parseErrors(source: string): Idl["errors"] {
+    const match = source.match(/#\[error_code\]\s*pub enum ErrorCode \{/);
+    if (!match) return [];
+    const open = match.index! + match[0].length - 1;
+    const body = source.slice(open + 1, closingIndex(source, open) - 1);
+
+    return parseFields(body, "enum").map((variant, index) => {
+        const msg = variant.attributes
+            .map((attribute) => attribute.match(/^msg\("(.*)"\)$/))
+            .find(Boolean);
+        return {
+            code: 6000 + index,
+            name: variant.name,
+            msg: msg ? msg[1] : variant.name,
+        };
+    });
+}
+
+function idlType(rustType: string, known: Set<string>): IdlType {
+    if (PRIMITIVES.has(rustType)) return rustType;
+    if (rustType === "Pubkey") return "pubkey";
+    if (rustType === "String") return "string";
+    if (known.has(rustType)) return { defined: { name: rustType } };
+    throw new Error(`Unsupported type in program interface: ${rustType}`);
+}
+
+function parseSeeds(
+    expression: string,
+    accounts: RustField[],
+    items: RustItem[]
+): SeedSpec[] {
+    const list = expression.match(/^\[([\s\S]*)\]$/);
+    if (!list) {
+        throw new Error(`Unsupported seeds expression: ${expression}`);
+    }
+
+    return splitTopLevel(list[1]).map((seed): SeedSpec => {
+        let match: RegExpMatchArray | null;
+        if ((match = seed.match(/^b"([^"]*)"$/))) {
+            return { kind: "literal", value: match[1] };
+        }
+        if ((match = seed.match(/^(\w+)\.key\(\)\.as_ref\(\)$/))) {
+            return { kind: "pubkey", name: camelCase(match[1]) };
+        }
+        if ((match = seed.match(/^\w+\.(\w+)\.as_ref\(\)$/))) {
+            return { kind: "pubkey", name: camelCase(match[1]) };
+        }
+        if ((match = seed.match(/^(?:\w+\.)?(\w+)\.as_bytes\(\)$/))) {
+            return { kind: "string", name: camelCase(match[1]) };
+        }
+        if ((match = seed.match(/^&(\w+)\.(\w+)\.to_le_bytes\(\)$/))) {
+            // Only u64 fields of an account in the same context for now
+            const account = accounts.find((field) => field.name === match![1]);
+            const struct = items.find(
+                (item) =>
+                    account && account.type === `Account<'info, ${item.name}>`
+            );
+            const field = struct?.fields.find((f) => f.name === match![2]);
+            if (field?.type !== "u64") {
+                throw new Error(`Unsupported integer seed: ${seed}`);
+            }
+            return { kind: "u64", name: camelCase(match[2]) };
+        }
+        throw new Error(`Unsupported seed: ${seed}`);
+    });
+}
+
+const sameSeedShape = (a: SeedSpec[], b: SeedSpec[]): boolean =>
+    a.length === b.length &&
+    a.every(
+        (seed, index) =>
+            seed.kind === b[index].kind &&
+            (seed.kind !== "literal" ||
+                seed.value === (b[index] as { value: string }).value)
+    );
+
+/**
+ * Parse the program source and crate manifest into the model the
+ * generators work from
+ */
+export function parseProgram(source: string, manifest: string): ProgramModel {
+    const address = source.match(/declare_id!\("(\w+)"\)/);
+    const crate = (key: string) =>
+        manifest.match(new RegExp(`^${key} = "([^"]*)"`, "m"))?.[1];
+    if (!address || !crate("name") || !crate("version")) {
+        throw new Error("Program ID or crate name/version not found");
+    }
+
+    const items = parseItems(source);
+    const hasAttribute = (item: RustItem, pattern: RegExp) =>
+        item.attributes.some((attribute) => pattern.test(attribute));
+
+    const accountStructs = items.filter((item) =>
+        hasAttribute(item, /^account$/)
+    );
+    const typeItems = items.filter((item) =>
+        hasAttribute(item, /^derive\(.*AnchorSerialize/)
+    );
+    const known = new Set(typeItems.map((item) => item.name));
+    const fieldsOf = (item: RustItem): IdlField[] =>
+        item.fields.map((field) => ({
+            name: camelCase(field.name),
+            type: idlType(field.type, known),
+        }));
+
+    const docs: ProgramModel["docs"] = {};
+    for (const item of [...typeItems, ...accountStructs]) {
+        docs[item.name] = Object.fromEntries(
+            item.fields
+                .filter((field) => field.docs.length > 0)
+                .map((field) => [camelCase(field.name), field.docs])
+        );
+    }
+
+    const pdas: PdaSpec[] = [];
+    const instructions = parseInstructions(source).map((instruction) => {
+        const struct = items.find(
+            (item) =>
+                item.name === instruction.accountsStruct &&
+                hasAttribute(item, /^derive\(Accounts\)$/)
+        );
+        if (!struct) {
+            throw new Error(
+                `Accounts struct ${instruction.accountsStruct} not found`
+            );
+        }
+
+        const accounts = struct.fields.map((field) => {
+            const constraint = field.attributes
+                .map((attribute) => attribute.match(/^account\(([\s\S]*)\)$/))
+                .find(Boolean);
+            const options = constraint ? splitTopLevel(constraint[1]) : [];
+            const name = camelCase(field.name);
+
+            const seeds = options.find((option) => option.startsWith("seeds"));
+            if (seeds) {
+                const spec = parseSeeds(
+                    seeds.replace(/^seeds\s*=\s*/, ""),
+                    struct.fields,
+                    items
+                );
+                const existing = pdas.find((pda) => pda.account === name);
+                if (existing && !sameSeedShape(existing.seeds, spec)) {
+                    throw new Error(`Conflicting seeds for ${name}`);
+                }
+                // Prefer the seeds of an existing account over those of
+                // `init`, which name the creator rather than the owner
+                if (!existing) {
+                    pdas.push({ account: name, seeds: spec });
+                } else if (!options.includes("init")) {
+                    existing.seeds = spec;
+                }
+            }
+
+            return {
+                name,
+                writable: options.some((option) =>
+                    ["mut", "init", "init_if_needed"].includes(option)
+                ),
+                signer: field.type.startsWith("Signer<"),
+                fixed: FIXED_ACCOUNTS[field.type] ?? null,
+            };
+        });
+
+        return {
+            name: camelCase(instruction.name),
+            snakeName: instruction.name,
+            docs: instruction.docs,
+            accounts,
+            args: instruction.args.map((arg) => ({
+                name: camelCase(arg.name),
+                type: idlType(arg.type, known),
+            })),
+        };
+    });
+
+    const idl: Idl = {
+        address: address[1],
+        metadata: {
+            name: crate("name")!,
+            version: crate("version")!,
+            spec: IDL_SPEC,
+            description: crate("description") ?? "",
+        },
+        instructions: instructions.map((instruction) => ({
+            name: instruction.name,
+            discriminator: discriminator(`global:${instruction.snakeName}`),
+            accounts: instruction.accounts.map((account) => ({
+                name: account.name,
+                writable: account.writable,
+                ...(account.signer && { signer: true as const }),
+            })),
+            args: instruction.args,
+        })),
+        accounts: accountStructs.map((item) => ({
+            name: item.name,
+            discriminator: discriminator(`account:${item.name}`),
+            data: fieldsOf(item),
+        })),
+        types: typeItems.map((item) =>
+            item.kind === "enum"
+                ? {
+                      name: item.name,
+                      type: {
+                          kind: "enum" as const,
+                          variants: item.fields.map(({ name }) => ({ name })),
+                      },
+                  }
+                : {
+                      name: item.name,
+                      type: { kind: "struct" as const, fields: fieldsOf(item) },
+                  }
+        ),
+        errors: parseErrors(source),
+    };
+
+    return {
+        idl,
+        instructions: instructions.map(({ snakeName, ...rest }) => rest),
+        docs,
+        pdas,
+    };
+}
+
+// TypeScript type of a value as a literal, e.g. { name: "x"; code: 6000 }
+function literalType(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(literalType).join(", ")}]`;
+    }
+    if (value !== null && typeof value === "object") {
+        return `{ ${Object.entries(value)
+            .map(([key, entry]) => `${key}: ${literalType(entry)};`)
+            .join(" ")} }`;
+    }
+    return JSON.stringify(value);
+}
+
+// SDK model type for an IDL type: numbers for every integer width and
+// base58 strings for public keys
+function modelType(type: IdlType): string {
+    if (typeof type !== "string") return type.defined.name;
+    if (type === "pubkey" || type === "string") return "string";
+    if (type === "bool") return "boolean";
+    return "number";
+}
+
+const docComment = (lines: string[], indent = ""): string => {
+    if (lines.length === 0) return "";
+    if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+    return `${indent}/**\n${lines
+        .map((line) => `${indent} * ${line}`.trimEnd())
+        .join("\n")}\n${indent} */\n`;
+};
+
+function generateTypes(model: ProgramModel): string {
+    const { idl } = model;
+    const name = pascalCase(idl.metadata.name).replace(/^Depin/, "DePIN");
+
+    const models = [
+        ...idl.types.map((type) =>
+            type.type.kind === "enum"
+                ? `export type ${type.name} = ${type.type.variants
+                      .map((variant) => JSON.stringify(variant.name))
+                      .join(" | ")};`
+                : modelInterface(model, type.name, type.type.fields)
+        ),
+        ...idl.accounts.map((account) =>
+            modelInterface(model, account.name, account.data)
+        ),
+    ];
+
+    return [
+        HEADER,
+        `export interface ${name} ${literalType(idl)}`,
+        `export const IDL: ${name} = ${JSON.stringify(idl)};`,
+        ...models,
+    ].join("\n\n");
+}
+
+function modelInterface(
+    model: ProgramModel,
+    name: string,
+    fields: IdlField[]
+): string {
+    const docs = model.docs[name] ?? {};
+    return `export interface ${name} {\n${fields
+        .map(
+            (field) =>
+                `${docComment(docs[field.name] ?? [], "    ")}    ${
+                    field.name
+                }: ${modelType(field.type)};`
+        )
+        .join("\n")}\n}`;
+}
+
+function generatePdas(model: ProgramModel): string {
+    const functions = model.pdas.map(({ account, seeds }) => {
+        const params = seeds
+            .filter((seed) => seed.kind !== "literal")
+            .map((seed) => {
+                const { name } = seed as { name: string };
+                return `${name}: ${
+                    seed.kind === "pubkey"
+                        ? "PublicKey"
+                        : seed.kind === "string"
+                        ? "string"
+                        : "number"
+                }`;
+            });
+        const buffers = seeds.map((seed) => {
+            switch (seed.kind) {
+                case "literal":
+                    return `Buffer.from(${JSON.stringify(seed.value)})`;
+                case "pubkey":
+                    return `${seed.name}.toBuffer()`;
+                case "string":
+                    return `Buffer.from(${seed.name})`;
+                case "u64":
+                    return `u64Seed(${seed.name})`;
+            }
+        });
+
+        return `${docComment([
+            `Address and bump of the ${pascalCase(account)} account`,
+        ])}export function find${pascalCase(account)}Address(${[
+            "programId: PublicKey",
+            ...params,
+        ].join(", ")}): [PublicKey, number] {
+            return PublicKey.findProgramAddressSync([${buffers.join(
+                ", "
+            )}], programId);
+        }`;
+    });
+
+    const helpers = model.pdas.some((pda) =>
+        pda.seeds.some((seed) => seed.kind === "u64")
+    )
+        ? [
+              `// Little-endian u64, as \`to_le_bytes()\` produces on-chain
+            const u64Seed = (value: number): Buffer => {
+                const data = Buffer.alloc(8);
+                data.writeBigUInt64LE(BigInt(value));
+                return data;
+            };`,
+          ]
+        : [];
+
+    return [
+        HEADER,
+        `import { PublicKey } from "@solana/web3.js";`,
+        ...helpers,
+        ...functions,
+    ].join("\n\n");
+}
+
+function generateInstructions(model: ProgramModel): string {
+    const fixed = new Set(
+        model.instructions.flatMap((instruction) =>
+            instruction.accounts.map((account) => account.fixed)
+        )
+    );
+    const web3 = [
+        "PublicKey",
+        ...(fixed.has("SystemProgram.programId") ? ["SystemProgram"] : []),
+        ...(fixed.has("SYSVAR_RENT_PUBKEY") ? ["SYSVAR_RENT_PUBKEY"] : []),
+        "TransactionInstruction",
+    ];
+    const models = new Set(
+        model.instructions.flatMap((instruction) =>
+            instruction.args
+                .map((arg) => arg.type)
+                .filter((type) => typeof type !== "string")
+                .map(
+                    (type) =>
+                        (type as { defined: { name: string } }).defined.name
+                )
+        )
+    );
+
+    const imports = [
+        `import { ${web3.join(", ")} } from "@solana/web3.js";`,
+        ...(fixed.has("TOKEN_PROGRAM_ID")
+            ? [`import { TOKEN_PROGRAM_ID } from "@solana/spl-token";`]
+            : []),
+        `import { instructionEncoder } from "../coder";`,
+        ...(models.size > 0
+            ? [
+                  `import { ${[...models]
+                      .sort()
+                      .join(", ")} } from "./depinfinity";`,
+              ]
+            : []),
+    ];
+
+    const builders = model.instructions.map((instruction) => {
+        const pascal = pascalCase(instruction.name);
+        const accountsType = `${pascal}Accounts`;
+        const argsType = `${pascal}Args`;
+
+        const accountsInterface = `export interface ${accountsType} {\n${instruction.accounts
+            .map(
+                (account) =>
+                    `${
+                        account.fixed
+                            ? `    /** Defaults to ${account.fixed} */\n`
+                            : account.signer
+                            ? "    /** Signer */\n"
+                            : ""
+                    }    ${account.name}${account.fixed ? "?" : ""}: PublicKey;`
+            )
+            .join("\n")}\n}`;
+        const argsInterface =
+            instruction.args.length > 0
+                ? `export interface ${argsType} {\n${instruction.args
+                      .map((arg) => `    ${arg.name}: ${modelType(arg.type)};`)
+                      .join("\n")}\n}`
+                : null;
+
+        const keys = instruction.accounts.map(
+            (account) =>
+                `{ pubkey: accounts.${account.name}${
+                    account.fixed ? ` ?? ${account.fixed}` : ""
+                }, isSigner: ${account.signer}, isWritable: ${
+                    account.writable
+                } }`
+        );
+        const params = [
+            "programId: PublicKey",
+            `accounts: ${accountsType}`,
+            ...(argsInterface ? [`args: ${argsType}`] : []),
+        ];
+
+        const builder = `${docComment(
+            instruction.docs.length > 0
+                ? instruction.docs
+                : [`Build the ${instruction.name} instruction`]
+        )}export function ${instruction.name}Instruction(${params.join(
+            ", "
+        )}): TransactionInstruction {
+            return new TransactionInstruction({
+                programId,
+                keys: [${keys.join(", ")}],
+                data: instructionEncoder.encode(${JSON.stringify(
+                    instruction.name
+                )}${argsInterface ? ", args" : ""}),
+            });
+        }`;
+
+        return [accountsInterface, argsInterface, builder]
+            .filter(Boolean)
+            .join("\n\n");
+    });
+
+    return [HEADER, imports.join("\n"), ...builders].join("\n\n");
+}
+
+/**
+ * Contents of every generated file, keyed by path relative to the repo
+ */
+export async function generate(
+    root: string = ROOT
+): Promise<Record<string, string>> {
+    const model = parseProgram(
+        fs.readFileSync(path.join(root, PROGRAM_SOURCE), "utf8"),
+        fs.readFileSync(path.join(root, PROGRAM_MANIFEST), "utf8")
+    );
+
+    // Formatted the way the rest of the repo is, so `npm run format` never
+    // makes the generated files stale
+    const prettier = require("prettier");
+    const format = async (source: string, parser: string) =>
+        prettier.format(source, {
+            parser,
+            tabWidth: 4,
+            trailingComma: "es5",
+        });
+
+    return {
+        [`${OUTPUT_DIR}/idl.json`]: await format(
+            JSON.stringify(model.idl),
+            "json"
+        ),
+        [`${OUTPUT_DIR}/depinfinity.ts`]: await format(
+            generateTypes(model),
+            "typescript"
+        ),
+        [`${OUTPUT_DIR}/pdas.ts`]: await format(
+            generatePdas(model),
+            "typescript"
+        ),
+        [`${OUTPUT_DIR}/instructions.ts`]: await format(
+            generateInstructions(model),
+            "typescript"
+        ),
+    };
+}
+
+/**
+ * Generated files whose contents on disk differ from a fresh generation
+ */
+export async function findStaleFiles(root: string = ROOT): Promise<string[]> {
+    const files = await generate(root);
+    return Object.keys(files).filter((file) => {
+        const target = path.join(root, file);
+        return (
+            !fs.existsSync(target) ||
+            fs.readFileSync(target, "utf8") !== files[file]
+        );
+    });
+}
+
+async function main(): Promise<void> {
+    if (process.argv.includes("--check")) {
+        const stale = await findStaleFiles();
+        if (stale.length > 0) {
+            console.error("❌ Generated SDK files are out of date:");
+            stale.forEach((file) => console.error(`   ${file}`));
+            console.error("   Run `npm run codegen` and commit the result.");
+            process.exit(1);
+        }
+        console.log("✅ Generated SDK files match the program");
+        return;
+    }
+
+    const files = await generate();
+    fs.mkdirSync(path.join(ROOT, OUTPUT_DIR), { recursive: true });
+    for (const [file, contents] of Object.entries(files)) {
+        fs.writeFileSync(path.join(ROOT, file), contents);
+        console.log(`📝 ${file}`);
+    }
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
+}
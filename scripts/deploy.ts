@@ -1,5 +1,5 @@
 import { Connection, Keypair, PublicKey, SystemProgram } from "@solana/web3.js";
-import { DePINfinityClient } from "../sdk/src";
+import { DePINfinityClient, vaultAuthorityPda } from "../sdk/src";
 import { Wallet } from "@coral-xyz/anchor";
 import {
     createMint,
@@ -31,6 +31,8 @@ interface DeploymentConfig {
     rewardVaultKeypair: string;
     cordaEndpoint: string;
     cordaApiKey: string;
+    /** Use the program already deployed at `programId` (e.g. a mock RPC node) */
+    skipProgramDeploy?: boolean;
 }
 
 class DePINfinityDeployer {
@@ -56,8 +58,15 @@ class DePINfinityDeployer {
 
         try {
             // Step 1: Deploy Solana program
-            console.log("📦 Deploying Solana program...");
-            await this.deploySolanaProgram();
+            if (this.config.skipProgramDeploy) {
+                console.log(
+                    "📦 Using deployed program:",
+                    this.config.programId
+                );
+            } else {
+                console.log("📦 Deploying Solana program...");
+                await this.deploySolanaProgram();
+            }
 
             // Step 2: Initialize program state
             console.log("⚙️ Initializing program state...");
@@ -95,7 +104,11 @@ class DePINfinityDeployer {
      */
     private async deploySolanaProgram(): Promise<void> {
         const projectRoot = path.resolve(__dirname, "..");
-        const clusterFlag = `--provider.cluster ${this.config.network === "mainnet" ? "mainnet-beta" : this.config.network}`;
+        const clusterFlag = `--provider.cluster ${
+            this.config.network === "mainnet"
+                ? "mainnet-beta"
+                : this.config.network
+        }`;
 
         // Build the Anchor program
         console.log("   Building program...");
@@ -170,12 +183,17 @@ class DePINfinityDeployer {
      * Set up reward vault with initial token supply
      */
     private async setupRewardVault(mint: PublicKey): Promise<void> {
-        // Create reward vault account
+        // Create reward vault account, owned by the PDA the program signs
+        // reward transfers with
+        const [vaultAuthority] = vaultAuthorityPda(
+            new PublicKey(this.config.programId)
+        );
         const vaultAccount = await createAccount(
             this.connection,
             this.authority,
             mint,
-            this.authority.publicKey
+            vaultAuthority,
+            this.rewardVault
         );
 
         // Mint initial supply to vault (1 billion DOCOMO tokens)
@@ -210,6 +228,7 @@ class DePINfinityDeployer {
         };
 
         const configPath = path.join(__dirname, "../config/corda-bridge.json");
+        fs.mkdirSync(path.dirname(configPath), { recursive: true });
         fs.writeFileSync(configPath, JSON.stringify(bridgeConfig, null, 2));
 
         console.log("   Corda bridge configuration saved");
@@ -346,6 +365,7 @@ class MobileAppDeployer {
             __dirname,
             "../mobile-app/src/config/app.json"
         );
+        fs.mkdirSync(path.dirname(configPath), { recursive: true });
         fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2));
     }
 
@@ -372,11 +392,16 @@ async function main() {
     const config: DeploymentConfig = {
         network: "devnet",
         rpcUrl: process.env.SOLANA_RPC_URL || "https://api.devnet.solana.com",
-        programId: "DePINfinity111111111111111111111111111111111",
-        authorityKeypair: "./keys/authority.json",
-        rewardVaultKeypair: "./keys/reward-vault.json",
+        programId:
+            process.env.PROGRAM_ID ||
+            "DePINfinity111111111111111111111111111111111",
+        authorityKeypair:
+            process.env.AUTHORITY_KEYPAIR || "./keys/authority.json",
+        rewardVaultKeypair:
+            process.env.REWARD_VAULT_KEYPAIR || "./keys/reward-vault.json",
         cordaEndpoint: "https://corda.ntt-docomo.com/api",
         cordaApiKey: process.env.CORDA_API_KEY || "your-corda-api-key",
+        skipProgramDeploy: process.env.SKIP_PROGRAM_DEPLOY === "1",
     };
 
     // Deploy Solana infrastructure
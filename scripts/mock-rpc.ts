@@ -0,0 +1,1469 @@
+import * as http from "http";
+import { createHash } from "crypto";
+import { AddressInfo } from "net";
+import { Duplex } from "stream";
+import {
+    ComputeBudgetProgram,
+    DataSlice,
+    GetProgramAccountsFilter,
+    PublicKey,
+    SystemProgram,
+    Transaction,
+    TransactionError,
+    TransactionInstruction,
+} from "@solana/web3.js";
+import {
+    ACCOUNT_SIZE,
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    AccountLayout,
+    AccountState,
+    MINT_SIZE,
+    MintLayout,
+    TOKEN_PROGRAM_ID,
+    decodeInstruction,
+    getAssociatedTokenAddressSync,
+    isInitializeAccount2Instruction,
+    isInitializeAccount3Instruction,
+    isInitializeAccountInstruction,
+    isInitializeMint2Instruction,
+    isInitializeMintInstruction,
+    isMintToCheckedInstruction,
+    isMintToInstruction,
+    isTransferCheckedInstruction,
+    isTransferInstruction,
+} from "@solana/spl-token";
+import { utils } from "@coral-xyz/anchor";
+import {
+    DecodedInstruction,
+    DeviceNotFoundError,
+    IDL,
+    NetworkQualityData,
+    ProgramError,
+    RegisterDeviceArgs,
+    SubmitDataArgs,
+    TransactionFailedError,
+    UpdateLocationArgs,
+    accountEncoder,
+    dataSubmissionPda,
+    devicePda,
+    instructionDecoder,
+    programStatePda,
+    vaultAuthorityPda,
+} from "../sdk/src";
+import {
+    Device,
+    MockSolanaProgram,
+    MockSolanaSnapshot,
+    createMockSolanaProgram,
+} from "../mock-solana/src";
+
+/**
+ * Mock RPC Node
+ *
+ * Serves the subset of Solana JSON-RPC the SDK, the bridge and the deploy
+ * script use, backed by a MockSolanaProgram instead of a validator:
+ *
+ *   PROGRAM_ID=<program id> ts-node scripts/mock-rpc.ts
+ *
+ * Program accounts are encoded in the program's real Anchor layouts, and
+ * sent transactions are decoded and applied to the mock, so a
+ * DePINfinityClient pointed at http://127.0.0.1:8899 works unchanged.
+ * Token mints, token accounts and associated token accounts are kept in
+ * memory so reward payouts can be read back.
+ *
+ * Limits: signatures are checked but fees, lamports and blockhash expiry
+ * are not; only devices whose owner is a public key are visible (mock
+ * fixtures use made-up owner names); subscriptions are accepted but only
+ * signature subscriptions ever notify.
+ *
+ * Reads MOCK_RPC_PORT (default 8899; subscriptions on the next port, like
+ * a validator), PROGRAM_ID and an optional MOCK_SNAPSHOT to start from.
+ */
+
+export interface MockRpcOptions {
+    /** Program ID the mock program is served under */
+    programId: PublicKey;
+    /**
+     * JSON-RPC port on 127.0.0.1, with subscriptions on the next port
+     * (both random by default)
+     */
+    port?: number;
+}
+
+export interface MockRpc {
+    programId: PublicKey;
+    /** JSON-RPC endpoint */
+    url: string;
+    /** Subscription endpoint, for `Connection`'s `wsEndpoint` */
+    wsUrl: string;
+    /** Current slot; every committed transaction advances it */
+    slot(): number;
+    close(): Promise<void>;
+}
+
+/** Program ID served when none is configured */
+export const DEFAULT_MOCK_PROGRAM_ID = new PublicKey(
+    createHash("sha256").update("depinfinity:mock-rpc").digest()
+);
+
+// Device::INIT_SPACE in lib.rs; device accounts are allocated at this
+// size whatever the length of their ID
+const DEVICE_SPACE = 8 + 32 + 4 + 32 + 1 + 20 + 1 + 8 + 8 + 8 + 1 + 8;
+
+// Blocks a blockhash stays valid for, as reported to clients
+const BLOCKHASH_VALIDITY = 150;
+
+// Rent-exempt minimum at the default rent (3480 lamports per byte-year,
+// two years), including the 128-byte account header
+const rentExemptBalance = (space: number): number => (space + 128) * 6960;
+
+// A failed JSON-RPC call
+class RpcError extends Error {
+    constructor(
+        readonly code: number,
+        message: string,
+        readonly data?: unknown
+    ) {
+        super(message);
+    }
+}
+
+// An instruction error as the runtime reports it, with the log lines the
+// failing program would have written
+class InstructionFailure extends Error {
+    constructor(
+        readonly error: string | { Custom: number },
+        readonly logs: string[] = []
+    ) {
+        super(
+            typeof error === "string"
+                ? error
+                : `custom program error: 0x${error.Custom.toString(16)}`
+        );
+    }
+}
+
+const anchorFailure = (
+    code: number,
+    name: string,
+    message: string,
+    account?: string
+): InstructionFailure =>
+    new InstructionFailure({ Custom: code }, [
+        `Program log: AnchorError ${
+            account ? `caused by account: ${account}` : "occurred"
+        }. Error Code: ${name}. Error Number: ${code}. Error Message: ${message}.`,
+    ]);
+
+const accountNotInitialized = (account: string): InstructionFailure =>
+    anchorFailure(
+        3012,
+        "AccountNotInitialized",
+        "The program expected this account to be already initialized",
+        account
+    );
+
+const seedsViolated = (account: string): InstructionFailure =>
+    anchorFailure(
+        2006,
+        "ConstraintSeeds",
+        "A seeds constraint was violated",
+        account
+    );
+
+const alreadyInUse = (address: PublicKey): InstructionFailure =>
+    new InstructionFailure({ Custom: 0 }, [
+        `Allocate: account Address { address: ${address.toBase58()}, base: None } already in use`,
+    ]);
+
+// SPL Token program errors, by their TokenError number
+const tokenFailure = (code: number, message: string): InstructionFailure =>
+    new InstructionFailure({ Custom: code }, [
+        `Program log: Error: ${message}`,
+    ]);
+
+// The runtime error for whatever an instruction threw
+function toFailure(error: unknown): InstructionFailure {
+    if (error instanceof InstructionFailure) {
+        return error;
+    }
+    if (error instanceof ProgramError) {
+        const definition = IDL.errors.find(
+            ({ code }) => code === error.programErrorCode
+        );
+        return anchorFailure(
+            error.programErrorCode,
+            definition?.name ?? "Unknown",
+            definition?.msg ?? error.message
+        );
+    }
+    if (error instanceof DeviceNotFoundError) {
+        return accountNotInitialized("device");
+    }
+    return new InstructionFailure("InvalidArgument", [
+        `Program log: ${(error as Error).message}`,
+    ]);
+}
+
+// Instruction arguments as the generated types; the decoder reads them in
+// the IDL layout those types are generated from
+const argsOf = <T>(decoded: DecodedInstruction): T =>
+    decoded.args as unknown as T;
+
+// A public key, or null for the made-up names the mock fixtures use
+function toPublicKey(value: string): PublicKey | null {
+    try {
+        return new PublicKey(value);
+    } catch {
+        return null;
+    }
+}
+
+interface MintState {
+    mintAuthority: PublicKey | null;
+    freezeAuthority: PublicKey | null;
+    supply: bigint;
+    decimals: number;
+}
+
+interface TokenAccountState {
+    mint: PublicKey;
+    owner: PublicKey;
+    amount: bigint;
+}
+
+interface AccountView {
+    owner: PublicKey;
+    data: Buffer;
+    executable: boolean;
+}
+
+interface Execution {
+    err: { InstructionError: [number, InstructionFailure["error"]] } | null;
+    logs: string[];
+}
+
+interface JsonRpcRequest {
+    jsonrpc: "2.0";
+    id?: string | number | null;
+    method: string;
+    params?: unknown[];
+}
+
+// Request configs, as far as the served methods read them
+interface AccountsConfig {
+    dataSlice?: DataSlice;
+    filters?: GetProgramAccountsFilter[];
+    withContext?: boolean;
+}
+
+interface TransactionConfig {
+    encoding?: "base58" | "base64";
+    skipPreflight?: boolean;
+    sigVerify?: boolean;
+}
+
+interface SavedState {
+    program: MockSolanaSnapshot | null;
+    mints: Map<string, MintState>;
+    tokenAccounts: Map<string, TokenAccountState>;
+}
+
+/**
+ * The chain state behind the RPC methods: the mock program plus the token
+ * accounts it pays rewards into
+ */
+class MockLedger {
+    private mints: Map<string, MintState> = new Map();
+    private tokenAccounts: Map<string, TokenAccountState> = new Map();
+    private statuses: Map<
+        string,
+        { slot: number; err: TransactionError | null }
+    > = new Map();
+    private watchers: Map<string, (() => void)[]> = new Map();
+    private currentSlot = 1;
+    // Transactions run one at a time, so rollbacks never interleave
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        private program: MockSolanaProgram,
+        readonly programId: PublicKey
+    ) {}
+
+    get slot(): number {
+        return this.currentSlot;
+    }
+
+    // A fresh blockhash per slot, so resent transactions get new signatures
+    get blockhash(): string {
+        return utils.bytes.bs58.encode(
+            createHash("sha256")
+                .update(`blockhash:${this.currentSlot}`)
+                .digest()
+        );
+    }
+
+    async account(address: PublicKey): Promise<AccountView | null> {
+        const key = address.toBase58();
+        if (address.equals(this.programId)) {
+            return {
+                owner: new PublicKey(
+                    "BPFLoaderUpgradeab1e11111111111111111111111"
+                ),
+                data: Buffer.alloc(0),
+                executable: true,
+            };
+        }
+
+        const data = (await this.programAccounts()).get(key);
+        if (data) {
+            return { owner: this.programId, data, executable: false };
+        }
+        return this.tokenAccount(key);
+    }
+
+    async accountsOwnedBy(
+        owner: PublicKey
+    ): Promise<{ pubkey: string; account: AccountView }[]> {
+        const accounts: { pubkey: string; account: AccountView }[] = [];
+        if (owner.equals(this.programId)) {
+            for (const [pubkey, data] of await this.programAccounts()) {
+                accounts.push({
+                    pubkey,
+                    account: { owner, data, executable: false },
+                });
+            }
+        } else if (owner.equals(TOKEN_PROGRAM_ID)) {
+            for (const pubkey of [
+                ...this.mints.keys(),
+                ...this.tokenAccounts.keys(),
+            ]) {
+                accounts.push({ pubkey, account: this.tokenAccount(pubkey)! });
+            }
+        }
+        return accounts;
+    }
+
+    tokenBalance(address: PublicKey): { amount: bigint; decimals: number } {
+        const account = this.tokenAccounts.get(address.toBase58());
+        if (!account) {
+            throw new RpcError(-32602, `Invalid param: could not find account`);
+        }
+        return {
+            amount: account.amount,
+            decimals: this.mints.get(account.mint.toBase58())?.decimals ?? 0,
+        };
+    }
+
+    status(signature: string) {
+        return this.statuses.get(signature) ?? null;
+    }
+
+    /**
+     * Call `notify` once the transaction is processed
+     */
+    watch(signature: string, notify: () => void): void {
+        if (this.statuses.has(signature)) {
+            notify();
+            return;
+        }
+        this.watchers.set(signature, [
+            ...(this.watchers.get(signature) ?? []),
+            notify,
+        ]);
+    }
+
+    /**
+     * Run a transaction against the current state. Failed transactions
+     * change nothing; successful ones are kept when `commit` is set.
+     */
+    execute(
+        transaction: Transaction,
+        options: { commit: boolean; verifySignatures: boolean }
+    ): Promise<Execution> {
+        const run = this.queue.then(() =>
+            this.executeNow(transaction, options)
+        );
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Record the outcome of a sent transaction under its signature
+     */
+    record(signature: string, err: TransactionError | null): void {
+        this.statuses.set(signature, { slot: this.currentSlot, err });
+        this.currentSlot++;
+
+        const watchers = this.watchers.get(signature) ?? [];
+        this.watchers.delete(signature);
+        watchers.forEach((notify) => notify());
+    }
+
+    private async executeNow(
+        transaction: Transaction,
+        {
+            commit,
+            verifySignatures,
+        }: { commit: boolean; verifySignatures: boolean }
+    ): Promise<Execution> {
+        if (verifySignatures && !transaction.verifySignatures()) {
+            throw new RpcError(
+                -32003,
+                "Transaction signature verification failure"
+            );
+        }
+
+        // Unverified simulations act for every required signer
+        const signers = new Set(
+            transaction.signatures.map(({ publicKey }) => publicKey.toBase58())
+        );
+        const saved = this.save(
+            transaction.instructions.some((instruction) =>
+                instruction.programId.equals(this.programId)
+            )
+        );
+
+        const logs: string[] = [];
+        for (const [index, instruction] of transaction.instructions.entries()) {
+            const programId = instruction.programId.toBase58();
+            logs.push(`Program ${programId} invoke [1]`);
+            try {
+                logs.push(
+                    ...(await this.executeInstruction(instruction, signers))
+                );
+                logs.push(`Program ${programId} success`);
+            } catch (error) {
+                const failure = toFailure(error);
+                logs.push(
+                    ...failure.logs,
+                    `Program ${programId} failed: ${failure.message}`
+                );
+                this.restore(saved);
+                return {
+                    err: { InstructionError: [index, failure.error] },
+                    logs,
+                };
+            }
+        }
+
+        if (!commit) {
+            this.restore(saved);
+        }
+        return { err: null, logs };
+    }
+
+    private async executeInstruction(
+        instruction: TransactionInstruction,
+        signers: Set<string>
+    ): Promise<string[]> {
+        const { programId } = instruction;
+        if (programId.equals(this.programId)) {
+            return this.executeProgram(instruction, signers);
+        }
+        if (programId.equals(TOKEN_PROGRAM_ID)) {
+            return this.executeToken(instruction, signers);
+        }
+        if (programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+            return this.executeAssociatedToken(instruction);
+        }
+        // Lamports are not tracked, so account creation and transfers are
+        // accepted as they come
+        if (
+            programId.equals(SystemProgram.programId) ||
+            programId.equals(ComputeBudgetProgram.programId)
+        ) {
+            return [];
+        }
+        throw new InstructionFailure("UnsupportedProgramId", [
+            `Program ${programId.toBase58()} is not served by the mock RPC node`,
+        ]);
+    }
+
+    // DePINfinity instructions, applied to the mock program as their signer
+    private async executeProgram(
+        instruction: TransactionInstruction,
+        signers: Set<string>
+    ): Promise<string[]> {
+        let decoded;
+        try {
+            decoded = instructionDecoder.decode(instruction.data);
+        } catch {
+            throw anchorFailure(
+                101,
+                "InstructionFallbackNotFound",
+                "Fallback functions are not supported"
+            );
+        }
+        if (instruction.keys.length < decoded.accounts.length) {
+            throw new InstructionFailure("NotEnoughAccountKeys");
+        }
+
+        const keys: Record<string, PublicKey> = {};
+        decoded.accounts.forEach((name, index) => {
+            keys[name] = instruction.keys[index].pubkey;
+        });
+        const signerAccount = keys.user ? "user" : "authority";
+        const signer = keys[signerAccount];
+        if (!signers.has(signer.toBase58())) {
+            throw anchorFailure(
+                3010,
+                "AccountNotSigner",
+                "The given account did not sign",
+                signerAccount
+            );
+        }
+
+        const caller = signer.toBase58();
+        const state = await this.program.getProgramState();
+        const initialized = toPublicKey(state.authority) !== null;
+        if (decoded.name !== "initialize" && !initialized) {
+            throw accountNotInitialized("program_state");
+        }
+
+        switch (decoded.name) {
+            case "initialize":
+                if (
+                    !keys.programState.equals(
+                        programStatePda(this.programId)[0]
+                    )
+                ) {
+                    throw seedsViolated("program_state");
+                }
+                if (initialized) {
+                    throw alreadyInUse(keys.programState);
+                }
+                await this.program.initialize(caller);
+                break;
+            case "registerDevice": {
+                const args = argsOf<RegisterDeviceArgs>(decoded);
+                if (
+                    !keys.device.equals(
+                        devicePda(this.programId, signer, args.deviceId)[0]
+                    )
+                ) {
+                    throw seedsViolated("device");
+                }
+                try {
+                    await this.program.registerDevice(
+                        args.deviceId,
+                        args.deviceType,
+                        args.initialLocation,
+                        caller
+                    );
+                } catch (error) {
+                    throw error instanceof TransactionFailedError
+                        ? alreadyInUse(keys.device)
+                        : error;
+                }
+                break;
+            }
+            case "submitData": {
+                const args = argsOf<SubmitDataArgs>(decoded);
+                await this.submitData(keys, args.qualityData, caller);
+                break;
+            }
+            case "updateLocation": {
+                const args = argsOf<UpdateLocationArgs>(decoded);
+                await this.program.updateLocation(
+                    (
+                        await this.deviceAt(keys.device)
+                    ).deviceId,
+                    args.newLocation,
+                    caller
+                );
+                break;
+            }
+            case "toggleDeviceStatus":
+                await this.program.toggleDeviceStatus(
+                    (
+                        await this.deviceAt(keys.device)
+                    ).deviceId,
+                    caller
+                );
+                break;
+            case "pauseProgram":
+                await this.program.pauseProgram(caller);
+                break;
+            case "resumeProgram":
+                await this.program.resumeProgram(caller);
+                break;
+            case "transferAuthority":
+                await this.program.transferAuthority(
+                    keys.newAuthority.toBase58(),
+                    caller
+                );
+                break;
+        }
+
+        const name = decoded.name[0].toUpperCase() + decoded.name.slice(1);
+        return [`Program log: Instruction: ${name}`];
+    }
+
+    // The mock records the submission; the reward it pays moves from the
+    // vault to the owner's token account, failing like the program's
+    // transfer when the vault cannot cover it
+    private async submitData(
+        keys: Record<string, PublicKey>,
+        qualityData: NetworkQualityData,
+        caller: string
+    ): Promise<void> {
+        const device = await this.deviceAt(keys.device);
+        if (
+            !keys.dataSubmission.equals(
+                dataSubmissionPda(
+                    this.programId,
+                    keys.device,
+                    device.submissionCount
+                )[0]
+            )
+        ) {
+            throw seedsViolated("data_submission");
+        }
+
+        const vault = this.tokenAccounts.get(keys.rewardVault.toBase58());
+        if (!vault) {
+            throw accountNotInitialized("reward_vault");
+        }
+        if (!this.tokenAccounts.has(keys.userTokenAccount.toBase58())) {
+            throw accountNotInitialized("user_token_account");
+        }
+
+        const earned = device.totalRewardsEarned;
+        await this.program.submitData(device.deviceId, qualityData, caller);
+
+        const reward = device.totalRewardsEarned - earned;
+        if (reward > 0) {
+            if (!vault.owner.equals(vaultAuthorityPda(this.programId)[0])) {
+                throw tokenFailure(4, "owner does not match");
+            }
+            this.transfer(
+                keys.rewardVault,
+                keys.userTokenAccount,
+                BigInt(reward)
+            );
+        }
+    }
+
+    private executeToken(
+        instruction: TransactionInstruction,
+        signers: Set<string>
+    ): string[] {
+        const decoded = decodeInstruction(instruction);
+
+        if (
+            isInitializeMintInstruction(decoded) ||
+            isInitializeMint2Instruction(decoded)
+        ) {
+            const mint = decoded.keys.mint.pubkey.toBase58();
+            if (this.mints.has(mint) || this.tokenAccounts.has(mint)) {
+                throw tokenFailure(6, "Account already in use");
+            }
+            this.mints.set(mint, {
+                mintAuthority: decoded.data.mintAuthority,
+                freezeAuthority: decoded.data.freezeAuthority,
+                supply: BigInt(0),
+                decimals: decoded.data.decimals,
+            });
+            return ["Program log: Instruction: InitializeMint"];
+        }
+
+        if (
+            isInitializeAccountInstruction(decoded) ||
+            isInitializeAccount2Instruction(decoded) ||
+            isInitializeAccount3Instruction(decoded)
+        ) {
+            const owner = isInitializeAccountInstruction(decoded)
+                ? decoded.keys.owner.pubkey
+                : decoded.data.owner;
+            this.openTokenAccount(
+                decoded.keys.account.pubkey,
+                decoded.keys.mint.pubkey,
+                owner
+            );
+            return ["Program log: Instruction: InitializeAccount"];
+        }
+
+        if (
+            isMintToInstruction(decoded) ||
+            isMintToCheckedInstruction(decoded)
+        ) {
+            const mint = this.mints.get(decoded.keys.mint.pubkey.toBase58());
+            const destination = this.tokenAccounts.get(
+                decoded.keys.destination.pubkey.toBase58()
+            );
+            if (!mint || !destination) {
+                throw new InstructionFailure("UninitializedAccount");
+            }
+            const authority = decoded.keys.authority.pubkey;
+            if (
+                !mint.mintAuthority?.equals(authority) ||
+                !signers.has(authority.toBase58())
+            ) {
+                throw tokenFailure(4, "owner does not match");
+            }
+            if (!destination.mint.equals(decoded.keys.mint.pubkey)) {
+                throw tokenFailure(3, "Account not associated with this Mint");
+            }
+
+            mint.supply += BigInt(decoded.data.amount);
+            destination.amount += BigInt(decoded.data.amount);
+            return ["Program log: Instruction: MintTo"];
+        }
+
+        if (
+            isTransferInstruction(decoded) ||
+            isTransferCheckedInstruction(decoded)
+        ) {
+            const source = this.tokenAccounts.get(
+                decoded.keys.source.pubkey.toBase58()
+            );
+            const owner = decoded.keys.owner.pubkey;
+            if (
+                source &&
+                (!source.owner.equals(owner) || !signers.has(owner.toBase58()))
+            ) {
+                throw tokenFailure(4, "owner does not match");
+            }
+            this.transfer(
+                decoded.keys.source.pubkey,
+                decoded.keys.destination.pubkey,
+                BigInt(decoded.data.amount)
+            );
+            return ["Program log: Instruction: Transfer"];
+        }
+
+        throw new InstructionFailure("InvalidInstructionData", [
+            `Program log: Token instruction ${decoded.data.instruction} is not supported by the mock RPC node`,
+        ]);
+    }
+
+    private executeAssociatedToken(
+        instruction: TransactionInstruction
+    ): string[] {
+        const [, account, owner, mint] = instruction.keys.map(
+            ({ pubkey }) => pubkey
+        );
+        // Create is empty or 0; CreateIdempotent is 1
+        const idempotent = instruction.data[0] === 1;
+
+        if (!getAssociatedTokenAddressSync(mint, owner, true).equals(account)) {
+            throw new InstructionFailure("InvalidSeeds", [
+                "Program log: Associated address does not match seed derivation",
+            ]);
+        }
+        if (this.tokenAccounts.has(account.toBase58())) {
+            if (idempotent) return [];
+            throw alreadyInUse(account);
+        }
+
+        this.openTokenAccount(account, mint, owner);
+        return ["Program log: Create"];
+    }
+
+    private openTokenAccount(
+        account: PublicKey,
+        mint: PublicKey,
+        owner: PublicKey
+    ): void {
+        const key = account.toBase58();
+        if (this.tokenAccounts.has(key) || this.mints.has(key)) {
+            throw tokenFailure(6, "Account already in use");
+        }
+        if (!this.mints.has(mint.toBase58())) {
+            throw tokenFailure(2, "Invalid Mint");
+        }
+        this.tokenAccounts.set(key, { mint, owner, amount: BigInt(0) });
+    }
+
+    private transfer(from: PublicKey, to: PublicKey, amount: bigint): void {
+        const source = this.tokenAccounts.get(from.toBase58());
+        const destination = this.tokenAccounts.get(to.toBase58());
+        if (!source || !destination) {
+            throw new InstructionFailure("UninitializedAccount");
+        }
+        if (!source.mint.equals(destination.mint)) {
+            throw tokenFailure(3, "Account not associated with this Mint");
+        }
+        if (source.amount < amount) {
+            throw tokenFailure(1, "insufficient funds");
+        }
+        source.amount -= amount;
+        destination.amount += amount;
+    }
+
+    // The mock's device at a device PDA
+    private async deviceAt(address: PublicKey): Promise<Device> {
+        const device = this.program.getAllDevices().find((candidate) => {
+            const owner = toPublicKey(candidate.owner);
+            return (
+                owner !== null &&
+                devicePda(this.programId, owner, candidate.deviceId)[0].equals(
+                    address
+                )
+            );
+        });
+        if (!device) {
+            throw accountNotInitialized("device");
+        }
+        return device;
+    }
+
+    // The program's accounts, encoded from the mock's state
+    private async programAccounts(): Promise<Map<string, Buffer>> {
+        const accounts = new Map<string, Buffer>();
+        const { devices, programState, submissions } = this.program.snapshot();
+        if (toPublicKey(programState.authority) === null) {
+            return accounts;
+        }
+
+        const [programStateAddress, programStateBump] = programStatePda(
+            this.programId
+        );
+        accounts.set(
+            programStateAddress.toBase58(),
+            accountEncoder.encodeProgramState({
+                ...programState,
+                bump: programStateBump,
+            })
+        );
+
+        const deviceAddresses = new Map<string, PublicKey>();
+        for (const { id, ...device } of devices) {
+            const owner = toPublicKey(device.owner);
+            if (!owner) continue;
+
+            const [address, bump] = devicePda(
+                this.programId,
+                owner,
+                device.deviceId
+            );
+            deviceAddresses.set(id, address);
+            accounts.set(
+                address.toBase58(),
+                accountEncoder.encodeDevice({ ...device, bump }, DEVICE_SPACE)
+            );
+        }
+
+        // Submissions are kept in order, so a device's Nth submission is at
+        // its Nth DataSubmission address
+        const counts = new Map<string, number>();
+        for (const { address: _, ...submission } of submissions) {
+            const device = deviceAddresses.get(submission.device);
+            if (!device) continue;
+
+            const index = counts.get(submission.device) ?? 0;
+            counts.set(submission.device, index + 1);
+            accounts.set(
+                dataSubmissionPda(this.programId, device, index)[0].toBase58(),
+                accountEncoder.encodeDataSubmission({
+                    ...submission,
+                    device: device.toBase58(),
+                })
+            );
+        }
+
+        return accounts;
+    }
+
+    private tokenAccount(address: string): AccountView | null {
+        const mint = this.mints.get(address);
+        if (mint) {
+            const data = Buffer.alloc(MINT_SIZE);
+            MintLayout.encode(
+                {
+                    mintAuthorityOption: mint.mintAuthority ? 1 : 0,
+                    mintAuthority: mint.mintAuthority ?? PublicKey.default,
+                    supply: mint.supply,
+                    decimals: mint.decimals,
+                    isInitialized: true,
+                    freezeAuthorityOption: mint.freezeAuthority ? 1 : 0,
+                    freezeAuthority: mint.freezeAuthority ?? PublicKey.default,
+                },
+                data
+            );
+            return { owner: TOKEN_PROGRAM_ID, data, executable: false };
+        }
+
+        const account = this.tokenAccounts.get(address);
+        if (account) {
+            const data = Buffer.alloc(ACCOUNT_SIZE);
+            AccountLayout.encode(
+                {
+                    mint: account.mint,
+                    owner: account.owner,
+                    amount: account.amount,
+                    delegateOption: 0,
+                    delegate: PublicKey.default,
+                    state: AccountState.Initialized,
+                    isNativeOption: 0,
+                    isNative: BigInt(0),
+                    delegatedAmount: BigInt(0),
+                    closeAuthorityOption: 0,
+                    closeAuthority: PublicKey.default,
+                },
+                data
+            );
+            return { owner: TOKEN_PROGRAM_ID, data, executable: false };
+        }
+
+        return null;
+    }
+
+    private save(includeProgram: boolean): SavedState {
+        const copy = <T>(entries: Map<string, T>) =>
+            new Map(Array.from(entries, ([key, value]) => [key, { ...value }]));
+        return {
+            program: includeProgram ? this.program.snapshot() : null,
+            mints: copy(this.mints),
+            tokenAccounts: copy(this.tokenAccounts),
+        };
+    }
+
+    private restore(saved: SavedState): void {
+        if (saved.program) {
+            this.program.rollback(saved.program);
+        }
+        this.mints = saved.mints;
+        this.tokenAccounts = saved.tokenAccounts;
+    }
+}
+
+// Transactions arrive base64 encoded, or base58 when no encoding is given
+function decodeTransaction(
+    encoded: string,
+    config: TransactionConfig = {}
+): Transaction {
+    try {
+        return Transaction.from(
+            config.encoding === "base64"
+                ? Buffer.from(encoded, "base64")
+                : Buffer.from(utils.bytes.bs58.decode(encoded))
+        );
+    } catch (error) {
+        throw new RpcError(
+            -32602,
+            `invalid transaction: ${(error as Error).message}`
+        );
+    }
+}
+
+function encodeAccount(account: AccountView, dataSlice?: DataSlice) {
+    const data = dataSlice
+        ? account.data.subarray(
+              dataSlice.offset,
+              dataSlice.offset + dataSlice.length
+          )
+        : account.data;
+    return {
+        data: [data.toString("base64"), "base64"],
+        executable: account.executable,
+        lamports: rentExemptBalance(account.data.length),
+        owner: account.owner.toBase58(),
+        rentEpoch: 0,
+        space: account.data.length,
+    };
+}
+
+function matchesFilters(
+    data: Buffer,
+    filters: GetProgramAccountsFilter[] = []
+): boolean {
+    return filters.every((filter) => {
+        if ("dataSize" in filter) {
+            return data.length === filter.dataSize;
+        }
+        const { offset, bytes, encoding } = filter.memcmp;
+        const expected =
+            encoding === "base64"
+                ? Buffer.from(bytes, "base64")
+                : Buffer.from(utils.bytes.bs58.decode(bytes));
+        return data.subarray(offset, offset + expected.length).equals(expected);
+    });
+}
+
+/**
+ * Answer one JSON-RPC call
+ */
+async function call(
+    ledger: MockLedger,
+    method: string,
+    params: unknown[] = []
+): Promise<unknown> {
+    const withContext = (value: unknown) => ({
+        context: { slot: ledger.slot },
+        value,
+    });
+
+    switch (method) {
+        case "getAccountInfo": {
+            const [address, config = {}] = params as [
+                string,
+                AccountsConfig?
+            ];
+            const account = await ledger.account(new PublicKey(address));
+            return withContext(
+                account && encodeAccount(account, config.dataSlice)
+            );
+        }
+        case "getMultipleAccounts": {
+            const [addresses, config = {}] = params as [
+                string[],
+                AccountsConfig?
+            ];
+            const accounts = [];
+            for (const address of addresses) {
+                const account = await ledger.account(new PublicKey(address));
+                accounts.push(
+                    account && encodeAccount(account, config.dataSlice)
+                );
+            }
+            return withContext(accounts);
+        }
+        case "getProgramAccounts": {
+            const [programId, config = {}] = params as [
+                string,
+                AccountsConfig?
+            ];
+            const accounts = (
+                await ledger.accountsOwnedBy(new PublicKey(programId))
+            )
+                .filter(({ account }) =>
+                    matchesFilters(account.data, config.filters)
+                )
+                .map(({ pubkey, account }) => ({
+                    pubkey,
+                    account: encodeAccount(account, config.dataSlice),
+                }));
+            return config.withContext ? withContext(accounts) : accounts;
+        }
+        case "getTokenAccountBalance": {
+            const { amount, decimals } = ledger.tokenBalance(
+                new PublicKey(params[0] as string)
+            );
+            const uiAmount = Number(amount) / 10 ** decimals;
+            return withContext({
+                amount: amount.toString(),
+                decimals,
+                uiAmount,
+                uiAmountString: uiAmount.toString(),
+            });
+        }
+        case "getLatestBlockhash":
+            return withContext({
+                blockhash: ledger.blockhash,
+                lastValidBlockHeight: ledger.slot + BLOCKHASH_VALIDITY,
+            });
+        case "getSlot":
+        case "getBlockHeight":
+            return ledger.slot;
+        case "getMinimumBalanceForRentExemption":
+            return rentExemptBalance(params[0] as number);
+        case "getSignatureStatuses": {
+            const [signatures] = params as [string[]];
+            return withContext(
+                signatures.map((signature) => {
+                    const status = ledger.status(signature);
+                    return (
+                        status && {
+                            slot: status.slot,
+                            confirmations: null,
+                            err: status.err,
+                            status: status.err
+                                ? { Err: status.err }
+                                : { Ok: null },
+                            confirmationStatus: "finalized",
+                        }
+                    );
+                })
+            );
+        }
+        case "sendTransaction": {
+            const [encoded, config = {}] = params as [
+                string,
+                TransactionConfig?
+            ];
+            const transaction = decodeTransaction(encoded, config);
+            const signature = utils.bytes.bs58.encode(transaction.signature!);
+            if (ledger.status(signature)) {
+                throw new RpcError(
+                    -32002,
+                    "Transaction simulation failed: This transaction has already been processed",
+                    { err: "AlreadyProcessed", logs: [], accounts: null }
+                );
+            }
+
+            const { err, logs } = await ledger.execute(transaction, {
+                commit: true,
+                verifySignatures: true,
+            });
+            // Failures are reported by the preflight check, or recorded
+            // like a landed transaction when it is skipped
+            if (err && !config.skipPreflight) {
+                const [index, error] = err.InstructionError;
+                throw new RpcError(
+                    -32002,
+                    `Transaction simulation failed: Error processing Instruction ${index}: ${
+                        new InstructionFailure(error).message
+                    }`,
+                    { err, logs, accounts: null, unitsConsumed: 0 }
+                );
+            }
+            ledger.record(signature, err);
+            return signature;
+        }
+        case "simulateTransaction": {
+            const [encoded, config = {}] = params as [
+                string,
+                TransactionConfig?
+            ];
+            const { err, logs } = await ledger.execute(
+                decodeTransaction(encoded, config),
+                { commit: false, verifySignatures: !!config.sigVerify }
+            );
+            return withContext({
+                err,
+                logs,
+                accounts: null,
+                unitsConsumed: 0,
+                returnData: null,
+            });
+        }
+        case "getHealth":
+            return "ok";
+        case "getVersion":
+            return { "solana-core": "1.18.0", "feature-set": 0 };
+        default:
+            throw new RpcError(-32601, "Method not found");
+    }
+}
+
+// Answer a JSON-RPC request body, which may be a batch
+async function respond(
+    ledger: MockLedger,
+    body: JsonRpcRequest | JsonRpcRequest[]
+): Promise<unknown> {
+    if (Array.isArray(body)) {
+        return Promise.all(body.map((request) => respond(ledger, request)));
+    }
+    try {
+        return {
+            jsonrpc: "2.0",
+            id: body.id,
+            result: await call(ledger, body.method, body.params),
+        };
+    } catch (error) {
+        const { code, message, data } =
+            error instanceof RpcError
+                ? error
+                : new RpcError(-32603, (error as Error).message);
+        return {
+            jsonrpc: "2.0",
+            id: body.id,
+            error:
+                data === undefined
+                    ? { code, message }
+                    : { code, message, data },
+        };
+    }
+}
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+interface Frame {
+    fin: boolean;
+    opcode: number;
+    payload: Buffer;
+    /** Bytes the frame took up, header included */
+    size: number;
+}
+
+// One WebSocket frame from the start of `data`, or null until it has all
+// arrived. Client frames are always masked.
+function readFrame(data: Buffer): Frame | null {
+    if (data.length < 2) return null;
+
+    let length = data[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+        if (data.length < 4) return null;
+        length = data.readUInt16BE(2);
+        offset = 4;
+    } else if (length === 127) {
+        if (data.length < 10) return null;
+        length = Number(data.readBigUInt64BE(2));
+        offset = 10;
+    }
+    const masked = (data[1] & 0x80) !== 0;
+    const mask = masked ? data.subarray(offset, offset + 4) : null;
+    if (masked) offset += 4;
+    if (data.length < offset + length) return null;
+
+    const payload = Buffer.from(data.subarray(offset, offset + length));
+    if (mask) {
+        for (let i = 0; i < payload.length; i++) {
+            payload[i] ^= mask[i % 4];
+        }
+    }
+    return {
+        fin: (data[0] & 0x80) !== 0,
+        opcode: data[0] & 0x0f,
+        payload,
+        size: offset + length,
+    };
+}
+
+function writeFrame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer;
+    if (payload.length < 126) {
+        header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * Just enough of RFC 6455 to carry JSON-RPC text messages: the handshake,
+ * fragmented text frames, ping and close
+ */
+function acceptWebSocket(
+    request: http.IncomingMessage,
+    socket: Duplex,
+    onMessage: (text: string, send: (text: string) => void) => void
+): void {
+    const key = request.headers["sec-websocket-key"];
+    if (typeof key !== "string") {
+        socket.destroy();
+        return;
+    }
+
+    const accept = createHash("sha1")
+        .update(key + WEBSOCKET_GUID)
+        .digest("base64");
+    socket.write(
+        [
+            "HTTP/1.1 101 Switching Protocols",
+            "Upgrade: websocket",
+            "Connection: Upgrade",
+            `Sec-WebSocket-Accept: ${accept}`,
+            "",
+            "",
+        ].join("\r\n")
+    );
+
+    const send = (opcode: number, payload: Buffer) => {
+        if (socket.writable) socket.write(writeFrame(opcode, payload));
+    };
+    const sendText = (text: string) => send(0x1, Buffer.from(text, "utf8"));
+
+    let buffered = Buffer.alloc(0);
+    let fragments: Buffer[] = [];
+    socket.on("data", (chunk: Buffer) => {
+        buffered = Buffer.concat([buffered, chunk]);
+        for (
+            let frame = readFrame(buffered);
+            frame;
+            frame = readFrame(buffered)
+        ) {
+            buffered = buffered.subarray(frame.size);
+            switch (frame.opcode) {
+                case 0x0: // continuation
+                case 0x1: // text
+                    fragments.push(frame.payload);
+                    if (frame.fin) {
+                        const text = Buffer.concat(fragments).toString("utf8");
+                        fragments = [];
+                        onMessage(text, sendText);
+                    }
+                    break;
+                case 0x8: // close
+                    send(0x8, frame.payload.subarray(0, 2));
+                    socket.end();
+                    return;
+                case 0x9: // ping
+                    send(0xa, frame.payload);
+                    break;
+            }
+        }
+    });
+    socket.on("error", () => socket.destroy());
+}
+
+/**
+ * Serve `program` over JSON-RPC until `close()` is called
+ */
+export async function startMockRpc(
+    program: MockSolanaProgram,
+    options: MockRpcOptions
+): Promise<MockRpc> {
+    const ledger = new MockLedger(program, options.programId);
+    // Open connections, so close() never waits on keep-alive sockets
+    const connections = new Set<Duplex>();
+    const subscribers = new Set<Duplex>();
+    const track = (sockets: Set<Duplex>) => (socket: Duplex) => {
+        sockets.add(socket);
+        socket.on("close", () => sockets.delete(socket));
+    };
+    let nextSubscription = 1;
+
+    const server = http.createServer((request, response) => {
+        const reply = (body: unknown) => {
+            response.writeHead(200, { "Content-Type": "application/json" });
+            response.end(JSON.stringify(body));
+        };
+
+        if (request.method !== "POST") {
+            response.writeHead(405);
+            response.end();
+            return;
+        }
+
+        const chunks: Buffer[] = [];
+        request.on("data", (chunk: Buffer) => chunks.push(chunk));
+        request.on("end", () => {
+            let body: JsonRpcRequest | JsonRpcRequest[];
+            try {
+                body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+            } catch {
+                reply({
+                    jsonrpc: "2.0",
+                    id: null,
+                    error: { code: -32700, message: "Parse error" },
+                });
+                return;
+            }
+            respond(ledger, body).then(reply);
+        });
+    });
+
+    // Subscriptions. Signature subscriptions notify once the transaction
+    // is processed; the others are acknowledged and stay silent.
+    const subscriptions = http.createServer((_, response) => {
+        response.writeHead(426);
+        response.end();
+    });
+    subscriptions.on("upgrade", (request, socket: Duplex) => {
+        acceptWebSocket(request, socket, (text, send) => {
+            let message: JsonRpcRequest;
+            try {
+                message = JSON.parse(text);
+            } catch {
+                return;
+            }
+            // Notifications such as the client's keep-alive pings
+            if (message.id === undefined || message.id === null) return;
+
+            const { id, method, params = [] } = message;
+            const reply = (result: unknown) =>
+                send(JSON.stringify({ jsonrpc: "2.0", id, result }));
+
+            if (method.endsWith("Unsubscribe")) {
+                reply(true);
+            } else if (method.endsWith("Subscribe")) {
+                const subscription = nextSubscription++;
+                reply(subscription);
+                if (method === "signatureSubscribe") {
+                    const [signature] = params as [string];
+                    // Sent after the reply has been handled
+                    ledger.watch(signature, () =>
+                        setImmediate(() =>
+                            send(
+                                JSON.stringify({
+                                    jsonrpc: "2.0",
+                                    method: "signatureNotification",
+                                    params: {
+                                        result: {
+                                            context: { slot: ledger.slot },
+                                            value: {
+                                                err: ledger.status(signature)
+                                                    ?.err,
+                                            },
+                                        },
+                                        subscription,
+                                    },
+                                })
+                            )
+                        )
+                    );
+                }
+            } else {
+                respond(ledger, message).then((response) =>
+                    send(JSON.stringify(response))
+                );
+            }
+        });
+    });
+
+    const listen = (target: http.Server, port: number) =>
+        new Promise<number>((resolve, reject) => {
+            target.once("error", reject);
+            target.listen(port, "127.0.0.1", () =>
+                resolve((target.address() as AddressInfo).port)
+            );
+        });
+    server.on("connection", track(connections));
+    subscriptions.on("connection", track(subscribers));
+    const port = await listen(server, options.port ?? 0);
+    const wsPort = await listen(subscriptions, options.port ? port + 1 : 0);
+
+    return {
+        programId: options.programId,
+        url: `http://127.0.0.1:${port}`,
+        wsUrl: `ws://127.0.0.1:${wsPort}`,
+        slot: () => ledger.slot,
+        close: async () => {
+            const closed = [server, subscriptions].map(
+                (target) => new Promise((resolve) => target.close(resolve))
+            );
+            connections.forEach((socket) => socket.destroy());
+
+            // web3.js reconnects subscription sockets the server drops, but
+            // closes them itself once idle, so give clients a moment first
+            const deadline = Date.now() + 2000;
+            while (subscribers.size > 0 && Date.now() < deadline) {
+                await new Promise((resolve) => setTimeout(resolve, 50));
+            }
+            subscribers.forEach((socket) => socket.destroy());
+            await Promise.all(closed);
+        },
+    };
+}
+
+async function main(): Promise<void> {
+    const program = createMockSolanaProgram();
+    if (process.env.MOCK_SNAPSHOT) {
+        await program.loadSnapshot(process.env.MOCK_SNAPSHOT);
+    }
+    const programId = process.env.PROGRAM_ID
+        ? new PublicKey(process.env.PROGRAM_ID)
+        : DEFAULT_MOCK_PROGRAM_ID;
+
+    const rpc = await startMockRpc(program, {
+        programId,
+        port: parseInt(process.env.MOCK_RPC_PORT || "8899", 10),
+    });
+
+    console.log(`🧪 Mock RPC node for program ${programId.toBase58()}`);
+    console.log(`   JSON-RPC:      ${rpc.url}`);
+    console.log(`   Subscriptions: ${rpc.wsUrl}`);
+
+    const shutdown = () => rpc.close().then(() => process.exit(0));
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
+}
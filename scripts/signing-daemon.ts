@@ -0,0 +1,170 @@
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+    Keypair,
+    PublicKey,
+    VersionedMessage,
+    VersionedTransaction,
+} from "@solana/web3.js";
+
+/**
+ * Local Signing Daemon
+ *
+ * Stand-in for the signing service that holds router and fleet keys, so
+ * `RemoteSigner` can be exercised without hardware. Speaks the same
+ * protocol over TCP or a Unix socket:
+ *
+ *   SIGNER_KEYPAIR=./keys/router.json SIGNER_SOCKET=/tmp/signer.sock \
+ *       ts-node scripts/signing-daemon.ts
+ *
+ * Reads SIGNER_KEYPAIR, SIGNER_SOCKET or SIGNER_PORT (default 7070) and an
+ * optional SIGNER_TOKEN that clients must send as a bearer token.
+ */
+
+export interface SigningDaemonOptions {
+    /** Listen on this Unix socket instead of TCP */
+    socketPath?: string;
+    /** TCP port on 127.0.0.1 (random by default) */
+    port?: number;
+    /** Bearer token required on every request */
+    token?: string;
+    /** Signing policy; messages it rejects are refused with 403 */
+    approve?: (message: VersionedMessage) => boolean;
+}
+
+export interface SigningDaemon {
+    publicKey: PublicKey;
+    /** Base URL when listening on TCP */
+    url: string | null;
+    socketPath: string | null;
+    /** Number of messages signed so far */
+    signedCount(): number;
+    close(): Promise<void>;
+}
+
+class PolicyError extends Error {}
+
+/**
+ * Serve signatures for `keypair` until `close()` is called
+ */
+export async function startSigningDaemon(
+    keypair: Keypair,
+    options: SigningDaemonOptions = {}
+): Promise<SigningDaemon> {
+    let signed = 0;
+
+    // Sign the message bytes, checking they are a transaction message that
+    // needs this key
+    const sign = (encoded: string): string => {
+        const message = VersionedMessage.deserialize(
+            Buffer.from(encoded, "base64")
+        );
+        if (options.approve && !options.approve(message)) {
+            throw new PolicyError("Message rejected by signing policy");
+        }
+
+        const transaction = new VersionedTransaction(message);
+        transaction.sign([keypair]);
+        const index = message.staticAccountKeys.findIndex((key) =>
+            key.equals(keypair.publicKey)
+        );
+        return Buffer.from(transaction.signatures[index]).toString("base64");
+    };
+
+    const server = http.createServer((request, response) => {
+        const reply = (status: number, body: unknown) => {
+            // One request per connection, so close() never waits on idle
+            // keep-alive sockets
+            response.writeHead(status, {
+                "Content-Type": "application/json",
+                Connection: "close",
+            });
+            response.end(JSON.stringify(body));
+        };
+
+        if (
+            options.token &&
+            request.headers.authorization !== `Bearer ${options.token}`
+        ) {
+            reply(401, { error: "Unauthorized" });
+            return;
+        }
+
+        if (request.method === "GET" && request.url === "/public-key") {
+            reply(200, { publicKey: keypair.publicKey.toBase58() });
+            return;
+        }
+        if (request.method !== "POST" || request.url !== "/sign") {
+            reply(404, { error: "Not found" });
+            return;
+        }
+
+        const chunks: Buffer[] = [];
+        request.on("data", (chunk: Buffer) => chunks.push(chunk));
+        request.on("end", () => {
+            try {
+                const { messages } = JSON.parse(
+                    Buffer.concat(chunks).toString("utf8")
+                );
+                if (!Array.isArray(messages)) {
+                    throw new Error("Expected { messages: string[] }");
+                }
+                const signatures = messages.map(sign);
+                signed += signatures.length;
+                reply(200, { signatures });
+            } catch (error) {
+                reply(error instanceof PolicyError ? 403 : 400, {
+                    error: (error as Error).message,
+                });
+            }
+        });
+    });
+
+    await new Promise<void>((resolve) => {
+        if (options.socketPath) {
+            server.listen(options.socketPath, () => resolve());
+        } else {
+            server.listen(options.port ?? 0, "127.0.0.1", () => resolve());
+        }
+    });
+
+    const url = options.socketPath
+        ? null
+        : `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        publicKey: keypair.publicKey,
+        url,
+        socketPath: options.socketPath ?? null,
+        signedCount: () => signed,
+        close: () => new Promise((resolve) => server.close(() => resolve())),
+    };
+}
+
+async function main(): Promise<void> {
+    const keypairPath = process.env.SIGNER_KEYPAIR || "./keys/signer.json";
+    const keypair = Keypair.fromSecretKey(
+        new Uint8Array(JSON.parse(fs.readFileSync(keypairPath, "utf8")))
+    );
+
+    const daemon = await startSigningDaemon(keypair, {
+        socketPath: process.env.SIGNER_SOCKET,
+        port: parseInt(process.env.SIGNER_PORT || "7070", 10),
+        token: process.env.SIGNER_TOKEN,
+    });
+
+    console.log(`🔐 Signing daemon for ${daemon.publicKey.toBase58()}`);
+    console.log(`   Listening on ${daemon.socketPath ?? daemon.url}`);
+
+    const shutdown = () => daemon.close().then(() => process.exit(0));
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,143 @@
+import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { accountDecoder } from "./coder";
+import {
+    pauseProgramInstruction,
+    resumeProgramInstruction,
+    transferAuthorityInstruction,
+} from "./generated/instructions";
+import { programStatePda } from "./pdas";
+import { ReadCache } from "./cache";
+import { ProgramNotInitializedError } from "./errors";
+import {
+    SendOptions,
+    TransactionSender,
+    TransactionSigner,
+} from "./transactions";
+
+export interface AuthorityInfo {
+    /** Program state account address */
+    programState: string;
+    authority: string;
+    isPaused: boolean;
+    /** Whether the client's wallet is the current authority */
+    isAuthority: boolean;
+}
+
+/**
+ * Authority-only operations: the emergency pause and authority handover.
+ *
+ * Obtained from `DePINfinityClient.admin()`. Writes are signed by the
+ * client's wallet, which must be the program authority; otherwise the
+ * program rejects them with `UnauthorizedError`.
+ */
+export class AdminClient {
+    private programId: PublicKey;
+    private connection: Connection;
+    private sender: TransactionSender;
+    private wallet: PublicKey;
+    private cache: ReadCache | null;
+
+    constructor(
+        programId: PublicKey,
+        connection: Connection,
+        sender: TransactionSender,
+        wallet: PublicKey,
+        cache: ReadCache | null = null
+    ) {
+        this.programId = programId;
+        this.connection = connection;
+        this.sender = sender;
+        this.wallet = wallet;
+        this.cache = cache;
+    }
+
+    /**
+     * Current authority and pause state
+     */
+    async getAuthorityInfo(): Promise<AuthorityInfo> {
+        const programState = this.programStateAddress();
+        const accountInfo = await this.connection.getAccountInfo(programState);
+        if (!accountInfo) {
+            throw new ProgramNotInitializedError(programState.toBase58());
+        }
+
+        const state = accountDecoder.decodeProgramState(accountInfo.data);
+        return {
+            programState: programState.toBase58(),
+            authority: state.authority,
+            isPaused: !state.isActive,
+            isAuthority: state.authority === this.wallet.toBase58(),
+        };
+    }
+
+    /**
+     * Stop device registrations and data submissions
+     */
+    async pauseProgram(options?: SendOptions): Promise<string> {
+        return this.send([await this.pauseProgramInstruction()], options);
+    }
+
+    async resumeProgram(options?: SendOptions): Promise<string> {
+        return this.send([await this.resumeProgramInstruction()], options);
+    }
+
+    /**
+     * Hand the program over to `newAuthority`, which co-signs the
+     * transaction. When the new authority signs elsewhere (e.g. a hardware
+     * wallet), build the transaction from `transferAuthorityInstruction`.
+     */
+    async transferAuthority(
+        newAuthority: TransactionSigner,
+        options?: SendOptions
+    ): Promise<string> {
+        return this.send(
+            [await this.transferAuthorityInstruction(newAuthority.publicKey)],
+            options,
+            [newAuthority]
+        );
+    }
+
+    async pauseProgramInstruction(): Promise<TransactionInstruction> {
+        return pauseProgramInstruction(this.programId, {
+            programState: this.programStateAddress(),
+            authority: this.wallet,
+        });
+    }
+
+    async resumeProgramInstruction(): Promise<TransactionInstruction> {
+        return resumeProgramInstruction(this.programId, {
+            programState: this.programStateAddress(),
+            authority: this.wallet,
+        });
+    }
+
+    async transferAuthorityInstruction(
+        newAuthority: PublicKey
+    ): Promise<TransactionInstruction> {
+        return transferAuthorityInstruction(this.programId, {
+            programState: this.programStateAddress(),
+            authority: this.wallet,
+            newAuthority,
+        });
+    }
+
+    // Every admin write changes the program state, so drop its cached copy
+    private async send(
+        instructions: TransactionInstruction[],
+        options?: SendOptions,
+        cosigners: TransactionSigner[] = []
+    ): Promise<string> {
+        const signature = await this.sender.send(
+            instructions,
+            options,
+            cosigners
+        );
+        await this.cache?.invalidate("programState");
+        return signature;
+    }
+
+    private programStateAddress(): PublicKey {
+        const [programStatePDA] = programStatePda(this.programId);
+        return programStatePDA;
+    }
+}
@@ -0,0 +1,112 @@
+import {
+    Device,
+    DeviceType,
+    LocationData,
+    NetworkQualityData,
+    ProgramState,
+} from "./types/depinfinity";
+import {
+    InfrastructureContract,
+    NetworkInsights,
+    RoamingAgreement,
+} from "./types/b2b";
+
+/**
+ * Device fields every DePIN backend can report
+ */
+export type DeviceInfo = Omit<Device, "bump">;
+
+/**
+ * Program state fields every DePIN backend can report
+ */
+export type ProgramStateInfo = Pick<
+    ProgramState,
+    "totalDevices" | "totalRewardsDistributed" | "isActive"
+>;
+
+/**
+ * Events every DePIN backend emits. Backends may attach extra fields to
+ * the payloads.
+ */
+export interface DePINBackendEventMap {
+    deviceRegistered: DeviceInfo;
+    deviceUpdated: DeviceInfo;
+    deviceStatusChanged: DeviceInfo;
+    dataSubmitted: {
+        deviceId?: string;
+        qualityData: NetworkQualityData;
+        rewardAmount?: number;
+    };
+}
+
+/**
+ * Operations shared by the mock Solana program and DePINfinityClient, so
+ * apps and demo scenarios can run against either one.
+ */
+export interface DePINBackend {
+    initialize(): Promise<string>;
+
+    /**
+     * Register a device. `owner` is only honoured by backends that can act
+     * for arbitrary owners (the mock); wallet-backed backends always
+     * register the device for their own wallet.
+     */
+    registerDevice(
+        deviceId: string,
+        deviceType: DeviceType,
+        location: LocationData,
+        owner?: string
+    ): Promise<string>;
+
+    submitData(
+        deviceId: string,
+        qualityData: NetworkQualityData
+    ): Promise<string>;
+
+    updateLocation(
+        deviceId: string,
+        newLocation: LocationData
+    ): Promise<string>;
+
+    toggleDeviceStatus(deviceId: string): Promise<string>;
+
+    getDevice(deviceId: string): Promise<DeviceInfo | null>;
+
+    /**
+     * Read a device past any read cache, for checks a stale copy would
+     * get wrong (e.g. whether a submission already landed)
+     */
+    getDeviceUncached(deviceId: string): Promise<DeviceInfo | null>;
+
+    getProgramState(): Promise<ProgramStateInfo>;
+
+    on<K extends keyof DePINBackendEventMap>(
+        event: K,
+        listener: (payload: DePINBackendEventMap[K]) => void
+    ): this;
+
+    off<K extends keyof DePINBackendEventMap>(
+        event: K,
+        listener: (payload: DePINBackendEventMap[K]) => void
+    ): this;
+}
+
+/**
+ * Operations shared by the mock Corda network and CordaAPIClient
+ */
+export interface B2BBackend {
+    createRoamingAgreement(agreement: RoamingAgreement): Promise<string>;
+
+    createInfrastructureContract(
+        contract: InfrastructureContract
+    ): Promise<string>;
+
+    executeRoamingAgreement(agreementId: string): Promise<string>;
+
+    executeInfrastructureContractById(contractId: string): Promise<string>;
+
+    getNetworkInsights(
+        region: string,
+        timeRange: { start: number; end: number }
+    ): Promise<NetworkInsights>;
+}
@@ -0,0 +1,315 @@
+import {
+    DePINfinityEventListener,
+    DePINfinityEventName,
+    DePINfinityEventStream,
+} from "./events";
+
+/**
+ * Key/value store behind the read cache. Values are JSON strings, so any
+ * string store (Redis, AsyncStorage, ...) can be adapted.
+ */
+export interface CacheStore {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<void>;
+    delete(key: string): Promise<void>;
+    /** Remove every key starting with `prefix` */
+    deletePrefix(prefix: string): Promise<void>;
+}
+
+/**
+ * Per-process store, used when no store is configured
+ */
+export class MemoryCacheStore implements CacheStore {
+    private items: Map<string, string> = new Map();
+
+    async get(key: string): Promise<string | null> {
+        return this.items.get(key) ?? null;
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        this.items.set(key, value);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.items.delete(key);
+    }
+
+    async deletePrefix(prefix: string): Promise<void> {
+        for (const key of [...this.items.keys()]) {
+            if (key.startsWith(prefix)) this.items.delete(key);
+        }
+    }
+}
+
+/**
+ * Node store keeping one JSON file per key inside a directory, so a cache
+ * survives between runs of a script or the bridge
+ */
+export class FileCacheStore implements CacheStore {
+    private directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    async get(key: string): Promise<string | null> {
+        const fs = require("fs").promises;
+        try {
+            return await fs.readFile(this.filePath(key), "utf8");
+        } catch (error: any) {
+            if (error.code === "ENOENT") return null;
+            throw error;
+        }
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        const fs = require("fs").promises;
+        const filePath = this.filePath(key);
+
+        // Write then rename so readers never see a half-written entry
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(`${filePath}.tmp`, value, "utf8");
+        await fs.rename(`${filePath}.tmp`, filePath);
+    }
+
+    async delete(key: string): Promise<void> {
+        const fs = require("fs").promises;
+        await fs.rm(this.filePath(key), { force: true });
+    }
+
+    async deletePrefix(prefix: string): Promise<void> {
+        const fs = require("fs").promises;
+        const encoded = this.fileName(prefix).replace(/\.json$/, "");
+
+        let files: string[];
+        try {
+            files = await fs.readdir(this.directory);
+        } catch (error: any) {
+            if (error.code === "ENOENT") return;
+            throw error;
+        }
+        await Promise.all(
+            files
+                .filter((file) => file.startsWith(encoded))
+                .map((file) =>
+                    fs.rm(require("path").join(this.directory, file), {
+                        force: true,
+                    })
+                )
+        );
+    }
+
+    // Keys are made of base58 addresses and device IDs; anything else is
+    // percent-encoded so distinct keys never share a file
+    private fileName(key: string): string {
+        return `${key.replace(
+            /[^a-zA-Z0-9_.-]/g,
+            (char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`
+        )}.json`;
+    }
+
+    private filePath(key: string): string {
+        const path = require("path");
+        return path.join(this.directory, this.fileName(key));
+    }
+}
+
+/**
+ * What is cached: the program state, single devices, single data
+ * submissions and the submission list of a device
+ */
+export type CacheKind =
+    | "programState"
+    | "device"
+    | "submission"
+    | "submissions";
+
+export interface CacheKindMetrics {
+    hits: number;
+    misses: number;
+}
+
+export interface CacheMetrics extends CacheKindMetrics {
+    /** Entries dropped by events or writes before their TTL ran out */
+    invalidations: number;
+    byKind: Record<CacheKind, CacheKindMetrics>;
+}
+
+export interface ReadCacheOptions {
+    /** Where entries are kept (in memory by default) */
+    store?: CacheStore;
+    /** Time to live per kind, in milliseconds */
+    ttlMs?: Partial<Record<CacheKind, number>>;
+    /** Key prefix, so programs or clusters can share a store */
+    namespace?: string;
+    /** Time source; tests inject a fake clock to expire entries */
+    clock?: { now(): number };
+}
+
+/**
+ * Default TTLs. Data submissions never change once written; everything
+ * else is also invalidated by events while the stream is running.
+ */
+export const DEFAULT_CACHE_TTL_MS: Record<CacheKind, number> = {
+    programState: 30000,
+    device: 30000,
+    submission: 3600000,
+    submissions: 60000,
+};
+
+export interface ReadOptions {
+    /** Skip the cache and read from the RPC node (the result is cached) */
+    bypassCache?: boolean;
+}
+
+interface CacheEntry<T> {
+    value: T;
+    expiresAt: number;
+}
+
+/**
+ * Read-through cache for account reads.
+ *
+ * Entries expire after a per-kind TTL. When attached to an event stream,
+ * entries are dropped as soon as an event shows the account changed, and
+ * everything is dropped after a reconnect since events may have been
+ * missed in between. Missing accounts are never cached.
+ */
+export class ReadCache {
+    private store: CacheStore;
+    private ttlMs: Record<CacheKind, number>;
+    private namespace: string;
+    private clock: { now(): number };
+    private metrics: CacheMetrics = {
+        hits: 0,
+        misses: 0,
+        invalidations: 0,
+        byKind: {
+            programState: { hits: 0, misses: 0 },
+            device: { hits: 0, misses: 0 },
+            submission: { hits: 0, misses: 0 },
+            submissions: { hits: 0, misses: 0 },
+        },
+    };
+
+    constructor(options: ReadCacheOptions = {}) {
+        this.store = options.store ?? new MemoryCacheStore();
+        this.ttlMs = { ...DEFAULT_CACHE_TTL_MS, ...options.ttlMs };
+        this.namespace = options.namespace ?? "";
+        this.clock = options.clock ?? { now: () => Date.now() };
+    }
+
+    /**
+     * Cached value for `key`, loading and caching it on a miss or when
+     * `bypassCache` is set
+     */
+    async get<T>(
+        kind: CacheKind,
+        key: string,
+        load: () => Promise<T | null>,
+        options: ReadOptions = {}
+    ): Promise<T | null> {
+        const storeKey = this.storeKey(kind, key);
+
+        if (!options.bypassCache) {
+            const raw = await this.store.get(storeKey);
+            const entry: CacheEntry<T> | null = raw ? JSON.parse(raw) : null;
+            if (entry && entry.expiresAt > this.clock.now()) {
+                this.record(kind, "hits");
+                return entry.value;
+            }
+        }
+
+        this.record(kind, "misses");
+        const value = await load();
+        if (value !== null) {
+            const entry: CacheEntry<T> = {
+                value,
+                expiresAt: this.clock.now() + this.ttlMs[kind],
+            };
+            await this.store.set(storeKey, JSON.stringify(entry));
+        }
+        return value;
+    }
+
+    /**
+     * Drop one entry, or every entry of a kind when no key is given
+     */
+    async invalidate(kind: CacheKind, key?: string): Promise<void> {
+        this.metrics.invalidations++;
+        if (key === undefined) {
+            await this.store.deletePrefix(this.storeKey(kind, ""));
+        } else {
+            await this.store.delete(this.storeKey(kind, key));
+        }
+    }
+
+    /**
+     * Drop every entry in this cache's namespace
+     */
+    async clear(): Promise<void> {
+        this.metrics.invalidations++;
+        await this.store.deletePrefix(`${this.namespace}:`);
+    }
+
+    /**
+     * Hit and miss counts since the cache was created
+     */
+    getMetrics(): CacheMetrics {
+        return JSON.parse(JSON.stringify(this.metrics));
+    }
+
+    /**
+     * Invalidate entries from an event stream's events; returns a function
+     * that detaches the listeners
+     */
+    attach(stream: DePINfinityEventStream): () => void {
+        // Invalidation failures only leave an entry to expire by its TTL
+        const drop = (kind: CacheKind, key?: string) => {
+            this.invalidate(kind, key).catch(() => {});
+        };
+
+        const detach: (() => void)[] = [];
+        const listen = <K extends DePINfinityEventName>(
+            event: K,
+            listener: DePINfinityEventListener<K>
+        ) => {
+            stream.on(event, listener);
+            detach.push(() => stream.off(event, listener));
+        };
+
+        listen("deviceUpdated", (device) =>
+            drop("device", deviceKey(device.owner, device.deviceId))
+        );
+        listen("dataSubmitted", ({ submission }) =>
+            drop("submissions", submission.device)
+        );
+        // Registrations and payouts change the program totals
+        listen("deviceRegistered", () => drop("programState"));
+        listen("rewardPaid", () => drop("programState"));
+        listen("programPaused", () => drop("programState"));
+        listen("programResumed", () => drop("programState"));
+        listen("reconnected", () => {
+            this.clear().catch(() => {});
+        });
+
+        return () => {
+            for (const off of detach) off();
+        };
+    }
+
+    private storeKey(kind: CacheKind, key: string): string {
+        return `${this.namespace}:${kind}:${key}`;
+    }
+
+    private record(kind: CacheKind, outcome: "hits" | "misses"): void {
+        this.metrics[outcome]++;
+        this.metrics.byKind[kind][outcome]++;
+    }
+}
+
+/**
+ * Cache key of a device: owner and device ID, as the PDA seeds
+ */
+export const deviceKey = (owner: string, deviceId: string): string =>
+    `${owner}/${deviceId}`;
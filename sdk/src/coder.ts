@@ -0,0 +1,574 @@
+import { PublicKey } from "@solana/web3.js";
+import {
+    IDL,
+    DePINfinity,
+    ProgramState,
+    Device,
+    DataSubmission,
+} from "./types/depinfinity";
+import { DePINfinityError } from "./errors";
+
+type IdlType = string | { defined: { name: string } };
+
+interface IdlField {
+    name: string;
+    type: IdlType;
+}
+
+type IdlTypeDef =
+    | { kind: "struct"; fields: readonly IdlField[] }
+    | { kind: "enum"; variants: readonly { name: string }[] };
+
+export type AccountName = DePINfinity["accounts"][number]["name"];
+export type InstructionName = DePINfinity["instructions"][number]["name"];
+
+/**
+ * Raised when account data does not match the layout described by the IDL
+ */
+export class AccountLayoutError extends DePINfinityError {
+    constructor(
+        public readonly accountName: AccountName,
+        public readonly layoutVersion: string,
+        message: string
+    ) {
+        super(
+            "AccountLayoutMismatch",
+            `${accountName} (layout v${layoutVersion}): ${message}`
+        );
+        this.name = "AccountLayoutError";
+    }
+}
+
+const PRIMITIVE_SIZES: Record<string, number> = {
+    bool: 1,
+    u8: 1,
+    i32: 4,
+    u32: 4,
+    f32: 4,
+    u64: 8,
+    i64: 8,
+    f64: 8,
+    pubkey: 32,
+};
+
+/**
+ * A 64-bit integer outside the range a number represents exactly
+ */
+class UnsafeIntegerError extends Error {}
+
+// 64-bit integers are exposed as numbers; refuse values that would round
+const toSafeNumber = (value: bigint): number => {
+    if (
+        value > BigInt(Number.MAX_SAFE_INTEGER) ||
+        value < BigInt(Number.MIN_SAFE_INTEGER)
+    ) {
+        throw new UnsafeIntegerError(
+            `64-bit value ${value} does not fit in a number`
+        );
+    }
+    return Number(value);
+};
+
+const findTypeDef = (idl: DePINfinity, name: string): IdlTypeDef => {
+    const def = idl.types.find((type) => type.name === name);
+    if (!def) {
+        throw new Error(`Unknown IDL type: ${name}`);
+    }
+    return def.type as IdlTypeDef;
+};
+
+// Read one value of an IDL type, as the friendly SDK model
+function readIdlType(
+    idl: DePINfinity,
+    reader: { data: Buffer; offset: number },
+    type: IdlType
+): unknown {
+    const { data } = reader;
+    let value: unknown;
+
+    if (typeof type !== "string") {
+        const def = findTypeDef(idl, type.defined.name);
+        if (def.kind === "enum") {
+            const index = data.readUInt8(reader.offset);
+            reader.offset += 1;
+            if (index >= def.variants.length) {
+                throw new Error(
+                    `Invalid ${type.defined.name} variant: ${index}`
+                );
+            }
+            return def.variants[index].name;
+        }
+
+        const struct: Record<string, unknown> = {};
+        for (const field of def.fields) {
+            struct[field.name] = readIdlType(idl, reader, field.type);
+        }
+        return struct;
+    }
+
+    switch (type) {
+        case "bool":
+            value = data.readUInt8(reader.offset) !== 0;
+            reader.offset += 1;
+            break;
+        case "u8":
+            value = data.readUInt8(reader.offset);
+            reader.offset += 1;
+            break;
+        case "i32":
+            value = data.readInt32LE(reader.offset);
+            reader.offset += 4;
+            break;
+        case "u32":
+            value = data.readUInt32LE(reader.offset);
+            reader.offset += 4;
+            break;
+        case "f32":
+            value = data.readFloatLE(reader.offset);
+            reader.offset += 4;
+            break;
+        case "u64":
+            value = toSafeNumber(data.readBigUInt64LE(reader.offset));
+            reader.offset += 8;
+            break;
+        case "i64":
+            value = toSafeNumber(data.readBigInt64LE(reader.offset));
+            reader.offset += 8;
+            break;
+        case "f64":
+            value = data.readDoubleLE(reader.offset);
+            reader.offset += 8;
+            break;
+        case "pubkey":
+            value = new PublicKey(
+                data.subarray(reader.offset, reader.offset + 32)
+            ).toBase58();
+            reader.offset += 32;
+            break;
+        case "string": {
+            const length = data.readUInt32LE(reader.offset);
+            reader.offset += 4;
+            if (reader.offset + length > data.length) {
+                throw new RangeError("String length out of range");
+            }
+            value = data
+                .subarray(reader.offset, reader.offset + length)
+                .toString("utf8");
+            reader.offset += length;
+            break;
+        }
+        default:
+            throw new Error(`Unsupported IDL type: ${type}`);
+    }
+
+    return value;
+}
+
+// Borsh-encode one value of an IDL type from the friendly SDK model
+function writeIdlType(
+    idl: DePINfinity,
+    type: IdlType,
+    value: unknown,
+    path: string
+): Buffer {
+    if (value === undefined || value === null) {
+        throw new Error(`Missing instruction argument: ${path}`);
+    }
+
+    if (typeof type !== "string") {
+        const def = findTypeDef(idl, type.defined.name);
+        if (def.kind === "enum") {
+            const index = def.variants.findIndex(
+                (variant) => variant.name === value
+            );
+            if (index < 0) {
+                throw new Error(
+                    `Invalid ${type.defined.name} for ${path}: ${value}`
+                );
+            }
+            return Buffer.from([index]);
+        }
+
+        return Buffer.concat(
+            def.fields.map((field) =>
+                writeIdlType(
+                    idl,
+                    field.type,
+                    (value as Record<string, unknown>)[field.name],
+                    `${path}.${field.name}`
+                )
+            )
+        );
+    }
+
+    const size = PRIMITIVE_SIZES[type];
+    const data = Buffer.alloc(size ?? 0);
+    switch (type) {
+        case "bool":
+            data.writeUInt8(value ? 1 : 0);
+            return data;
+        case "u8":
+            data.writeUInt8(value as number);
+            return data;
+        case "i32":
+            data.writeInt32LE(value as number);
+            return data;
+        case "u32":
+            data.writeUInt32LE(value as number);
+            return data;
+        case "f32":
+            data.writeFloatLE(value as number);
+            return data;
+        case "u64":
+            data.writeBigUInt64LE(BigInt(value as number));
+            return data;
+        case "i64":
+            data.writeBigInt64LE(BigInt(value as number));
+            return data;
+        case "f64":
+            data.writeDoubleLE(value as number);
+            return data;
+        case "pubkey":
+            return new PublicKey(value as PublicKey | string).toBuffer();
+        case "string": {
+            const bytes = Buffer.from(value as string, "utf8");
+            const length = Buffer.alloc(4);
+            length.writeUInt32LE(bytes.length);
+            return Buffer.concat([length, bytes]);
+        }
+        default:
+            throw new Error(`Unsupported IDL type: ${type}`);
+    }
+}
+
+/**
+ * Borsh decoder for DePINfinity accounts driven by the program IDL.
+ *
+ * Decoded values use the friendly SDK models: public keys become base58
+ * strings, 64-bit integers become numbers and enums become their variant
+ * name, so callers never have to deal with BN or PublicKey instances.
+ * 64-bit values beyond Number.MAX_SAFE_INTEGER are rejected rather than
+ * rounded.
+ */
+export class AccountDecoder {
+    private idl: DePINfinity;
+
+    constructor(idl: DePINfinity = IDL) {
+        this.idl = idl;
+    }
+
+    /**
+     * Anchor discriminator for an account type
+     */
+    discriminator(name: AccountName): Buffer {
+        return Buffer.from(this.getAccountDef(name).discriminator);
+    }
+
+    /**
+     * Version of the account layouts this decoder understands
+     */
+    get layoutVersion(): string {
+        return this.idl.metadata.version;
+    }
+
+    /**
+     * Serialized size of an account including its discriminator, or null
+     * when the account contains variable-length fields
+     */
+    accountSize(name: AccountName): number | null {
+        let size = 8;
+        for (const field of this.getAccountDef(name).data as IdlField[]) {
+            const fieldSize = this.typeSize(field.type);
+            if (fieldSize === null) {
+                return null;
+            }
+            size += fieldSize;
+        }
+        return size;
+    }
+
+    /**
+     * Decode raw account data, including the 8-byte discriminator.
+     *
+     * Throws an AccountLayoutError when the discriminator does not match, or
+     * when a fixed-size account is not exactly the size the IDL describes,
+     * or when a 64-bit value does not fit in a number.
+     */
+    decode<T>(name: AccountName, data: Buffer): T {
+        const expected = this.discriminator(name);
+        if (data.length < 8 || !data.subarray(0, 8).equals(expected)) {
+            throw new AccountLayoutError(
+                name,
+                this.layoutVersion,
+                `discriminator mismatch (expected ${expected.toString(
+                    "hex"
+                )}, got ${data.subarray(0, 8).toString("hex")})`
+            );
+        }
+
+        const size = this.accountSize(name);
+        if (size !== null && data.length !== size) {
+            throw new AccountLayoutError(
+                name,
+                this.layoutVersion,
+                `size mismatch (expected ${size} bytes, got ${data.length})`
+            );
+        }
+
+        const reader = { data, offset: 8 };
+        const value: Record<string, unknown> = {};
+        try {
+            for (const field of this.getAccountDef(name).data as IdlField[]) {
+                value[field.name] = readIdlType(this.idl, reader, field.type);
+            }
+        } catch (error) {
+            if (error instanceof RangeError) {
+                throw new AccountLayoutError(
+                    name,
+                    this.layoutVersion,
+                    `account data truncated at offset ${reader.offset}`
+                );
+            }
+            if (error instanceof UnsafeIntegerError) {
+                throw new AccountLayoutError(
+                    name,
+                    this.layoutVersion,
+                    `${error.message} at offset ${reader.offset}`
+                );
+            }
+            throw error;
+        }
+
+        return value as T;
+    }
+
+    decodeProgramState(data: Buffer): ProgramState {
+        return this.decode<ProgramState>("ProgramState", data);
+    }
+
+    decodeDevice(data: Buffer): Device {
+        return this.decode<Device>("Device", data);
+    }
+
+    decodeDataSubmission(data: Buffer): DataSubmission {
+        return this.decode<DataSubmission>("DataSubmission", data);
+    }
+
+    private getAccountDef(name: AccountName) {
+        const def = this.idl.accounts.find((account) => account.name === name);
+        if (!def) {
+            throw new Error(`Unknown account type: ${name}`);
+        }
+        return def;
+    }
+
+    private getTypeDef(name: string): IdlTypeDef {
+        return findTypeDef(this.idl, name);
+    }
+
+    private typeSize(type: IdlType): number | null {
+        if (typeof type !== "string") {
+            const def = this.getTypeDef(type.defined.name);
+            if (def.kind === "enum") {
+                return 1;
+            }
+
+            let size = 0;
+            for (const field of def.fields) {
+                const fieldSize = this.typeSize(field.type);
+                if (fieldSize === null) {
+                    return null;
+                }
+                size += fieldSize;
+            }
+            return size;
+        }
+
+        return PRIMITIVE_SIZES[type] ?? null;
+    }
+}
+
+/**
+ * Borsh encoder for DePINfinity accounts, the inverse of AccountDecoder.
+ *
+ * Takes the same friendly models the decoder returns, so decoded accounts
+ * round-trip. Lets mocks serve their state in the program's real layout.
+ */
+export class AccountEncoder {
+    private idl: DePINfinity;
+
+    constructor(idl: DePINfinity = IDL) {
+        this.idl = idl;
+    }
+
+    /**
+     * Discriminator followed by the Borsh-encoded fields, zero-padded to
+     * `space` bytes like an account allocated with room to spare
+     */
+    encode(name: AccountName, value: object, space: number = 0): Buffer {
+        const def = this.idl.accounts.find((account) => account.name === name);
+        if (!def) {
+            throw new Error(`Unknown account type: ${name}`);
+        }
+
+        const parts = [Buffer.from(def.discriminator)];
+        for (const field of def.data as IdlField[]) {
+            parts.push(
+                writeIdlType(
+                    this.idl,
+                    field.type,
+                    (value as Record<string, unknown>)[field.name],
+                    field.name
+                )
+            );
+        }
+
+        const data = Buffer.concat(parts);
+        return data.length < space
+            ? Buffer.concat([data, Buffer.alloc(space - data.length)])
+            : data;
+    }
+
+    encodeProgramState(programState: ProgramState): Buffer {
+        return this.encode("ProgramState", programState);
+    }
+
+    encodeDevice(device: Device, space?: number): Buffer {
+        return this.encode("Device", device, space);
+    }
+
+    encodeDataSubmission(submission: DataSubmission): Buffer {
+        return this.encode("DataSubmission", submission);
+    }
+}
+
+/**
+ * Borsh encoder for instruction data, driven by the same IDL.
+ *
+ * Accepts the friendly SDK models the decoder produces: numbers for every
+ * integer width, base58 strings or PublicKeys for public keys and variant
+ * names for enums. Needs no connection or provider, so instructions can be
+ * built offline.
+ */
+export class InstructionEncoder {
+    private idl: DePINfinity;
+
+    constructor(idl: DePINfinity = IDL) {
+        this.idl = idl;
+    }
+
+    /**
+     * Anchor discriminator for an instruction
+     */
+    discriminator(name: InstructionName): Buffer {
+        return Buffer.from(this.getInstructionDef(name).discriminator);
+    }
+
+    /**
+     * Discriminator followed by the Borsh-encoded arguments
+     */
+    encode(name: InstructionName, args: object = {}): Buffer {
+        const parts = [this.discriminator(name)];
+        for (const arg of this.getInstructionDef(name).args as IdlField[]) {
+            parts.push(
+                writeIdlType(
+                    this.idl,
+                    arg.type,
+                    (args as Record<string, unknown>)[arg.name],
+                    arg.name
+                )
+            );
+        }
+        return Buffer.concat(parts);
+    }
+
+    private getInstructionDef(name: InstructionName) {
+        const def = this.idl.instructions.find(
+            (instruction) => instruction.name === name
+        );
+        if (!def) {
+            throw new Error(`Unknown instruction: ${name}`);
+        }
+        return def;
+    }
+}
+
+export interface DecodedInstruction {
+    name: InstructionName;
+    /** Arguments as friendly SDK models */
+    args: Record<string, unknown>;
+    /** Names of the instruction's accounts, in the order they are passed */
+    accounts: string[];
+}
+
+/**
+ * Borsh decoder for instruction data, the inverse of InstructionEncoder
+ */
+export class InstructionDecoder {
+    private idl: DePINfinity;
+
+    constructor(idl: DePINfinity = IDL) {
+        this.idl = idl;
+    }
+
+    /**
+     * Decode instruction data, including the 8-byte discriminator
+     */
+    decode(data: Buffer): DecodedInstruction {
+        const discriminator = data.subarray(0, 8);
+        const def = this.idl.instructions.find((instruction) =>
+            discriminator.equals(Buffer.from(instruction.discriminator))
+        );
+        if (!def) {
+            throw new Error(
+                `Unknown instruction discriminator: ${discriminator.toString(
+                    "hex"
+                )}`
+            );
+        }
+
+        const reader = { data, offset: 8 };
+        const args: Record<string, unknown> = {};
+        for (const arg of def.args as IdlField[]) {
+            args[arg.name] = readIdlType(this.idl, reader, arg.type);
+        }
+
+        return {
+            name: def.name,
+            args,
+            accounts: def.accounts.map((account) => account.name),
+        };
+    }
+}
+
+/**
+ * Decode a batch of program accounts, skipping the ones whose data does not
+ * fit the layout so a single bad account does not fail the whole batch.
+ * Skipped accounts are reported through `onSkip` (a console warning by
+ * default); any other error is rethrown.
+ */
+export function decodeAccounts<T>(
+    accounts: readonly { pubkey: PublicKey; account: { data: Buffer } }[],
+    decode: (data: Buffer) => T,
+    onSkip: (address: string, error: AccountLayoutError) => void = (
+        address,
+        error
+    ) => console.warn(`Skipped account ${address}: ${error.message}`)
+): { address: string; value: T }[] {
+    const decoded: { address: string; value: T }[] = [];
+    for (const { pubkey, account } of accounts) {
+        const address = pubkey.toBase58();
+        try {
+            decoded.push({ address, value: decode(account.data) });
+        } catch (error) {
+            if (!(error instanceof AccountLayoutError)) throw error;
+            onSkip(address, error);
+        }
+    }
+    return decoded;
+}
+
+export const accountDecoder = new AccountDecoder();
+export const accountEncoder = new AccountEncoder();
+export const instructionEncoder = new InstructionEncoder();
+export const instructionDecoder = new InstructionDecoder();
@@ -0,0 +1,308 @@
+/**
+ * Stable codes for every error raised by the SDK, the bridge and the mocks.
+ * Switch on these rather than on message text, which may change.
+ */
+export type DePINfinityErrorCode =
+    // Program errors (`ErrorCode` in the program)
+    | "DeviceInactive"
+    | "ProgramPaused"
+    | "InvalidDataQuality"
+    | "InsufficientRewards"
+    | "Unauthorized"
+    // Client and mock errors
+    | "DeviceNotFound"
+    | "ProgramNotInitialized"
+    | "TransactionFailed"
+    | "AccountLayoutMismatch"
+    | "SigningFailed"
+    // B2B errors
+    | "AgreementNotFound"
+    | "AgreementInactive"
+    | "ContractNotFound"
+    | "ContractInactive"
+    | "CordaRequestFailed"
+    // Bridge errors
+    | "AggregationFailed"
+    | "MigrationFailed";
+
+export interface DePINfinityErrorOptions {
+    /** The underlying error, kept for debugging */
+    cause?: unknown;
+}
+
+/**
+ * Base class for all DePINfinity errors
+ */
+export class DePINfinityError extends Error {
+    readonly code: DePINfinityErrorCode;
+    readonly cause?: unknown;
+
+    constructor(
+        code: DePINfinityErrorCode,
+        message: string,
+        options: DePINfinityErrorOptions = {}
+    ) {
+        super(message);
+        this.name = "DePINfinityError";
+        this.code = code;
+        if (options.cause !== undefined) {
+            this.cause = options.cause;
+        }
+    }
+}
+
+/**
+ * An error returned by the on-chain program. `programErrorCode` is the
+ * custom error number reported by the runtime (6000 and up).
+ */
+export class ProgramError extends DePINfinityError {
+    readonly programErrorCode: number;
+
+    constructor(
+        code: DePINfinityErrorCode,
+        programErrorCode: number,
+        message: string,
+        options: DePINfinityErrorOptions = {}
+    ) {
+        super(code, message, options);
+        this.name = "ProgramError";
+        this.programErrorCode = programErrorCode;
+    }
+
+    /** Program logs of the failed transaction, when it came from one */
+    get logs(): string[] {
+        return hasLogs(this.cause) ? this.cause.logs : [];
+    }
+}
+
+export class DeviceInactiveError extends ProgramError {
+    constructor(options: DePINfinityErrorOptions = {}) {
+        super("DeviceInactive", 6000, "Device is not active", options);
+        this.name = "DeviceInactiveError";
+    }
+}
+
+export class ProgramPausedError extends ProgramError {
+    constructor(options: DePINfinityErrorOptions = {}) {
+        super("ProgramPaused", 6001, "Program is paused", options);
+        this.name = "ProgramPausedError";
+    }
+}
+
+export class InvalidDataQualityError extends ProgramError {
+    constructor(options: DePINfinityErrorOptions = {}) {
+        super("InvalidDataQuality", 6002, "Invalid data quality", options);
+        this.name = "InvalidDataQualityError";
+    }
+}
+
+export class InsufficientRewardsError extends ProgramError {
+    constructor(options: DePINfinityErrorOptions = {}) {
+        super(
+            "InsufficientRewards",
+            6003,
+            "Insufficient rewards in vault",
+            options
+        );
+        this.name = "InsufficientRewardsError";
+    }
+}
+
+export class UnauthorizedError extends ProgramError {
+    constructor(options: DePINfinityErrorOptions = {}) {
+        super(
+            "Unauthorized",
+            6004,
+            "Signer is not authorized for this account",
+            options
+        );
+        this.name = "UnauthorizedError";
+    }
+}
+
+export class DeviceNotFoundError extends DePINfinityError {
+    constructor(public readonly deviceId: string) {
+        super("DeviceNotFound", "Device not found");
+        this.name = "DeviceNotFoundError";
+    }
+}
+
+/**
+ * The program state account does not exist yet: `initialize` has not run
+ * on this cluster
+ */
+export class ProgramNotInitializedError extends DePINfinityError {
+    constructor(public readonly programState: string) {
+        super("ProgramNotInitialized", "Program state not initialized");
+        this.name = "ProgramNotInitializedError";
+    }
+}
+
+export class AgreementNotFoundError extends DePINfinityError {
+    constructor(public readonly agreementId: string) {
+        super("AgreementNotFound", "Roaming agreement not found");
+        this.name = "AgreementNotFoundError";
+    }
+}
+
+export class AgreementInactiveError extends DePINfinityError {
+    constructor(public readonly agreementId: string) {
+        super("AgreementInactive", "Agreement is not active");
+        this.name = "AgreementInactiveError";
+    }
+}
+
+export class ContractNotFoundError extends DePINfinityError {
+    constructor(public readonly contractId: string) {
+        super("ContractNotFound", "Infrastructure contract not found");
+        this.name = "ContractNotFoundError";
+    }
+}
+
+export class ContractInactiveError extends DePINfinityError {
+    constructor(public readonly contractId: string) {
+        super("ContractInactive", "Contract is not active");
+        this.name = "ContractInactiveError";
+    }
+}
+
+/**
+ * The Corda API answered with a non-2xx status
+ */
+export class CordaRequestError extends DePINfinityError {
+    constructor(
+        message: string,
+        public readonly status: number,
+        public readonly statusText: string
+    ) {
+        super("CordaRequestFailed", `${message}: ${statusText}`);
+        this.name = "CordaRequestError";
+    }
+}
+
+/**
+ * Bridge step failed for a reason that is not itself a DePINfinity error;
+ * the original error is kept as `cause`
+ */
+export class BridgeError extends DePINfinityError {
+    constructor(
+        code: "AggregationFailed" | "MigrationFailed",
+        message: string,
+        cause: unknown
+    ) {
+        super(
+            code,
+            cause instanceof Error ? `${message}: ${cause.message}` : message,
+            { cause }
+        );
+        this.name = "BridgeError";
+    }
+}
+
+const PROGRAM_ERRORS: Record<
+    number,
+    new (options?: DePINfinityErrorOptions) => ProgramError
+> = {
+    6000: DeviceInactiveError,
+    6001: ProgramPausedError,
+    6002: InvalidDataQualityError,
+    6003: InsufficientRewardsError,
+    6004: UnauthorizedError,
+};
+
+/**
+ * The error class for a program custom error number, or null when the
+ * number does not belong to the program (e.g. an Anchor framework error)
+ */
+export function fromProgramErrorCode(
+    programErrorCode: number,
+    options: DePINfinityErrorOptions = {}
+): ProgramError | null {
+    const ErrorClass = PROGRAM_ERRORS[programErrorCode];
+    return ErrorClass ? new ErrorClass(options) : null;
+}
+
+const CUSTOM_ERROR_LOG = /custom program error: (0x[0-9a-f]+|\d+)/i;
+const ANCHOR_ERROR_LOG = /Error Number: (\d+)\./;
+
+/**
+ * Find the program custom error number in a failed transaction.
+ *
+ * Understands `{ InstructionError: [index, { Custom: n }] }` transaction
+ * errors, Anchor's `AnchorError`/`ProgramError` objects, and the runtime
+ * and Anchor log lines, in that order.
+ */
+export function extractProgramErrorCode(error: unknown): number | null {
+    if (!isRecord(error)) return null;
+
+    const instructionError = error.InstructionError;
+    if (Array.isArray(instructionError)) {
+        const custom = field(instructionError[1], "Custom");
+        if (typeof custom === "number") return custom;
+    }
+
+    const anchorNumber = field(field(error.error, "errorCode"), "number");
+    if (typeof anchorNumber === "number") return anchorNumber;
+    // Anchor's ProgramError carries the number as `code` next to `msg`
+    if (typeof error.code === "number" && "msg" in error) {
+        return error.code;
+    }
+
+    const lines: unknown[] = [
+        ...(hasLogs(error) ? error.logs : []),
+        error.message,
+    ];
+    for (const line of lines) {
+        if (typeof line !== "string") continue;
+        const anchorMatch = line.match(ANCHOR_ERROR_LOG);
+        if (anchorMatch) return Number(anchorMatch[1]);
+        const customMatch = line.match(CUSTOM_ERROR_LOG);
+        if (customMatch) return Number(customMatch[1]);
+    }
+
+    return null;
+}
+
+/**
+ * Map a failed transaction to the matching program error class, keeping
+ * `cause` (the original error by default). Returns null for anything else.
+ */
+export function decodeProgramError(
+    error: unknown,
+    cause: unknown = error
+): ProgramError | null {
+    const programErrorCode = extractProgramErrorCode(error);
+    return programErrorCode === null
+        ? null
+        : fromProgramErrorCode(programErrorCode, { cause });
+}
+
+const INSUFFICIENT_FUNDS_LOG = /Error: insufficient funds/;
+
+/**
+ * Whether a failed transaction ran out of tokens in a token transfer. The
+ * program has no vault balance check of its own, so a reward vault that
+ * cannot cover a reward fails this way in the reward transfer.
+ */
+export function isInsufficientFundsError(error: unknown): boolean {
+    return (
+        hasLogs(error) &&
+        error.logs.some((line) => INSUFFICIENT_FUNDS_LOG.test(line))
+    );
+}
+
+export function isDePINfinityError(error: unknown): error is DePINfinityError {
+    return error instanceof DePINfinityError;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === "object";
+}
+
+function field(value: unknown, key: string): unknown {
+    return isRecord(value) ? value[key] : undefined;
+}
+
+function hasLogs(value: unknown): value is { logs: string[] } {
+    return isRecord(value) && Array.isArray(value.logs);
+}
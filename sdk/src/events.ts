@@ -0,0 +1,498 @@
+import { EventEmitter } from "events";
+import {
+    Commitment,
+    Connection,
+    KeyedAccountInfo,
+    Logs,
+    MemcmpFilter,
+    PublicKey,
+} from "@solana/web3.js";
+import { accountDecoder } from "./coder";
+import { devicePda, programStatePda } from "./pdas";
+import { estimateReward } from "./rewards";
+import {
+    DataSubmission,
+    Device,
+    NetworkQualityData,
+    ProgramState,
+} from "./types/depinfinity";
+
+export interface DataSubmittedEvent {
+    address: string;
+    /** Device ID, when the submitting device has been seen by the stream */
+    deviceId?: string;
+    submission: DataSubmission;
+    qualityData: NetworkQualityData;
+    /** Tokens paid for the submission, when the device is known */
+    rewardAmount?: number;
+}
+
+export interface RewardPaidEvent {
+    signature: string;
+    rewardAmount: number;
+}
+
+export interface ProgramStatusEvent {
+    programState: ProgramState;
+}
+
+/**
+ * Events emitted by the stream. Names mirror the ones emitted by the mock
+ * Solana program so listeners can be moved between backends unchanged.
+ */
+export interface DePINfinityEventMap {
+    deviceRegistered: Device;
+    deviceUpdated: Device;
+    deviceStatusChanged: Device;
+    dataSubmitted: DataSubmittedEvent;
+    rewardPaid: RewardPaidEvent;
+    programPaused: ProgramStatusEvent;
+    programResumed: ProgramStatusEvent;
+    reconnected: void;
+    error: Error;
+}
+
+export type DePINfinityEventName = keyof DePINfinityEventMap;
+
+export type DePINfinityEventListener<K extends DePINfinityEventName> = (
+    payload: DePINfinityEventMap[K]
+) => void;
+
+export interface EventStreamOptions {
+    commitment?: Commitment;
+    /** How often to probe the RPC node to detect dropped connections */
+    healthCheckIntervalMs?: number;
+}
+
+// Device IDs are only unique per owner, so the owner is logged as well
+const REGISTERED_LOG =
+    /^Program log: Device registered: (.+) by ([1-9A-HJ-NP-Za-km-z]{32,44})$/;
+/** Registrations waiting for their other half before the oldest is dropped */
+const MAX_PENDING_REGISTRATIONS = 256;
+const REWARD_LOG =
+    /^Program log: Data submitted and rewards distributed: (\d+) tokens$/;
+
+export interface DePINfinityEventStream {
+    on<K extends DePINfinityEventName>(
+        event: K,
+        listener: DePINfinityEventListener<K>
+    ): this;
+    off<K extends DePINfinityEventName>(
+        event: K,
+        listener: DePINfinityEventListener<K>
+    ): this;
+    emit<K extends DePINfinityEventName>(
+        event: K,
+        payload?: DePINfinityEventMap[K]
+    ): boolean;
+}
+
+/**
+ * Real-time program event stream
+ *
+ * Combines account-change subscriptions (devices, data submissions and the
+ * program state) with a log subscription for reward payouts and device
+ * registrations. A periodic health check detects dropped connections and
+ * re-establishes every subscription once the RPC node is reachable again.
+ *
+ * Subscribing reads the program state and every device once, so the first
+ * change to an existing device is compared against its known state.
+ */
+export class DePINfinityEventStream extends EventEmitter {
+    private connection: Connection;
+    private programId: PublicKey;
+    private commitment: Commitment;
+    private healthCheckIntervalMs: number;
+
+    private subscriptionIds: {
+        devices?: number;
+        submissions?: number;
+        programState?: number;
+        logs?: number;
+    } = {};
+    private healthCheck: ReturnType<typeof setInterval> | null = null;
+    private isConnected: boolean = true;
+
+    private devices: Map<string, Device> = new Map();
+    private programState: ProgramState | null = null;
+    // A registration shows up as a log line and an account change, in
+    // either order; whichever comes first waits here for the other, by
+    // device address
+    private pendingRegistrations: Set<string> = new Set();
+    private unannouncedDevices: Map<string, Device> = new Map();
+    // Rewards of submissions whose device change arrived before the
+    // submission itself, and submissions announced before their device
+    // change, by device address
+    private unannouncedRewards: Map<string, number> = new Map();
+    private announcedSubmissions: Map<string, number> = new Map();
+
+    constructor(
+        connection: Connection,
+        programId: PublicKey,
+        options: EventStreamOptions = {}
+    ) {
+        super();
+        this.connection = connection;
+        this.programId = programId;
+        this.commitment = options.commitment ?? "confirmed";
+        this.healthCheckIntervalMs = options.healthCheckIntervalMs ?? 30000;
+    }
+
+    get isRunning(): boolean {
+        return this.healthCheck !== null;
+    }
+
+    /**
+     * Open the underlying subscriptions and start the health check
+     */
+    async start(): Promise<void> {
+        if (this.isRunning) return;
+
+        this.healthCheck = setInterval(() => {
+            this.checkConnection();
+        }, this.healthCheckIntervalMs);
+        // The health check alone must not keep a Node process alive;
+        // browsers and React Native return a plain number
+        const timer: unknown = this.healthCheck;
+        if (typeof timer === "object" && timer && "unref" in timer) {
+            (timer as { unref(): void }).unref();
+        }
+
+        try {
+            await this.subscribe();
+        } catch (error) {
+            await this.stop();
+            throw error;
+        }
+    }
+
+    /**
+     * Close all subscriptions and stop the health check
+     */
+    async stop(): Promise<void> {
+        if (this.healthCheck) {
+            clearInterval(this.healthCheck);
+            this.healthCheck = null;
+        }
+        await this.unsubscribe();
+    }
+
+    /**
+     * Tear down and re-create every subscription
+     */
+    async resubscribe(): Promise<void> {
+        await this.unsubscribe();
+        await this.subscribe();
+        this.emit("reconnected");
+    }
+
+    private async subscribe(): Promise<void> {
+        const [programStatePDA] = programStatePda(this.programId);
+
+        // Seed the program state so pause/resume transitions can be detected
+        const programStateInfo = await this.connection.getAccountInfo(
+            programStatePDA,
+            this.commitment
+        );
+        if (programStateInfo) {
+            this.programState = this.decodeSafely(() =>
+                accountDecoder.decodeProgramState(programStateInfo.data)
+            );
+        }
+
+        // Seed the devices so status changes can be detected from the first
+        // update, and pairings cut short by a reconnect start over
+        const deviceAccounts = await this.connection.getProgramAccounts(
+            this.programId,
+            {
+                commitment: this.commitment,
+                filters: [this.discriminatorFilter("Device")],
+            }
+        );
+        this.devices = new Map();
+        for (const { pubkey, account } of deviceAccounts) {
+            const device = this.decodeSafely(() =>
+                accountDecoder.decodeDevice(account.data)
+            );
+            if (device) this.devices.set(pubkey.toBase58(), device);
+        }
+        this.pendingRegistrations.clear();
+        this.unannouncedDevices.clear();
+        this.unannouncedRewards.clear();
+        this.announcedSubmissions.clear();
+
+        this.subscriptionIds.devices = this.connection.onProgramAccountChange(
+            this.programId,
+            (keyedAccountInfo) => this.handleDeviceChange(keyedAccountInfo),
+            this.commitment,
+            [this.discriminatorFilter("Device")]
+        );
+
+        this.subscriptionIds.submissions =
+            this.connection.onProgramAccountChange(
+                this.programId,
+                (keyedAccountInfo) =>
+                    this.handleSubmissionChange(keyedAccountInfo),
+                this.commitment,
+                [this.discriminatorFilter("DataSubmission")]
+            );
+
+        this.subscriptionIds.programState = this.connection.onAccountChange(
+            programStatePDA,
+            (accountInfo) => this.handleProgramStateChange(accountInfo.data),
+            this.commitment
+        );
+
+        this.subscriptionIds.logs = this.connection.onLogs(
+            this.programId,
+            (logs) => this.handleLogs(logs),
+            this.commitment
+        );
+    }
+
+    private async unsubscribe(): Promise<void> {
+        const { devices, submissions, programState, logs } =
+            this.subscriptionIds;
+        this.subscriptionIds = {};
+
+        const removals: Promise<void>[] = [];
+        if (devices !== undefined) {
+            removals.push(
+                this.connection.removeProgramAccountChangeListener(devices)
+            );
+        }
+        if (submissions !== undefined) {
+            removals.push(
+                this.connection.removeProgramAccountChangeListener(submissions)
+            );
+        }
+        if (programState !== undefined) {
+            removals.push(
+                this.connection.removeAccountChangeListener(programState)
+            );
+        }
+        if (logs !== undefined) {
+            removals.push(this.connection.removeOnLogsListener(logs));
+        }
+
+        // Removing a listener on a dead socket can fail; the subscription is
+        // gone either way
+        await Promise.allSettled(removals);
+    }
+
+    private async checkConnection(): Promise<void> {
+        try {
+            await this.connection.getSlot(this.commitment);
+        } catch (error) {
+            if (this.isConnected) {
+                this.isConnected = false;
+                this.emitError(error);
+            }
+            return;
+        }
+
+        if (!this.isConnected) {
+            this.isConnected = true;
+            try {
+                await this.resubscribe();
+            } catch (error) {
+                this.isConnected = false;
+                this.emitError(error);
+            }
+        }
+    }
+
+    private handleDeviceChange({
+        accountId,
+        accountInfo,
+    }: KeyedAccountInfo): void {
+        const device = this.decodeSafely(() =>
+            accountDecoder.decodeDevice(accountInfo.data)
+        );
+        if (!device) return;
+
+        const address = accountId.toBase58();
+        const previous = this.devices.get(address);
+        this.devices.set(address, device);
+
+        if (!previous && device.totalUptime === 0) {
+            if (this.pendingRegistrations.delete(address)) {
+                this.emit("deviceRegistered", device);
+            } else {
+                this.unannouncedDevices.set(address, device);
+                trim(this.unannouncedDevices);
+            }
+        }
+
+        const landed = previous
+            ? device.submissionCount - previous.submissionCount
+            : 0;
+        if (previous && landed > 0) {
+            const announced = this.announcedSubmissions.get(address) ?? 0;
+            setCount(this.announcedSubmissions, address, announced - landed);
+            if (landed > announced) {
+                this.unannouncedRewards.set(
+                    address,
+                    device.totalRewardsEarned - previous.totalRewardsEarned
+                );
+            }
+        }
+
+        this.emit("deviceUpdated", device);
+
+        if (previous && previous.isActive !== device.isActive) {
+            this.emit("deviceStatusChanged", device);
+        }
+    }
+
+    private handleSubmissionChange({
+        accountId,
+        accountInfo,
+    }: KeyedAccountInfo): void {
+        const submission = this.decodeSafely(() =>
+            accountDecoder.decodeDataSubmission(accountInfo.data)
+        );
+        if (!submission) return;
+
+        const qualityData = {
+            signalStrength: submission.signalStrength,
+            latency: submission.latency,
+            throughput: submission.throughput,
+            availability: submission.availability,
+            location: submission.location,
+        };
+        const device = this.devices.get(submission.device);
+        this.emit("dataSubmitted", {
+            address: accountId.toBase58(),
+            deviceId: device?.deviceId,
+            submission,
+            qualityData,
+            rewardAmount: device
+                ? this.submissionReward(submission.device, device, qualityData)
+                : undefined,
+        });
+    }
+
+    // The reward is the device's earnings delta when its change already
+    // arrived; otherwise the device still holds its uptime from before the
+    // submission, which is what the program's reward formula uses
+    private submissionReward(
+        address: string,
+        device: Device,
+        qualityData: NetworkQualityData
+    ): number {
+        const reward = this.unannouncedRewards.get(address);
+        if (reward !== undefined) {
+            this.unannouncedRewards.delete(address);
+            return reward;
+        }
+
+        setCount(
+            this.announcedSubmissions,
+            address,
+            (this.announcedSubmissions.get(address) ?? 0) + 1
+        );
+        return estimateReward(qualityData, device.totalUptime);
+    }
+
+    private handleProgramStateChange(data: Buffer): void {
+        const programState = this.decodeSafely(() =>
+            accountDecoder.decodeProgramState(data)
+        );
+        if (!programState) return;
+
+        const wasActive = this.programState?.isActive ?? true;
+        this.programState = programState;
+
+        if (wasActive && !programState.isActive) {
+            this.emit("programPaused", { programState });
+        } else if (!wasActive && programState.isActive) {
+            this.emit("programResumed", { programState });
+        }
+    }
+
+    private handleLogs(logs: Logs): void {
+        if (logs.err) return;
+
+        for (const line of logs.logs) {
+            const registered = line.match(REGISTERED_LOG);
+            if (registered) {
+                const [, deviceId, owner] = registered;
+                const address = this.decodeSafely(() =>
+                    devicePda(this.programId, owner, deviceId)[0]
+                )?.toBase58();
+                if (!address) continue;
+
+                const device = this.unannouncedDevices.get(address);
+                if (device) {
+                    this.unannouncedDevices.delete(address);
+                    this.emit("deviceRegistered", device);
+                } else {
+                    this.pendingRegistrations.add(address);
+                    trim(this.pendingRegistrations);
+                }
+                continue;
+            }
+
+            const reward = line.match(REWARD_LOG);
+            if (reward) {
+                const rewardAmount = parseInt(reward[1], 10);
+                if (rewardAmount > 0) {
+                    this.emit("rewardPaid", {
+                        signature: logs.signature,
+                        rewardAmount,
+                    });
+                }
+            }
+        }
+    }
+
+    private discriminatorFilter(
+        name: "Device" | "DataSubmission"
+    ): MemcmpFilter {
+        return {
+            memcmp: {
+                offset: 0,
+                bytes: accountDecoder.discriminator(name).toString("base64"),
+                encoding: "base64",
+            },
+        };
+    }
+
+    private decodeSafely<T>(decode: () => T): T | null {
+        try {
+            return decode();
+        } catch (error) {
+            this.emitError(error);
+            return null;
+        }
+    }
+
+    private emitError(error: unknown): void {
+        // Only surface errors when someone is listening, so an unhandled
+        // "error" event never crashes the host process
+        if (this.listenerCount("error") > 0) {
+            this.emit(
+                "error",
+                error instanceof Error ? error : new Error(String(error))
+            );
+        }
+    }
+}
+
+// Drop the oldest entries (sets and maps iterate in insertion order) once a
+// pairing collection outgrows MAX_PENDING_REGISTRATIONS
+function trim(pending: Set<string> | Map<string, unknown>): void {
+    for (const key of pending.keys()) {
+        if (pending.size <= MAX_PENDING_REGISTRATIONS) return;
+        pending.delete(key);
+    }
+}
+
+function setCount(counts: Map<string, number>, key: string, count: number) {
+    if (count > 0) {
+        counts.set(key, count);
+    } else {
+        counts.delete(key);
+    }
+}
@@ -0,0 +1,80 @@
+import { PublicKey } from "@solana/web3.js";
+import { Device, DeviceType } from "./types/depinfinity";
+
+/**
+ * Filters for listing devices. Unset fields match every device.
+ */
+export interface DeviceFilter {
+    owner?: PublicKey | string;
+    deviceType?: DeviceType;
+    isActive?: boolean;
+}
+
+/**
+ * A device together with its account address
+ */
+export interface DeviceAccount extends Device {
+    address: string;
+}
+
+export interface FleetSummary {
+    deviceCount: number;
+    activeDevices: number;
+    totalRewardsEarned: number;
+    totalUptime: number;
+    /** Most recent activity across the fleet (unix seconds), or null */
+    lastActivity: number | null;
+}
+
+export function matchesDeviceFilter(
+    device: Device,
+    filter: DeviceFilter
+): boolean {
+    return (
+        (filter.owner === undefined ||
+            device.owner === filter.owner.toString()) &&
+        (filter.deviceType === undefined ||
+            device.deviceType === filter.deviceType) &&
+        (filter.isActive === undefined || device.isActive === filter.isActive)
+    );
+}
+
+/**
+ * Rewards earned by all devices, in token base units
+ */
+export function totalRewardsEarned(devices: Device[]): number {
+    return devices.reduce((sum, device) => sum + device.totalRewardsEarned, 0);
+}
+
+/**
+ * Rewarded submissions across all devices
+ */
+export function totalUptime(devices: Device[]): number {
+    return devices.reduce((sum, device) => sum + device.totalUptime, 0);
+}
+
+/**
+ * Devices with no recorded activity since `timestamp` (unix seconds),
+ * least recently active first
+ */
+export function inactiveSince<T extends Device>(
+    devices: T[],
+    timestamp: number
+): T[] {
+    return devices
+        .filter((device) => device.lastActivity < timestamp)
+        .sort((a, b) => a.lastActivity - b.lastActivity);
+}
+
+export function summarizeFleet(devices: Device[]): FleetSummary {
+    return {
+        deviceCount: devices.length,
+        activeDevices: devices.filter((device) => device.isActive).length,
+        totalRewardsEarned: totalRewardsEarned(devices),
+        totalUptime: totalUptime(devices),
+        lastActivity:
+            devices.length > 0
+                ? Math.max(...devices.map((device) => device.lastActivity))
+                : null,
+    };
+}
@@ -0,0 +1,493 @@
+// Generated by scripts/codegen.ts from programs/depinfinity/src/lib.rs.
+// Do not edit by hand: change the program and run `npm run codegen`.
+
+export interface DePINfinity {
+    address: "DePINfinity111111111111111111111111111111111";
+    metadata: {
+        name: "depinfinity";
+        version: "0.2.0";
+        spec: "0.1.0";
+        description: "DePINfinity: Hybrid Mobile Infrastructure DePIN on Solana";
+    };
+    instructions: [
+        {
+            name: "initialize";
+            discriminator: [175, 175, 109, 31, 13, 152, 155, 237];
+            accounts: [
+                { name: "programState"; writable: true },
+                { name: "authority"; writable: true; signer: true },
+                { name: "systemProgram"; writable: false },
+            ];
+            args: [];
+        },
+        {
+            name: "registerDevice";
+            discriminator: [210, 151, 56, 68, 22, 158, 90, 193];
+            accounts: [
+                { name: "device"; writable: true },
+                { name: "programState"; writable: true },
+                { name: "user"; writable: true; signer: true },
+                { name: "systemProgram"; writable: false },
+            ];
+            args: [
+                { name: "deviceId"; type: "string" },
+                {
+                    name: "deviceType";
+                    type: { defined: { name: "DeviceType" } };
+                },
+                {
+                    name: "initialLocation";
+                    type: { defined: { name: "LocationData" } };
+                },
+            ];
+        },
+        {
+            name: "submitData";
+            discriminator: [20, 46, 227, 3, 131, 99, 65, 77];
+            accounts: [
+                { name: "device"; writable: true },
+                { name: "dataSubmission"; writable: true },
+                { name: "programState"; writable: true },
+                { name: "rewardVault"; writable: true },
+                { name: "userTokenAccount"; writable: true },
+                { name: "user"; writable: true; signer: true },
+                { name: "tokenProgram"; writable: false },
+                { name: "systemProgram"; writable: false },
+            ];
+            args: [
+                {
+                    name: "qualityData";
+                    type: { defined: { name: "NetworkQualityData" } };
+                },
+            ];
+        },
+        {
+            name: "updateLocation";
+            discriminator: [136, 21, 137, 105, 147, 171, 2, 210];
+            accounts: [
+                { name: "device"; writable: true },
+                { name: "user"; writable: false; signer: true },
+            ];
+            args: [
+                {
+                    name: "newLocation";
+                    type: { defined: { name: "LocationData" } };
+                },
+            ];
+        },
+        {
+            name: "toggleDeviceStatus";
+            discriminator: [97, 99, 210, 205, 47, 54, 125, 53];
+            accounts: [
+                { name: "device"; writable: true },
+                { name: "user"; writable: false; signer: true },
+            ];
+            args: [];
+        },
+        {
+            name: "pauseProgram";
+            discriminator: [91, 86, 253, 175, 66, 236, 172, 124];
+            accounts: [
+                { name: "programState"; writable: true },
+                { name: "authority"; writable: false; signer: true },
+            ];
+            args: [];
+        },
+        {
+            name: "resumeProgram";
+            discriminator: [253, 125, 38, 109, 196, 141, 189, 30];
+            accounts: [
+                { name: "programState"; writable: true },
+                { name: "authority"; writable: false; signer: true },
+            ];
+            args: [];
+        },
+        {
+            name: "transferAuthority";
+            discriminator: [48, 169, 76, 72, 229, 180, 55, 161];
+            accounts: [
+                { name: "programState"; writable: true },
+                { name: "authority"; writable: false; signer: true },
+                { name: "newAuthority"; writable: false; signer: true },
+            ];
+            args: [];
+        },
+    ];
+    accounts: [
+        {
+            name: "ProgramState";
+            discriminator: [77, 209, 137, 229, 149, 67, 167, 230];
+            data: [
+                { name: "authority"; type: "pubkey" },
+                { name: "totalDevices"; type: "u64" },
+                { name: "totalRewardsDistributed"; type: "u64" },
+                { name: "isActive"; type: "bool" },
+                { name: "bump"; type: "u8" },
+            ];
+        },
+        {
+            name: "Device";
+            discriminator: [153, 248, 23, 39, 83, 45, 68, 128];
+            data: [
+                { name: "owner"; type: "pubkey" },
+                { name: "deviceId"; type: "string" },
+                {
+                    name: "deviceType";
+                    type: { defined: { name: "DeviceType" } };
+                },
+                {
+                    name: "location";
+                    type: { defined: { name: "LocationData" } };
+                },
+                { name: "isActive"; type: "bool" },
+                { name: "totalUptime"; type: "u64" },
+                { name: "totalRewardsEarned"; type: "u64" },
+                { name: "lastActivity"; type: "i64" },
+                { name: "bump"; type: "u8" },
+                { name: "submissionCount"; type: "u64" },
+            ];
+        },
+        {
+            name: "DataSubmission";
+            discriminator: [176, 200, 246, 52, 235, 240, 102, 66];
+            data: [
+                { name: "device"; type: "pubkey" },
+                { name: "timestamp"; type: "i64" },
+                { name: "signalStrength"; type: "i32" },
+                { name: "latency"; type: "u32" },
+                { name: "throughput"; type: "u64" },
+                { name: "availability"; type: "f32" },
+                {
+                    name: "location";
+                    type: { defined: { name: "LocationData" } };
+                },
+            ];
+        },
+    ];
+    types: [
+        {
+            name: "DeviceType";
+            type: {
+                kind: "enum";
+                variants: [
+                    { name: "Smartphone" },
+                    { name: "Router" },
+                    { name: "IoTDevice" },
+                    { name: "Hotspot" },
+                ];
+            };
+        },
+        {
+            name: "LocationData";
+            type: {
+                kind: "struct";
+                fields: [
+                    { name: "latitude"; type: "f64" },
+                    { name: "longitude"; type: "f64" },
+                    { name: "accuracy"; type: "f32" },
+                ];
+            };
+        },
+        {
+            name: "NetworkQualityData";
+            type: {
+                kind: "struct";
+                fields: [
+                    { name: "signalStrength"; type: "i32" },
+                    { name: "latency"; type: "u32" },
+                    { name: "throughput"; type: "u64" },
+                    { name: "availability"; type: "f32" },
+                    {
+                        name: "location";
+                        type: { defined: { name: "LocationData" } };
+                    },
+                ];
+            };
+        },
+    ];
+    errors: [
+        { code: 6000; name: "DeviceInactive"; msg: "Device is not active" },
+        { code: 6001; name: "ProgramPaused"; msg: "Program is paused" },
+        { code: 6002; name: "InvalidDataQuality"; msg: "Invalid data quality" },
+        {
+            code: 6003;
+            name: "InsufficientRewards";
+            msg: "Insufficient rewards in vault";
+        },
+        {
+            code: 6004;
+            name: "Unauthorized";
+            msg: "Signer is not authorized for this account";
+        },
+    ];
+}
+
+export const IDL: DePINfinity = {
+    address: "DePINfinity111111111111111111111111111111111",
+    metadata: {
+        name: "depinfinity",
+        version: "0.2.0",
+        spec: "0.1.0",
+        description:
+            "DePINfinity: Hybrid Mobile Infrastructure DePIN on Solana",
+    },
+    instructions: [
+        {
+            name: "initialize",
+            discriminator: [175, 175, 109, 31, 13, 152, 155, 237],
+            accounts: [
+                { name: "programState", writable: true },
+                { name: "authority", writable: true, signer: true },
+                { name: "systemProgram", writable: false },
+            ],
+            args: [],
+        },
+        {
+            name: "registerDevice",
+            discriminator: [210, 151, 56, 68, 22, 158, 90, 193],
+            accounts: [
+                { name: "device", writable: true },
+                { name: "programState", writable: true },
+                { name: "user", writable: true, signer: true },
+                { name: "systemProgram", writable: false },
+            ],
+            args: [
+                { name: "deviceId", type: "string" },
+                {
+                    name: "deviceType",
+                    type: { defined: { name: "DeviceType" } },
+                },
+                {
+                    name: "initialLocation",
+                    type: { defined: { name: "LocationData" } },
+                },
+            ],
+        },
+        {
+            name: "submitData",
+            discriminator: [20, 46, 227, 3, 131, 99, 65, 77],
+            accounts: [
+                { name: "device", writable: true },
+                { name: "dataSubmission", writable: true },
+                { name: "programState", writable: true },
+                { name: "rewardVault", writable: true },
+                { name: "userTokenAccount", writable: true },
+                { name: "user", writable: true, signer: true },
+                { name: "tokenProgram", writable: false },
+                { name: "systemProgram", writable: false },
+            ],
+            args: [
+                {
+                    name: "qualityData",
+                    type: { defined: { name: "NetworkQualityData" } },
+                },
+            ],
+        },
+        {
+            name: "updateLocation",
+            discriminator: [136, 21, 137, 105, 147, 171, 2, 210],
+            accounts: [
+                { name: "device", writable: true },
+                { name: "user", writable: false, signer: true },
+            ],
+            args: [
+                {
+                    name: "newLocation",
+                    type: { defined: { name: "LocationData" } },
+                },
+            ],
+        },
+        {
+            name: "toggleDeviceStatus",
+            discriminator: [97, 99, 210, 205, 47, 54, 125, 53],
+            accounts: [
+                { name: "device", writable: true },
+                { name: "user", writable: false, signer: true },
+            ],
+            args: [],
+        },
+        {
+            name: "pauseProgram",
+            discriminator: [91, 86, 253, 175, 66, 236, 172, 124],
+            accounts: [
+                { name: "programState", writable: true },
+                { name: "authority", writable: false, signer: true },
+            ],
+            args: [],
+        },
+        {
+            name: "resumeProgram",
+            discriminator: [253, 125, 38, 109, 196, 141, 189, 30],
+            accounts: [
+                { name: "programState", writable: true },
+                { name: "authority", writable: false, signer: true },
+            ],
+            args: [],
+        },
+        {
+            name: "transferAuthority",
+            discriminator: [48, 169, 76, 72, 229, 180, 55, 161],
+            accounts: [
+                { name: "programState", writable: true },
+                { name: "authority", writable: false, signer: true },
+                { name: "newAuthority", writable: false, signer: true },
+            ],
+            args: [],
+        },
+    ],
+    accounts: [
+        {
+            name: "ProgramState",
+            discriminator: [77, 209, 137, 229, 149, 67, 167, 230],
+            data: [
+                { name: "authority", type: "pubkey" },
+                { name: "totalDevices", type: "u64" },
+                { name: "totalRewardsDistributed", type: "u64" },
+                { name: "isActive", type: "bool" },
+                { name: "bump", type: "u8" },
+            ],
+        },
+        {
+            name: "Device",
+            discriminator: [153, 248, 23, 39, 83, 45, 68, 128],
+            data: [
+                { name: "owner", type: "pubkey" },
+                { name: "deviceId", type: "string" },
+                {
+                    name: "deviceType",
+                    type: { defined: { name: "DeviceType" } },
+                },
+                {
+                    name: "location",
+                    type: { defined: { name: "LocationData" } },
+                },
+                { name: "isActive", type: "bool" },
+                { name: "totalUptime", type: "u64" },
+                { name: "totalRewardsEarned", type: "u64" },
+                { name: "lastActivity", type: "i64" },
+                { name: "bump", type: "u8" },
+                { name: "submissionCount", type: "u64" },
+            ],
+        },
+        {
+            name: "DataSubmission",
+            discriminator: [176, 200, 246, 52, 235, 240, 102, 66],
+            data: [
+                { name: "device", type: "pubkey" },
+                { name: "timestamp", type: "i64" },
+                { name: "signalStrength", type: "i32" },
+                { name: "latency", type: "u32" },
+                { name: "throughput", type: "u64" },
+                { name: "availability", type: "f32" },
+                {
+                    name: "location",
+                    type: { defined: { name: "LocationData" } },
+                },
+            ],
+        },
+    ],
+    types: [
+        {
+            name: "DeviceType",
+            type: {
+                kind: "enum",
+                variants: [
+                    { name: "Smartphone" },
+                    { name: "Router" },
+                    { name: "IoTDevice" },
+                    { name: "Hotspot" },
+                ],
+            },
+        },
+        {
+            name: "LocationData",
+            type: {
+                kind: "struct",
+                fields: [
+                    { name: "latitude", type: "f64" },
+                    { name: "longitude", type: "f64" },
+                    { name: "accuracy", type: "f32" },
+                ],
+            },
+        },
+        {
+            name: "NetworkQualityData",
+            type: {
+                kind: "struct",
+                fields: [
+                    { name: "signalStrength", type: "i32" },
+                    { name: "latency", type: "u32" },
+                    { name: "throughput", type: "u64" },
+                    { name: "availability", type: "f32" },
+                    {
+                        name: "location",
+                        type: { defined: { name: "LocationData" } },
+                    },
+                ],
+            },
+        },
+    ],
+    errors: [
+        { code: 6000, name: "DeviceInactive", msg: "Device is not active" },
+        { code: 6001, name: "ProgramPaused", msg: "Program is paused" },
+        { code: 6002, name: "InvalidDataQuality", msg: "Invalid data quality" },
+        {
+            code: 6003,
+            name: "InsufficientRewards",
+            msg: "Insufficient rewards in vault",
+        },
+        {
+            code: 6004,
+            name: "Unauthorized",
+            msg: "Signer is not authorized for this account",
+        },
+    ],
+};
+
+export type DeviceType = "Smartphone" | "Router" | "IoTDevice" | "Hotspot";
+
+export interface LocationData {
+    latitude: number;
+    longitude: number;
+    accuracy: number;
+}
+
+export interface NetworkQualityData {
+    signalStrength: number;
+    latency: number;
+    throughput: number;
+    availability: number;
+    location: LocationData;
+}
+
+export interface ProgramState {
+    authority: string;
+    totalDevices: number;
+    totalRewardsDistributed: number;
+    isActive: boolean;
+    bump: number;
+}
+
+export interface Device {
+    owner: string;
+    deviceId: string;
+    deviceType: DeviceType;
+    location: LocationData;
+    isActive: boolean;
+    totalUptime: number;
+    totalRewardsEarned: number;
+    lastActivity: number;
+    bump: number;
+    /** Submissions made so far; seeds the next DataSubmission address */
+    submissionCount: number;
+}
+
+export interface DataSubmission {
+    device: string;
+    timestamp: number;
+    signalStrength: number;
+    latency: number;
+    throughput: number;
+    availability: number;
+    location: LocationData;
+}
@@ -0,0 +1,277 @@
+// Generated by scripts/codegen.ts from programs/depinfinity/src/lib.rs.
+// Do not edit by hand: change the program and run `npm run codegen`.
+
+import {
+    PublicKey,
+    SystemProgram,
+    TransactionInstruction,
+} from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { instructionEncoder } from "../coder";
+import { DeviceType, LocationData, NetworkQualityData } from "./depinfinity";
+
+export interface InitializeAccounts {
+    programState: PublicKey;
+    /** Signer */
+    authority: PublicKey;
+    /** Defaults to SystemProgram.programId */
+    systemProgram?: PublicKey;
+}
+
+/** Initialize the DePIN program */
+export function initializeInstruction(
+    programId: PublicKey,
+    accounts: InitializeAccounts
+): TransactionInstruction {
+    return new TransactionInstruction({
+        programId,
+        keys: [
+            {
+                pubkey: accounts.programState,
+                isSigner: false,
+                isWritable: true,
+            },
+            { pubkey: accounts.authority, isSigner: true, isWritable: true },
+            {
+                pubkey: accounts.systemProgram ?? SystemProgram.programId,
+                isSigner: false,
+                isWritable: false,
+            },
+        ],
+        data: instructionEncoder.encode("initialize"),
+    });
+}
+
+export interface RegisterDeviceAccounts {
+    device: PublicKey;
+    programState: PublicKey;
+    /** Signer */
+    user: PublicKey;
+    /** Defaults to SystemProgram.programId */
+    systemProgram?: PublicKey;
+}
+
+export interface RegisterDeviceArgs {
+    deviceId: string;
+    deviceType: DeviceType;
+    initialLocation: LocationData;
+}
+
+/** Register a new device in the network */
+export function registerDeviceInstruction(
+    programId: PublicKey,
+    accounts: RegisterDeviceAccounts,
+    args: RegisterDeviceArgs
+): TransactionInstruction {
+    return new TransactionInstruction({
+        programId,
+        keys: [
+            { pubkey: accounts.device, isSigner: false, isWritable: true },
+            {
+                pubkey: accounts.programState,
+                isSigner: false,
+                isWritable: true,
+            },
+            { pubkey: accounts.user, isSigner: true, isWritable: true },
+            {
+                pubkey: accounts.systemProgram ?? SystemProgram.programId,
+                isSigner: false,
+                isWritable: false,
+            },
+        ],
+        data: instructionEncoder.encode("registerDevice", args),
+    });
+}
+
+export interface SubmitDataAccounts {
+    device: PublicKey;
+    dataSubmission: PublicKey;
+    programState: PublicKey;
+    rewardVault: PublicKey;
+    userTokenAccount: PublicKey;
+    /** Signer */
+    user: PublicKey;
+    /** Defaults to TOKEN_PROGRAM_ID */
+    tokenProgram?: PublicKey;
+    /** Defaults to SystemProgram.programId */
+    systemProgram?: PublicKey;
+}
+
+export interface SubmitDataArgs {
+    qualityData: NetworkQualityData;
+}
+
+/** Submit network quality data and earn rewards */
+export function submitDataInstruction(
+    programId: PublicKey,
+    accounts: SubmitDataAccounts,
+    args: SubmitDataArgs
+): TransactionInstruction {
+    return new TransactionInstruction({
+        programId,
+        keys: [
+            { pubkey: accounts.device, isSigner: false, isWritable: true },
+            {
+                pubkey: accounts.dataSubmission,
+                isSigner: false,
+                isWritable: true,
+            },
+            {
+                pubkey: accounts.programState,
+                isSigner: false,
+                isWritable: true,
+            },
+            { pubkey: accounts.rewardVault, isSigner: false, isWritable: true },
+            {
+                pubkey: accounts.userTokenAccount,
+                isSigner: false,
+                isWritable: true,
+            },
+            { pubkey: accounts.user, isSigner: true, isWritable: true },
+            {
+                pubkey: accounts.tokenProgram ?? TOKEN_PROGRAM_ID,
+                isSigner: false,
+                isWritable: false,
+            },
+            {
+                pubkey: accounts.systemProgram ?? SystemProgram.programId,
+                isSigner: false,
+                isWritable: false,
+            },
+        ],
+        data: instructionEncoder.encode("submitData", args),
+    });
+}
+
+export interface UpdateLocationAccounts {
+    device: PublicKey;
+    /** Signer */
+    user: PublicKey;
+}
+
+export interface UpdateLocationArgs {
+    newLocation: LocationData;
+}
+
+/** Update device location */
+export function updateLocationInstruction(
+    programId: PublicKey,
+    accounts: UpdateLocationAccounts,
+    args: UpdateLocationArgs
+): TransactionInstruction {
+    return new TransactionInstruction({
+        programId,
+        keys: [
+            { pubkey: accounts.device, isSigner: false, isWritable: true },
+            { pubkey: accounts.user, isSigner: true, isWritable: false },
+        ],
+        data: instructionEncoder.encode("updateLocation", args),
+    });
+}
+
+export interface ToggleDeviceStatusAccounts {
+    device: PublicKey;
+    /** Signer */
+    user: PublicKey;
+}
+
+/** Toggle device active status */
+export function toggleDeviceStatusInstruction(
+    programId: PublicKey,
+    accounts: ToggleDeviceStatusAccounts
+): TransactionInstruction {
+    return new TransactionInstruction({
+        programId,
+        keys: [
+            { pubkey: accounts.device, isSigner: false, isWritable: true },
+            { pubkey: accounts.user, isSigner: true, isWritable: false },
+        ],
+        data: instructionEncoder.encode("toggleDeviceStatus"),
+    });
+}
+
+export interface PauseProgramAccounts {
+    programState: PublicKey;
+    /** Signer */
+    authority: PublicKey;
+}
+
+/** Emergency pause the program (authority only) */
+export function pauseProgramInstruction(
+    programId: PublicKey,
+    accounts: PauseProgramAccounts
+): TransactionInstruction {
+    return new TransactionInstruction({
+        programId,
+        keys: [
+            {
+                pubkey: accounts.programState,
+                isSigner: false,
+                isWritable: true,
+            },
+            { pubkey: accounts.authority, isSigner: true, isWritable: false },
+        ],
+        data: instructionEncoder.encode("pauseProgram"),
+    });
+}
+
+export interface ResumeProgramAccounts {
+    programState: PublicKey;
+    /** Signer */
+    authority: PublicKey;
+}
+
+/** Resume the program (authority only) */
+export function resumeProgramInstruction(
+    programId: PublicKey,
+    accounts: ResumeProgramAccounts
+): TransactionInstruction {
+    return new TransactionInstruction({
+        programId,
+        keys: [
+            {
+                pubkey: accounts.programState,
+                isSigner: false,
+                isWritable: true,
+            },
+            { pubkey: accounts.authority, isSigner: true, isWritable: false },
+        ],
+        data: instructionEncoder.encode("resumeProgram"),
+    });
+}
+
+export interface TransferAuthorityAccounts {
+    programState: PublicKey;
+    /** Signer */
+    authority: PublicKey;
+    /** Signer */
+    newAuthority: PublicKey;
+}
+
+/**
+ * Hand the program over to a new authority (authority only).
+ * The new authority co-signs so control can never move to a key
+ * nobody holds.
+ */
+export function transferAuthorityInstruction(
+    programId: PublicKey,
+    accounts: TransferAuthorityAccounts
+): TransactionInstruction {
+    return new TransactionInstruction({
+        programId,
+        keys: [
+            {
+                pubkey: accounts.programState,
+                isSigner: false,
+                isWritable: true,
+            },
+            { pubkey: accounts.authority, isSigner: true, isWritable: false },
+            {
+                pubkey: accounts.newAuthority,
+                isSigner: true,
+                isWritable: false,
+            },
+        ],
+        data: instructionEncoder.encode("transferAuthority"),
+    });
+}
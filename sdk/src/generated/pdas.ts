@@ -0,0 +1,45 @@
+// Generated by scripts/codegen.ts from programs/depinfinity/src/lib.rs.
+// Do not edit by hand: change the program and run `npm run codegen`.
+
+import { PublicKey } from "@solana/web3.js";
+
+// Little-endian u64, as `to_le_bytes()` produces on-chain
+const u64Seed = (value: number): Buffer => {
+    const data = Buffer.alloc(8);
+    data.writeBigUInt64LE(BigInt(value));
+    return data;
+};
+
+/** Address and bump of the ProgramState account */
+export function findProgramStateAddress(
+    programId: PublicKey
+): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync(
+        [Buffer.from("program_state")],
+        programId
+    );
+}
+
+/** Address and bump of the Device account */
+export function findDeviceAddress(
+    programId: PublicKey,
+    owner: PublicKey,
+    deviceId: string
+): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync(
+        [Buffer.from("device"), owner.toBuffer(), Buffer.from(deviceId)],
+        programId
+    );
+}
+
+/** Address and bump of the DataSubmission account */
+export function findDataSubmissionAddress(
+    programId: PublicKey,
+    device: PublicKey,
+    submissionCount: number
+): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync(
+        [Buffer.from("data"), device.toBuffer(), u64Seed(submissionCount)],
+        programId
+    );
+}
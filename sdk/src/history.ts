@@ -0,0 +1,95 @@
+import { DataSubmission } from "./types/depinfinity";
+
+// Moved to the pdas module; re-exported for existing imports
+export { findSubmissionAddress } from "./pdas";
+
+export interface SubmissionHistoryOptions {
+    /** Earliest submission timestamp to include (unix seconds, inclusive) */
+    from?: number;
+    /** Latest submission timestamp to include (unix seconds, inclusive) */
+    to?: number;
+    /** Page size, 50 by default */
+    limit?: number;
+    /** `nextCursor` from the previous page */
+    cursor?: string;
+}
+
+/**
+ * A data submission together with its account address
+ */
+export interface SubmissionRecord extends DataSubmission {
+    address: string;
+}
+
+export interface SubmissionHistoryPage {
+    /** Newest first */
+    submissions: SubmissionRecord[];
+    /** Cursor for the next page, or null on the last page */
+    nextCursor: string | null;
+}
+
+/**
+ * Sort, filter and paginate a device's submissions.
+ *
+ * Submissions are ordered newest first, with the address as a tie-breaker so
+ * the order is stable. The cursor encodes the position of the last returned
+ * submission, so pages stay consistent while new submissions arrive.
+ */
+export function paginateSubmissions(
+    submissions: SubmissionRecord[],
+    options: SubmissionHistoryOptions = {}
+): SubmissionHistoryPage {
+    const limit = options.limit ?? 50;
+    if (!Number.isInteger(limit) || limit <= 0) {
+        throw new Error(`Invalid page limit: ${limit}`);
+    }
+
+    const after = options.cursor ? decodeCursor(options.cursor) : null;
+
+    const matching = submissions
+        .filter(
+            (submission) =>
+                (options.from === undefined ||
+                    submission.timestamp >= options.from) &&
+                (options.to === undefined ||
+                    submission.timestamp <= options.to) &&
+                (after === null || compareSubmissions(submission, after) > 0)
+        )
+        .sort(compareSubmissions);
+
+    const page = matching.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+        submissions: page,
+        nextCursor:
+            matching.length > limit && last
+                ? encodeCursor(last.timestamp, last.address)
+                : null,
+    };
+}
+
+// Newest first, then by address
+function compareSubmissions(
+    a: { timestamp: number; address: string },
+    b: { timestamp: number; address: string }
+): number {
+    if (a.timestamp !== b.timestamp) {
+        return b.timestamp - a.timestamp;
+    }
+    return a.address < b.address ? -1 : a.address > b.address ? 1 : 0;
+}
+
+function encodeCursor(timestamp: number, address: string): string {
+    return Buffer.from(`${timestamp}:${address}`).toString("base64");
+}
+
+function decodeCursor(cursor: string): { timestamp: number; address: string } {
+    const decoded = Buffer.from(cursor, "base64").toString("utf8");
+    const separator = decoded.indexOf(":");
+    const timestamp = Number(decoded.slice(0, separator));
+    if (separator <= 0 || !Number.isInteger(timestamp)) {
+        throw new Error(`Invalid submission history cursor: ${cursor}`);
+    }
+    return { timestamp, address: decoded.slice(separator + 1) };
+}
@@ -1,18 +1,93 @@
 import {
     PublicKey,
     Connection,
+    GetProgramAccountsFilter,
     Keypair,
     Transaction,
-    SystemProgram,
+    TransactionInstruction,
     SYSVAR_RENT_PUBKEY,
 } from "@solana/web3.js";
-import { Program, AnchorProvider, Wallet, BN, Idl } from "@coral-xyz/anchor";
 import {
-    TOKEN_PROGRAM_ID,
     getAssociatedTokenAddress,
     createAssociatedTokenAccountInstruction,
 } from "@solana/spl-token";
-import { DePINfinity } from "./types/depinfinity";
+import {
+    ProgramState,
+    Device,
+    DeviceType,
+    DataSubmission,
+    LocationData,
+    NetworkQualityData,
+} from "./types/depinfinity";
+import { DePINBackend } from "./backend";
+import { accountDecoder, decodeAccounts } from "./coder";
+import {
+    DePINfinityEventStream,
+    DePINfinityEventListener,
+    DePINfinityEventName,
+    EventStreamOptions,
+} from "./events";
+import {
+    NetworkProbes,
+    SignalStrengthProvider,
+    createNodeProbes,
+    measureNetworkQuality,
+} from "./probes";
+import {
+    BrowserLocationProvider,
+    LocationPrivacyOptions,
+    LocationProvider,
+    withLocationPrivacy,
+} from "./location";
+import {
+    DeviceAccount,
+    DeviceFilter,
+    FleetSummary,
+    inactiveSince,
+    matchesDeviceFilter,
+    summarizeFleet,
+} from "./fleet";
+import {
+    SubmissionHistoryOptions,
+    SubmissionHistoryPage,
+    paginateSubmissions,
+} from "./history";
+import {
+    DeviceNotFoundError,
+    InsufficientRewardsError,
+    ProgramNotInitializedError,
+    isInsufficientFundsError,
+} from "./errors";
+import {
+    SendOptions,
+    SimulationResult,
+    TransactionSender,
+    TransactionSigner,
+} from "./transactions";
+import { AdminClient } from "./admin";
+import { Signer } from "./signers";
+import { validateQualityData } from "./validation";
+import {
+    CacheKind,
+    ReadCache,
+    ReadCacheOptions,
+    ReadOptions,
+    deviceKey,
+} from "./cache";
+import {
+    initializeInstruction,
+    registerDeviceInstruction,
+    submitDataInstruction,
+    toggleDeviceStatusInstruction,
+    updateLocationInstruction,
+} from "./generated/instructions";
+import { dataSubmissionPda, devicePda, programStatePda } from "./pdas";
+import {
+    QueueStatus,
+    QueueStorage,
+    SubmissionQueue,
+    SubmissionQueueOptions,
+} from "./queue";
 
 /**
  * Configuration for the DePINfinity client.
@@ -26,23 +101,50 @@ export interface DePINfinityConfig {
     docomoMint?: PublicKey;
     /** Program-owned token account that holds reward tokens */
     rewardVault?: PublicKey;
+    /** Options for the real-time event subscriptions */
+    events?: EventStreamOptions;
+    /** Default send options for write methods */
+    transactions?: SendOptions;
+    /**
+     * Pays transaction fees and reward account rent instead of the wallet.
+     * The wallet still signs as the device owner, so either side can be a
+     * `RemoteSigner` whose key lives in a separate process.
+     */
+    feePayer?: TransactionSigner;
+    /**
+     * Cache account reads. Entries expire after a TTL and are invalidated
+     * by the client's own writes and, while subscribed, by program events.
+     */
+    cache?: ReadCacheOptions;
 }
 
-export class DePINfinityClient {
-    private program: Program<DePINfinity>;
+export class DePINfinityClient implements DePINBackend {
+    readonly programId: PublicKey;
+    /** Read cache, when enabled in the config */
+    readonly cache: ReadCache | null;
     private connection: Connection;
-    private provider: AnchorProvider;
-    private config: Required<DePINfinityConfig>;
+    private wallet: Signer;
+    private config: Required<
+        Omit<
+            DePINfinityConfig,
+            "events" | "transactions" | "feePayer" | "cache"
+        >
+    >;
+    private eventOptions: EventStreamOptions;
+    private eventStream: DePINfinityEventStream | null = null;
+    private sender: TransactionSender;
+    private feePayer: PublicKey;
+    private rewardAccountReady: boolean = false;
 
     constructor(
         connection: Connection,
-        wallet: Wallet,
+        wallet: Signer,
         programId: PublicKey,
         config?: DePINfinityConfig
     ) {
         this.connection = connection;
-        this.provider = new AnchorProvider(connection, wallet, {});
-        this.program = new Program(this.getProgramIdl(), this.provider);
+        this.wallet = wallet;
+        this.programId = programId;
 
         const envMint = process.env.DOCOMO_MINT;
         const envVault = process.env.REWARD_VAULT;
@@ -55,349 +157,708 @@ export class DePINfinityClient {
                 config?.rewardVault ??
                 (envVault ? new PublicKey(envVault) : PublicKey.default),
         };
+        this.eventOptions = config?.events ?? {};
+        const feePayer = config?.feePayer ?? wallet;
+        this.feePayer = feePayer.publicKey;
+        this.sender = new TransactionSender(
+            connection,
+            feePayer,
+            config?.transactions,
+            feePayer.publicKey.equals(wallet.publicKey) ? [] : [wallet]
+        );
+        this.cache = config?.cache
+            ? new ReadCache({
+                  namespace: programId.toBase58(),
+                  ...config.cache,
+              })
+            : null;
     }
 
-    private getProgramIdl(): Idl {
-        return {
-            version: "0.1.0",
-            name: "depinfinity",
-            instructions: [
-                {
-                    name: "initialize",
-                    accounts: [
-                        { name: "programState", isMut: true, isSigner: false },
-                        { name: "authority", isMut: true, isSigner: true },
-                        {
-                            name: "systemProgram",
-                            isMut: false,
-                            isSigner: false,
-                        },
-                    ],
-                    args: [],
-                },
-                {
-                    name: "registerDevice",
-                    accounts: [
-                        { name: "device", isMut: true, isSigner: false },
-                        { name: "programState", isMut: true, isSigner: false },
-                        { name: "user", isMut: true, isSigner: true },
-                        {
-                            name: "systemProgram",
-                            isMut: false,
-                            isSigner: false,
-                        },
-                    ],
-                    args: [
-                        { name: "deviceId", type: "string" },
-                        { name: "deviceType", type: { defined: "DeviceType" } },
-                        {
-                            name: "initialLocation",
-                            type: { defined: "LocationData" },
-                        },
-                    ],
-                },
-                {
-                    name: "submitData",
-                    accounts: [
-                        { name: "device", isMut: true, isSigner: false },
-                        {
-                            name: "dataSubmission",
-                            isMut: true,
-                            isSigner: false,
-                        },
-                        { name: "programState", isMut: true, isSigner: false },
-                        { name: "rewardVault", isMut: true, isSigner: false },
-                        {
-                            name: "userTokenAccount",
-                            isMut: true,
-                            isSigner: false,
-                        },
-                        { name: "user", isMut: true, isSigner: true },
-                        { name: "tokenProgram", isMut: false, isSigner: false },
-                        {
-                            name: "systemProgram",
-                            isMut: false,
-                            isSigner: false,
-                        },
-                    ],
-                    args: [
-                        {
-                            name: "qualityData",
-                            type: { defined: "NetworkQualityData" },
-                        },
-                    ],
-                },
-            ],
-            accounts: [
-                {
-                    name: "ProgramState",
-                    type: {
-                        kind: "struct",
-                        fields: [
-                            { name: "authority", type: "publicKey" },
-                            { name: "totalDevices", type: "u64" },
-                            { name: "totalRewardsDistributed", type: "u64" },
-                            { name: "isActive", type: "bool" },
-                            { name: "bump", type: "u8" },
-                        ],
-                    },
-                },
-                {
-                    name: "Device",
-                    type: {
-                        kind: "struct",
-                        fields: [
-                            { name: "owner", type: "publicKey" },
-                            { name: "deviceId", type: "string" },
+    // Get program state
+    async getProgramState(options: ReadOptions = {}): Promise<ProgramState> {
+        const programState = await this.cached(
+            "programState",
+            "",
+            async () => {
+                const [programStatePDA] = programStatePda(this.programId);
+                const accountInfo = await this.connection.getAccountInfo(
+                    programStatePDA
+                );
+                return accountInfo
+                    ? accountDecoder.decodeProgramState(accountInfo.data)
+                    : null;
+            },
+            options
+        );
+        if (!programState) {
+            const [programStatePDA] = programStatePda(this.programId);
+            throw new ProgramNotInitializedError(programStatePDA.toBase58());
+        }
+        return programState;
+    }
+
+    // Get device information (defaults to a device owned by the wallet)
+    async getDevice(
+        deviceId: string,
+        owner: PublicKey = this.wallet.publicKey,
+        options: ReadOptions = {}
+    ): Promise<Device | null> {
+        return this.cached(
+            "device",
+            deviceKey(owner.toBase58(), deviceId),
+            async () => {
+                const [devicePDA] = devicePda(this.programId, owner, deviceId);
+                const accountInfo = await this.connection.getAccountInfo(
+                    devicePDA
+                );
+                return accountInfo
+                    ? accountDecoder.decodeDevice(accountInfo.data)
+                    : null;
+            },
+            options
+        );
+    }
+
+    // Get one of the wallet's devices from the RPC node, skipping the cache
+    async getDeviceUncached(deviceId: string): Promise<Device | null> {
+        return this.getDevice(deviceId, this.wallet.publicKey, {
+            bypassCache: true,
+        });
+    }
+
+    // List devices, optionally filtered by owner, type and status. The owner
+    // is matched by the RPC node; type and status come after the
+    // variable-length device ID, so they are filtered here.
+    async listDevices(filter: DeviceFilter = {}): Promise<DeviceAccount[]> {
+        const accounts = await this.connection.getProgramAccounts(
+            this.programId,
+            { filters: this.deviceFilters(filter.owner) }
+        );
+
+        const devices: DeviceAccount[] = [];
+        for (const { address, value: device } of decodeAccounts(
+            accounts,
+            (data) => accountDecoder.decodeDevice(data)
+        )) {
+            if (matchesDeviceFilter(device, filter)) {
+                devices.push({ ...device, address });
+            }
+        }
+        return devices;
+    }
+
+    // List device account addresses without fetching account data
+    async listDeviceAddresses(
+        owner?: PublicKey | string
+    ): Promise<PublicKey[]> {
+        const accounts = await this.connection.getProgramAccounts(
+            this.programId,
+            {
+                filters: this.deviceFilters(owner),
+                dataSlice: { offset: 0, length: 0 },
+            }
+        );
+
+        return accounts.map(({ pubkey }) => pubkey);
+    }
+
+    // Aggregate rewards, uptime and activity across an owner's fleet
+    async getFleetSummary(
+        owner: PublicKey | string = this.wallet.publicKey
+    ): Promise<FleetSummary> {
+        return summarizeFleet(await this.listDevices({ owner }));
+    }
+
+    // An owner's devices with no activity since a unix timestamp (seconds)
+    async getInactiveDevices(
+        since: number,
+        owner: PublicKey | string = this.wallet.publicKey
+    ): Promise<DeviceAccount[]> {
+        return inactiveSince(await this.listDevices({ owner }), since);
+    }
+
+    // Read back a device's data submissions, newest first, one page at a
+    // time (defaults to a device owned by the wallet)
+    async getSubmissionHistory(
+        deviceId: string,
+        options: SubmissionHistoryOptions & ReadOptions = {},
+        owner: PublicKey = this.wallet.publicKey
+    ): Promise<SubmissionHistoryPage> {
+        const [devicePDA] = devicePda(this.programId, owner, deviceId);
+
+        // The whole list is cached, so every page comes from one read
+        const submissions = await this.cached(
+            "submissions",
+            devicePDA.toBase58(),
+            async () => {
+                const accounts = await this.connection.getProgramAccounts(
+                    this.programId,
+                    {
+                        filters: [
                             {
-                                name: "deviceType",
-                                type: { defined: "DeviceType" },
+                                memcmp: {
+                                    offset: 0,
+                                    bytes: accountDecoder
+                                        .discriminator("DataSubmission")
+                                        .toString("base64"),
+                                    encoding: "base64",
+                                },
                             },
+                            // The submitting device is the first field
                             {
-                                name: "location",
-                                type: { defined: "LocationData" },
+                                memcmp: {
+                                    offset: 8,
+                                    bytes: devicePDA.toBase58(),
+                                },
                             },
-                            { name: "isActive", type: "bool" },
-                            { name: "totalUptime", type: "u64" },
-                            { name: "totalRewardsEarned", type: "u64" },
-                            { name: "lastActivity", type: "i64" },
-                            { name: "bump", type: "u8" },
-                        ],
-                    },
-                },
-            ],
-            types: [
-                {
-                    name: "DeviceType",
-                    type: {
-                        kind: "enum",
-                        variants: [
-                            { name: "Smartphone" },
-                            { name: "Router" },
-                            { name: "IoTDevice" },
-                            { name: "Hotspot" },
                         ],
-                    },
-                },
-                {
-                    name: "LocationData",
-                    type: {
-                        kind: "struct",
-                        fields: [
-                            { name: "latitude", type: "f64" },
-                            { name: "longitude", type: "f64" },
-                            { name: "accuracy", type: "f32" },
-                        ],
-                    },
-                },
-                {
-                    name: "NetworkQualityData",
-                    type: {
-                        kind: "struct",
-                        fields: [
-                            { name: "signalStrength", type: "i32" },
-                            { name: "latency", type: "u32" },
-                            { name: "throughput", type: "u64" },
-                            { name: "availability", type: "f32" },
-                            {
-                                name: "location",
-                                type: { defined: "LocationData" },
-                            },
-                        ],
-                    },
-                },
-            ],
-        } as Idl;
+                    }
+                );
+                return decodeAccounts(accounts, (data) =>
+                    accountDecoder.decodeDataSubmission(data)
+                ).map(({ address, value }) => ({ ...value, address }));
+            },
+            options
+        );
+
+        return paginateSubmissions(submissions ?? [], options);
     }
 
-    // Get program state
-    async getProgramState(): Promise<any> {
-        const [programStatePDA] = PublicKey.findProgramAddressSync(
-            [Buffer.from("program_state")],
-            this.program.programId
+    // DOCOMO reward token balance in base units (defaults to the wallet),
+    // as a bigint since u64 balances can exceed Number.MAX_SAFE_INTEGER.
+    // Owners without a reward token account yet have a balance of 0.
+    async getRewardBalance(
+        owner: PublicKey = this.wallet.publicKey
+    ): Promise<bigint> {
+        const userTokenAccount = await getAssociatedTokenAddress(
+            this.config.docomoMint,
+            owner
         );
+        if (!(await this.connection.getAccountInfo(userTokenAccount))) {
+            return BigInt(0);
+        }
 
-        return await this.program.account.programState.fetch(programStatePDA);
+        const { value } = await this.connection.getTokenAccountBalance(
+            userTokenAccount
+        );
+        return BigInt(value.amount);
     }
 
-    // Get device information
-    async getDevice(deviceId: string, owner: PublicKey): Promise<any> {
-        const [devicePDA] = PublicKey.findProgramAddressSync(
-            [Buffer.from("device"), owner.toBuffer(), Buffer.from(deviceId)],
-            this.program.programId
-        );
+    // Address of a device's Nth data submission (0-based, defaults to a
+    // device owned by the wallet)
+    getSubmissionAddress(
+        deviceId: string,
+        index: number,
+        owner: PublicKey = this.wallet.publicKey
+    ): PublicKey {
+        const [devicePDA] = devicePda(this.programId, owner, deviceId);
 
-        return await this.program.account.device.fetch(devicePDA);
+        return dataSubmissionPda(this.programId, devicePDA, index)[0];
     }
 
-    // Initialize the program (authority only)
-    async initialize(): Promise<string> {
-        const [programStatePDA] = PublicKey.findProgramAddressSync(
-            [Buffer.from("program_state")],
-            this.program.programId
+    // Addresses of all of a device's data submissions, oldest first
+    async getSubmissionAddresses(
+        deviceId: string,
+        owner: PublicKey = this.wallet.publicKey
+    ): Promise<PublicKey[]> {
+        const device = await this.getDevice(deviceId, owner);
+        if (!device) {
+            throw new DeviceNotFoundError(deviceId);
+        }
+
+        return Array.from({ length: device.submissionCount }, (_, index) =>
+            this.getSubmissionAddress(deviceId, index, owner)
         );
+    }
 
-        const tx = await this.program.methods
-            .initialize()
-            .accounts({
-                programState: programStatePDA,
-                authority: this.provider.wallet.publicKey,
-                systemProgram: SystemProgram.programId,
-            })
-            .rpc();
+    // Get a single data submission by account address
+    async getDataSubmission(
+        address: PublicKey,
+        options: ReadOptions = {}
+    ): Promise<DataSubmission | null> {
+        return this.cached(
+            "submission",
+            address.toBase58(),
+            async () => {
+                const accountInfo = await this.connection.getAccountInfo(
+                    address
+                );
+                return accountInfo
+                    ? accountDecoder.decodeDataSubmission(accountInfo.data)
+                    : null;
+            },
+            options
+        );
+    }
 
-        return tx;
+    // Read through the cache when it is enabled
+    private cached<T>(
+        kind: CacheKind,
+        key: string,
+        load: () => Promise<T | null>,
+        options: ReadOptions
+    ): Promise<T | null> {
+        return this.cache ? this.cache.get(kind, key, load, options) : load();
     }
 
-    // Register a new device
+    // Drop cached reads a write to one of the wallet's devices makes stale
+    private async invalidateDevice(
+        deviceId: string,
+        kinds: CacheKind[] = ["device"]
+    ): Promise<void> {
+        if (!this.cache) return;
+
+        const owner = this.wallet.publicKey;
+        for (const kind of kinds) {
+            if (kind === "device") {
+                await this.cache.invalidate(
+                    kind,
+                    deviceKey(owner.toBase58(), deviceId)
+                );
+            } else if (kind === "submissions") {
+                const [devicePDA] = devicePda(this.programId, owner, deviceId);
+                await this.cache.invalidate(kind, devicePDA.toBase58());
+            } else {
+                await this.cache.invalidate(kind);
+            }
+        }
+    }
+
+    private deviceFilters(owner?: PublicKey | string) {
+        const filters: GetProgramAccountsFilter[] = [
+            {
+                memcmp: {
+                    offset: 0,
+                    bytes: accountDecoder
+                        .discriminator("Device")
+                        .toString("base64"),
+                    encoding: "base64",
+                },
+            },
+        ];
+        if (owner !== undefined) {
+            // The owner is the first field after the discriminator
+            filters.push({ memcmp: { offset: 8, bytes: owner.toString() } });
+        }
+        return filters;
+    }
+
+    // Initialize the program (authority only)
+    async initialize(options?: SendOptions): Promise<string> {
+        return this.sender.send([await this.initializeInstruction()], options);
+    }
+
+    // Register a new device for the wallet. The owner argument of the
+    // DePINBackend interface is ignored: the wallet is always the owner.
     async registerDevice(
         deviceId: string,
-        deviceType: any,
-        location: { latitude: number; longitude: number; accuracy: number }
+        deviceType: DeviceType,
+        location: LocationData,
+        _owner?: string,
+        options?: SendOptions
     ): Promise<string> {
-        const [devicePDA] = PublicKey.findProgramAddressSync(
+        const signature = await this.sender.send(
             [
-                Buffer.from("device"),
-                this.provider.wallet.publicKey.toBuffer(),
-                Buffer.from(deviceId),
+                await this.registerDeviceInstruction(
+                    deviceId,
+                    deviceType,
+                    location
+                ),
             ],
-            this.program.programId
+            options
+        );
+        await this.invalidateDevice(deviceId, ["device", "programState"]);
+        return signature;
+    }
+
+    // Submit network quality data. The wallet's reward token account is
+    // created in the same transaction if it does not exist yet. A reward
+    // vault too low to pay the reward raises InsufficientRewardsError.
+    async submitData(
+        deviceId: string,
+        qualityData: NetworkQualityData,
+        options?: SendOptions
+    ): Promise<string> {
+        const createRewardAccount = await this.createRewardAccountInstruction();
+        const instructions = [
+            ...(createRewardAccount ? [createRewardAccount] : []),
+            await this.submitDataInstruction(deviceId, qualityData),
+        ];
+
+        let signature: string;
+        try {
+            signature = await this.sender.send(instructions, options);
+        } catch (error) {
+            throw isInsufficientFundsError(error)
+                ? new InsufficientRewardsError({ cause: error })
+                : error;
+        }
+        this.rewardAccountReady = true;
+        await this.invalidateDevice(deviceId, [
+            "device",
+            "submissions",
+            "programState",
+        ]);
+        return signature;
+    }
+
+    // Update device location
+    async updateLocation(
+        deviceId: string,
+        newLocation: LocationData,
+        options?: SendOptions
+    ): Promise<string> {
+        const signature = await this.sender.send(
+            [await this.updateLocationInstruction(deviceId, newLocation)],
+            options
         );
+        await this.invalidateDevice(deviceId);
+        return signature;
+    }
 
-        const [programStatePDA] = PublicKey.findProgramAddressSync(
-            [Buffer.from("program_state")],
-            this.program.programId
+    // Toggle device status
+    async toggleDeviceStatus(
+        deviceId: string,
+        options?: SendOptions
+    ): Promise<string> {
+        const signature = await this.sender.send(
+            [await this.toggleDeviceStatusInstruction(deviceId)],
+            options
         );
+        await this.invalidateDevice(deviceId);
+        return signature;
+    }
 
-        const tx = await this.program.methods
-            .registerDevice(deviceId, deviceType, location)
-            .accounts({
-                device: devicePDA,
-                programState: programStatePDA,
-                user: this.provider.wallet.publicKey,
-                systemProgram: SystemProgram.programId,
-            })
-            .rpc();
+    // Authority-only operations: pause, resume and authority transfer
+    admin(): AdminClient {
+        return new AdminClient(
+            this.programId,
+            this.connection,
+            this.sender,
+            this.wallet.publicKey,
+            this.cache
+        );
+    }
+
+    // Dry-run instructions without signing or sending them, returning the
+    // program logs and compute units consumed
+    async simulate(
+        instructions: TransactionInstruction | TransactionInstruction[],
+        options?: SendOptions
+    ): Promise<SimulationResult> {
+        return this.sender.simulate(
+            Array.isArray(instructions) ? instructions : [instructions],
+            options
+        );
+    }
 
-        return tx;
+    // Build the initialize instruction
+    async initializeInstruction(): Promise<TransactionInstruction> {
+        const [programStatePDA] = programStatePda(this.programId);
+
+        return initializeInstruction(this.programId, {
+            programState: programStatePDA,
+            authority: this.wallet.publicKey,
+        });
     }
 
-    // Submit network quality data
-    async submitData(
+    // Build the registerDevice instruction
+    async registerDeviceInstruction(
         deviceId: string,
-        qualityData: {
-            signalStrength: number;
-            latency: number;
-            throughput: number;
-            availability: number;
-            location: { latitude: number; longitude: number; accuracy: number };
-        }
-    ): Promise<string> {
-        const [devicePDA] = PublicKey.findProgramAddressSync(
-            [
-                Buffer.from("device"),
-                this.provider.wallet.publicKey.toBuffer(),
-                Buffer.from(deviceId),
-            ],
-            this.program.programId
+        deviceType: DeviceType,
+        location: LocationData
+    ): Promise<TransactionInstruction> {
+        const [devicePDA] = devicePda(
+            this.programId,
+            this.wallet.publicKey,
+            deviceId
         );
 
-        const [dataSubmissionPDA] = PublicKey.findProgramAddressSync(
-            [
-                Buffer.from("data"),
-                devicePDA.toBuffer(),
-                Buffer.from(Date.now().toString()),
-            ],
-            this.program.programId
+        const [programStatePDA] = programStatePda(this.programId);
+
+        return registerDeviceInstruction(
+            this.programId,
+            {
+                device: devicePDA,
+                programState: programStatePDA,
+                user: this.wallet.publicKey,
+            },
+            { deviceId, deviceType, initialLocation: location }
         );
+    }
 
-        const [programStatePDA] = PublicKey.findProgramAddressSync(
-            [Buffer.from("program_state")],
-            this.program.programId
+    // Build the submitData instruction. `sequence` is the device's
+    // submission count, read from the chain when not given. Throws
+    // MeasurementValidationError for out-of-range measurements.
+    async submitDataInstruction(
+        deviceId: string,
+        qualityData: NetworkQualityData,
+        sequence?: number
+    ): Promise<TransactionInstruction> {
+        const [devicePDA] = devicePda(
+            this.programId,
+            this.wallet.publicKey,
+            deviceId
         );
 
-        // Get or create user token account
+        // Plausibility rules need the device type, so they only apply when
+        // the device is read anyway
+        let deviceType: DeviceType | undefined;
+        if (sequence === undefined) {
+            // A stale count would address an existing submission
+            const device = await this.getDevice(
+                deviceId,
+                this.wallet.publicKey,
+                { bypassCache: true }
+            );
+            if (!device) {
+                throw new DeviceNotFoundError(deviceId);
+            }
+            sequence = device.submissionCount;
+            deviceType = device.deviceType;
+        }
+        const measurement = validateQualityData(qualityData, deviceType);
+
+        const [dataSubmissionPDA] = dataSubmissionPda(
+            this.programId,
+            devicePDA,
+            sequence
+        );
+
+        const [programStatePDA] = programStatePda(this.programId);
+
+        // Created by createRewardAccountInstruction when missing
         const mint = this.config.docomoMint;
         const userTokenAccount = await getAssociatedTokenAddress(
             mint,
-            this.provider.wallet.publicKey
+            this.wallet.publicKey
         );
 
-        const tx = await this.program.methods
-            .submitData(qualityData)
-            .accounts({
+        return submitDataInstruction(
+            this.programId,
+            {
                 device: devicePDA,
                 dataSubmission: dataSubmissionPDA,
                 programState: programStatePDA,
                 rewardVault: this.config.rewardVault,
                 userTokenAccount: userTokenAccount,
-                user: this.provider.wallet.publicKey,
-                tokenProgram: TOKEN_PROGRAM_ID,
-                systemProgram: SystemProgram.programId,
-            })
-            .rpc();
+                user: this.wallet.publicKey,
+            },
+            { qualityData: measurement }
+        );
+    }
+
+    // Build the instruction creating the wallet's reward token account, or
+    // null when it already exists. The fee payer funds the rent.
+    async createRewardAccountInstruction(): Promise<TransactionInstruction | null> {
+        if (this.rewardAccountReady) {
+            return null;
+        }
 
-        return tx;
+        const owner = this.wallet.publicKey;
+        const userTokenAccount = await getAssociatedTokenAddress(
+            this.config.docomoMint,
+            owner
+        );
+        if (await this.connection.getAccountInfo(userTokenAccount)) {
+            this.rewardAccountReady = true;
+            return null;
+        }
+
+        return createAssociatedTokenAccountInstruction(
+            this.feePayer,
+            userTokenAccount,
+            owner,
+            this.config.docomoMint
+        );
     }
 
-    // Update device location
-    async updateLocation(
+    // Build the updateLocation instruction
+    async updateLocationInstruction(
         deviceId: string,
-        newLocation: { latitude: number; longitude: number; accuracy: number }
-    ): Promise<string> {
-        const [devicePDA] = PublicKey.findProgramAddressSync(
-            [
-                Buffer.from("device"),
-                this.provider.wallet.publicKey.toBuffer(),
-                Buffer.from(deviceId),
-            ],
-            this.program.programId
+        newLocation: LocationData
+    ): Promise<TransactionInstruction> {
+        const [devicePDA] = devicePda(
+            this.programId,
+            this.wallet.publicKey,
+            deviceId
         );
 
-        const tx = await this.program.methods
-            .updateLocation(newLocation)
-            .accounts({
-                device: devicePDA,
-                user: this.provider.wallet.publicKey,
-            })
-            .rpc();
-
-        return tx;
+        return updateLocationInstruction(
+            this.programId,
+            { device: devicePDA, user: this.wallet.publicKey },
+            { newLocation }
+        );
     }
 
-    // Toggle device status
-    async toggleDeviceStatus(deviceId: string): Promise<string> {
-        const [devicePDA] = PublicKey.findProgramAddressSync(
-            [
-                Buffer.from("device"),
-                this.provider.wallet.publicKey.toBuffer(),
-                Buffer.from(deviceId),
-            ],
-            this.program.programId
+    // Build the toggleDeviceStatus instruction
+    async toggleDeviceStatusInstruction(
+        deviceId: string
+    ): Promise<TransactionInstruction> {
+        const [devicePDA] = devicePda(
+            this.programId,
+            this.wallet.publicKey,
+            deviceId
         );
 
-        const tx = await this.program.methods
-            .toggleDeviceStatus()
-            .accounts({
-                device: devicePDA,
-                user: this.provider.wallet.publicKey,
-            })
-            .rpc();
+        return toggleDeviceStatusInstruction(this.programId, {
+            device: devicePDA,
+            user: this.wallet.publicKey,
+        });
+    }
+
+    // URL of the RPC node the client talks to
+    get rpcEndpoint(): string {
+        return this.connection.rpcEndpoint;
+    }
+
+    // Real-time event stream, created on first use
+    get events(): DePINfinityEventStream {
+        if (!this.eventStream) {
+            this.eventStream = new DePINfinityEventStream(
+                this.connection,
+                this.programId,
+                this.eventOptions
+            );
+            this.cache?.attach(this.eventStream);
+        }
+        return this.eventStream;
+    }
+
+    // Subscribe to device registrations
+    onDeviceRegistered(
+        listener: DePINfinityEventListener<"deviceRegistered">
+    ): () => void {
+        return this.subscribe("deviceRegistered", listener);
+    }
 
-        return tx;
+    // Subscribe to device activation / deactivation
+    onDeviceStatusChanged(
+        listener: DePINfinityEventListener<"deviceStatusChanged">
+    ): () => void {
+        return this.subscribe("deviceStatusChanged", listener);
+    }
+
+    // Subscribe to new data submissions
+    onDataSubmitted(
+        listener: DePINfinityEventListener<"dataSubmitted">
+    ): () => void {
+        return this.subscribe("dataSubmitted", listener);
+    }
+
+    // Subscribe to reward payouts
+    onRewardPaid(listener: DePINfinityEventListener<"rewardPaid">): () => void {
+        return this.subscribe("rewardPaid", listener);
+    }
+
+    // Subscribe to emergency pauses of the program
+    onProgramPaused(
+        listener: DePINfinityEventListener<"programPaused">
+    ): () => void {
+        return this.subscribe("programPaused", listener);
+    }
+
+    // Subscribe to the program resuming after a pause
+    onProgramResumed(
+        listener: DePINfinityEventListener<"programResumed">
+    ): () => void {
+        return this.subscribe("programResumed", listener);
+    }
+
+    // Listen for program events; names and payloads match the mock backend
+    on<K extends DePINfinityEventName>(
+        event: K,
+        listener: DePINfinityEventListener<K>
+    ): this {
+        this.subscribe(event, listener);
+        return this;
+    }
+
+    off<K extends DePINfinityEventName>(
+        event: K,
+        listener: DePINfinityEventListener<K>
+    ): this {
+        this.events.off(event, listener);
+        return this;
+    }
+
+    // Close all real-time subscriptions
+    async closeSubscriptions(): Promise<void> {
+        if (this.eventStream) {
+            await this.eventStream.stop();
+            this.eventStream.removeAllListeners();
+        }
+    }
+
+    // Attach a listener and make sure the stream is running; returns an
+    // unsubscribe function
+    private subscribe<K extends DePINfinityEventName>(
+        event: K,
+        listener: DePINfinityEventListener<K>
+    ): () => void {
+        const stream = this.events;
+        stream.on(event, listener);
+
+        if (!stream.isRunning) {
+            stream.start().catch((error) => {
+                console.error("Error starting event subscriptions:", error);
+            });
+        }
+
+        return () => {
+            stream.off(event, listener);
+        };
     }
 }
 
 // Utility functions for mobile app integration
+export interface MobileDePINClientOptions {
+    /** Where queued measurements are persisted (in memory by default) */
+    storage?: QueueStorage;
+    /** Overrides for the submission queue, e.g. a fake clock in tests */
+    queue?: Omit<SubmissionQueueOptions, "backend" | "storage">;
+    /**
+     * Network measurements. Defaults to the real probes: latency and
+     * availability against the RPC node, throughput by downloading
+     * `throughputUrl` and signal strength from `signalStrength`
+     */
+    probes?: NetworkProbes;
+    /** Download for the default throughput probe; not measured without one */
+    throughputUrl?: string;
+    /** Platform hook for the default signal strength probe, likewise */
+    signalStrength?: SignalStrengthProvider;
+    /** Device location source (browser geolocation by default) */
+    location?: LocationProvider;
+    /** Fuzzing and precision limits applied to every reported location */
+    locationPrivacy?: LocationPrivacyOptions;
+}
+
 export class MobileDePINClient {
     private client: DePINfinityClient;
     private deviceId: string;
     private isActive: boolean = false;
-    private dataInterval: NodeJS.Timeout | null = null;
+    private dataInterval: ReturnType<typeof setInterval> | null = null;
+    private queue: SubmissionQueue;
+    private probes: NetworkProbes;
+    private location: LocationProvider;
 
-    constructor(client: DePINfinityClient, deviceId: string) {
+    constructor(
+        client: DePINfinityClient,
+        deviceId: string,
+        options: MobileDePINClientOptions = {}
+    ) {
         this.client = client;
         this.deviceId = deviceId;
+        this.queue = new SubmissionQueue({
+            ...options.queue,
+            backend: client,
+            storage: options.storage,
+        });
+        this.probes = options.probes ?? defaultProbes(client, options);
+        this.location = withLocationPrivacy(
+            options.location ?? new BrowserLocationProvider(),
+            options.locationPrivacy
+        );
     }
 
     // Start automatic data collection
@@ -405,6 +866,7 @@ export class MobileDePINClient {
         if (this.isActive) return;
 
         this.isActive = true;
+        await this.queue.start();
         this.dataInterval = setInterval(async () => {
             try {
                 await this.collectAndSubmitData();
@@ -420,59 +882,62 @@ export class MobileDePINClient {
             clearInterval(this.dataInterval);
             this.dataInterval = null;
         }
+        this.queue.stop();
         this.isActive = false;
     }
 
+    // Queue depth and last submission error
+    getQueueStatus(): QueueStatus {
+        return this.queue.getStatus();
+    }
+
     // Collect network quality data from device
-    private async collectNetworkData(): Promise<any> {
-        // This would integrate with device APIs to collect real network data
-        // For now, we'll simulate realistic data
+    private async collectNetworkData(): Promise<NetworkQualityData> {
         return {
-            signalStrength: -65 + Math.random() * 20, // -65 to -45 dBm
-            latency: 20 + Math.random() * 80, // 20-100ms
-            throughput: 500000 + Math.random() * 1500000, // 0.5-2 Mbps
-            availability: 0.8 + Math.random() * 0.2, // 80-100%
-            location: await this.getCurrentLocation(),
+            ...(await measureNetworkQuality(this.probes)),
+            location: await this.location.getLocation(),
         };
     }
 
-    // Get current device location
-    private async getCurrentLocation(): Promise<{
-        latitude: number;
-        longitude: number;
-        accuracy: number;
-    }> {
-        return new Promise((resolve, reject) => {
-            if (navigator.geolocation) {
-                navigator.geolocation.getCurrentPosition(
-                    (position) => {
-                        resolve({
-                            latitude: position.coords.latitude,
-                            longitude: position.coords.longitude,
-                            accuracy: position.coords.accuracy,
-                        });
-                    },
-                    (error) => {
-                        console.error("Geolocation error:", error);
-                        // Fallback to default location
-                        resolve({
-                            latitude: 35.6762, // Tokyo coordinates
-                            longitude: 139.6503,
-                            accuracy: 100,
-                        });
-                    }
-                );
-            } else {
-                reject(new Error("Geolocation not supported"));
-            }
-        });
-    }
-
-    // Collect and submit data
+    // Collect data and queue it for submission
     private async collectAndSubmitData(): Promise<void> {
         const qualityData = await this.collectNetworkData();
-        await this.client.submitData(this.deviceId, qualityData);
+        await this.queue.enqueue(this.deviceId, qualityData);
     }
 }
 
+function defaultProbes(
+    client: DePINfinityClient,
+    options: MobileDePINClientOptions
+): NetworkProbes {
+    const endpoint = new URL(client.rpcEndpoint);
+    return createNodeProbes({
+        host: endpoint.hostname,
+        port: Number(endpoint.port) || (endpoint.protocol === "https:" ? 443 : 80),
+        throughputUrl: options.throughputUrl,
+        signalStrength: options.signalStrength,
+    });
+}
+
 export * from "./types/depinfinity";
+export * from "./types/b2b";
+export * from "./errors";
+export * from "./backend";
+export * from "./coder";
+export * from "./events";
+export * from "./queue";
+export * from "./probes";
+export * from "./location";
+export * from "./rewards";
+export * from "./fleet";
+export * from "./history";
+export * from "./transactions";
+export * from "./admin";
+export * from "./signers";
+export * from "./validation";
+export * from "./generated/instructions";
+export * from "./generated/pdas";
+export * from "./pdas";
+export * from "./cache";
+export * from "./simulation";
+export * from "./ledger";
@@ -0,0 +1,189 @@
+import { QueueClock } from "./queue";
+import { RandomSource, seededRandom } from "./simulation";
+
+/**
+ * A write recorded by a mock's transaction ledger
+ */
+export interface LedgerTransaction {
+    /** Unique transaction ID, in the format of the mocked network */
+    id: string;
+    /** Position in the ledger, from 1; the mock's slot or sequence number */
+    sequence: number;
+    /** Mock clock time of the write (ms) */
+    timestamp: number;
+    /** Name of the write method, e.g. "submitData" */
+    operation: string;
+    /** What the write acted on (device, agreement, contract or region) */
+    subject: string | null;
+    /** Arguments of the write */
+    payload: unknown;
+    /** What the write produced */
+    result: unknown;
+}
+
+export interface TransactionFilter {
+    /** Only transactions of this operation */
+    operation?: string;
+    /** Only transactions acting on this subject */
+    subject?: string;
+    /** Lowest sequence number to include (inclusive) */
+    fromSequence?: number;
+    /** Highest sequence number to include (inclusive) */
+    toSequence?: number;
+    /** Maximum number of transactions, 50 by default */
+    limit?: number;
+}
+
+const BASE58 = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const HEX = "0123456789ABCDEF";
+
+const randomString = (random: RandomSource, alphabet: string, length: number) =>
+    Array.from(
+        { length },
+        () => alphabet[Math.floor(random() * alphabet.length)]
+    ).join("");
+
+/**
+ * ID shaped like a Solana transaction signature (88 base58 characters)
+ */
+export const mockSignature = (random: RandomSource): string =>
+    randomString(random, BASE58, 88);
+
+/**
+ * ID shaped like a Corda transaction hash (SHA-256, 64 uppercase hex digits)
+ */
+export const mockTransactionHash = (random: RandomSource): string =>
+    randomString(random, HEX, 64);
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Keeps the IDs off the simulation's own random sequence
+const ID_SEED_SALT = 0x5bd1e995;
+
+/**
+ * Append-only record of a mock's successful writes.
+ *
+ * IDs come from their own generator seeded from the mock's seed, so a
+ * seeded run yields the same IDs every time without changing the
+ * simulation's random choices. Entries are copied in and out, so callers
+ * cannot rewrite history.
+ */
+export class TransactionLedger {
+    private transactions: LedgerTransaction[] = [];
+    private byId: Map<string, LedgerTransaction> = new Map();
+    private random: RandomSource;
+
+    constructor(
+        private clock: QueueClock,
+        private newId: (random: RandomSource) => string,
+        private seed: number
+    ) {
+        this.random = seededRandom(this.seed ^ ID_SEED_SALT);
+    }
+
+    /**
+     * Sequence number the next recorded transaction gets
+     */
+    get nextSequence(): number {
+        const last = this.transactions[this.transactions.length - 1];
+        return last ? last.sequence + 1 : 1;
+    }
+
+    /**
+     * Append a write and return its transaction
+     */
+    record(
+        operation: string,
+        subject: string | null,
+        payload: unknown,
+        result: unknown
+    ): LedgerTransaction {
+        let id = this.newId(this.random);
+        while (this.byId.has(id)) {
+            id = this.newId(this.random);
+        }
+
+        const transaction: LedgerTransaction = copy({
+            id,
+            sequence: this.nextSequence,
+            timestamp: this.clock.now(),
+            operation,
+            subject,
+            payload: payload ?? null,
+            result: result ?? null,
+        });
+
+        this.transactions.push(transaction);
+        this.byId.set(id, transaction);
+        return copy(transaction);
+    }
+
+    /**
+     * Get a transaction by ID
+     */
+    get(id: string): LedgerTransaction | null {
+        const transaction = this.byId.get(id);
+        return transaction ? copy(transaction) : null;
+    }
+
+    /**
+     * Get the transactions matching `filter`, newest first
+     */
+    list(filter: TransactionFilter = {}): LedgerTransaction[] {
+        const limit = filter.limit ?? 50;
+        if (!Number.isInteger(limit) || limit <= 0) {
+            throw new Error(`Invalid page limit: ${limit}`);
+        }
+
+        const matching: LedgerTransaction[] = [];
+        for (
+            let index = this.transactions.length - 1;
+            index >= 0 && matching.length < limit;
+            index--
+        ) {
+            const transaction = this.transactions[index];
+            if (
+                (filter.operation === undefined ||
+                    transaction.operation === filter.operation) &&
+                (filter.subject === undefined ||
+                    transaction.subject === filter.subject) &&
+                (filter.fromSequence === undefined ||
+                    transaction.sequence >= filter.fromSequence) &&
+                (filter.toSequence === undefined ||
+                    transaction.sequence <= filter.toSequence)
+            ) {
+                matching.push(transaction);
+            }
+        }
+        return copy(matching);
+    }
+
+    /**
+     * All transactions, oldest first, for snapshots
+     */
+    entries(): LedgerTransaction[] {
+        return copy(this.transactions);
+    }
+
+    /**
+     * Replace the ledger's transactions; new writes continue after the
+     * last one
+     */
+    load(transactions: LedgerTransaction[]): void {
+        this.transactions = copy(transactions);
+        this.byId = new Map(
+            this.transactions.map((transaction) => [
+                transaction.id,
+                transaction,
+            ])
+        );
+    }
+
+    /**
+     * Empty the ledger and restart its IDs from the seed
+     */
+    clear(): void {
+        this.load([]);
+        this.random = seededRandom(this.seed ^ ID_SEED_SALT);
+    }
+}
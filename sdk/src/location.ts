@@ -0,0 +1,311 @@
+import { LocationData } from "./types/depinfinity";
+
+/**
+ * Source of the device location attached to registrations and submissions
+ */
+export interface LocationProvider {
+    getLocation(): Promise<LocationData>;
+}
+
+/**
+ * The part of the W3C Geolocation API used by the providers. Both
+ * `navigator.geolocation` and React Native's geolocation module match it.
+ */
+export interface GeolocationLike {
+    getCurrentPosition(
+        success: (position: {
+            coords: { latitude: number; longitude: number; accuracy: number };
+        }) => void,
+        error?: (error: { code: number; message: string }) => void,
+        options?: GeolocationOptions
+    ): void;
+}
+
+export interface GeolocationOptions {
+    enableHighAccuracy?: boolean;
+    timeout?: number;
+    maximumAge?: number;
+}
+
+/**
+ * Location from any Geolocation API implementation
+ */
+export class GeolocationProvider implements LocationProvider {
+    private geolocation: GeolocationLike;
+    private options: GeolocationOptions;
+
+    constructor(
+        geolocation: GeolocationLike,
+        options: GeolocationOptions = { timeout: 10000 }
+    ) {
+        this.geolocation = geolocation;
+        this.options = options;
+    }
+
+    getLocation(): Promise<LocationData> {
+        return new Promise((resolve, reject) => {
+            this.geolocation.getCurrentPosition(
+                (position) => {
+                    resolve({
+                        latitude: position.coords.latitude,
+                        longitude: position.coords.longitude,
+                        accuracy: position.coords.accuracy,
+                    });
+                },
+                (error) => {
+                    reject(
+                        new Error(
+                            `Geolocation error (${error.code}): ${error.message}`
+                        )
+                    );
+                },
+                this.options
+            );
+        });
+    }
+}
+
+/**
+ * Location from the browser's `navigator.geolocation`
+ */
+export class BrowserLocationProvider implements LocationProvider {
+    private options: GeolocationOptions;
+
+    constructor(options: GeolocationOptions = { timeout: 10000 }) {
+        this.options = options;
+    }
+
+    getLocation(): Promise<LocationData> {
+        if (typeof navigator === "undefined" || !navigator.geolocation) {
+            return Promise.reject(new Error("Geolocation not supported"));
+        }
+        return new GeolocationProvider(
+            navigator.geolocation,
+            this.options
+        ).getLocation();
+    }
+}
+
+/**
+ * Location from a React Native geolocation module, e.g.
+ * `@react-native-community/geolocation`
+ */
+export class ReactNativeLocationProvider extends GeolocationProvider {
+    constructor(
+        geolocation: GeolocationLike,
+        options: GeolocationOptions = { timeout: 10000 }
+    ) {
+        super(geolocation, options);
+    }
+}
+
+/**
+ * Fixed location for stationary devices such as routers and hotspots
+ */
+export class StaticLocationProvider implements LocationProvider {
+    private location: LocationData;
+
+    constructor(location: LocationData) {
+        this.location = { ...location };
+    }
+
+    async getLocation(): Promise<LocationData> {
+        return { ...this.location };
+    }
+}
+
+export interface ReplayOptions {
+    /** Start over after the last point instead of staying on it */
+    loop?: boolean;
+    /** Accuracy reported for track points, in metres */
+    accuracy?: number;
+}
+
+/**
+ * Replays a recorded track, one point per call.
+ *
+ * Used to drive simulators and tests with realistic movement.
+ */
+export class ReplayLocationProvider implements LocationProvider {
+    private points: LocationData[];
+    private loop: boolean;
+    private index: number = 0;
+
+    constructor(points: LocationData[], options: ReplayOptions = {}) {
+        if (points.length === 0) {
+            throw new Error("Replay track has no points");
+        }
+        this.points = points.map((point) => ({ ...point }));
+        this.loop = options.loop ?? true;
+    }
+
+    /**
+     * Track points from a GPX document (track, route and waypoints)
+     */
+    static fromGpx(
+        gpx: string,
+        options: ReplayOptions = {}
+    ): ReplayLocationProvider {
+        const accuracy = options.accuracy ?? 10;
+        const points: LocationData[] = [];
+
+        for (const match of gpx.matchAll(/<(?:trkpt|rtept|wpt)\b([^>]*)>/g)) {
+            const lat = match[1].match(/\blat\s*=\s*["']([^"']+)["']/);
+            const lon = match[1].match(/\blon\s*=\s*["']([^"']+)["']/);
+            if (lat && lon) {
+                points.push({
+                    latitude: parseFloat(lat[1]),
+                    longitude: parseFloat(lon[1]),
+                    accuracy,
+                });
+            }
+        }
+
+        return new ReplayLocationProvider(points, options);
+    }
+
+    /**
+     * Track points from GeoJSON Point, LineString and Multi* geometries,
+     * bare or wrapped in a Feature or FeatureCollection
+     */
+    static fromGeoJson(
+        geoJson: string | object,
+        options: ReplayOptions = {}
+    ): ReplayLocationProvider {
+        const accuracy = options.accuracy ?? 10;
+        const document =
+            typeof geoJson === "string" ? JSON.parse(geoJson) : geoJson;
+
+        const points = geoJsonPositions(document).map(
+            ([longitude, latitude]) => ({ latitude, longitude, accuracy })
+        );
+
+        return new ReplayLocationProvider(points, options);
+    }
+
+    async getLocation(): Promise<LocationData> {
+        const point = this.points[this.index];
+        if (this.index < this.points.length - 1) {
+            this.index += 1;
+        } else if (this.loop) {
+            this.index = 0;
+        }
+        return { ...point };
+    }
+}
+
+function geoJsonPositions(node: any): number[][] {
+    if (!node || typeof node !== "object") return [];
+
+    switch (node.type) {
+        case "FeatureCollection":
+            return node.features.flatMap(geoJsonPositions);
+        case "Feature":
+            return geoJsonPositions(node.geometry);
+        case "GeometryCollection":
+            return node.geometries.flatMap(geoJsonPositions);
+        case "Point":
+            return [node.coordinates];
+        case "MultiPoint":
+        case "LineString":
+            return node.coordinates;
+        case "MultiLineString":
+            return node.coordinates.flat();
+        default:
+            throw new Error(`Unsupported GeoJSON type: ${node.type}`);
+    }
+}
+
+export interface LocationPrivacyOptions {
+    /** Move each reported position by a random offset up to this radius */
+    fuzzMeters?: number;
+    /** Never report a position more precise than this many metres */
+    precisionMeters?: number;
+    /** Random source in [0, 1), injectable for tests */
+    random?: () => number;
+}
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Wraps a provider and degrades its positions before they leave the device.
+ *
+ * Fuzzing is applied first, then the position is snapped to a grid of
+ * `precisionMeters` cells. The reported accuracy grows to cover both, so
+ * downstream consumers never treat a coarsened position as exact.
+ */
+export class PrivateLocationProvider implements LocationProvider {
+    private provider: LocationProvider;
+    private fuzzMeters: number;
+    private precisionMeters: number;
+    private random: () => number;
+
+    constructor(provider: LocationProvider, options: LocationPrivacyOptions) {
+        this.provider = provider;
+        this.fuzzMeters = options.fuzzMeters ?? 0;
+        this.precisionMeters = options.precisionMeters ?? 0;
+        this.random = options.random ?? Math.random;
+    }
+
+    async getLocation(): Promise<LocationData> {
+        let { latitude, longitude, accuracy } =
+            await this.provider.getLocation();
+
+        if (this.fuzzMeters > 0) {
+            // Uniform over the disc, not clustered at the centre
+            const distance = this.fuzzMeters * Math.sqrt(this.random());
+            const bearing = 2 * Math.PI * this.random();
+            latitude += (distance * Math.cos(bearing)) / METERS_PER_DEGREE;
+            longitude +=
+                (distance * Math.sin(bearing)) /
+                (METERS_PER_DEGREE * Math.cos(toRadians(latitude)));
+            accuracy += this.fuzzMeters;
+        }
+
+        if (this.precisionMeters > 0) {
+            const latitudeStep = this.precisionMeters / METERS_PER_DEGREE;
+            latitude = Math.round(latitude / latitudeStep) * latitudeStep;
+
+            // Longitude cells are sized at the snapped latitude so the same
+            // position always lands in the same cell
+            const longitudeStep =
+                this.precisionMeters /
+                (METERS_PER_DEGREE *
+                    Math.max(Math.cos(toRadians(latitude)), 1e-6));
+            longitude = Math.round(longitude / longitudeStep) * longitudeStep;
+
+            accuracy = Math.max(accuracy, this.precisionMeters);
+        }
+
+        return {
+            latitude: clamp(latitude, -90, 90),
+            longitude: wrapLongitude(longitude),
+            accuracy,
+        };
+    }
+}
+
+/**
+ * Apply privacy settings to a provider; returns it unchanged when none are set
+ */
+export function withLocationPrivacy(
+    provider: LocationProvider,
+    options: LocationPrivacyOptions = {}
+): LocationProvider {
+    if (!options.fuzzMeters && !options.precisionMeters) {
+        return provider;
+    }
+    return new PrivateLocationProvider(provider, options);
+}
+
+function toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+}
+
+function wrapLongitude(longitude: number): number {
+    return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
@@ -0,0 +1,114 @@
+import { PublicKey } from "@solana/web3.js";
+import {
+    findDataSubmissionAddress,
+    findDeviceAddress,
+    findProgramStateAddress,
+} from "./generated/pdas";
+
+/**
+ * Program derived addresses of the DePINfinity accounts.
+ *
+ * The seeds come from the generated helpers, so they always match the
+ * program's `seeds` constraints. Derivation hashes until it finds an
+ * off-curve point, which is slow enough to matter when listing a fleet, so
+ * results are cached per program.
+ */
+
+/** Derivations kept before the oldest are evicted */
+const CACHE_SIZE = 1024;
+
+const cache = new Map<string, [PublicKey, number]>();
+
+function cached(
+    key: string,
+    derive: () => [PublicKey, number]
+): [PublicKey, number] {
+    const hit = cache.get(key);
+    if (hit) {
+        return hit;
+    }
+
+    const result = derive();
+    if (cache.size >= CACHE_SIZE) {
+        // Maps iterate in insertion order, so this is the oldest entry
+        cache.delete(cache.keys().next().value!);
+    }
+    cache.set(key, result);
+    return result;
+}
+
+const toPublicKey = (key: PublicKey | string): PublicKey =>
+    typeof key === "string" ? new PublicKey(key) : key;
+
+/**
+ * Address and bump of the singleton ProgramState account
+ */
+export function programStatePda(programId: PublicKey): [PublicKey, number] {
+    return cached(`program_state:${programId.toBase58()}`, () =>
+        findProgramStateAddress(programId)
+    );
+}
+
+/**
+ * Address and bump of the vault authority, the account the program signs
+ * reward transfers with. The program uses its ProgramState PDA, so reward
+ * vault token accounts must be owned by this address.
+ */
+export function vaultAuthorityPda(programId: PublicKey): [PublicKey, number] {
+    return programStatePda(programId);
+}
+
+/**
+ * Address and bump of an owner's device
+ */
+export function devicePda(
+    programId: PublicKey,
+    owner: PublicKey | string,
+    deviceId: string
+): [PublicKey, number] {
+    return cached(
+        `device:${programId.toBase58()}:${owner.toString()}:${deviceId}`,
+        () => findDeviceAddress(programId, toPublicKey(owner), deviceId)
+    );
+}
+
+/**
+ * Address and bump of a device's data submission by sequence number
+ * (0-based).
+ *
+ * The program seeds each DataSubmission with the device's `submissionCount`
+ * at the time, so a device with `submissionCount` n has its submissions at
+ * indices 0 to n - 1.
+ */
+export function dataSubmissionPda(
+    programId: PublicKey,
+    device: PublicKey | string,
+    index: number
+): [PublicKey, number] {
+    if (!Number.isSafeInteger(index) || index < 0) {
+        throw new Error(`Invalid submission index: ${index}`);
+    }
+
+    return cached(
+        `data:${programId.toBase58()}:${device.toString()}:${index}`,
+        () => findDataSubmissionAddress(programId, toPublicKey(device), index)
+    );
+}
+
+/**
+ * Address of a device's data submission by sequence number (0-based)
+ */
+export function findSubmissionAddress(
+    programId: PublicKey,
+    device: PublicKey,
+    index: number
+): PublicKey {
+    return dataSubmissionPda(programId, device, index)[0];
+}
+
+/**
+ * Forget all cached derivations
+ */
+export function clearPdaCache(): void {
+    cache.clear();
+}
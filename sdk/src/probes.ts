@@ -0,0 +1,434 @@
+import { NetworkQualityData } from "./types/depinfinity";
+import { MEASUREMENT_RANGES } from "./validation";
+
+export type NetworkMetric = Exclude<keyof NetworkQualityData, "location">;
+
+/**
+ * A single network measurement.
+ *
+ * Units follow the on-chain NetworkQualityData fields: signal strength in
+ * dBm, latency in milliseconds, throughput in bits per second and
+ * availability as a ratio between 0 and 1.
+ */
+export interface NetworkProbe {
+    measure(): Promise<number>;
+}
+
+/**
+ * One probe per metric. Signal strength and throughput need a platform
+ * hook and a download endpoint, so they may be left out; the sample then
+ * reports their worst values.
+ */
+export type NetworkProbes = Record<
+    Exclude<NetworkMetric, "signalStrength" | "throughput">,
+    NetworkProbe
+> &
+    Partial<Record<"signalStrength" | "throughput", NetworkProbe>>;
+
+/**
+ * Platform hook returning the current signal strength in dBm
+ */
+export type SignalStrengthProvider = () => number | Promise<number>;
+
+export interface TcpLatencyProbeOptions {
+    host: string;
+    port: number;
+    /** Connections to open per measurement; the median is reported */
+    samples?: number;
+    timeoutMs?: number;
+}
+
+/**
+ * Latency measured as the time to complete a TCP handshake
+ */
+export class TcpLatencyProbe implements NetworkProbe {
+    private options: Required<TcpLatencyProbeOptions>;
+
+    constructor(options: TcpLatencyProbeOptions) {
+        this.options = {
+            ...options,
+            samples: options.samples ?? 3,
+            timeoutMs: options.timeoutMs ?? 5000,
+        };
+    }
+
+    async measure(): Promise<number> {
+        const samples: number[] = [];
+        for (let i = 0; i < this.options.samples; i++) {
+            samples.push(await this.connect());
+        }
+        return Math.round(median(samples));
+    }
+
+    private connect(): Promise<number> {
+        const net = require("net");
+        const { host, port, timeoutMs } = this.options;
+
+        return new Promise((resolve, reject) => {
+            const startedAt = now();
+            const socket = net.connect({ host, port });
+            socket.setTimeout(timeoutMs);
+            socket.once("connect", () => {
+                socket.destroy();
+                resolve(now() - startedAt);
+            });
+            socket.once("timeout", () => {
+                socket.destroy();
+                reject(new Error(`TCP connect to ${host}:${port} timed out`));
+            });
+            socket.once("error", (error: Error) => {
+                socket.destroy();
+                reject(error);
+            });
+        });
+    }
+}
+
+export interface IcmpLatencyProbeOptions {
+    host: string;
+    /** Echo requests per measurement; the average is reported */
+    count?: number;
+    timeoutMs?: number;
+}
+
+/**
+ * Latency measured with ICMP echo requests.
+ *
+ * Raw sockets need elevated privileges in Node, so this shells out to the
+ * system `ping` binary and parses the reported round-trip times.
+ */
+export class IcmpLatencyProbe implements NetworkProbe {
+    private options: Required<IcmpLatencyProbeOptions>;
+
+    constructor(options: IcmpLatencyProbeOptions) {
+        this.options = {
+            ...options,
+            count: options.count ?? 3,
+            timeoutMs: options.timeoutMs ?? 5000,
+        };
+    }
+
+    async measure(): Promise<number> {
+        const { execFile } = require("child_process");
+        const { host, count, timeoutMs } = this.options;
+
+        const output: string = await new Promise((resolve, reject) => {
+            execFile(
+                "ping",
+                ["-c", String(count), host],
+                { timeout: timeoutMs * count },
+                (error: Error | null, stdout: string) => {
+                    // ping exits non-zero when some replies are lost
+                    if (error && !stdout) {
+                        reject(error);
+                    } else {
+                        resolve(stdout);
+                    }
+                }
+            );
+        });
+
+        const times = parseIcmpTimes(output);
+        if (times.length === 0) {
+            throw new Error(`No ICMP replies from ${host}`);
+        }
+        return Math.round(
+            times.reduce((sum, time) => sum + time, 0) / times.length
+        );
+    }
+}
+
+/**
+ * Round-trip times in milliseconds from `ping` output
+ */
+export function parseIcmpTimes(output: string): number[] {
+    return Array.from(output.matchAll(/time[=<]([\d.]+)\s*ms/g)).map((match) =>
+        parseFloat(match[1])
+    );
+}
+
+export interface HttpThroughputProbeOptions {
+    /** Endpoint serving a payload large enough to saturate the link */
+    url: string;
+    /** Stop reading once this many bytes have been received */
+    maxBytes?: number;
+    timeoutMs?: number;
+}
+
+/**
+ * Download throughput measured against an HTTP(S) endpoint
+ */
+export class HttpThroughputProbe implements NetworkProbe {
+    private options: Required<HttpThroughputProbeOptions>;
+
+    constructor(options: HttpThroughputProbeOptions) {
+        this.options = {
+            ...options,
+            maxBytes: options.maxBytes ?? 5 * 1024 * 1024,
+            timeoutMs: options.timeoutMs ?? 15000,
+        };
+    }
+
+    measure(): Promise<number> {
+        const { url, maxBytes, timeoutMs } = this.options;
+        const transport = url.startsWith("https:")
+            ? require("https")
+            : require("http");
+
+        return new Promise((resolve, reject) => {
+            let bytes = 0;
+            let startedAt = 0;
+            let settled = false;
+
+            const finish = (error?: Error) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                request.destroy();
+
+                const elapsedMs = now() - startedAt;
+                if (bytes > 0 && elapsedMs > 0) {
+                    resolve(Math.round((bytes * 8 * 1000) / elapsedMs));
+                } else {
+                    reject(error ?? new Error(`No data received from ${url}`));
+                }
+            };
+
+            const timer = setTimeout(
+                () => finish(new Error(`Download from ${url} timed out`)),
+                timeoutMs
+            );
+
+            const request = transport.get(url, (response: any) => {
+                if (response.statusCode !== 200) {
+                    response.resume();
+                    finish(
+                        new Error(
+                            `Download from ${url} failed with status ${response.statusCode}`
+                        )
+                    );
+                    return;
+                }
+
+                // Time from the first byte, so connection setup is not
+                // counted against throughput
+                startedAt = now();
+                response.on("data", (chunk: Buffer) => {
+                    bytes += chunk.length;
+                    if (bytes >= maxBytes) finish();
+                });
+                response.on("end", () => finish());
+                response.on("error", (error: Error) => finish(error));
+            });
+            request.on("error", (error: Error) => finish(error));
+        });
+    }
+}
+
+export interface AvailabilityProbeOptions {
+    /** Number of most recent checks the ratio is computed over */
+    windowSize?: number;
+}
+
+/**
+ * Availability as the share of successful checks over a rolling window.
+ *
+ * Each measurement runs the check once; a rejected check counts as a
+ * failure rather than failing the measurement. Without a check, only the
+ * outcomes added with `record` count, e.g. those of a latency probe wrapped
+ * with `trackAvailability`.
+ */
+export class AvailabilityProbe implements NetworkProbe {
+    private check: (() => Promise<unknown>) | null;
+    private windowSize: number;
+    private results: boolean[] = [];
+
+    constructor(
+        check: (() => Promise<unknown>) | null,
+        options: AvailabilityProbeOptions = {}
+    ) {
+        this.check = check;
+        this.windowSize = options.windowSize ?? 20;
+    }
+
+    async measure(): Promise<number> {
+        if (this.check) {
+            try {
+                await this.check();
+                this.record(true);
+            } catch {
+                this.record(false);
+            }
+        }
+        if (this.results.length === 0) return 0;
+        return this.results.filter(Boolean).length / this.results.length;
+    }
+
+    /**
+     * Add an outcome observed elsewhere, e.g. by a submission attempt
+     */
+    record(success: boolean): void {
+        this.results.push(success);
+        if (this.results.length > this.windowSize) {
+            this.results.shift();
+        }
+    }
+}
+
+/**
+ * Count every measurement of `probe` towards `availability`: a completed
+ * measurement as a success, a failed one as a failure
+ */
+export function trackAvailability(
+    probe: NetworkProbe,
+    availability: AvailabilityProbe
+): NetworkProbe {
+    return {
+        async measure() {
+            try {
+                const value = await probe.measure();
+                availability.record(true);
+                return value;
+            } catch (error) {
+                availability.record(false);
+                throw error;
+            }
+        },
+    };
+}
+
+/**
+ * Signal strength read through a platform hook
+ */
+export class SignalStrengthProbe implements NetworkProbe {
+    private provider: SignalStrengthProvider;
+
+    constructor(provider: SignalStrengthProvider) {
+        this.provider = provider;
+    }
+
+    async measure(): Promise<number> {
+        const dbm = await this.provider();
+        if (!Number.isFinite(dbm)) {
+            throw new Error("Signal strength provider returned no value");
+        }
+        return Math.round(dbm);
+    }
+}
+
+export interface NodeProbesOptions {
+    /** Host used for latency and availability checks */
+    host: string;
+    /** TCP port for connect-based latency; ICMP is used when omitted */
+    port?: number;
+    /** Download endpoint for the throughput probe; not measured without one */
+    throughputUrl?: string;
+    /** Signal strength hook; not measured without one */
+    signalStrength?: SignalStrengthProvider;
+    availabilityWindow?: number;
+    timeoutMs?: number;
+}
+
+/**
+ * Probes backed by real measurements on Node
+ */
+export function createNodeProbes(options: NodeProbesOptions): NetworkProbes {
+    // Availability counts the latency checks rather than pinging again
+    const availability = new AvailabilityProbe(null, {
+        windowSize: options.availabilityWindow,
+    });
+    const ping: NetworkProbe =
+        options.port !== undefined
+            ? new TcpLatencyProbe({
+                  host: options.host,
+                  port: options.port,
+                  timeoutMs: options.timeoutMs,
+              })
+            : new IcmpLatencyProbe({
+                  host: options.host,
+                  timeoutMs: options.timeoutMs,
+              });
+
+    return {
+        signalStrength: options.signalStrength
+            ? new SignalStrengthProbe(options.signalStrength)
+            : undefined,
+        latency: trackAvailability(ping, availability),
+        throughput: options.throughputUrl
+            ? new HttpThroughputProbe({
+                  url: options.throughputUrl,
+                  timeoutMs: options.timeoutMs,
+              })
+            : undefined,
+        availability,
+    };
+}
+
+/**
+ * Probes returning random but plausible values, for demos and simulators
+ */
+export function createSimulatedProbes(): NetworkProbes {
+    const probe = (measure: () => number): NetworkProbe => ({
+        measure: async () => measure(),
+    });
+
+    return {
+        signalStrength: probe(() => Math.round(-65 + Math.random() * 20)), // -65 to -45 dBm
+        latency: probe(() => Math.round(20 + Math.random() * 80)), // 20-100ms
+        throughput: probe(() => Math.round(500000 + Math.random() * 1500000)), // 0.5-2 Mbps
+        availability: probe(() => 0.8 + Math.random() * 0.2), // 80-100%
+    };
+}
+
+/**
+ * Run every probe and collect the results.
+ *
+ * An outage is a measurement too: when the latency or throughput probe
+ * fails, the sample reports the worst latency, no throughput and zero
+ * availability instead of failing. A failed or missing signal strength
+ * probe reports the weakest signal.
+ */
+export async function measureNetworkQuality(
+    probes: NetworkProbes
+): Promise<Omit<NetworkQualityData, "location">> {
+    // Sequential so the download does not skew the latency samples.
+    // Availability goes last so it includes this sample's latency check.
+    const latency = await attempt(probes.latency);
+    const throughput = await attempt(probes.throughput);
+    const signalStrength = await attempt(probes.signalStrength);
+    const availability = await attempt(probes.availability);
+
+    // A throughput that is not measured says nothing about reachability
+    const reachable =
+        latency !== null && (throughput !== null || !probes.throughput);
+    return {
+        signalStrength:
+            signalStrength ?? MEASUREMENT_RANGES.signalStrength.min,
+        latency: latency ?? MEASUREMENT_RANGES.latency.max,
+        throughput: throughput ?? 0,
+        availability: reachable ? availability ?? 0 : 0,
+    };
+}
+
+async function attempt(
+    probe: NetworkProbe | undefined
+): Promise<number | null> {
+    if (!probe) return null;
+    try {
+        return await probe.measure();
+    } catch {
+        return null;
+    }
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+        ? (sorted[middle - 1] + sorted[middle]) / 2
+        : sorted[middle];
+}
+
+function now(): number {
+    return typeof performance !== "undefined" ? performance.now() : Date.now();
+}
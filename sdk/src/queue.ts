@@ -0,0 +1,417 @@
+import { DePINBackend } from "./backend";
+import {
+    DePINfinityError,
+    DePINfinityErrorCode,
+    DeviceNotFoundError,
+} from "./errors";
+import { NetworkQualityData } from "./types/depinfinity";
+
+/**
+ * Key/value storage used to persist the submission queue.
+ *
+ * The shape matches React Native's AsyncStorage, so it can be passed in
+ * directly; FileQueueStorage covers Node.
+ */
+export interface QueueStorage {
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+}
+
+/**
+ * Time source for the queue. Tests inject a fake clock to drive retries
+ * without waiting on real timers.
+ */
+export interface QueueClock {
+    now(): number;
+    setTimeout(callback: () => void, ms: number): unknown;
+    clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: QueueClock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: (handle) =>
+        clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Non-durable storage, used when no storage is configured
+ */
+export class MemoryQueueStorage implements QueueStorage {
+    private items: Map<string, string> = new Map();
+
+    async getItem(key: string): Promise<string | null> {
+        return this.items.get(key) ?? null;
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        this.items.set(key, value);
+    }
+}
+
+/**
+ * Node storage keeping one JSON file per key inside a directory
+ */
+export class FileQueueStorage implements QueueStorage {
+    private directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    async getItem(key: string): Promise<string | null> {
+        const fs = require("fs").promises;
+        try {
+            return await fs.readFile(this.filePath(key), "utf8");
+        } catch (error: any) {
+            if (error.code === "ENOENT") return null;
+            throw error;
+        }
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        const fs = require("fs").promises;
+        const filePath = this.filePath(key);
+
+        // Write then rename so a crash never leaves a half-written queue
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(`${filePath}.tmp`, value, "utf8");
+        await fs.rename(`${filePath}.tmp`, filePath);
+    }
+
+    private filePath(key: string): string {
+        const path = require("path");
+        return path.join(
+            this.directory,
+            `${key.replace(/[^a-zA-Z0-9_.-]/g, "_")}.json`
+        );
+    }
+}
+
+/**
+ * Error codes no retry can fix. Submissions failing with one are dropped
+ * rather than blocking the queue behind them.
+ */
+const PERMANENT_ERRORS: ReadonlySet<DePINfinityErrorCode> = new Set<
+    DePINfinityErrorCode
+>([
+    "InvalidDataQuality",
+    "DeviceNotFound",
+    "DeviceInactive",
+    "Unauthorized",
+    "AccountLayoutMismatch",
+]);
+
+export interface QueuedSubmission {
+    /** Deduplication key: device ID and capture time */
+    id: string;
+    deviceId: string;
+    qualityData: NetworkQualityData;
+    /** When the measurement was taken (ms since epoch) */
+    capturedAt: number;
+    attempts: number;
+    /** Earliest time the next attempt may run (ms since epoch) */
+    nextAttemptAt: number;
+    /**
+     * The device's submission count before the last attempt. A higher count
+     * on the next try means that attempt landed after all.
+     */
+    sequence?: number;
+}
+
+export interface QueueError {
+    message: string;
+    /** Code of the error when it was a DePINfinityError */
+    code: DePINfinityErrorCode | null;
+    at: number;
+    submissionId: string;
+}
+
+export interface QueueStatus {
+    depth: number;
+    lastError: QueueError | null;
+    /** When the next retry is scheduled, or null when idle */
+    nextAttemptAt: number | null;
+    /** Submissions dropped after exhausting their attempts */
+    dropped: number;
+    /** Submissions dropped because no retry could make them succeed */
+    rejected: number;
+}
+
+export interface SubmissionQueueOptions {
+    backend: Pick<DePINBackend, "submitData" | "getDeviceUncached">;
+    storage?: QueueStorage;
+    clock?: QueueClock;
+    /** Storage key holding the queue */
+    storageKey?: string;
+    /** Delay before the first retry; doubled on each further failure */
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    /** Attempts before a submission is dropped */
+    maxAttempts?: number;
+    /** Oldest entries are dropped once the queue holds this many */
+    maxSize?: number;
+}
+
+/**
+ * Durable queue of measurements waiting to be submitted.
+ *
+ * Measurements are persisted as soon as they are captured and submitted in
+ * capture order. A failed submission is retried with exponential backoff and
+ * blocks the entries behind it, since failures are almost always the device
+ * being offline or the RPC node being unavailable. Submissions failing with
+ * an error no retry can fix (see PERMANENT_ERRORS) are dropped instead.
+ *
+ * Before each attempt the queue reads the device's submission count, so a
+ * submission whose confirmation timed out but landed is not sent twice.
+ */
+export class SubmissionQueue {
+    private backend: Pick<DePINBackend, "submitData" | "getDeviceUncached">;
+    private storage: QueueStorage;
+    private clock: QueueClock;
+    private storageKey: string;
+    private baseDelayMs: number;
+    private maxDelayMs: number;
+    private maxAttempts: number;
+    private maxSize: number;
+
+    private items: QueuedSubmission[] = [];
+    private loaded: Promise<void> | null = null;
+    private flushing: Promise<void> | null = null;
+    private writes: Promise<void> = Promise.resolve();
+    private timer: unknown = null;
+    private timerAt: number | null = null;
+    private running: boolean = false;
+    private lastError: QueueError | null = null;
+    private dropped: number = 0;
+    private rejected: number = 0;
+
+    constructor(options: SubmissionQueueOptions) {
+        this.backend = options.backend;
+        this.storage = options.storage ?? new MemoryQueueStorage();
+        this.clock = options.clock ?? systemClock;
+        this.storageKey = options.storageKey ?? "depinfinity.submissionQueue";
+        this.baseDelayMs = options.baseDelayMs ?? 5000;
+        this.maxDelayMs = options.maxDelayMs ?? 10 * 60 * 1000;
+        this.maxAttempts = options.maxAttempts ?? 20;
+        this.maxSize = options.maxSize ?? 1000;
+    }
+
+    get depth(): number {
+        return this.items.length;
+    }
+
+    getStatus(): QueueStatus {
+        return {
+            depth: this.items.length,
+            lastError: this.lastError,
+            nextAttemptAt: this.timerAt,
+            dropped: this.dropped,
+            rejected: this.rejected,
+        };
+    }
+
+    /**
+     * Load persisted entries and start submitting them
+     */
+    async start(): Promise<void> {
+        await this.load();
+        this.running = true;
+        this.schedule();
+    }
+
+    /**
+     * Stop retrying. Queued entries stay persisted.
+     */
+    stop(): void {
+        this.running = false;
+        this.clearTimer();
+    }
+
+    /**
+     * Record a measurement. Returns false when the same measurement is
+     * already queued.
+     */
+    async enqueue(
+        deviceId: string,
+        qualityData: NetworkQualityData,
+        capturedAt: number = this.clock.now()
+    ): Promise<boolean> {
+        await this.load();
+
+        const id = `${deviceId}:${capturedAt}`;
+        if (this.items.some((item) => item.id === id)) {
+            return false;
+        }
+
+        this.items.push({
+            id,
+            deviceId,
+            qualityData,
+            capturedAt,
+            attempts: 0,
+            nextAttemptAt: capturedAt,
+        });
+        if (this.items.length > this.maxSize) {
+            this.dropped += this.items.length - this.maxSize;
+            this.items.splice(0, this.items.length - this.maxSize);
+        }
+        await this.persist();
+
+        this.schedule();
+        return true;
+    }
+
+    /**
+     * Submit every entry that is due, stopping at the first failure
+     */
+    async flush(): Promise<void> {
+        if (!this.flushing) {
+            this.flushing = this.drain().finally(() => {
+                this.flushing = null;
+            });
+        }
+        await this.flushing;
+        this.schedule();
+    }
+
+    private async drain(): Promise<void> {
+        await this.load();
+
+        while (this.items.length > 0) {
+            const item = this.items[0];
+            if (item.nextAttemptAt > this.clock.now()) return;
+
+            try {
+                if (!(await this.alreadySubmitted(item))) {
+                    await this.backend.submitData(
+                        item.deviceId,
+                        item.qualityData
+                    );
+                }
+                this.remove(item);
+                await this.persist();
+            } catch (error) {
+                item.attempts += 1;
+                const code =
+                    error instanceof DePINfinityError ? error.code : null;
+                this.lastError = {
+                    message:
+                        error instanceof Error ? error.message : String(error),
+                    code,
+                    at: this.clock.now(),
+                    submissionId: item.id,
+                };
+
+                if (code !== null && PERMANENT_ERRORS.has(code)) {
+                    this.remove(item);
+                    this.rejected += 1;
+                    await this.persist();
+                    continue;
+                }
+
+                if (item.attempts >= this.maxAttempts) {
+                    this.remove(item);
+                    this.dropped += 1;
+                } else {
+                    item.nextAttemptAt =
+                        this.clock.now() + this.backoffDelay(item.attempts);
+                }
+                await this.persist();
+
+                if (item.attempts < this.maxAttempts) return;
+            }
+        }
+    }
+
+    // Whether an earlier attempt landed even though it seemed to fail.
+    // Otherwise records the count this attempt is measured against.
+    private async alreadySubmitted(item: QueuedSubmission): Promise<boolean> {
+        // A cached device may predate the submission this check looks for
+        const device = await this.backend.getDeviceUncached(item.deviceId);
+        if (!device) {
+            throw new DeviceNotFoundError(item.deviceId);
+        }
+        if (
+            item.sequence !== undefined &&
+            device.submissionCount > item.sequence
+        ) {
+            return true;
+        }
+
+        // Persisted first, so a crash mid-attempt is covered as well
+        item.sequence = device.submissionCount;
+        await this.persist();
+        return false;
+    }
+
+    private remove(item: QueuedSubmission): void {
+        // Entries may have been trimmed while the submission was in flight
+        this.items = this.items.filter((queued) => queued !== item);
+    }
+
+    private backoffDelay(attempts: number): number {
+        return Math.min(
+            this.baseDelayMs * Math.pow(2, attempts - 1),
+            this.maxDelayMs
+        );
+    }
+
+    private schedule(): void {
+        this.clearTimer();
+        if (!this.running || this.flushing || this.items.length === 0) {
+            return;
+        }
+
+        const at = Math.max(this.items[0].nextAttemptAt, this.clock.now());
+        this.timerAt = at;
+        this.timer = this.clock.setTimeout(() => {
+            this.timer = null;
+            this.timerAt = null;
+            this.flush().catch((error) => {
+                console.error("Error flushing submission queue:", error);
+            });
+        }, at - this.clock.now());
+    }
+
+    private clearTimer(): void {
+        if (this.timer !== null) {
+            this.clock.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.timerAt = null;
+    }
+
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = this.storage
+                .getItem(this.storageKey)
+                .then((raw) => {
+                    const stored: QueuedSubmission[] = raw
+                        ? JSON.parse(raw)
+                        : [];
+                    // Keep anything enqueued before the load finished
+                    const ids = new Set(stored.map((item) => item.id));
+                    this.items = [
+                        ...stored,
+                        ...this.items.filter((item) => !ids.has(item.id)),
+                    ];
+                })
+                .catch((error) => {
+                    this.loaded = null;
+                    throw error;
+                });
+        }
+        return this.loaded;
+    }
+
+    private persist(): Promise<void> {
+        // Writes are chained so an older snapshot never lands last
+        const snapshot = JSON.stringify(this.items);
+        const write = this.writes.then(() =>
+            this.storage.setItem(this.storageKey, snapshot)
+        );
+        this.writes = write.catch(() => undefined);
+        return write;
+    }
+}
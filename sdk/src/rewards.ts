@@ -0,0 +1,67 @@
+import { NetworkQualityData } from "./types/depinfinity";
+
+/** Base reward per submission, in token base units */
+export const BASE_REWARD = 1000;
+
+/** Largest uptime bonus a device can earn (+50%) */
+export const MAX_UPTIME_BONUS = 0.5;
+
+const U64_MAX = 18446744073709551615;
+
+/**
+ * Estimate the reward the program pays for a submission.
+ *
+ * Mirrors `calculate_reward` in the program exactly: every multiplier and
+ * intermediate product is rounded to f32 as it is on-chain, and the result
+ * is converted with Rust's saturating float-to-u64 cast. `uptime` is the
+ * device's `totalUptime` before the submission.
+ */
+export function estimateReward(
+    qualityData: Pick<
+        NetworkQualityData,
+        "signalStrength" | "latency" | "throughput" | "availability"
+    >,
+    uptime: number
+): number {
+    const f32 = Math.fround;
+
+    const signalMultiplier =
+        qualityData.signalStrength > -70
+            ? f32(1.5)
+            : qualityData.signalStrength > -80
+            ? f32(0.8)
+            : f32(0.3);
+    const latencyMultiplier =
+        qualityData.latency < 50
+            ? f32(1.2)
+            : qualityData.latency < 100
+            ? f32(1.0)
+            : f32(0.6);
+    const throughputMultiplier =
+        qualityData.throughput > 1000000
+            ? f32(1.3)
+            : qualityData.throughput > 500000
+            ? f32(1.0)
+            : f32(0.7);
+    const availabilityMultiplier = f32(qualityData.availability);
+
+    // Uptime bonus, capped on-chain
+    const uptimeBonus = f32(
+        1.0 + Math.min(f32(f32(uptime) / 1000.0), MAX_UPTIME_BONUS)
+    );
+
+    // Multiplied left to right, rounding after each step like the program
+    let totalMultiplier = f32(signalMultiplier * latencyMultiplier);
+    totalMultiplier = f32(totalMultiplier * throughputMultiplier);
+    totalMultiplier = f32(totalMultiplier * availabilityMultiplier);
+    totalMultiplier = f32(totalMultiplier * uptimeBonus);
+
+    return toU64(f32(BASE_REWARD * totalMultiplier));
+}
+
+// Rust `as u64`: truncates, NaN and negatives become 0, large values saturate
+function toU64(value: number): number {
+    if (Number.isNaN(value) || value <= 0) return 0;
+    if (value >= U64_MAX) return U64_MAX;
+    return Math.trunc(value);
+}
@@ -0,0 +1,246 @@
+import {
+    Keypair,
+    PublicKey,
+    Transaction,
+    VersionedTransaction,
+} from "@solana/web3.js";
+import { DePINfinityError } from "./errors";
+import { TransactionSigner } from "./transactions";
+
+/**
+ * Holds a key and signs transactions with it. Anchor's `Wallet` satisfies
+ * this interface, so existing callers keep working.
+ */
+export interface Signer extends TransactionSigner {
+    signAllTransactions<T extends Transaction | VersionedTransaction>(
+        transactions: T[]
+    ): Promise<T[]>;
+}
+
+/**
+ * Raised when a remote signer cannot be reached or refuses to sign
+ */
+export class SigningError extends DePINfinityError {
+    constructor(
+        message: string,
+        public readonly status: number | null = null,
+        cause?: unknown
+    ) {
+        super("SigningFailed", message, { cause });
+        this.name = "SigningError";
+    }
+}
+
+/**
+ * Signs with a keypair held in this process
+ */
+export class KeypairSigner implements Signer {
+    readonly publicKey: PublicKey;
+    private keypair: Keypair;
+
+    constructor(keypair: Keypair) {
+        this.keypair = keypair;
+        this.publicKey = keypair.publicKey;
+    }
+
+    async signTransaction<T extends Transaction | VersionedTransaction>(
+        transaction: T
+    ): Promise<T> {
+        if (transaction instanceof VersionedTransaction) {
+            transaction.sign([this.keypair]);
+        } else {
+            transaction.partialSign(this.keypair);
+        }
+        return transaction;
+    }
+
+    async signAllTransactions<T extends Transaction | VersionedTransaction>(
+        transactions: T[]
+    ): Promise<T[]> {
+        for (const transaction of transactions) {
+            await this.signTransaction(transaction);
+        }
+        return transactions;
+    }
+}
+
+export interface RemoteSignerOptions {
+    /** Daemon base URL, e.g. http://127.0.0.1:7070 */
+    url?: string;
+    /** Unix socket the daemon listens on; takes precedence over `url` */
+    socketPath?: string;
+    /** Sent as a bearer token when set */
+    token?: string;
+    /** Request timeout in milliseconds (10000 by default) */
+    timeoutMs?: number;
+}
+
+/**
+ * Signs through a local signing daemon, so the key never enters this
+ * process. The daemon speaks JSON over HTTP or a Unix socket:
+ *
+ *   GET  /public-key  -> { publicKey: base58 }
+ *   POST /sign        { messages: base64[] } -> { signatures: base64[] }
+ *
+ * Only the serialized transaction messages are sent; the returned
+ * signatures are attached to the transactions here.
+ */
+export class RemoteSigner implements Signer {
+    readonly publicKey: PublicKey;
+    private options: RemoteSignerOptions;
+
+    constructor(publicKey: PublicKey, options: RemoteSignerOptions) {
+        if (!options.url && !options.socketPath) {
+            throw new Error("RemoteSigner needs a url or a socketPath");
+        }
+        this.publicKey = publicKey;
+        this.options = options;
+    }
+
+    /**
+     * Ask the daemon for its public key and create a signer for it
+     */
+    static async connect(options: RemoteSignerOptions): Promise<RemoteSigner> {
+        const probe = new RemoteSigner(PublicKey.default, options);
+        const { publicKey } = await probe.request("GET", "/public-key");
+        if (typeof publicKey !== "string") {
+            throw new SigningError("Signing daemon returned no public key");
+        }
+        return new RemoteSigner(new PublicKey(publicKey), options);
+    }
+
+    async signTransaction<T extends Transaction | VersionedTransaction>(
+        transaction: T
+    ): Promise<T> {
+        const [signed] = await this.signAllTransactions([transaction]);
+        return signed;
+    }
+
+    async signAllTransactions<T extends Transaction | VersionedTransaction>(
+        transactions: T[]
+    ): Promise<T[]> {
+        if (transactions.length === 0) return transactions;
+
+        const messages = transactions.map((transaction) =>
+            (transaction instanceof VersionedTransaction
+                ? Buffer.from(transaction.message.serialize())
+                : transaction.serializeMessage()
+            ).toString("base64")
+        );
+        const { signatures } = await this.request("POST", "/sign", {
+            messages,
+        });
+        if (
+            !Array.isArray(signatures) ||
+            signatures.length !== transactions.length
+        ) {
+            throw new SigningError(
+                `Signing daemon returned ${
+                    Array.isArray(signatures) ? signatures.length : "no"
+                } signatures for ${transactions.length} transactions`
+            );
+        }
+
+        transactions.forEach((transaction, index) => {
+            const signature = Buffer.from(signatures[index], "base64");
+            if (signature.length !== 64) {
+                throw new SigningError(
+                    `Signing daemon returned a malformed signature`
+                );
+            }
+            transaction.addSignature(this.publicKey, signature);
+        });
+        return transactions;
+    }
+
+    private request(
+        method: string,
+        path: string,
+        body?: unknown
+    ): Promise<any> {
+        const { url, socketPath, token, timeoutMs = 10000 } = this.options;
+        const transport =
+            !socketPath && url!.startsWith("https:")
+                ? require("https")
+                : require("http");
+        const target = socketPath
+            ? { socketPath, path }
+            : (() => {
+                  const base = new URL(url!);
+                  return {
+                      protocol: base.protocol,
+                      hostname: base.hostname,
+                      port: base.port,
+                      path: base.pathname.replace(/\/$/, "") + path,
+                  };
+              })();
+        const payload = body === undefined ? undefined : JSON.stringify(body);
+
+        return new Promise((resolve, reject) => {
+            const request = transport.request(
+                {
+                    ...target,
+                    method,
+                    timeout: timeoutMs,
+                    headers: {
+                        ...(payload && {
+                            "Content-Type": "application/json",
+                            "Content-Length": Buffer.byteLength(payload),
+                        }),
+                        ...(token && { Authorization: `Bearer ${token}` }),
+                    },
+                },
+                (response: any) => {
+                    const chunks: Buffer[] = [];
+                    response.on("data", (chunk: Buffer) => chunks.push(chunk));
+                    response.on("error", reject);
+                    response.on("end", () => {
+                        const text = Buffer.concat(chunks).toString("utf8");
+                        let json: any;
+                        try {
+                            json = JSON.parse(text);
+                        } catch (error) {
+                            json = null;
+                        }
+
+                        if (response.statusCode !== 200) {
+                            reject(
+                                new SigningError(
+                                    `Signing daemon refused ${method} ${path}: ${
+                                        json?.error ?? response.statusCode
+                                    }`,
+                                    response.statusCode
+                                )
+                            );
+                        } else if (json === null) {
+                            reject(
+                                new SigningError(
+                                    `Signing daemon sent invalid JSON for ${method} ${path}`,
+                                    response.statusCode
+                                )
+                            );
+                        } else {
+                            resolve(json);
+                        }
+                    });
+                }
+            );
+
+            request.on("timeout", () =>
+                request.destroy(
+                    new Error(`Signing daemon timed out after ${timeoutMs}ms`)
+                )
+            );
+            request.on("error", (error: Error) =>
+                reject(
+                    new SigningError(
+                        `Signing daemon unreachable: ${error.message}`,
+                        null,
+                        error
+                    )
+                )
+            );
+            request.end(payload);
+        });
+    }
+}
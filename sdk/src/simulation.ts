@@ -0,0 +1,239 @@
+import { QueueClock, systemClock } from "./queue";
+
+/**
+ * Time source for the mocks and the demo simulator: the queue clock plus
+ * repeating timers for the background simulations
+ */
+export interface SimulationClock extends QueueClock {
+    setInterval(callback: () => void, ms: number): unknown;
+    clearInterval(handle: unknown): void;
+}
+
+export const systemSimulationClock: SimulationClock = {
+    ...systemClock,
+    setInterval: (callback, ms) => setInterval(callback, ms),
+    clearInterval: (handle) =>
+        clearInterval(handle as ReturnType<typeof setInterval>),
+};
+
+/**
+ * Source of uniformly distributed numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+export interface SimulationOptions {
+    /** Time source (real time by default) */
+    clock?: SimulationClock;
+    /** Seed for the simulation's random choices (a fresh one by default) */
+    seed?: number;
+}
+
+/**
+ * Seeded generator (mulberry32). The same seed always yields the same
+ * sequence, on every platform.
+ */
+export function seededRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A fresh 32-bit seed, for runs that did not ask for one
+ */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+}
+
+interface VirtualTimer {
+    callback: () => void;
+    dueAt: number;
+    /** Repeat period of interval timers */
+    interval?: number;
+    /** Breaks ties between timers due at the same time */
+    order: number;
+}
+
+// Lets pending promise callbacks run, so timers they schedule are seen
+const settle = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+/**
+ * Clock whose time only moves when advanced.
+ *
+ * Due timers fire one at a time in due order, with promise callbacks
+ * settled in between, so a run takes no real time and always interleaves
+ * the same way.
+ */
+export class VirtualClock implements SimulationClock {
+    private time: number;
+    private timers: Map<number, VirtualTimer> = new Map();
+    private nextId = 1;
+    private nextOrder = 0;
+
+    constructor(start: number = 0) {
+        this.time = start;
+    }
+
+    now(): number {
+        return this.time;
+    }
+
+    setTimeout(callback: () => void, ms: number): unknown {
+        return this.schedule(callback, ms);
+    }
+
+    clearTimeout(handle: unknown): void {
+        this.timers.delete(handle as number);
+    }
+
+    setInterval(callback: () => void, ms: number): unknown {
+        // Like Node, never repeat more than once per millisecond
+        return this.schedule(callback, ms, Math.max(ms, 1));
+    }
+
+    clearInterval(handle: unknown): void {
+        this.timers.delete(handle as number);
+    }
+
+    /**
+     * Move time forward by `ms`, firing every timer that falls due
+     */
+    async advance(ms: number): Promise<void> {
+        const target = this.time + ms;
+
+        for (;;) {
+            await settle();
+            const next = this.nextTimer();
+            if (!next || next[1].dueAt > target) break;
+
+            const [id, timer] = next;
+            this.time = timer.dueAt;
+            if (timer.interval === undefined) {
+                this.timers.delete(id);
+            } else {
+                timer.dueAt += timer.interval;
+                timer.order = this.nextOrder++;
+            }
+            timer.callback();
+        }
+
+        this.time = target;
+        await settle();
+    }
+
+    /**
+     * Advance timer by timer until `promise` settles, then return its result
+     */
+    async run<T>(promise: Promise<T>): Promise<T> {
+        let done = false;
+        promise.then(
+            () => (done = true),
+            () => (done = true)
+        );
+
+        await settle();
+        while (!done) {
+            const next = this.nextTimer();
+            if (!next) {
+                throw new Error("Virtual clock has no timers left to run");
+            }
+            await this.advance(next[1].dueAt - this.time);
+        }
+        return promise;
+    }
+
+    private schedule(
+        callback: () => void,
+        ms: number,
+        interval?: number
+    ): number {
+        const id = this.nextId++;
+        this.timers.set(id, {
+            callback,
+            dueAt: this.time + Math.max(ms, 0),
+            interval,
+            order: this.nextOrder++,
+        });
+        return id;
+    }
+
+    private nextTimer(): [number, VirtualTimer] | null {
+        let next: [number, VirtualTimer] | null = null;
+        for (const entry of this.timers) {
+            const [, timer] = entry;
+            if (
+                !next ||
+                timer.dueAt < next[1].dueAt ||
+                (timer.dueAt === next[1].dueAt && timer.order < next[1].order)
+            ) {
+                next = entry;
+            }
+        }
+        return next;
+    }
+}
+
+/**
+ * Version written into mock snapshots. Bump it when the snapshot layout
+ * changes; restore() refuses snapshots of any other version.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotHeader {
+    version: number;
+    /** Which mock wrote the snapshot */
+    kind: string;
+    /** Mock clock time when the snapshot was taken */
+    createdAt: number;
+}
+
+/**
+ * Throw unless `snapshot` was written by a `kind` mock in the current
+ * snapshot format
+ */
+export function checkSnapshot(snapshot: SnapshotHeader, kind: string): void {
+    if (!snapshot || snapshot.kind !== kind) {
+        throw new Error(`Not a ${kind} snapshot`);
+    }
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(
+            `Unsupported ${kind} snapshot version: ${snapshot.version} (expected ${SNAPSHOT_VERSION})`
+        );
+    }
+}
+
+/**
+ * Write a snapshot as a JSON file (Node only)
+ */
+export async function writeSnapshotFile(
+    filePath: string,
+    snapshot: SnapshotHeader
+): Promise<void> {
+    const fs = require("fs").promises;
+    const path = require("path");
+
+    // Write then rename so a crash never leaves a half-written snapshot
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(
+        `${filePath}.tmp`,
+        `${JSON.stringify(snapshot, null, 2)}\n`,
+        "utf8"
+    );
+    await fs.rename(`${filePath}.tmp`, filePath);
+}
+
+/**
+ * Read a snapshot JSON file (Node only); the caller checks its kind and
+ * version when restoring it
+ */
+export async function readSnapshotFile<T extends SnapshotHeader>(
+    filePath: string
+): Promise<T> {
+    const fs = require("fs").promises;
+    return JSON.parse(await fs.readFile(filePath, "utf8"));
+}
@@ -0,0 +1,274 @@
+import {
+    Commitment,
+    ComputeBudgetProgram,
+    Connection,
+    PublicKey,
+    SendTransactionError,
+    Transaction,
+    TransactionExpiredBlockheightExceededError,
+    TransactionInstruction,
+    TransactionMessage,
+    TransactionError,
+    VersionedTransaction,
+} from "@solana/web3.js";
+import { DePINfinityError, decodeProgramError } from "./errors";
+
+/**
+ * Anything that can pay for and sign transactions, e.g. an Anchor Wallet
+ */
+export interface TransactionSigner {
+    publicKey: PublicKey;
+    signTransaction<T extends Transaction | VersionedTransaction>(
+        transaction: T
+    ): Promise<T>;
+}
+
+export interface SendOptions {
+    /** Confirmation level to wait for ("confirmed" by default) */
+    commitment?: Commitment;
+    /** Priority fee per compute unit, in micro-lamports */
+    priorityFeeMicroLamports?: number;
+    /** Compute unit limit requested for the transaction */
+    computeUnitLimit?: number;
+    /** Resends with a fresh blockhash after it expires (3 by default) */
+    maxRetries?: number;
+    skipPreflight?: boolean;
+}
+
+export interface SimulationResult {
+    /** Null when the transaction would succeed */
+    error: TransactionError | null;
+    logs: string[];
+    unitsConsumed: number | null;
+}
+
+/**
+ * Raised when a transaction fails preflight or on-chain. The message ends
+ * with the program logs so the failing instruction is visible at a glance.
+ *
+ * Failures caused by a program error are raised as the matching
+ * `ProgramError` subclass instead, with this error as their `cause`.
+ */
+export class TransactionFailedError extends DePINfinityError {
+    constructor(
+        message: string,
+        public readonly logs: string[],
+        public readonly signature: string | null = null
+    ) {
+        super(
+            "TransactionFailed",
+            logs.length > 0
+                ? `${message}\nProgram logs:\n${logs.join("\n")}`
+                : message
+        );
+        this.name = "TransactionFailedError";
+    }
+}
+
+const BLOCKHASH_NOT_FOUND = /blockhash not found/i;
+
+/**
+ * Shared send pipeline for program instructions.
+ *
+ * Adds the compute budget instructions, signs with a fresh blockhash and
+ * waits for the requested confirmation level. When the blockhash expires
+ * before the transaction lands it is rebuilt and resent.
+ */
+export class TransactionSender {
+    private connection: Connection;
+    private signer: TransactionSigner;
+    private defaults: SendOptions;
+    private cosigners: TransactionSigner[];
+
+    /**
+     * `signer` pays the fees; `cosigners` sign every transaction after it,
+     * e.g. the device owner when someone else pays
+     */
+    constructor(
+        connection: Connection,
+        signer: TransactionSigner,
+        defaults: SendOptions = {},
+        cosigners: TransactionSigner[] = []
+    ) {
+        this.connection = connection;
+        this.signer = signer;
+        this.defaults = defaults;
+        this.cosigners = cosigners;
+    }
+
+    /**
+     * Run the instructions through the RPC node's simulator without signing
+     * or sending anything
+     */
+    async simulate(
+        instructions: TransactionInstruction[],
+        options: SendOptions = {}
+    ): Promise<SimulationResult> {
+        const { commitment } = this.resolve(options);
+        const { blockhash } = await this.connection.getLatestBlockhash(
+            commitment
+        );
+
+        const transaction = new VersionedTransaction(
+            new TransactionMessage({
+                payerKey: this.signer.publicKey,
+                recentBlockhash: blockhash,
+                instructions: this.withComputeBudget(instructions, options),
+            }).compileToLegacyMessage()
+        );
+
+        const { value } = await this.connection.simulateTransaction(
+            transaction,
+            { commitment, sigVerify: false, replaceRecentBlockhash: true }
+        );
+
+        return {
+            error: value.err,
+            logs: value.logs ?? [],
+            unitsConsumed: value.unitsConsumed ?? null,
+        };
+    }
+
+    /**
+     * Sign, send and confirm the instructions, returning the signature.
+     * `cosigners` add their signatures after the fee payer's.
+     */
+    async send(
+        instructions: TransactionInstruction[],
+        options: SendOptions = {},
+        cosigners: TransactionSigner[] = []
+    ): Promise<string> {
+        const { commitment, maxRetries, skipPreflight } = this.resolve(options);
+
+        for (let attempt = 0; ; attempt++) {
+            const { blockhash, lastValidBlockHeight } =
+                await this.connection.getLatestBlockhash(commitment);
+
+            const transaction = new Transaction({
+                feePayer: this.signer.publicKey,
+                blockhash,
+                lastValidBlockHeight,
+            }).add(...this.withComputeBudget(instructions, options));
+            let signed = await this.signer.signTransaction(transaction);
+            for (const cosigner of [...this.cosigners, ...cosigners]) {
+                signed = await cosigner.signTransaction(signed);
+            }
+
+            let signature: string;
+            try {
+                signature = await this.connection.sendRawTransaction(
+                    signed.serialize(),
+                    { skipPreflight, preflightCommitment: commitment }
+                );
+            } catch (error) {
+                if (
+                    error instanceof SendTransactionError &&
+                    BLOCKHASH_NOT_FOUND.test(error.message) &&
+                    attempt < maxRetries
+                ) {
+                    continue;
+                }
+                throw await this.toFailure(error);
+            }
+
+            try {
+                const { value } = await this.connection.confirmTransaction(
+                    { signature, blockhash, lastValidBlockHeight },
+                    commitment
+                );
+                if (value.err) {
+                    const failure = new TransactionFailedError(
+                        `Transaction ${signature} failed: ${JSON.stringify(
+                            value.err
+                        )}`,
+                        await this.fetchLogs(signature, commitment),
+                        signature
+                    );
+                    throw decodeProgramError(value.err, failure) ?? failure;
+                }
+                return signature;
+            } catch (error) {
+                if (
+                    error instanceof
+                        TransactionExpiredBlockheightExceededError &&
+                    attempt < maxRetries
+                ) {
+                    continue;
+                }
+                throw error;
+            }
+        }
+    }
+
+    private resolve(options: SendOptions) {
+        const merged = { ...this.defaults, ...options };
+        return {
+            commitment: merged.commitment ?? "confirmed",
+            maxRetries: merged.maxRetries ?? 3,
+            skipPreflight: merged.skipPreflight ?? false,
+            priorityFeeMicroLamports: merged.priorityFeeMicroLamports,
+            computeUnitLimit: merged.computeUnitLimit,
+        };
+    }
+
+    private withComputeBudget(
+        instructions: TransactionInstruction[],
+        options: SendOptions
+    ): TransactionInstruction[] {
+        const { priorityFeeMicroLamports, computeUnitLimit } =
+            this.resolve(options);
+        const budget: TransactionInstruction[] = [];
+
+        if (computeUnitLimit !== undefined) {
+            budget.push(
+                ComputeBudgetProgram.setComputeUnitLimit({
+                    units: computeUnitLimit,
+                })
+            );
+        }
+        if (priorityFeeMicroLamports) {
+            budget.push(
+                ComputeBudgetProgram.setComputeUnitPrice({
+                    microLamports: priorityFeeMicroLamports,
+                })
+            );
+        }
+
+        return [...budget, ...instructions];
+    }
+
+    private async toFailure(error: unknown): Promise<Error> {
+        if (!(error instanceof SendTransactionError)) {
+            return error instanceof Error ? error : new Error(String(error));
+        }
+
+        let logs = error.logs ?? [];
+        if (logs.length === 0) {
+            logs = await error.getLogs(this.connection).catch(() => []);
+        }
+        const failure = new TransactionFailedError(
+            error.transactionError.message,
+            logs
+        );
+        return decodeProgramError(failure) ?? failure;
+    }
+
+    private async fetchLogs(
+        signature: string,
+        commitment: Commitment
+    ): Promise<string[]> {
+        try {
+            const transaction = await this.connection.getTransaction(
+                signature,
+                {
+                    commitment:
+                        commitment === "finalized" ? "finalized" : "confirmed",
+                    maxSupportedTransactionVersion: 0,
+                }
+            );
+            return transaction?.meta?.logMessages ?? [];
+        } catch {
+            return [];
+        }
+    }
+}
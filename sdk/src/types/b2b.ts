@@ -0,0 +1,49 @@
+export interface RoamingAgreement {
+    partnerId: string;
+    region: string;
+    terms: {
+        dataSharing: boolean;
+        infrastructureAccess: boolean;
+        revenueSharing: number;
+        duration: number;
+    };
+    networkData: {
+        averageQuality: number;
+        coverageArea: number;
+        deviceCount: number;
+    };
+}
+
+/** Currency of contract costs when a contract does not name one */
+export const DEFAULT_COST_UNIT = "JPY";
+
+export interface InfrastructureContract {
+    partnerId: string;
+    contractType: "tower_sharing" | "fiber_access" | "spectrum_sharing";
+    terms: {
+        duration: number;
+        cost: number;
+        costUnit?: string; // JPY, USD, etc. Defaults to DEFAULT_COST_UNIT
+        performanceMetrics: string[];
+    };
+    networkRequirements: {
+        minimumQuality: number;
+        coverageArea: number;
+        uptimeRequirement: number;
+    };
+}
+
+export interface NetworkInsights {
+    region: string;
+    timeRange: { start: number; end: number };
+    metrics: {
+        averageQuality: number;
+        coverageDensity: number;
+        performanceTrends: number[];
+    };
+    recommendations: {
+        infrastructureInvestment: string[];
+        partnershipOpportunities: string[];
+        costOptimization: string[];
+    };
+}
@@ -0,0 +1,180 @@
+import { DeviceType, NetworkQualityData } from "./types/depinfinity";
+import { DePINfinityError } from "./errors";
+
+export type MeasurementField =
+    | "signalStrength"
+    | "latency"
+    | "throughput"
+    | "availability"
+    | "location.latitude"
+    | "location.longitude"
+    | "location.accuracy";
+
+export interface MeasurementRange {
+    min: number;
+    max: number;
+    unit: string;
+}
+
+/**
+ * Physically possible values for every measurement, whatever the device.
+ *
+ * - signalStrength: received power in dBm. Always negative in practice;
+ *   -140 is below the noise floor of any cellular or Wi-Fi receiver.
+ * - latency: round-trip time in ms, up to a minute.
+ * - throughput: bits per second, up to 100 Gbps.
+ * - availability: fraction of probes that succeeded, 0 to 1.
+ * - latitude / longitude: WGS84 degrees.
+ * - accuracy: location uncertainty radius in meters, up to 100 km so
+ *   privacy-fuzzed positions still pass.
+ */
+export const MEASUREMENT_RANGES: Record<MeasurementField, MeasurementRange> = {
+    signalStrength: { min: -140, max: 0, unit: "dBm" },
+    latency: { min: 0, max: 60000, unit: "ms" },
+    throughput: { min: 0, max: 100e9, unit: "bps" },
+    availability: { min: 0, max: 1, unit: "ratio" },
+    "location.latitude": { min: -90, max: 90, unit: "deg" },
+    "location.longitude": { min: -180, max: 180, unit: "deg" },
+    "location.accuracy": { min: 0, max: 100000, unit: "m" },
+};
+
+/**
+ * Narrower ranges a given kind of device can plausibly report. Cellular
+ * radios (smartphones, IoT modules) measure RSRP, which tops out around
+ * -40 dBm; IoT modules are limited to LTE-M / NB-IoT rates. Wi-Fi routers
+ * and hotspots can read stronger signals at short range.
+ */
+export const DEVICE_PLAUSIBILITY: Record<
+    DeviceType,
+    Partial<Record<MeasurementField, MeasurementRange>>
+> = {
+    Smartphone: {
+        signalStrength: { min: -140, max: -40, unit: "dBm" },
+        throughput: { min: 0, max: 10e9, unit: "bps" },
+    },
+    Router: {
+        signalStrength: { min: -100, max: -10, unit: "dBm" },
+        throughput: { min: 0, max: 10e9, unit: "bps" },
+    },
+    IoTDevice: {
+        signalStrength: { min: -140, max: -40, unit: "dBm" },
+        throughput: { min: 0, max: 10e6, unit: "bps" },
+    },
+    Hotspot: {
+        signalStrength: { min: -120, max: -10, unit: "dBm" },
+        throughput: { min: 0, max: 10e9, unit: "bps" },
+    },
+};
+
+export interface ValidationIssue {
+    field: MeasurementField;
+    value: number;
+    /** Human-readable reason, e.g. "is above 1 ratio" */
+    reason: string;
+}
+
+/**
+ * A measurement failed validation before being submitted or ingested.
+ * Carries the same code as the program's `InvalidDataQuality` error.
+ */
+export class MeasurementValidationError extends DePINfinityError {
+    constructor(
+        public readonly issues: ValidationIssue[],
+        public readonly deviceType: DeviceType | null = null
+    ) {
+        super(
+            "InvalidDataQuality",
+            `Invalid data quality: ${issues
+                .map((issue) => `${issue.field} ${issue.value} ${issue.reason}`)
+                .join("; ")}`
+        );
+        this.name = "MeasurementValidationError";
+    }
+}
+
+const fieldValue = (
+    data: NetworkQualityData,
+    field: MeasurementField
+): number =>
+    field.startsWith("location.")
+        ? data.location?.[
+              field.slice(9) as keyof NetworkQualityData["location"]
+          ]
+        : data[field as Exclude<MeasurementField, `location.${string}`>];
+
+const outOfRange = (
+    value: number,
+    range: MeasurementRange,
+    context: string
+): string | null =>
+    value < range.min
+        ? `is below ${range.min} ${range.unit}${context}`
+        : value > range.max
+        ? `is above ${range.max} ${range.unit}${context}`
+        : null;
+
+/**
+ * Round the fields the program stores as integers (signal strength,
+ * latency and throughput). Out-of-range values are
+ * left alone for validation to report.
+ */
+export function sanitizeQualityData(
+    data: NetworkQualityData
+): NetworkQualityData {
+    return {
+        ...data,
+        signalStrength: Math.round(data.signalStrength),
+        latency: Math.round(data.latency),
+        throughput: Math.round(data.throughput),
+        location: { ...data.location },
+    };
+}
+
+/**
+ * Everything wrong with a measurement: non-finite values, values outside
+ * the physical ranges and, when the device type is known, values that
+ * device could not have measured
+ */
+export function findQualityIssues(
+    data: NetworkQualityData,
+    deviceType?: DeviceType
+): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const field of Object.keys(MEASUREMENT_RANGES) as MeasurementField[]) {
+        const value = fieldValue(data, field);
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+            issues.push({ field, value, reason: "is not a finite number" });
+            continue;
+        }
+
+        const deviceRange =
+            deviceType && DEVICE_PLAUSIBILITY[deviceType][field];
+        const issue =
+            outOfRange(value, MEASUREMENT_RANGES[field], "") ??
+            (deviceRange
+                ? outOfRange(value, deviceRange, ` for ${deviceType} devices`)
+                : null);
+        if (issue) {
+            issues.push({ field, value, reason: issue });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Sanitize and validate a measurement, returning the sanitized copy.
+ * Throws `MeasurementValidationError` listing every problem found.
+ */
+export function validateQualityData(
+    data: NetworkQualityData,
+    deviceType?: DeviceType
+): NetworkQualityData {
+    const sanitized = sanitizeQualityData(data);
+    const issues = findQualityIssues(sanitized, deviceType);
+    if (issues.length > 0) {
+        throw new MeasurementValidationError(issues, deviceType ?? null);
+    }
+    return sanitized;
+}
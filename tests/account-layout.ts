@@ -0,0 +1,137 @@
+import * as fs from "fs";
+import * as path from "path";
+import { expect } from "chai";
+import {
+    AccountDecoder,
+    AccountEncoder,
+    AccountLayoutError,
+    AccountName,
+} from "../sdk/src/coder";
+import fixtures from "./fixtures/accounts.v0.2.0.json";
+
+/**
+ * Golden-fixture tests for the account layouts.
+ *
+ * The fixtures are serialized account buffers captured for layout v0.2.0.
+ * If the program structs or the SDK IDL change, these tests fail offline
+ * before the bridge starts decoding garbage from a live cluster.
+ */
+describe("account layout", () => {
+    const decoder = new AccountDecoder();
+
+    const fixtureData = (name: AccountName): Buffer =>
+        Buffer.from(fixtures.accounts[name].data, "base64");
+
+    // Sum of the `INIT_SPACE` expression declared for a struct in lib.rs
+    const programInitSpace = (name: string): number => {
+        const source = fs.readFileSync(
+            path.join(__dirname, "../programs/depinfinity/src/lib.rs"),
+            "utf-8"
+        );
+        const match = source.match(
+            new RegExp(
+                `impl ${name} \\{\\s*pub const INIT_SPACE: usize = ([\\d\\s+]+);`
+            )
+        );
+        if (!match) {
+            throw new Error(`INIT_SPACE not found for ${name}`);
+        }
+        return match[1]
+            .split("+")
+            .reduce((sum, term) => sum + parseInt(term.trim(), 10), 0);
+    };
+
+    it("matches the fixture layout version", () => {
+        expect(decoder.layoutVersion).to.equal(fixtures.layoutVersion);
+    });
+
+    for (const name of [
+        "ProgramState",
+        "Device",
+        "DataSubmission",
+    ] as AccountName[]) {
+        it(`decodes the golden ${name} fixture`, () => {
+            const decoded = decoder.decode(name, fixtureData(name));
+            expect(decoded).to.deep.equal(fixtures.accounts[name].decoded);
+        });
+
+        it(`encodes the golden ${name} fixture`, () => {
+            const data = fixtureData(name);
+            const encoded = new AccountEncoder().encode(
+                name,
+                fixtures.accounts[name].decoded,
+                data.length
+            );
+            expect(encoded.equals(data)).to.be.true;
+        });
+    }
+
+    it("agrees with the program INIT_SPACE for fixed-size accounts", () => {
+        expect(decoder.accountSize("ProgramState")).to.equal(
+            8 + programInitSpace("ProgramState")
+        );
+        expect(decoder.accountSize("DataSubmission")).to.equal(
+            8 + programInitSpace("DataSubmission")
+        );
+        expect(fixtureData("Device").length).to.equal(
+            8 + programInitSpace("Device")
+        );
+    });
+
+    it("rejects a discriminator mismatch", () => {
+        const data = fixtureData("DataSubmission");
+        data[0] ^= 0xff;
+
+        expect(() => decoder.decodeDataSubmission(data)).to.throw(
+            AccountLayoutError,
+            /discriminator mismatch/
+        );
+    });
+
+    it("rejects another account type", () => {
+        expect(() =>
+            decoder.decodeDataSubmission(fixtureData("ProgramState"))
+        ).to.throw(AccountLayoutError, /discriminator mismatch/);
+    });
+
+    it("rejects a size mismatch", () => {
+        // The pre-fix layout allocated 16 bytes for LocationData
+        const truncated = fixtureData("DataSubmission").subarray(0, 84);
+        const padded = Buffer.concat([
+            fixtureData("DataSubmission"),
+            Buffer.alloc(4),
+        ]);
+
+        expect(() => decoder.decodeDataSubmission(truncated)).to.throw(
+            AccountLayoutError,
+            /size mismatch/
+        );
+        expect(() => decoder.decodeDataSubmission(padded)).to.throw(
+            AccountLayoutError,
+            /size mismatch/
+        );
+    });
+
+    it("rejects truncated variable-length accounts", () => {
+        const truncated = fixtureData("Device").subarray(0, 60);
+
+        expect(() => decoder.decodeDevice(truncated)).to.throw(
+            AccountLayoutError,
+            /truncated/
+        );
+    });
+
+    it("rejects 64-bit values a number cannot hold exactly", () => {
+        const device = fixtures.accounts.Device;
+        const data = new AccountEncoder().encode(
+            "Device",
+            { ...device.decoded, totalRewardsEarned: 2 ** 53 },
+            fixtureData("Device").length
+        );
+
+        expect(() => decoder.decodeDevice(data)).to.throw(
+            AccountLayoutError,
+            /does not fit in a number/
+        );
+    });
+});
@@ -0,0 +1,145 @@
+import { createHash } from "crypto";
+import { expect } from "chai";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import {
+    AdminClient,
+    DePINfinityClient,
+    ProgramNotInitializedError,
+    programStatePda,
+} from "../sdk/src";
+import { FakeConnection } from "./support/fake-connection";
+import { encodeProgramState } from "./support/accounts";
+
+// Anchor instruction discriminator
+const sighash = (name: string): Buffer =>
+    createHash("sha256").update(`global:${name}`).digest().subarray(0, 8);
+
+describe("admin client", () => {
+    const programId = Keypair.generate().publicKey;
+    const authority = Keypair.generate();
+    const [programStatePDA] = programStatePda(programId);
+
+    const adminFor = (
+        wallet: Keypair,
+        isActive = true
+    ): { admin: AdminClient; connection: FakeConnection } => {
+        const connection = new FakeConnection([
+            {
+                pubkey: programStatePDA,
+                account: {
+                    data: encodeProgramState(authority.publicKey, isActive),
+                    executable: false,
+                    lamports: 1,
+                    owner: programId,
+                },
+            },
+        ]);
+        const admin = new DePINfinityClient(
+            connection as unknown as Connection,
+            new Wallet(wallet),
+            programId
+        ).admin();
+        return { admin, connection };
+    };
+
+    it("reports the authority and pause state", async () => {
+        const { admin } = adminFor(authority, false);
+
+        expect(await admin.getAuthorityInfo()).to.deep.equal({
+            programState: programStatePDA.toBase58(),
+            authority: authority.publicKey.toBase58(),
+            isPaused: true,
+            isAuthority: true,
+        });
+    });
+
+    it("tells other wallets they are not the authority", async () => {
+        const { admin } = adminFor(Keypair.generate());
+
+        const info = await admin.getAuthorityInfo();
+        expect(info.isAuthority).to.be.false;
+        expect(info.isPaused).to.be.false;
+    });
+
+    it("reports a program that has not been initialized", async () => {
+        const client = new DePINfinityClient(
+            new FakeConnection([]) as unknown as Connection,
+            new Wallet(authority),
+            programId
+        );
+
+        for (const read of [
+            () => client.admin().getAuthorityInfo(),
+            () => client.getProgramState(),
+        ]) {
+            let error: unknown;
+            try {
+                await read();
+            } catch (e) {
+                error = e;
+            }
+            expect(error).to.be.instanceOf(ProgramNotInitializedError);
+            expect(error).to.include({
+                code: "ProgramNotInitialized",
+                programState: programStatePDA.toBase58(),
+            });
+        }
+    });
+
+    it("builds pause and resume instructions signed by the wallet", async () => {
+        const { admin } = adminFor(authority);
+
+        for (const [instruction, name] of [
+            [await admin.pauseProgramInstruction(), "pause_program"],
+            [await admin.resumeProgramInstruction(), "resume_program"],
+        ] as const) {
+            expect(instruction.programId.equals(programId)).to.be.true;
+            expect(instruction.data.equals(sighash(name))).to.be.true;
+            expect(
+                instruction.keys.map((key) => [
+                    key.pubkey.toBase58(),
+                    key.isSigner,
+                    key.isWritable,
+                ])
+            ).to.deep.equal([
+                [programStatePDA.toBase58(), false, true],
+                [authority.publicKey.toBase58(), true, false],
+            ]);
+        }
+    });
+
+    it("sends the pause transaction", async () => {
+        const { admin, connection } = adminFor(authority);
+
+        expect(await admin.pauseProgram()).to.equal("signature_1");
+        const [transaction] = connection.sent;
+        expect(transaction.instructions).to.have.length(1);
+        expect(
+            transaction.instructions[0].data.equals(sighash("pause_program"))
+        ).to.be.true;
+        expect(transaction.verifySignatures()).to.be.true;
+    });
+
+    it("collects both signatures for an authority transfer", async () => {
+        const { admin, connection } = adminFor(authority);
+        const newAuthority = Keypair.generate();
+
+        await admin.transferAuthority(new Wallet(newAuthority));
+
+        const [transaction] = connection.sent;
+        const [instruction] = transaction.instructions;
+        expect(instruction.data.equals(sighash("transfer_authority"))).to.be
+            .true;
+        expect(instruction.keys[2].pubkey.equals(newAuthority.publicKey)).to.be
+            .true;
+        expect(instruction.keys[2].isSigner).to.be.true;
+        expect(
+            transaction.signatures.map(({ publicKey }) => publicKey.toBase58())
+        ).to.have.members([
+            authority.publicKey.toBase58(),
+            newAuthority.publicKey.toBase58(),
+        ]);
+        expect(transaction.verifySignatures()).to.be.true;
+    });
+});
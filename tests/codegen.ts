@@ -0,0 +1,195 @@
+import { createHash } from "crypto";
+import { expect } from "chai";
+import { Keypair, PublicKey, SystemProgram } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import {
+    IDL,
+    findDataSubmissionAddress,
+    findDeviceAddress,
+    instructionDecoder,
+    registerDeviceInstruction,
+    submitDataInstruction,
+} from "../sdk/src";
+import { findStaleFiles, parseProgram } from "../scripts/codegen";
+
+// Anchor instruction discriminator
+const sighash = (name: string): Buffer =>
+    createHash("sha256").update(`global:${name}`).digest().subarray(0, 8);
+
+describe("codegen", () => {
+    const programId = Keypair.generate().publicKey;
+    const owner = Keypair.generate().publicKey;
+    const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+
+    it("keeps the generated SDK files in sync with the program", async () => {
+        expect(await findStaleFiles()).to.be.empty;
+    });
+
+    it("fails loudly on program code it cannot model", () => {
+        const source = [
+            'declare_id!("DePINfinity111111111111111111111111111111111");',
+            "#[program]",
+            "pub mod depinfinity {",
+            "    pub fn ping(ctx: Context<Ping>, at: Vec<u8>) -> Result<()> {",
+            "        Ok(())",
+            "    }",
+            "}",
+            "#[derive(Accounts)]",
+            "pub struct Ping<'info> {",
+            "    pub user: Signer<'info>,",
+            "}",
+        ].join("\n");
+        const manifest = 'name = "depinfinity"\nversion = "0.2.0"\n';
+
+        expect(() => parseProgram(source, manifest)).to.throw(
+            "Unsupported type in program interface: Vec<u8>"
+        );
+    });
+
+    it("covers every instruction of the program", () => {
+        expect(
+            IDL.instructions.map((instruction) => instruction.name)
+        ).to.deep.equal([
+            "initialize",
+            "registerDevice",
+            "submitData",
+            "updateLocation",
+            "toggleDeviceStatus",
+            "pauseProgram",
+            "resumeProgram",
+            "transferAuthority",
+        ]);
+    });
+
+    it("derives PDAs from the program's seeds", () => {
+        const [device] = findDeviceAddress(programId, owner, "router_01");
+        const sequence = Buffer.alloc(8);
+        sequence.writeBigUInt64LE(BigInt(7));
+
+        expect(
+            device.equals(
+                PublicKey.findProgramAddressSync(
+                    [
+                        Buffer.from("device"),
+                        owner.toBuffer(),
+                        Buffer.from("router_01"),
+                    ],
+                    programId
+                )[0]
+            )
+        ).to.be.true;
+        expect(
+            findDataSubmissionAddress(programId, device, 7)[0].equals(
+                PublicKey.findProgramAddressSync(
+                    [Buffer.from("data"), device.toBuffer(), sequence],
+                    programId
+                )[0]
+            )
+        ).to.be.true;
+    });
+
+    it("builds instructions without a provider", () => {
+        const instruction = registerDeviceInstruction(
+            programId,
+            {
+                device: findDeviceAddress(programId, owner, "router_01")[0],
+                programState: Keypair.generate().publicKey,
+                user: owner,
+            },
+            {
+                deviceId: "router_01",
+                deviceType: "IoTDevice",
+                initialLocation: location,
+            }
+        );
+
+        const expected = Buffer.alloc(8 + 4 + 9 + 1 + 20);
+        sighash("register_device").copy(expected, 0);
+        expected.writeUInt32LE(9, 8);
+        expected.write("router_01", 12);
+        expected.writeUInt8(2, 21);
+        expected.writeDoubleLE(location.latitude, 22);
+        expected.writeDoubleLE(location.longitude, 30);
+        expected.writeFloatLE(location.accuracy, 38);
+
+        expect(instruction.programId.equals(programId)).to.be.true;
+        expect(instruction.data.equals(expected)).to.be.true;
+        expect(
+            instruction.keys.map((key) => [key.isSigner, key.isWritable])
+        ).to.deep.equal([
+            [false, true],
+            [false, true],
+            [true, true],
+            [false, false],
+        ]);
+        expect(instruction.keys[3].pubkey.equals(SystemProgram.programId)).to.be
+            .true;
+    });
+
+    it("encodes u64 arguments and defaults the token program", () => {
+        const keys = () => Keypair.generate().publicKey;
+        const instruction = submitDataInstruction(
+            programId,
+            {
+                device: keys(),
+                dataSubmission: keys(),
+                programState: keys(),
+                rewardVault: keys(),
+                userTokenAccount: keys(),
+                user: owner,
+            },
+            {
+                qualityData: {
+                    signalStrength: -60,
+                    latency: 40,
+                    throughput: 5_000_000_000,
+                    availability: 0.5,
+                    location,
+                },
+            }
+        );
+
+        expect(instruction.data.subarray(0, 8).equals(sighash("submit_data")))
+            .to.be.true;
+        expect(instruction.data.readInt32LE(8)).to.equal(-60);
+        expect(instruction.data.readUInt32LE(12)).to.equal(40);
+        expect(instruction.data.readBigUInt64LE(16)).to.equal(
+            BigInt(5_000_000_000)
+        );
+        expect(instruction.data.readFloatLE(24)).to.equal(0.5);
+        expect(instruction.data.length).to.equal(8 + 4 + 4 + 8 + 4 + 20);
+        expect(instruction.keys[6].pubkey.equals(TOKEN_PROGRAM_ID)).to.be.true;
+    });
+
+    it("decodes the instructions it builds", () => {
+        const instruction = registerDeviceInstruction(
+            programId,
+            {
+                device: findDeviceAddress(programId, owner, "router_01")[0],
+                programState: Keypair.generate().publicKey,
+                user: owner,
+            },
+            {
+                deviceId: "router_01",
+                deviceType: "IoTDevice",
+                initialLocation: location,
+            }
+        );
+
+        const decoded = instructionDecoder.decode(instruction.data);
+        expect(decoded.name).to.equal("registerDevice");
+        expect(decoded.accounts).to.deep.equal([
+            "device",
+            "programState",
+            "user",
+            "systemProgram",
+        ]);
+        expect(decoded.args).to.deep.include({
+            deviceId: "router_01",
+            deviceType: "IoTDevice",
+        });
+        expect(() => instructionDecoder.decode(Buffer.alloc(8))).to.throw(
+            "Unknown instruction discriminator: 0000000000000000"
+        );
+    });
+});
@@ -0,0 +1,482 @@
+import { expect } from "chai";
+import {
+    Connection,
+    Keypair,
+    LAMPORTS_PER_SOL,
+    PublicKey,
+} from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import {
+    createAccount,
+    createMint,
+    getAssociatedTokenAddress,
+    mintTo,
+} from "@solana/spl-token";
+import {
+    DePINBackend,
+    DePINfinityClient,
+    DePINfinityError,
+    DePINfinityErrorCode,
+    DeviceInfo,
+    TransactionSender,
+    VirtualClock,
+    dataSubmissionPda,
+    devicePda,
+    estimateReward,
+    programStatePda,
+    submitDataInstruction,
+    toggleDeviceStatusInstruction,
+    updateLocationInstruction,
+    vaultAuthorityPda,
+} from "../sdk/src";
+import { createMockSolanaProgram } from "../mock-solana/src";
+
+/**
+ * Identical scenarios run against the mock program and the real one, so
+ * the mock cannot drift from lib.rs unnoticed.
+ *
+ * The mock always runs. The program runs when CONFORMANCE_VALIDATOR_URL
+ * points at a fresh local validator with the program deployed under
+ * PROGRAM_ID; the suite initializes the program itself. `npm run
+ * test:conformance` does that against `anchor localnet`.
+ */
+
+// A backend for a fresh device owner, plus the authority's controls
+interface Harness {
+    backend: DePINBackend;
+    /** The owner's device instructions, signed by someone else */
+    intruder: Pick<
+        DePINBackend,
+        "submitData" | "updateLocation" | "toggleDeviceStatus"
+    >;
+    pause(): Promise<void>;
+    resume(): Promise<void>;
+}
+
+interface Target {
+    name: string;
+    enabled: boolean;
+    timeoutMs: number;
+    /** Silence console output (the mock narrates every operation) */
+    quiet: boolean;
+    setup(): Promise<void>;
+    /** Harness whose rewards are paid from a vault holding `rewardVault` */
+    create(rewardVault: number): Promise<Harness>;
+}
+
+interface Scenario {
+    name: string;
+    rewardVault?: number;
+    run(harness: Harness): Promise<void>;
+}
+
+const location = { latitude: 35.6762, longitude: 139.6503, accuracy: 10 };
+const measurement = {
+    signalStrength: -60,
+    latency: 40,
+    throughput: 1200000,
+    availability: 0.95,
+    location: { latitude: 35.68, longitude: 139.76, accuracy: 25 },
+};
+
+async function expectCode(
+    promise: Promise<unknown>,
+    code: DePINfinityErrorCode
+): Promise<void> {
+    try {
+        await promise;
+    } catch (error) {
+        expect((error as DePINfinityError).code).to.equal(code);
+        return;
+    }
+    expect.fail(`Expected a ${code} error`);
+}
+
+// The fields both backends report the same way
+const stats = (device: DeviceInfo | null) => ({
+    isActive: device?.isActive,
+    totalUptime: device?.totalUptime,
+    totalRewardsEarned: device?.totalRewardsEarned,
+    submissionCount: device?.submissionCount,
+    location: device?.location,
+});
+
+const SCENARIOS: Scenario[] = [
+    {
+        name: "registers devices active with empty stats",
+        async run({ backend }) {
+            await backend.registerDevice("router_01", "Router", location);
+
+            expect(stats(await backend.getDevice("router_01"))).to.deep.equal({
+                isActive: true,
+                totalUptime: 0,
+                totalRewardsEarned: 0,
+                submissionCount: 0,
+                location,
+            });
+        },
+    },
+    {
+        name: "rejects registering the same device twice",
+        async run({ backend }) {
+            await backend.registerDevice("router_01", "Router", location);
+            await expectCode(
+                backend.registerDevice("router_01", "Router", location),
+                "TransactionFailed"
+            );
+        },
+    },
+    {
+        name: "pays rewards and counts uptime without moving the device",
+        async run({ backend }) {
+            await backend.registerDevice("router_01", "Router", location);
+            const before = await backend.getProgramState();
+
+            await backend.submitData("router_01", measurement);
+
+            const reward = estimateReward(measurement, 0);
+            expect(stats(await backend.getDevice("router_01"))).to.deep.equal({
+                isActive: true,
+                totalUptime: 1,
+                totalRewardsEarned: reward,
+                submissionCount: 1,
+                location,
+            });
+            expect(
+                (await backend.getProgramState()).totalRewardsDistributed
+            ).to.equal(before.totalRewardsDistributed + reward);
+        },
+    },
+    {
+        name: "records unpaid submissions without uptime credit",
+        async run({ backend }) {
+            await backend.registerDevice("router_01", "Router", location);
+            await backend.submitData("router_01", {
+                ...measurement,
+                availability: 0,
+            });
+
+            expect(stats(await backend.getDevice("router_01"))).to.deep.include(
+                {
+                    totalUptime: 0,
+                    totalRewardsEarned: 0,
+                    submissionCount: 1,
+                }
+            );
+        },
+    },
+    {
+        name: "refuses rewards the vault cannot cover",
+        rewardVault: 100,
+        async run({ backend }) {
+            await backend.registerDevice("router_01", "Router", location);
+
+            await expectCode(
+                backend.submitData("router_01", measurement),
+                "InsufficientRewards"
+            );
+            expect(stats(await backend.getDevice("router_01"))).to.deep.include(
+                {
+                    totalUptime: 0,
+                    submissionCount: 0,
+                }
+            );
+        },
+    },
+    {
+        name: "only lets active devices submit or move",
+        async run({ backend }) {
+            await backend.registerDevice("router_01", "Router", location);
+            await backend.toggleDeviceStatus("router_01");
+
+            await expectCode(
+                backend.submitData("router_01", measurement),
+                "DeviceInactive"
+            );
+            await expectCode(
+                backend.updateLocation("router_01", measurement.location),
+                "DeviceInactive"
+            );
+
+            await backend.toggleDeviceStatus("router_01");
+            await backend.updateLocation("router_01", measurement.location);
+            expect(stats(await backend.getDevice("router_01"))).to.deep.include(
+                {
+                    isActive: true,
+                    location: measurement.location,
+                }
+            );
+        },
+    },
+    {
+        name: "blocks registrations and submissions while paused",
+        async run({ backend, pause, resume }) {
+            await backend.registerDevice("router_01", "Router", location);
+            await pause();
+            try {
+                await expectCode(
+                    backend.registerDevice("router_02", "Router", location),
+                    "ProgramPaused"
+                );
+                // Account constraints run before the pause check
+                await expectCode(
+                    backend.registerDevice("router_01", "Router", location),
+                    "TransactionFailed"
+                );
+                await expectCode(
+                    backend.submitData("router_01", measurement),
+                    "ProgramPaused"
+                );
+
+                // Device management is not gated by the pause
+                await backend.updateLocation("router_01", measurement.location);
+                await backend.toggleDeviceStatus("router_01");
+            } finally {
+                await resume();
+            }
+
+            expect(stats(await backend.getDevice("router_01"))).to.deep.include(
+                {
+                    isActive: false,
+                    location: measurement.location,
+                }
+            );
+        },
+    },
+    {
+        // The program only accepts device instructions signed by the owner
+        name: "only lets the owner manage a device",
+        async run({ backend, intruder }) {
+            await backend.registerDevice("router_01", "Router", location);
+            // Creates the owner's reward account the intruder points at
+            await backend.submitData("router_01", measurement);
+
+            await expectCode(
+                intruder.toggleDeviceStatus("router_01"),
+                "Unauthorized"
+            );
+            await expectCode(
+                intruder.submitData("router_01", measurement),
+                "Unauthorized"
+            );
+            await expectCode(
+                intruder.updateLocation("router_01", measurement.location),
+                "Unauthorized"
+            );
+
+            await backend.toggleDeviceStatus("router_01");
+            expect(stats(await backend.getDevice("router_01"))).to.deep.include(
+                {
+                    isActive: false,
+                    submissionCount: 1,
+                    location,
+                }
+            );
+        },
+    },
+];
+
+const mockTarget = (): Target => ({
+    name: "mock",
+    enabled: true,
+    timeoutMs: 2000,
+    quiet: true,
+    async setup() {},
+    async create(rewardVault) {
+        const mock = createMockSolanaProgram({
+            clock: new VirtualClock(1700000000000),
+        });
+        mock.restore({ ...mock.snapshot(), rewardVault });
+
+        return {
+            backend: mock,
+            intruder: {
+                submitData: (deviceId, qualityData) =>
+                    mock.submitData(deviceId, qualityData, "mallory"),
+                updateLocation: (deviceId, newLocation) =>
+                    mock.updateLocation(deviceId, newLocation, "mallory"),
+                toggleDeviceStatus: (deviceId) =>
+                    mock.toggleDeviceStatus(deviceId, "mallory"),
+            },
+            pause: async () => {
+                await mock.pauseProgram();
+            },
+            resume: async () => {
+                await mock.resumeProgram();
+            },
+        };
+    },
+});
+
+const validatorTarget = (): Target => {
+    const url = process.env.CONFORMANCE_VALIDATOR_URL;
+    let connection: Connection;
+    let programId: PublicKey;
+    let authority: Keypair;
+    let admin: DePINfinityClient;
+    let mint: PublicKey;
+
+    const fund = async (key: PublicKey) => {
+        const signature = await connection.requestAirdrop(
+            key,
+            2 * LAMPORTS_PER_SOL
+        );
+        const latest = await connection.getLatestBlockhash();
+        await connection.confirmTransaction({ signature, ...latest });
+    };
+
+    return {
+        name: "validator",
+        enabled: !!url,
+        timeoutMs: 60000,
+        quiet: false,
+        async setup() {
+            connection = new Connection(url!, "confirmed");
+            programId = new PublicKey(process.env.PROGRAM_ID!);
+            authority = Keypair.generate();
+            await fund(authority.publicKey);
+
+            admin = new DePINfinityClient(
+                connection,
+                new Wallet(authority),
+                programId
+            );
+            await admin.initialize();
+            mint = await createMint(
+                connection,
+                authority,
+                authority.publicKey,
+                null,
+                9
+            );
+        },
+        async create(rewardVault) {
+            const owner = Keypair.generate();
+            const intruder = Keypair.generate();
+            await fund(owner.publicKey);
+            await fund(intruder.publicKey);
+
+            // Each harness gets its own vault, owned by the program
+            const vault = await createAccount(
+                connection,
+                authority,
+                mint,
+                vaultAuthorityPda(programId)[0],
+                Keypair.generate()
+            );
+            if (rewardVault > 0) {
+                await mintTo(
+                    connection,
+                    authority,
+                    mint,
+                    vault,
+                    authority,
+                    rewardVault
+                );
+            }
+
+            const backend = new DePINfinityClient(
+                connection,
+                new Wallet(owner),
+                programId,
+                { docomoMint: mint, rewardVault: vault }
+            );
+
+            // The owner's accounts in instructions the intruder signs
+            const sender = new TransactionSender(
+                connection,
+                new Wallet(intruder)
+            );
+            const device = (deviceId: string) =>
+                devicePda(programId, owner.publicKey, deviceId)[0];
+
+            return {
+                backend,
+                intruder: {
+                    async submitData(deviceId, qualityData) {
+                        const { submissionCount } = (await backend.getDevice(
+                            deviceId
+                        ))!;
+                        return sender.send([
+                            submitDataInstruction(
+                                programId,
+                                {
+                                    device: device(deviceId),
+                                    dataSubmission: dataSubmissionPda(
+                                        programId,
+                                        device(deviceId),
+                                        submissionCount
+                                    )[0],
+                                    programState:
+                                        programStatePda(programId)[0],
+                                    rewardVault: vault,
+                                    userTokenAccount:
+                                        await getAssociatedTokenAddress(
+                                            mint,
+                                            owner.publicKey
+                                        ),
+                                    user: intruder.publicKey,
+                                },
+                                { qualityData }
+                            ),
+                        ]);
+                    },
+                    updateLocation: (deviceId, newLocation) =>
+                        sender.send([
+                            updateLocationInstruction(
+                                programId,
+                                {
+                                    device: device(deviceId),
+                                    user: intruder.publicKey,
+                                },
+                                { newLocation }
+                            ),
+                        ]),
+                    toggleDeviceStatus: (deviceId) =>
+                        sender.send([
+                            toggleDeviceStatusInstruction(programId, {
+                                device: device(deviceId),
+                                user: intruder.publicKey,
+                            }),
+                        ]),
+                },
+                pause: async () => {
+                    await admin.admin().pauseProgram();
+                },
+                resume: async () => {
+                    await admin.admin().resumeProgram();
+                },
+            };
+        },
+    };
+};
+
+for (const target of [mockTarget(), validatorTarget()]) {
+    (target.enabled ? describe : describe.skip)(
+        `conformance: ${target.name}`,
+        function () {
+            this.timeout(target.timeoutMs);
+            const { log } = console;
+
+            before(async () => {
+                await target.setup();
+            });
+
+            beforeEach(() => {
+                if (target.quiet) console.log = () => {};
+            });
+
+            afterEach(() => {
+                console.log = log;
+            });
+
+            for (const scenario of SCENARIOS) {
+                it(scenario.name, async () => {
+                    await scenario.run(
+                        await target.create(scenario.rewardVault ?? 1000000000)
+                    );
+                });
+            }
+        }
+    );
+}
@@ -9,6 +9,12 @@ import {
     mintTo,
 } from "@solana/spl-token";
 import { expect } from "chai";
+import {
+    dataSubmissionPda,
+    devicePda,
+    programStatePda,
+    vaultAuthorityPda,
+} from "../sdk/src/pdas";
 
 describe("depinfinity", () => {
     // Configure the client to use the local cluster.
@@ -24,6 +30,18 @@ describe("depinfinity", () => {
     let rewardVault: PublicKey;
     let userTokenAccount: PublicKey;
 
+    // DataSubmission address for a device's next submission, seeded with
+    // its submission count
+    const nextSubmissionPDA = async (devicePDA: PublicKey) => {
+        const device = await program.account.device.fetch(devicePDA);
+        const [dataSubmissionPDA] = dataSubmissionPda(
+            program.programId,
+            devicePDA,
+            device.submissionCount.toNumber()
+        );
+        return dataSubmissionPDA;
+    };
+
     before(async () => {
         // Create test keypairs
         authority = Keypair.generate();
@@ -48,12 +66,14 @@ describe("depinfinity", () => {
             9 // 9 decimals
         );
 
-        // Create reward vault
+        // Create reward vault, owned by the ProgramState PDA that signs
+        // reward transfers
         rewardVault = await createAccount(
             provider.connection,
             authority,
             mint,
-            authority.publicKey
+            vaultAuthorityPda(program.programId)[0],
+            Keypair.generate()
         );
 
         // Create user token account
@@ -76,10 +96,7 @@ describe("depinfinity", () => {
     });
 
     it("Initializes the program", async () => {
-        const [programStatePDA] = PublicKey.findProgramAddressSync(
-            [Buffer.from("program_state")],
-            program.programId
-        );
+        const [programStatePDA] = programStatePda(program.programId);
 
         const tx = await program.methods
             .initialize()
@@ -114,19 +131,13 @@ describe("depinfinity", () => {
             accuracy: new anchor.BN(100),
         };
 
-        const [devicePDA] = PublicKey.findProgramAddressSync(
-            [
-                Buffer.from("device"),
-                user.publicKey.toBuffer(),
-                Buffer.from(deviceId),
-            ],
-            program.programId
+        const [devicePDA] = devicePda(
+            program.programId,
+            user.publicKey,
+            deviceId
         );
 
-        const [programStatePDA] = PublicKey.findProgramAddressSync(
-            [Buffer.from("program_state")],
-            program.programId
-        );
+        const [programStatePDA] = programStatePda(program.programId);
 
         const tx = await program.methods
             .registerDevice(deviceId, deviceType, location)
@@ -149,6 +160,7 @@ describe("depinfinity", () => {
         expect(device.isActive).to.be.true;
         expect(device.totalUptime.toNumber()).to.equal(0);
         expect(device.totalRewardsEarned.toNumber()).to.equal(0);
+        expect(device.submissionCount.toNumber()).to.equal(0);
     });
 
     it("Submits network quality data and earns rewards", async () => {
@@ -165,28 +177,15 @@ describe("depinfinity", () => {
             },
         };
 
-        const [devicePDA] = PublicKey.findProgramAddressSync(
-            [
-                Buffer.from("device"),
-                user.publicKey.toBuffer(),
-                Buffer.from(deviceId),
-            ],
-            program.programId
+        const [devicePDA] = devicePda(
+            program.programId,
+            user.publicKey,
+            deviceId
         );
 
-        const [dataSubmissionPDA] = PublicKey.findProgramAddressSync(
-            [
-                Buffer.from("data"),
-                devicePDA.toBuffer(),
-                Buffer.from(Date.now().toString()),
-            ],
-            program.programId
-        );
+        const dataSubmissionPDA = await nextSubmissionPDA(devicePDA);
 
-        const [programStatePDA] = PublicKey.findProgramAddressSync(
-            [Buffer.from("program_state")],
-            program.programId
-        );
+        const [programStatePDA] = programStatePda(program.programId);
 
         // Get initial token balance
         const initialBalance = await provider.connection.getTokenAccountBalance(
@@ -228,6 +227,7 @@ describe("depinfinity", () => {
         const device = await program.account.device.fetch(devicePDA);
         expect(device.totalUptime.toNumber()).to.equal(1);
         expect(device.totalRewardsEarned.toNumber()).to.be.greaterThan(0);
+        expect(device.submissionCount.toNumber()).to.equal(1);
 
         // Verify user received tokens
         const finalBalance = await provider.connection.getTokenAccountBalance(
@@ -246,13 +246,10 @@ describe("depinfinity", () => {
             accuracy: new anchor.BN(50),
         };
 
-        const [devicePDA] = PublicKey.findProgramAddressSync(
-            [
-                Buffer.from("device"),
-                user.publicKey.toBuffer(),
-                Buffer.from(deviceId),
-            ],
-            program.programId
+        const [devicePDA] = devicePda(
+            program.programId,
+            user.publicKey,
+            deviceId
         );
 
         const tx = await program.methods
@@ -282,13 +279,10 @@ describe("depinfinity", () => {
     it("Toggles device status", async () => {
         const deviceId = "test_device_001";
 
-        const [devicePDA] = PublicKey.findProgramAddressSync(
-            [
-                Buffer.from("device"),
-                user.publicKey.toBuffer(),
-                Buffer.from(deviceId),
-            ],
-            program.programId
+        const [devicePDA] = devicePda(
+            program.programId,
+            user.publicKey,
+            deviceId
         );
 
         // Get initial status
@@ -312,10 +306,7 @@ describe("depinfinity", () => {
     });
 
     it("Pauses and resumes the program (authority only)", async () => {
-        const [programStatePDA] = PublicKey.findProgramAddressSync(
-            [Buffer.from("program_state")],
-            program.programId
-        );
+        const [programStatePDA] = programStatePda(program.programId);
 
         // Pause program
         const pauseTx = await program.methods
@@ -354,6 +345,112 @@ describe("depinfinity", () => {
         expect(programState.isActive).to.be.true;
     });
 
+    it("Rejects registrations while paused", async () => {
+        const [programStatePDA] = programStatePda(program.programId);
+        const [pausedDevicePDA] = devicePda(
+            program.programId,
+            user.publicKey,
+            "paused_device"
+        );
+
+        await program.methods
+            .pauseProgram()
+            .accounts({
+                programState: programStatePDA,
+                authority: authority.publicKey,
+            })
+            .signers([authority])
+            .rpc();
+
+        try {
+            await program.methods
+                .registerDevice(
+                    "paused_device",
+                    { smartphone: {} },
+                    {
+                        latitude: new anchor.BN(35676200000),
+                        longitude: new anchor.BN(139650300000),
+                        accuracy: new anchor.BN(100),
+                    }
+                )
+                .accounts({
+                    device: pausedDevicePDA,
+                    programState: programStatePDA,
+                    user: user.publicKey,
+                    systemProgram: SystemProgram.programId,
+                })
+                .signers([user])
+                .rpc();
+            expect.fail("Registration should fail while paused");
+        } catch (error: any) {
+            expect(error.error?.errorCode?.code).to.equal("ProgramPaused");
+        } finally {
+            await program.methods
+                .resumeProgram()
+                .accounts({
+                    programState: programStatePDA,
+                    authority: authority.publicKey,
+                })
+                .signers([authority])
+                .rpc();
+        }
+    });
+
+    it("Transfers authority with both signatures", async () => {
+        const [programStatePDA] = programStatePda(program.programId);
+        const newAuthority = Keypair.generate();
+
+        await program.methods
+            .transferAuthority()
+            .accounts({
+                programState: programStatePDA,
+                authority: authority.publicKey,
+                newAuthority: newAuthority.publicKey,
+            })
+            .signers([authority, newAuthority])
+            .rpc();
+
+        let programState = await program.account.programState.fetch(
+            programStatePDA
+        );
+        expect(programState.authority.toBase58()).to.equal(
+            newAuthority.publicKey.toBase58()
+        );
+
+        // The previous authority can no longer pause the program
+        try {
+            await program.methods
+                .pauseProgram()
+                .accounts({
+                    programState: programStatePDA,
+                    authority: authority.publicKey,
+                })
+                .signers([authority])
+                .rpc();
+            expect.fail("Previous authority should be rejected");
+        } catch (error: any) {
+            expect(error.error?.errorCode?.code).to.equal("Unauthorized");
+        }
+
+        // Hand it back for the remaining tests
+        await program.methods
+            .transferAuthority()
+            .accounts({
+                programState: programStatePDA,
+                authority: newAuthority.publicKey,
+                newAuthority: authority.publicKey,
+            })
+            .signers([newAuthority, authority])
+            .rpc();
+
+        programState = await program.account.programState.fetch(
+            programStatePDA
+        );
+        expect(programState.authority.toBase58()).to.equal(
+            authority.publicKey.toBase58()
+        );
+    });
+
     it("Handles multiple devices and data submissions", async () => {
         // Register second device
         const deviceId2 = "test_device_002";
@@ -364,19 +461,13 @@ describe("depinfinity", () => {
             accuracy: new anchor.BN(100),
         };
 
-        const [devicePDA2] = PublicKey.findProgramAddressSync(
-            [
-                Buffer.from("device"),
-                user.publicKey.toBuffer(),
-                Buffer.from(deviceId2),
-            ],
-            program.programId
+        const [devicePDA2] = devicePda(
+            program.programId,
+            user.publicKey,
+            deviceId2
         );
 
-        const [programStatePDA] = PublicKey.findProgramAddressSync(
-            [Buffer.from("program_state")],
-            program.programId
-        );
+        const [programStatePDA] = programStatePda(program.programId);
 
         await program.methods
             .registerDevice(deviceId2, deviceType2, location2)
@@ -404,14 +495,7 @@ describe("depinfinity", () => {
                 },
             };
 
-            const [dataSubmissionPDA1] = PublicKey.findProgramAddressSync(
-                [
-                    Buffer.from("data"),
-                    devicePDA.toBuffer(),
-                    Buffer.from((Date.now() + i).toString()),
-                ],
-                program.programId
-            );
+            const dataSubmissionPDA1 = await nextSubmissionPDA(devicePDA);
 
             await program.methods
                 .submitData(qualityData1)
@@ -441,14 +525,7 @@ describe("depinfinity", () => {
                 },
             };
 
-            const [dataSubmissionPDA2] = PublicKey.findProgramAddressSync(
-                [
-                    Buffer.from("data"),
-                    devicePDA2.toBuffer(),
-                    Buffer.from((Date.now() + i + 1000).toString()),
-                ],
-                program.programId
-            );
+            const dataSubmissionPDA2 = await nextSubmissionPDA(devicePDA2);
 
             await program.methods
                 .submitData(qualityData2)
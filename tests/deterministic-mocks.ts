@@ -0,0 +1,174 @@
+import { expect } from "chai";
+import { VirtualClock, seededRandom } from "../sdk/src";
+import { createMockSolanaProgram } from "../mock-solana/src";
+import { createMockCordaNetwork } from "../mock-corda/src";
+import { replayDemo } from "../demo-simulator/src";
+
+// Capture console output while `run` is in progress
+async function captureLog(run: () => Promise<unknown>): Promise<string[]> {
+    const lines: string[] = [];
+    const { log, error } = console;
+    console.log = console.error = (...args: unknown[]) => {
+        lines.push(args.map(String).join(" "));
+    };
+    try {
+        await run();
+    } finally {
+        console.log = log;
+        console.error = error;
+    }
+    return lines;
+}
+
+describe("deterministic mocks", () => {
+    const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+
+    it("repeats the random sequence of a seed", () => {
+        const draw = (seed: number) => {
+            const random = seededRandom(seed);
+            return Array.from({ length: 5 }, () => random());
+        };
+
+        expect(draw(7)).to.deep.equal(draw(7));
+        expect(draw(7)).not.to.deep.equal(draw(8));
+        draw(7).forEach((value) => expect(value).to.be.within(0, 1));
+    });
+
+    it("fires virtual timers in due order only when advanced", async () => {
+        const clock = new VirtualClock(1000);
+        const fired: string[] = [];
+
+        clock.setTimeout(() => fired.push("late"), 200);
+        clock.setTimeout(() => fired.push("early"), 100);
+        const tick = clock.setInterval(() => fired.push("tick"), 150);
+        const cancelled = clock.setTimeout(() => fired.push("never"), 50);
+        clock.clearTimeout(cancelled);
+
+        expect(fired).to.be.empty;
+        await clock.advance(300);
+        expect(fired).to.deep.equal(["early", "tick", "late", "tick"]);
+        expect(clock.now()).to.equal(1300);
+
+        clock.clearInterval(tick);
+        await clock.advance(1000);
+        expect(fired).to.have.length(4);
+    });
+
+    it("only simulates submissions between start and stop", async () => {
+        const clock = new VirtualClock();
+        const mock = createMockSolanaProgram({ clock, seed: 1 });
+
+        await captureLog(async () => {
+            await mock.registerDevice("router_01", "Router", location);
+            await clock.advance(60000);
+            expect(mock.getAllDevices()[0].submissionCount).to.equal(0);
+
+            mock.start();
+            await clock.advance(60000);
+            mock.stop();
+            await clock.advance(60000);
+        });
+
+        expect(mock.getAllDevices()[0].submissionCount).to.equal(2);
+    });
+
+    it("logs simulated submissions the program refuses", async () => {
+        const clock = new VirtualClock();
+        const mock = createMockSolanaProgram({ clock, seed: 1 });
+        const rejections: unknown[] = [];
+        const onRejection = (reason: unknown) => rejections.push(reason);
+        process.on("unhandledRejection", onRejection);
+
+        try {
+            const lines = await captureLog(async () => {
+                await mock.registerDevice("router_01", "Router", location);
+                mock.restore({ ...mock.snapshot(), rewardVault: 0 });
+                mock.start();
+                await clock.advance(30000);
+                mock.stop();
+                await new Promise((resolve) => setImmediate(resolve));
+            });
+
+            expect(lines.join("\n")).to.include(
+                "Error simulating data submission"
+            );
+            expect(rejections).to.be.empty;
+        } finally {
+            process.off("unhandledRejection", onRejection);
+        }
+    });
+
+    it("logs simulated B2B executions that fail", async () => {
+        const clock = new VirtualClock();
+        const network = createMockCordaNetwork({ clock, seed: 1 });
+        const rejections: unknown[] = [];
+        const onRejection = (reason: unknown) => rejections.push(reason);
+        process.on("unhandledRejection", onRejection);
+
+        try {
+            const lines = await captureLog(async () => {
+                await network.createRoamingAgreement({
+                    partnerId: "softbank",
+                    region: "tokyo",
+                    terms: {
+                        dataSharing: true,
+                        infrastructureAccess: false,
+                        revenueSharing: 20,
+                        duration: 12,
+                    },
+                    networkData: {
+                        averageQuality: 0.9,
+                        coverageArea: 1000,
+                        deviceCount: 3,
+                    },
+                });
+                const snapshot = network.snapshot();
+                snapshot.roamingAgreements[0].status = "ACTIVE";
+                network.restore(snapshot);
+                network.on("roamingAgreementExecuted", () => {
+                    throw new Error("listener failed");
+                });
+
+                network.start();
+                await clock.advance(120000);
+                network.stop();
+                await new Promise((resolve) => setImmediate(resolve));
+            });
+
+            expect(lines.join("\n")).to.include(
+                "Error simulating roaming agreement"
+            );
+            expect(rejections).to.be.empty;
+        } finally {
+            process.off("unhandledRejection", onRejection);
+        }
+    });
+
+    it("keeps factory instances isolated", async () => {
+        const first = createMockSolanaProgram();
+        const second = createMockSolanaProgram();
+
+        await captureLog(() =>
+            first.registerDevice("router_01", "Router", location)
+        );
+
+        expect(await first.getDevice("router_01")).not.to.be.null;
+        expect(await second.getDevice("router_01")).to.be.null;
+        expect(createMockCordaNetwork().getNetworkStats()).to.deep.equal({
+            totalDataPoints: 0,
+            activeAgreements: 0,
+            activeContracts: 0,
+            totalRevenue: 0,
+        });
+    });
+
+    it("replays a demo run byte-for-byte from its seed", async () => {
+        const first = await captureLog(() => replayDemo(42));
+        const second = await captureLog(() => replayDemo(42));
+        const other = await captureLog(() => replayDemo(43));
+
+        expect(first).to.include("🎬 Demo simulation completed");
+        expect(second.join("\n")).to.equal(first.join("\n"));
+        expect(other.join("\n")).not.to.equal(first.join("\n"));
+    });
+});
@@ -0,0 +1,209 @@
+import { expect } from "chai";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import { DePINfinityClient } from "../sdk/src";
+import { accountDecoder } from "../sdk/src/coder";
+import { inactiveSince, summarizeFleet } from "../sdk/src/fleet";
+import { Device } from "../sdk/src/types/depinfinity";
+import { FakeConnection } from "./support/fake-connection";
+import { encodeDevice } from "./support/accounts";
+
+describe("device portfolio", () => {
+    const alice = Keypair.generate().publicKey.toBase58();
+    const bob = Keypair.generate().publicKey.toBase58();
+    const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+
+    const fleet: Omit<Device, "bump">[] = [
+        {
+            owner: alice,
+            deviceId: "router_shibuya",
+            deviceType: "Router",
+            location,
+            isActive: true,
+            totalUptime: 120,
+            totalRewardsEarned: 240000,
+            lastActivity: 1760860800,
+            submissionCount: 120,
+        },
+        {
+            owner: alice,
+            deviceId: "hotspot_ginza",
+            deviceType: "Hotspot",
+            location,
+            isActive: false,
+            totalUptime: 30,
+            totalRewardsEarned: 45000,
+            lastActivity: 1760000000,
+            submissionCount: 30,
+        },
+        {
+            owner: alice,
+            deviceId: "r2",
+            deviceType: "Router",
+            location,
+            isActive: false,
+            totalUptime: 0,
+            totalRewardsEarned: 0,
+            lastActivity: 1759000000,
+            submissionCount: 0,
+        },
+        {
+            owner: bob,
+            deviceId: "phone",
+            deviceType: "Smartphone",
+            location,
+            isActive: true,
+            totalUptime: 5,
+            totalRewardsEarned: 9000,
+            lastActivity: 1760860000,
+            submissionCount: 5,
+        },
+    ];
+
+    const accounts = [
+        ...fleet.map((device) => ({
+            pubkey: Keypair.generate().publicKey,
+            account: {
+                data: encodeDevice(device),
+                executable: false,
+                lamports: 1,
+                owner: PublicKey.default,
+            },
+        })),
+        // Other account types are filtered out by discriminator
+        {
+            pubkey: Keypair.generate().publicKey,
+            account: {
+                data: Buffer.concat([
+                    accountDecoder.discriminator("ProgramState"),
+                    Buffer.alloc(50),
+                ]),
+                executable: false,
+                lamports: 1,
+                owner: PublicKey.default,
+            },
+        },
+    ];
+
+    let connection: FakeConnection;
+    let client: DePINfinityClient;
+
+    beforeEach(() => {
+        connection = new FakeConnection(accounts);
+        client = new DePINfinityClient(
+            connection as unknown as Connection,
+            new Wallet(Keypair.generate()),
+            Keypair.generate().publicKey
+        );
+    });
+
+    it("lists every device", async () => {
+        const devices = await client.listDevices();
+
+        expect(devices.map((d) => d.deviceId)).to.deep.equal([
+            "router_shibuya",
+            "hotspot_ginza",
+            "r2",
+            "phone",
+        ]);
+        expect(devices[0].address).to.equal(accounts[0].pubkey.toBase58());
+    });
+
+    it("skips a device whose counters do not fit in a number", async () => {
+        const overflowing = {
+            pubkey: Keypair.generate().publicKey,
+            account: {
+                ...accounts[0].account,
+                data: encodeDevice({
+                    ...fleet[0],
+                    deviceId: "router_overflow",
+                    totalRewardsEarned: 2 ** 53,
+                }),
+            },
+        };
+        client = new DePINfinityClient(
+            new FakeConnection([
+                ...accounts,
+                overflowing,
+            ]) as unknown as Connection,
+            new Wallet(Keypair.generate()),
+            Keypair.generate().publicKey
+        );
+
+        const { warn } = console;
+        const warnings: string[] = [];
+        console.warn = (message: string) => warnings.push(message);
+        const devices = await client.listDevices().finally(() => {
+            console.warn = warn;
+        });
+
+        expect(devices).to.have.length(fleet.length);
+        expect(warnings).to.have.length(1);
+        expect(warnings[0]).to.include(overflowing.pubkey.toBase58());
+    });
+
+    it("filters by owner on the RPC node", async () => {
+        const devices = await client.listDevices({ owner: bob });
+
+        expect(devices.map((d) => d.deviceId)).to.deep.equal(["phone"]);
+        expect(connection.requests[0].filters).to.deep.include({
+            memcmp: { offset: 8, bytes: bob },
+        });
+    });
+
+    it("filters by device type and status", async () => {
+        const routers = await client.listDevices({
+            owner: new PublicKey(alice),
+            deviceType: "Router",
+        });
+        const inactive = await client.listDevices({ isActive: false });
+
+        expect(routers.map((d) => d.deviceId)).to.deep.equal([
+            "router_shibuya",
+            "r2",
+        ]);
+        expect(inactive.map((d) => d.deviceId)).to.deep.equal([
+            "hotspot_ginza",
+            "r2",
+        ]);
+    });
+
+    it("lists addresses without fetching account data", async () => {
+        const addresses = await client.listDeviceAddresses(alice);
+
+        expect(addresses.map((a) => a.toBase58())).to.deep.equal(
+            accounts.slice(0, 3).map((a) => a.pubkey.toBase58())
+        );
+        expect(connection.requests[0].dataSlice).to.deep.equal({
+            offset: 0,
+            length: 0,
+        });
+    });
+
+    it("summarizes an owner's fleet", async () => {
+        expect(await client.getFleetSummary(alice)).to.deep.equal({
+            deviceCount: 3,
+            activeDevices: 1,
+            totalRewardsEarned: 285000,
+            totalUptime: 150,
+            lastActivity: 1760860800,
+        });
+        expect(summarizeFleet([])).to.deep.equal({
+            deviceCount: 0,
+            activeDevices: 0,
+            totalRewardsEarned: 0,
+            totalUptime: 0,
+            lastActivity: null,
+        });
+    });
+
+    it("finds devices inactive since a timestamp", async () => {
+        const stale = await client.getInactiveDevices(1760500000, alice);
+
+        expect(stale.map((d) => d.deviceId)).to.deep.equal([
+            "r2",
+            "hotspot_ginza",
+        ]);
+        expect(inactiveSince(stale, 1759000000)).to.be.empty;
+    });
+});
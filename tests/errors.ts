@@ -0,0 +1,168 @@
+import * as fs from "fs";
+import * as path from "path";
+import { expect } from "chai";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { DePINfinityClient } from "../sdk/src";
+import {
+    BridgeError,
+    CordaRequestError,
+    DePINfinityError,
+    DeviceInactiveError,
+    InsufficientRewardsError,
+    decodeProgramError,
+    extractProgramErrorCode,
+    fromProgramErrorCode,
+    isInsufficientFundsError,
+} from "../sdk/src/errors";
+import { CordaBridge } from "../bridge/corda-bridge";
+
+describe("error model", () => {
+    it("covers every ErrorCode variant of the program, in order", () => {
+        const source = fs.readFileSync(
+            path.join(__dirname, "../programs/depinfinity/src/lib.rs"),
+            "utf-8"
+        );
+        const body = source.match(/pub enum ErrorCode \{([\s\S]*?)\}/)![1];
+        const variants = [
+            ...body.matchAll(/#\[msg\("([^"]*)"\)\]\s*(\w+),/g),
+        ].map(([, message, name]) => ({ message, name }));
+
+        expect(variants).to.have.length.greaterThan(0);
+        variants.forEach(({ message, name }, index) => {
+            const error = fromProgramErrorCode(6000 + index);
+            expect(error?.code).to.equal(name);
+            expect(error?.message).to.equal(message);
+            expect(error?.programErrorCode).to.equal(6000 + index);
+        });
+        expect(fromProgramErrorCode(6000 + variants.length)).to.equal(null);
+    });
+
+    it("extracts custom error numbers from every failure shape", () => {
+        expect(
+            extractProgramErrorCode({ InstructionError: [1, { Custom: 6003 }] })
+        ).to.equal(6003);
+        expect(
+            extractProgramErrorCode({
+                error: { errorCode: { code: "ProgramPaused", number: 6001 } },
+            })
+        ).to.equal(6001);
+        expect(
+            extractProgramErrorCode({ code: 6002, msg: "Invalid data quality" })
+        ).to.equal(6002);
+        expect(
+            extractProgramErrorCode({
+                logs: ["Program X failed: custom program error: 0x1773"],
+            })
+        ).to.equal(6003);
+        expect(
+            extractProgramErrorCode(
+                new Error(
+                    "failed to send transaction: custom program error: 0x1770"
+                )
+            )
+        ).to.equal(6000);
+        expect(extractProgramErrorCode({ code: -32002 })).to.equal(null);
+        expect(extractProgramErrorCode("boom")).to.equal(null);
+    });
+
+    it("decodes into the matching class and keeps the cause", () => {
+        const failure = { InstructionError: [0, { Custom: 6003 }] };
+        const error = decodeProgramError(failure);
+
+        expect(error).to.be.instanceOf(InsufficientRewardsError);
+        expect(error).to.be.instanceOf(DePINfinityError);
+        expect(error?.cause).to.equal(failure);
+        expect(decodeProgramError({ InstructionError: [0, { Custom: 3012 }] }))
+            .to.be.null;
+    });
+
+    it("recognizes a reward vault that cannot cover the transfer", () => {
+        const logs = [
+            "Program Tokenkeg... invoke [2]",
+            "Program log: Instruction: Transfer",
+            "Program log: Error: insufficient funds",
+            "Program Tokenkeg... failed: custom program error: 0x1",
+        ];
+
+        expect(isInsufficientFundsError({ logs })).to.be.true;
+        expect(isInsufficientFundsError({ logs: logs.slice(0, 2) })).to.be
+            .false;
+        expect(isInsufficientFundsError(new Error("boom"))).to.be.false;
+    });
+
+    it("lets callers switch on codes", () => {
+        const advice = (error: DePINfinityError): string => {
+            switch (error.code) {
+                case "DeviceInactive":
+                    return "reactivate the device";
+                case "ProgramPaused":
+                    return "retry later";
+                default:
+                    return "unexpected";
+            }
+        };
+
+        expect(advice(new DeviceInactiveError())).to.equal(
+            "reactivate the device"
+        );
+        expect(advice(fromProgramErrorCode(6001)!)).to.equal("retry later");
+    });
+
+    describe("CordaBridge", () => {
+        const originalFetch = globalThis.fetch;
+        const bridge = (connection: Partial<Connection>) =>
+            new CordaBridge(
+                {
+                    programId: PublicKey.default,
+                } as unknown as DePINfinityClient,
+                connection as Connection,
+                "https://corda.example",
+                "key"
+            );
+        const aggregated = {
+            region: { latitude: 0, longitude: 0, radius: 0 },
+            averageSignalStrength: -60,
+            averageLatency: 40,
+            averageThroughput: 1000000,
+            averageAvailability: 0.99,
+            deviceCount: 1,
+            dataPoints: 1,
+            timestamp: 0,
+        };
+
+        afterEach(() => {
+            globalThis.fetch = originalFetch;
+        });
+
+        it("preserves the cause of aggregation failures", async () => {
+            const cause = new Error("429 Too Many Requests");
+            const error = await bridge({
+                getProgramAccounts: async () => {
+                    throw cause;
+                },
+            })
+                .aggregateNetworkData({ start: 0, end: 1 })
+                .catch((error) => error);
+
+            expect(error).to.be.instanceOf(BridgeError);
+            expect(error.code).to.equal("AggregationFailed");
+            expect(error.cause).to.equal(cause);
+        });
+
+        it("passes Corda API errors through unchanged", async () => {
+            globalThis.fetch = (async () =>
+                new Response("", {
+                    status: 503,
+                    statusText: "Service Unavailable",
+                })) as typeof fetch;
+
+            const error = await bridge({})
+                .migrateToCorda(aggregated)
+                .catch((error) => error);
+
+            expect(error).to.be.instanceOf(CordaRequestError);
+            expect(error.code).to.equal("CordaRequestFailed");
+            expect(error.status).to.equal(503);
+        });
+    });
+});
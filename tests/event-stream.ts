@@ -0,0 +1,318 @@
+import { expect } from "chai";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import {
+    DePINfinityEventMap,
+    DePINfinityEventName,
+    DePINfinityEventStream,
+    dataSubmissionPda,
+    devicePda,
+    estimateReward,
+    programStatePda,
+} from "../sdk/src";
+import { Device } from "../sdk/src/types/depinfinity";
+import { FakeConnection } from "./support/fake-connection";
+import {
+    encodeDataSubmission,
+    encodeDevice,
+    encodeProgramState,
+} from "./support/accounts";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("event stream", () => {
+    const programId = Keypair.generate().publicKey;
+    const owner = Keypair.generate().publicKey;
+    const authority = Keypair.generate().publicKey;
+    const [programStatePDA] = programStatePda(programId);
+    const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+    const quality = {
+        signalStrength: -60,
+        latency: 40,
+        throughput: 1200000,
+        availability: 0.5,
+    };
+
+    const device = (
+        deviceId: string,
+        changes: Partial<Omit<Device, "bump">> = {}
+    ): Omit<Device, "bump"> => ({
+        owner: owner.toBase58(),
+        deviceId,
+        deviceType: "Router",
+        location,
+        isActive: true,
+        totalUptime: 0,
+        totalRewardsEarned: 0,
+        lastActivity: 1760860800,
+        submissionCount: 0,
+        ...changes,
+    });
+
+    const address = (deviceId: string) =>
+        devicePda(programId, owner, deviceId)[0];
+    const registeredLog = (deviceId: string, by: PublicKey = owner) =>
+        `Program log: Device registered: ${deviceId} by ${by.toBase58()}`;
+
+    let connection: FakeConnection;
+    let stream: DePINfinityEventStream;
+    let events: { name: DePINfinityEventName; payload: unknown }[];
+
+    const record = (...names: DePINfinityEventName[]) => {
+        for (const name of names) {
+            stream.on(name, (payload) => events.push({ name, payload }));
+        }
+    };
+    const payloads = <K extends DePINfinityEventName>(name: K) =>
+        events
+            .filter((event) => event.name === name)
+            .map((event) => event.payload as DePINfinityEventMap[K]);
+
+    // Store a submission the way submit_data does, bumping the device
+    const submit = (
+        deviceId: string,
+        before: Omit<Device, "bump">,
+        reward: number,
+        deviceFirst: boolean
+    ) => {
+        const after = device(deviceId, {
+            totalUptime: before.totalUptime + (reward > 0 ? 1 : 0),
+            totalRewardsEarned: before.totalRewardsEarned + reward,
+            submissionCount: before.submissionCount + 1,
+        });
+        const [submissionPDA] = dataSubmissionPda(
+            programId,
+            address(deviceId),
+            before.submissionCount
+        );
+        const updateDevice = () =>
+            connection.setAccount(address(deviceId), encodeDevice(after));
+        const storeSubmission = () =>
+            connection.setAccount(
+                submissionPDA,
+                encodeDataSubmission({
+                    device: address(deviceId).toBase58(),
+                    timestamp: 1760860800,
+                    ...quality,
+                    location,
+                })
+            );
+
+        if (deviceFirst) {
+            updateDevice();
+            storeSubmission();
+        } else {
+            storeSubmission();
+            updateDevice();
+        }
+        return after;
+    };
+
+    beforeEach(async () => {
+        connection = new FakeConnection([
+            {
+                pubkey: programStatePDA,
+                account: {
+                    data: encodeProgramState(authority, true),
+                    executable: false,
+                    lamports: 1,
+                    owner: programId,
+                },
+            },
+            {
+                pubkey: address("router_01"),
+                account: {
+                    data: encodeDevice(device("router_01")),
+                    executable: false,
+                    lamports: 1,
+                    owner: programId,
+                },
+            },
+        ]);
+        stream = new DePINfinityEventStream(
+            connection as unknown as Connection,
+            programId,
+            { healthCheckIntervalMs: 5 }
+        );
+        events = [];
+        await stream.start();
+    });
+
+    afterEach(async () => {
+        await stream.stop();
+    });
+
+    it("subscribes to devices, submissions, the program state and logs", async () => {
+        expect(connection.subscriptionCount).to.equal(4);
+
+        await stream.stop();
+        expect(connection.subscriptionCount).to.equal(0);
+        expect(stream.isRunning).to.be.false;
+    });
+
+    it("announces registrations whichever half arrives first", () => {
+        record("deviceRegistered");
+
+        connection.pushLogs([registeredLog("router_02")]);
+        connection.setAccount(
+            address("router_02"),
+            encodeDevice(device("router_02"))
+        );
+
+        connection.setAccount(
+            address("router_03"),
+            encodeDevice(device("router_03"))
+        );
+        connection.pushLogs([registeredLog("router_03")]);
+
+        expect(
+            payloads("deviceRegistered").map((d) => d.deviceId)
+        ).to.deep.equal(["router_02", "router_03"]);
+    });
+
+    it("pairs registrations of one device ID by owner", () => {
+        record("deviceRegistered");
+        const rival = Keypair.generate().publicKey;
+
+        connection.pushLogs([registeredLog("router_02", rival)]);
+        connection.setAccount(
+            address("router_02"),
+            encodeDevice(device("router_02"))
+        );
+        expect(payloads("deviceRegistered")).to.be.empty;
+
+        connection.setAccount(
+            devicePda(programId, rival, "router_02")[0],
+            encodeDevice(device("router_02", { owner: rival.toBase58() }))
+        );
+        connection.pushLogs([registeredLog("router_02")]);
+
+        expect(payloads("deviceRegistered").map((d) => d.owner)).to.deep.equal(
+            [rival.toBase58(), owner.toBase58()]
+        );
+    });
+
+    it("reports the first status change of a device seen before starting", () => {
+        record("deviceStatusChanged", "deviceRegistered");
+
+        connection.setAccount(
+            address("router_01"),
+            encodeDevice(device("router_01", { isActive: false }))
+        );
+
+        expect(payloads("deviceRegistered")).to.be.empty;
+        expect(payloads("deviceStatusChanged")).to.have.length(1);
+        expect(payloads("deviceStatusChanged")[0]).to.include({
+            deviceId: "router_01",
+            isActive: false,
+        });
+    });
+
+    it("includes the device and reward in submissions, in either order", () => {
+        record("dataSubmitted");
+        const reward = estimateReward(quality, 0);
+
+        const first = submit("router_01", device("router_01"), reward, true);
+        submit("router_01", first, estimateReward(quality, 1), false);
+
+        expect(
+            payloads("dataSubmitted").map(({ deviceId, rewardAmount }) => ({
+                deviceId,
+                rewardAmount,
+            }))
+        ).to.deep.equal([
+            { deviceId: "router_01", rewardAmount: reward },
+            {
+                deviceId: "router_01",
+                rewardAmount: estimateReward(quality, 1),
+            },
+        ]);
+        expect(payloads("dataSubmitted")[0].qualityData).to.deep.include(
+            quality
+        );
+    });
+
+    it("parses reward payouts from the program logs", () => {
+        record("rewardPaid");
+
+        connection.pushLogs(
+            ["Program log: Data submitted and rewards distributed: 0 tokens"],
+            "unpaid"
+        );
+        connection.pushLogs(
+            ["Program log: Data submitted and rewards distributed: 1404 tokens"],
+            "paid"
+        );
+
+        expect(payloads("rewardPaid")).to.deep.equal([
+            { signature: "paid", rewardAmount: 1404 },
+        ]);
+    });
+
+    it("detects pause and resume", () => {
+        record("programPaused", "programResumed");
+
+        connection.setAccount(
+            programStatePDA,
+            encodeProgramState(authority, false)
+        );
+        connection.setAccount(
+            programStatePDA,
+            encodeProgramState(authority, false)
+        );
+        connection.setAccount(
+            programStatePDA,
+            encodeProgramState(authority, true)
+        );
+
+        expect(events.map((event) => event.name)).to.deep.equal([
+            "programPaused",
+            "programResumed",
+        ]);
+        expect(
+            payloads("programPaused")[0].programState.isActive
+        ).to.be.false;
+    });
+
+    it("resubscribes once the RPC node is reachable again", async () => {
+        record("error", "reconnected");
+
+        connection.offline = true;
+        await wait(20);
+        expect(payloads("error")).to.have.length(1);
+        expect(payloads("reconnected")).to.be.empty;
+
+        connection.offline = false;
+        await wait(20);
+        expect(payloads("reconnected")).to.have.length(1);
+        expect(connection.subscriptionCount).to.equal(4);
+
+        // The re-created subscriptions deliver events
+        record("deviceStatusChanged");
+        connection.setAccount(
+            address("router_01"),
+            encodeDevice(device("router_01", { isActive: false }))
+        );
+        expect(payloads("deviceStatusChanged")).to.have.length(1);
+    });
+
+    it("does not keep the process alive with its health check", () => {
+        const timer = stream["healthCheck"] as NodeJS.Timeout;
+        expect(timer.hasRef()).to.be.false;
+    });
+
+    it("bounds registrations waiting for their other half", () => {
+        for (let i = 0; i < 300; i++) {
+            connection.pushLogs([registeredLog(`lost_${i}`)]);
+            connection.setAccount(
+                address(`orphan_${i}`),
+                encodeDevice(device(`orphan_${i}`))
+            );
+        }
+
+        expect(stream["pendingRegistrations"].size).to.equal(256);
+        expect(stream["unannouncedDevices"].size).to.equal(256);
+        expect(
+            stream["pendingRegistrations"].has(address("lost_299").toBase58())
+        ).to.be.true;
+    });
+});
@@ -0,0 +1,180 @@
+import { expect } from "chai";
+import {
+    BrowserLocationProvider,
+    GeolocationLike,
+    PrivateLocationProvider,
+    ReactNativeLocationProvider,
+    ReplayLocationProvider,
+    StaticLocationProvider,
+    withLocationPrivacy,
+} from "../sdk/src/location";
+import { LocationData } from "../sdk/src/types/depinfinity";
+
+const SHIBUYA: LocationData = {
+    latitude: 35.658034,
+    longitude: 139.701636,
+    accuracy: 5,
+};
+
+// Great-circle distance in metres
+const distance = (a: LocationData, b: LocationData): number => {
+    const rad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = rad(b.latitude - a.latitude);
+    const dLon = rad(b.longitude - a.longitude);
+    const h =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(rad(a.latitude)) *
+            Math.cos(rad(b.latitude)) *
+            Math.sin(dLon / 2) ** 2;
+    return 2 * 6371000 * Math.asin(Math.sqrt(h));
+};
+
+const rejection = async (promise: Promise<unknown>): Promise<Error> => {
+    try {
+        await promise;
+    } catch (error) {
+        return error as Error;
+    }
+    throw new Error("Expected promise to reject");
+};
+
+describe("location providers", () => {
+    it("reads positions from a geolocation module", async () => {
+        const geolocation: GeolocationLike = {
+            getCurrentPosition: (success) =>
+                success({
+                    coords: {
+                        latitude: SHIBUYA.latitude,
+                        longitude: SHIBUYA.longitude,
+                        accuracy: SHIBUYA.accuracy,
+                    },
+                }),
+        };
+
+        expect(
+            await new ReactNativeLocationProvider(geolocation).getLocation()
+        ).to.deep.equal(SHIBUYA);
+    });
+
+    it("rejects on geolocation errors instead of inventing a position", async () => {
+        const geolocation: GeolocationLike = {
+            getCurrentPosition: (_success, error) =>
+                error?.({ code: 1, message: "User denied Geolocation" }),
+        };
+
+        const error = await rejection(
+            new ReactNativeLocationProvider(geolocation).getLocation()
+        );
+        expect(error.message).to.equal(
+            "Geolocation error (1): User denied Geolocation"
+        );
+    });
+
+    it("rejects when the browser has no geolocation", async () => {
+        const error = await rejection(
+            new BrowserLocationProvider().getLocation()
+        );
+        expect(error.message).to.equal("Geolocation not supported");
+    });
+
+    it("reports a fixed location", async () => {
+        const provider = new StaticLocationProvider(SHIBUYA);
+        const location = await provider.getLocation();
+        location.latitude = 0;
+
+        expect(await provider.getLocation()).to.deep.equal(SHIBUYA);
+    });
+
+    it("replays a GPX track", async () => {
+        const gpx = `<?xml version="1.0"?>
+            <gpx version="1.1"><trk><trkseg>
+                <trkpt lat="35.6580" lon="139.7016"><ele>38</ele></trkpt>
+                <trkpt lon="139.7005" lat="35.6595"></trkpt>
+            </trkseg></trk></gpx>`;
+        const provider = ReplayLocationProvider.fromGpx(gpx, { accuracy: 15 });
+
+        const points = [];
+        for (let i = 0; i < 3; i++) {
+            points.push(await provider.getLocation());
+        }
+        expect(points).to.deep.equal([
+            { latitude: 35.658, longitude: 139.7016, accuracy: 15 },
+            { latitude: 35.6595, longitude: 139.7005, accuracy: 15 },
+            { latitude: 35.658, longitude: 139.7016, accuracy: 15 },
+        ]);
+    });
+
+    it("replays a GeoJSON track and holds the last point without looping", async () => {
+        const provider = ReplayLocationProvider.fromGeoJson(
+            {
+                type: "FeatureCollection",
+                features: [
+                    {
+                        type: "Feature",
+                        geometry: {
+                            type: "LineString",
+                            coordinates: [
+                                [139.7016, 35.658],
+                                [139.7005, 35.6595],
+                            ],
+                        },
+                    },
+                ],
+            },
+            { loop: false }
+        );
+
+        const latitudes = [];
+        for (let i = 0; i < 3; i++) {
+            latitudes.push((await provider.getLocation()).latitude);
+        }
+        expect(latitudes).to.deep.equal([35.658, 35.6595, 35.6595]);
+    });
+
+    it("rejects empty tracks", () => {
+        expect(() => ReplayLocationProvider.fromGpx("<gpx></gpx>")).to.throw(
+            /no points/
+        );
+    });
+
+    it("keeps fuzzed positions within the fuzz radius", async () => {
+        const provider = new PrivateLocationProvider(
+            new StaticLocationProvider(SHIBUYA),
+            { fuzzMeters: 200 }
+        );
+
+        for (let i = 0; i < 50; i++) {
+            const location = await provider.getLocation();
+            expect(distance(location, SHIBUYA)).to.be.at.most(200.5);
+            expect(location.accuracy).to.equal(205);
+        }
+    });
+
+    it("never reports more precisely than the configured precision", async () => {
+        const provider = new PrivateLocationProvider(
+            new StaticLocationProvider(SHIBUYA),
+            { precisionMeters: 500 }
+        );
+        const nearby = new PrivateLocationProvider(
+            new StaticLocationProvider({
+                ...SHIBUYA,
+                latitude: SHIBUYA.latitude + 0.0001,
+            }),
+            { precisionMeters: 500 }
+        );
+
+        const location = await provider.getLocation();
+        expect(location.accuracy).to.equal(500);
+        expect(distance(location, SHIBUYA)).to.be.at.most(500);
+        // Positions in the same cell are indistinguishable
+        expect(await nearby.getLocation()).to.deep.equal(location);
+    });
+
+    it("leaves providers untouched without privacy settings", () => {
+        const provider = new StaticLocationProvider(SHIBUYA);
+        expect(withLocationPrivacy(provider)).to.equal(provider);
+        expect(
+            withLocationPrivacy(provider, { precisionMeters: 100 })
+        ).to.be.instanceOf(PrivateLocationProvider);
+    });
+});
@@ -0,0 +1,189 @@
+import { expect } from "chai";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import {
+    DePINfinityClient,
+    DeviceType,
+    MeasurementValidationError,
+    devicePda,
+    NetworkQualityData,
+    findQualityIssues,
+    validateQualityData,
+} from "../sdk/src";
+import { CordaBridge } from "../bridge/corda-bridge";
+import { encodeDataSubmission, encodeDevice } from "./support/accounts";
+import { FakeConnection } from "./support/fake-connection";
+
+const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+
+const measurement = (
+    overrides: Partial<NetworkQualityData> = {}
+): NetworkQualityData => ({
+    signalStrength: -60,
+    latency: 40,
+    throughput: 1500000,
+    availability: 0.95,
+    location,
+    ...overrides,
+});
+
+describe("measurement validation", () => {
+    it("rounds the fields stored as integers", () => {
+        expect(
+            validateQualityData(
+                measurement({
+                    signalStrength: -55.6,
+                    latency: 41.2,
+                    throughput: 1234567.8,
+                })
+            )
+        ).to.deep.equal(
+            measurement({
+                signalStrength: -56,
+                latency: 41,
+                throughput: 1234568,
+            })
+        );
+    });
+
+    it("reports every field outside its physical range", () => {
+        const error = (() => {
+            try {
+                validateQualityData(
+                    measurement({
+                        signalStrength: 12,
+                        throughput: NaN,
+                        availability: 1.2,
+                        location: { ...location, latitude: 91 },
+                    })
+                );
+            } catch (error) {
+                return error as MeasurementValidationError;
+            }
+        })();
+
+        expect(error).to.be.instanceOf(MeasurementValidationError);
+        expect(error!.code).to.equal("InvalidDataQuality");
+        expect(error!.issues.map((issue) => issue.field)).to.deep.equal([
+            "signalStrength",
+            "throughput",
+            "availability",
+            "location.latitude",
+        ]);
+        expect(error!.message).to.contain("availability 1.2 is above 1 ratio");
+    });
+
+    it("applies the device type's plausibility rules", () => {
+        const fast = measurement({ throughput: 50e6 });
+
+        expect(findQualityIssues(fast)).to.be.empty;
+        expect(findQualityIssues(fast, "Router")).to.be.empty;
+        expect(findQualityIssues(fast, "IoTDevice")).to.deep.equal([
+            {
+                field: "throughput",
+                value: 50e6,
+                reason: "is above 10000000 bps for IoTDevice devices",
+            },
+        ]);
+        expect(
+            findQualityIssues(
+                measurement({ signalStrength: -20 }),
+                "Smartphone"
+            )
+        ).to.have.length(1);
+    });
+
+    describe("enforcement", () => {
+        const programId = Keypair.generate().publicKey;
+        const owner = Keypair.generate();
+
+        const deviceAccount = (deviceId: string, deviceType: DeviceType) => ({
+            pubkey: devicePda(programId, owner.publicKey, deviceId)[0],
+            account: {
+                data: encodeDevice({
+                    owner: owner.publicKey.toBase58(),
+                    deviceId,
+                    deviceType,
+                    location,
+                    isActive: true,
+                    totalUptime: 0,
+                    totalRewardsEarned: 0,
+                    lastActivity: 0,
+                    submissionCount: 0,
+                }),
+                executable: false,
+                lamports: 1,
+                owner: programId,
+            },
+        });
+
+        it("rejects submissions before sending them", async () => {
+            const connection = new FakeConnection([
+                deviceAccount("sensor_01", "IoTDevice"),
+            ]);
+            const client = new DePINfinityClient(
+                connection as unknown as Connection,
+                new Wallet(owner),
+                programId
+            );
+
+            const error = await client
+                .submitData("sensor_01", measurement({ throughput: 50e6 }))
+                .catch((error) => error);
+
+            expect(error).to.be.instanceOf(MeasurementValidationError);
+            expect(error.deviceType).to.equal("IoTDevice");
+            expect(connection.sent).to.be.empty;
+        });
+
+        it("keeps invalid submissions out of the bridge's aggregates", async () => {
+            const sensor = deviceAccount("sensor_01", "IoTDevice");
+            const router = deviceAccount("router_01", "Router");
+            const submission = (
+                device: PublicKey,
+                overrides: Partial<NetworkQualityData>
+            ) => ({
+                pubkey: Keypair.generate().publicKey,
+                account: {
+                    data: encodeDataSubmission({
+                        device: device.toBase58(),
+                        timestamp: 500,
+                        ...measurement(overrides),
+                    }),
+                    executable: false,
+                    lamports: 1,
+                    owner: programId,
+                },
+            });
+            const connection = new FakeConnection([
+                sensor,
+                router,
+                submission(router.pubkey, { throughput: 50e6 }),
+                submission(sensor.pubkey, { throughput: 50e6 }),
+                submission(router.pubkey, { signalStrength: 5 }),
+            ]);
+            const bridge = new CordaBridge(
+                {
+                    programId,
+                } as unknown as DePINfinityClient,
+                connection as unknown as Connection,
+                "https://corda.example",
+                "key"
+            );
+
+            const warn = console.warn;
+            console.warn = () => {};
+            try {
+                const aggregated = await bridge.aggregateNetworkData({
+                    start: 0,
+                    end: 1000,
+                });
+
+                expect(aggregated.dataPoints).to.equal(1);
+                expect(aggregated.averageThroughput).to.equal(50e6);
+            } finally {
+                console.warn = warn;
+            }
+        });
+    });
+});
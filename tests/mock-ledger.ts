@@ -0,0 +1,228 @@
+import { expect } from "chai";
+import { LedgerTransaction, VirtualClock } from "../sdk/src";
+import { createMockSolanaProgram } from "../mock-solana/src";
+import { createMockCordaNetwork } from "../mock-corda/src";
+
+describe("mock transaction ledger", () => {
+    const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+    const measurement = {
+        signalStrength: -60,
+        latency: 40,
+        throughput: 1200000,
+        availability: 0.95,
+        location,
+    };
+    const agreement = {
+        partnerId: "softbank",
+        region: "tokyo",
+        terms: {
+            dataSharing: true,
+            infrastructureAccess: false,
+            revenueSharing: 20,
+            duration: 12,
+        },
+        networkData: {
+            averageQuality: 0.9,
+            coverageArea: 1000,
+            deviceCount: 3,
+        },
+    };
+    const { log } = console;
+
+    // The mocks narrate every operation
+    beforeEach(() => {
+        console.log = () => {};
+    });
+
+    afterEach(() => {
+        console.log = log;
+    });
+
+    it("records each write under a unique signature", async () => {
+        const clock = new VirtualClock(1700000000000);
+        const mock = createMockSolanaProgram({ clock });
+
+        const registered = await mock.registerDevice(
+            "router_01",
+            "Router",
+            location
+        );
+        await clock.advance(1000);
+        const submitted = await mock.submitData("router_01", measurement);
+
+        expect(registered).to.match(/^[1-9A-HJ-NP-Za-km-z]{88}$/);
+        expect(submitted).not.to.equal(registered);
+        expect(await mock.getTransaction(submitted)).to.deep.include({
+            sequence: 2,
+            timestamp: 1700000001000,
+            operation: "submitData",
+            subject: "router_01",
+            payload: { deviceId: "router_01", qualityData: measurement },
+        });
+        expect(
+            ((await mock.getTransaction(submitted))?.result as any).rewardAmount
+        ).to.equal((await mock.getDevice("router_01"))?.totalRewardsEarned);
+        expect(await mock.getTransaction("unknown")).to.be.null;
+    });
+
+    it("leaves failed writes out of the ledger", async () => {
+        const mock = createMockSolanaProgram();
+        await mock.registerDevice("router_01", "Router", location);
+        await mock.toggleDeviceStatus("router_01");
+
+        await mock.submitData("router_01", measurement).catch(() => {});
+
+        expect(
+            (await mock.listTransactions()).map(({ operation }) => operation)
+        ).to.deep.equal(["toggleDeviceStatus", "registerDevice"]);
+    });
+
+    it("lists transactions newest first by filter", async () => {
+        const mock = createMockSolanaProgram();
+        await mock.registerDevice("router_01", "Router", location);
+        await mock.registerDevice("router_02", "Router", location);
+        for (let index = 0; index < 3; index++) {
+            await mock.submitData("router_01", measurement);
+        }
+
+        const sequences = (transactions: LedgerTransaction[]) =>
+            transactions.map(({ sequence }) => sequence);
+
+        expect(sequences(await mock.listTransactions())).to.deep.equal([
+            5, 4, 3, 2, 1,
+        ]);
+        expect(
+            sequences(await mock.listTransactions({ operation: "submitData" }))
+        ).to.deep.equal([5, 4, 3]);
+        expect(
+            sequences(await mock.listTransactions({ subject: "router_02" }))
+        ).to.deep.equal([2]);
+        expect(
+            sequences(await mock.listTransactions({ toSequence: 4, limit: 2 }))
+        ).to.deep.equal([4, 3]);
+        expect(
+            sequences(await mock.listTransactions({ fromSequence: 5 }))
+        ).to.deep.equal([5]);
+    });
+
+    it("does not let callers rewrite history", async () => {
+        const mock = createMockSolanaProgram();
+        const id = await mock.registerDevice("router_01", "Router", location);
+
+        const transaction = (await mock.getTransaction(id))!;
+        transaction.operation = "forged";
+        await mock.toggleDeviceStatus("router_01");
+
+        expect((await mock.getTransaction(id))?.operation).to.equal(
+            "registerDevice"
+        );
+        expect(((await mock.getTransaction(id))?.result as any).isActive).to.be
+            .true;
+    });
+
+    it("repeats the same IDs for the same seed", async () => {
+        const run = async () => {
+            const mock = createMockSolanaProgram({ seed: 42 });
+            await mock.registerDevice("router_01", "Router", location);
+            return mock.submitData("router_01", measurement);
+        };
+
+        expect(await run()).to.equal(await run());
+
+        const mock = createMockSolanaProgram({ seed: 42 });
+        const first = await mock.registerDevice(
+            "router_01",
+            "Router",
+            location
+        );
+        mock.reset();
+        expect(
+            await mock.registerDevice("router_01", "Router", location)
+        ).to.equal(first);
+        expect(await mock.listTransactions()).to.have.length(1);
+    });
+
+    it("keeps the ledger in snapshots and continues after a restore", async () => {
+        const mock = createMockSolanaProgram();
+        const id = await mock.registerDevice("router_01", "Router", location);
+        const snapshot = mock.snapshot();
+
+        const restored = createMockSolanaProgram();
+        restored.restore(snapshot);
+        await restored.submitData("router_01", measurement);
+
+        expect((await restored.getTransaction(id))?.sequence).to.equal(1);
+        expect((await restored.listTransactions())[0].sequence).to.equal(2);
+
+        // Snapshots from before the ledger restore with an empty one
+        const { transactions, ...legacy } = snapshot;
+        restored.restore(legacy);
+        expect(await restored.listTransactions()).to.be.empty;
+    });
+
+    it("records Corda flows under transaction hashes", async () => {
+        const clock = new VirtualClock(1700000000000);
+        const network = createMockCordaNetwork({ clock });
+        const agreementId = await network.createRoamingAgreement(agreement);
+
+        // Activate the agreement so it can execute
+        const snapshot = network.snapshot();
+        snapshot.roamingAgreements[0].status = "ACTIVE";
+        network.restore(snapshot);
+
+        await clock.advance(1000);
+        const executed = await network.executeRoamingAgreement(agreementId);
+        const migrated = await network.migrateNetworkDataFromSolana(
+            [],
+            "tokyo"
+        );
+
+        expect(executed).to.match(/^[0-9A-F]{64}$/);
+        expect(migrated).not.to.equal(executed);
+        expect(await network.getTransaction(executed)).to.deep.include({
+            sequence: 2,
+            timestamp: 1700000001000,
+            operation: "executeRoamingAgreement",
+            subject: agreementId,
+            payload: { agreementId },
+        });
+        expect(
+            (
+                await network.listTransactions({
+                    operation: "createRoamingAgreement",
+                })
+            )[0].result
+        ).to.deep.include({ id: agreementId, status: "PENDING" });
+        expect(
+            (await network.listTransactions()).map(({ sequence }) => sequence)
+        ).to.deep.equal([3, 2, 1]);
+    });
+
+    it("gives Corda records created at the same moment distinct IDs", async () => {
+        const network = createMockCordaNetwork({ clock: new VirtualClock() });
+        const contract = {
+            partnerId: "kddi",
+            contractType: "tower_sharing" as const,
+            terms: { duration: 12, cost: 500000, performanceMetrics: [] },
+            networkRequirements: {
+                minimumQuality: 0.8,
+                coverageArea: 50,
+                uptimeRequirement: 0.99,
+            },
+        };
+
+        const agreements = [
+            await network.createRoamingAgreement(agreement),
+            await network.createRoamingAgreement(agreement),
+        ];
+        const contracts = [
+            await network.createInfrastructureContract(contract),
+            await network.createInfrastructureContract(contract),
+        ];
+
+        expect(new Set(agreements).size).to.equal(2);
+        expect(new Set(contracts).size).to.equal(2);
+        expect(network.snapshot().roamingAgreements).to.have.length(2);
+        expect(network.snapshot().infrastructureContracts).to.have.length(2);
+    });
+});
@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    Transaction,
+    sendAndConfirmTransaction,
+} from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import { createAccount, createMint, mintTo } from "@solana/spl-token";
+import {
+    DePINfinityClient,
+    DePINfinityError,
+    estimateReward,
+    vaultAuthorityPda,
+} from "../sdk/src";
+import { MockSolanaProgram, createMockSolanaProgram } from "../mock-solana/src";
+import { CordaBridge } from "../bridge/corda-bridge";
+import { MockRpc, startMockRpc } from "../scripts/mock-rpc";
+
+describe("mock rpc", function () {
+    this.timeout(20000);
+
+    const location = { latitude: 35.6762, longitude: 139.6503, accuracy: 10 };
+    const measurement = {
+        signalStrength: -60,
+        latency: 40,
+        throughput: 1200000,
+        availability: 0.95,
+        location: { latitude: 35.68, longitude: 139.76, accuracy: 25 },
+    };
+    const authority = Keypair.generate();
+    const owner = Keypair.generate();
+    const { log } = console;
+
+    let program: MockSolanaProgram;
+    let rpc: MockRpc;
+    let connection: Connection;
+    let admin: DePINfinityClient;
+    let client: DePINfinityClient;
+
+    // The deploy script's setup: initialize, then a mint and a funded vault
+    before(async () => {
+        console.log = () => {};
+        program = createMockSolanaProgram();
+        rpc = await startMockRpc(program, {
+            programId: Keypair.generate().publicKey,
+        });
+        connection = new Connection(rpc.url, {
+            commitment: "confirmed",
+            wsEndpoint: rpc.wsUrl,
+        });
+
+        admin = new DePINfinityClient(
+            connection,
+            new Wallet(authority),
+            rpc.programId
+        );
+        await admin.initialize();
+
+        const mint = await createMint(
+            connection,
+            authority,
+            authority.publicKey,
+            null,
+            9
+        );
+        const vault = await createAccount(
+            connection,
+            authority,
+            mint,
+            vaultAuthorityPda(rpc.programId)[0],
+            Keypair.generate()
+        );
+        await mintTo(connection, authority, mint, vault, authority, 1000000000);
+
+        client = new DePINfinityClient(
+            connection,
+            new Wallet(owner),
+            rpc.programId,
+            { docomoMint: mint, rewardVault: vault }
+        );
+    });
+
+    after(async () => {
+        await rpc.close();
+        console.log = log;
+    });
+
+    it("serves the SDK client from the mock's state", async () => {
+        await client.registerDevice("router_01", "Router", location);
+        await client.submitData("router_01", measurement);
+
+        const reward = estimateReward(measurement, 0);
+        expect(await client.getDevice("router_01")).to.deep.include({
+            owner: owner.publicKey.toBase58(),
+            deviceType: "Router",
+            totalUptime: 1,
+            totalRewardsEarned: reward,
+            submissionCount: 1,
+        });
+        expect(await client.getRewardBalance()).to.equal(BigInt(reward));
+        expect(
+            (await client.getSubmissionHistory("router_01")).submissions
+        ).to.have.length(1);
+        expect(await client.getFleetSummary()).to.deep.include({
+            deviceCount: 1,
+        });
+        expect(await admin.getProgramState()).to.deep.include({
+            authority: authority.publicKey.toBase58(),
+            totalDevices: 1,
+        });
+        expect(
+            (await program.getDevice("router_01"))?.submissionCount
+        ).to.equal(1);
+    });
+
+    it("lets the bridge read submissions", async () => {
+        const bridge = new CordaBridge(
+            client,
+            connection,
+            "http://127.0.0.1:1",
+            "unused"
+        );
+        const aggregated = await bridge.aggregateNetworkData({
+            start: 0,
+            end: Number.MAX_SAFE_INTEGER,
+        });
+
+        expect(aggregated.dataPoints).to.equal(1);
+    });
+
+    it("fails transactions with the program's errors", async () => {
+        await admin.admin().pauseProgram();
+        try {
+            await client.registerDevice("router_02", "Router", location);
+            expect.fail("Expected the registration to fail");
+        } catch (error) {
+            expect((error as DePINfinityError).code).to.equal("ProgramPaused");
+        } finally {
+            await admin.admin().resumeProgram();
+        }
+
+        try {
+            await client.registerDevice("router_01", "Router", location);
+            expect.fail("Expected the registration to fail");
+        } catch (error) {
+            expect((error as DePINfinityError).code).to.equal(
+                "TransactionFailed"
+            );
+        }
+    });
+
+    it("rolls back every instruction of a failed transaction", async () => {
+        const transaction = new Transaction().add(
+            await client.registerDeviceInstruction(
+                "router_03",
+                "Router",
+                location
+            ),
+            await client.registerDeviceInstruction(
+                "router_01",
+                "Router",
+                location
+            )
+        );
+
+        let failed = false;
+        await sendAndConfirmTransaction(connection, transaction, [owner]).catch(
+            () => (failed = true)
+        );
+
+        expect(failed).to.be.true;
+        expect(await client.getDevice("router_03")).to.be.null;
+    });
+
+    it("simulates without changing state", async () => {
+        const logged: unknown[][] = [];
+        console.log = (...args: unknown[]) => logged.push(args);
+        const result = await client
+            .simulate(
+                await client.registerDeviceInstruction(
+                    "router_04",
+                    "Router",
+                    location
+                )
+            )
+            .finally(() => (console.log = () => {}));
+
+        // Rolling the simulation back is not a snapshot restore
+        expect(
+            logged.filter((args) => String(args[0]).includes("restored"))
+        ).to.be.empty;
+
+        expect(result.error).to.be.null;
+        expect(result.logs).to.include(
+            "Program log: Instruction: RegisterDevice"
+        );
+        expect(await client.getDevice("router_04")).to.be.null;
+    });
+
+    it("only shows devices owned by a public key", async () => {
+        await program.registerDevice("mock_device", "Router", location);
+
+        const devices = await client.listDevices();
+        expect(devices.map((device) => device.deviceId)).to.deep.equal([
+            "router_01",
+        ]);
+        expect(await connection.getAccountInfo(PublicKey.unique())).to.be.null;
+    });
+});
@@ -0,0 +1,135 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import { VirtualClock } from "../sdk/src";
+import { MockSolanaProgram, createMockSolanaProgram } from "../mock-solana/src";
+import { MockCordaNetwork, createMockCordaNetwork } from "../mock-corda/src";
+import { createBackends } from "../demo-simulator/src/backends";
+
+describe("mock snapshots", () => {
+    const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+    const measurement = {
+        signalStrength: -60,
+        latency: 40,
+        throughput: 1200000,
+        availability: 0.95,
+        location,
+    };
+    const { log } = console;
+
+    // The mocks narrate every operation
+    beforeEach(() => {
+        console.log = () => {};
+    });
+
+    afterEach(() => {
+        console.log = log;
+    });
+
+    it("restores devices, submissions and the reward vault", async () => {
+        const clock = new VirtualClock(1700000000000);
+        const mock = createMockSolanaProgram({ clock });
+        await mock.registerDevice("router_01", "Router", location, "alice");
+        await mock.submitData("router_01", measurement);
+        await mock.pauseProgram();
+
+        const snapshot = mock.snapshot();
+        mock.reset();
+
+        const restored = createMockSolanaProgram({ clock });
+        restored.restore(snapshot);
+
+        expect(await restored.getDevice("router_01")).to.deep.include({
+            owner: "alice",
+            submissionCount: 1,
+        });
+        expect(
+            (await restored.getSubmissionHistory("router_01")).submissions
+        ).to.have.length(1);
+        expect(await restored.getProgramState()).to.deep.include({
+            totalDevices: 1,
+            isActive: false,
+        });
+        expect(restored.snapshot()).to.deep.equal(snapshot);
+    });
+
+    it("does not share state with the snapshot it came from", async () => {
+        const mock = createMockSolanaProgram();
+        await mock.registerDevice("router_01", "Router", location);
+        const snapshot = mock.snapshot();
+
+        mock.restore(snapshot);
+        await mock.toggleDeviceStatus("router_01");
+
+        expect(snapshot.devices[0].isActive).to.be.true;
+    });
+
+    it("saves and loads snapshot files", async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "mock-"));
+        try {
+            const clock = new VirtualClock();
+            const network = createMockCordaNetwork({ clock });
+            await network.createInfrastructureContract({
+                partnerId: "ntt_docomo",
+                contractType: "tower_sharing",
+                terms: {
+                    duration: 12,
+                    cost: 1000,
+                    costUnit: "USD",
+                    performanceMetrics: ["uptime"],
+                },
+                networkRequirements: {
+                    minimumQuality: 0.9,
+                    coverageArea: 500,
+                    uptimeRequirement: 0.99,
+                },
+            });
+            const filePath = path.join(directory, "corda.json");
+            await network.saveSnapshot(filePath);
+
+            const file = JSON.parse(fs.readFileSync(filePath, "utf8"));
+            expect(file).to.include({ version: 1, kind: "mock-corda" });
+
+            const restored = createMockCordaNetwork({ clock });
+            await restored.loadSnapshot(filePath);
+            expect(restored.snapshot()).to.deep.equal(network.snapshot());
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    it("rejects snapshots of another kind or version", () => {
+        const mock = createMockSolanaProgram();
+        const snapshot = mock.snapshot();
+
+        expect(() => mock.restore({ ...snapshot, version: 2 })).to.throw(
+            "Unsupported mock-solana snapshot version: 2 (expected 1)"
+        );
+        expect(() =>
+            createMockCordaNetwork().restore(snapshot as any)
+        ).to.throw("Not a mock-corda snapshot");
+    });
+
+    it("starts the demo backends from a named fixture", async () => {
+        const { depin, b2b } = createBackends({
+            depin: "mock",
+            b2b: "mock",
+            seed: 1,
+            fixture: "tokyo-500",
+        });
+
+        expect((depin as MockSolanaProgram).getAllDevices()).to.have.length(
+            500
+        );
+        expect(await depin.getProgramState()).to.deep.include({
+            totalDevices: 500,
+        });
+        expect(
+            (b2b as MockCordaNetwork).getNetworkStats().activeAgreements
+        ).to.equal(3);
+        expect(() =>
+            createBackends({ depin: "mock", b2b: "mock", fixture: "nowhere" })
+        ).to.throw("Unknown demo fixture: nowhere");
+    });
+});
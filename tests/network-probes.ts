@@ -0,0 +1,220 @@
+import { expect } from "chai";
+import { Connection, Keypair } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import { DePINfinityClient, MobileDePINClient } from "../sdk/src";
+import {
+    AvailabilityProbe,
+    HttpThroughputProbe,
+    NetworkProbe,
+    SignalStrengthProbe,
+    TcpLatencyProbe,
+    createNodeProbes,
+    measureNetworkQuality,
+    parseIcmpTimes,
+    trackAvailability,
+} from "../sdk/src/probes";
+import { MEASUREMENT_RANGES } from "../sdk/src/validation";
+import { FakeConnection } from "./support/fake-connection";
+import { ProbeServer, startProbeServer } from "./support/probe-server";
+
+describe("network probes", () => {
+    let server: ProbeServer;
+
+    before(async () => {
+        server = await startProbeServer();
+    });
+
+    after(async () => {
+        await server.close();
+    });
+
+    it("measures TCP connect latency", async () => {
+        const probe = new TcpLatencyProbe({
+            host: server.host,
+            port: server.port,
+        });
+
+        const latency = await probe.measure();
+        expect(latency).to.be.a("number").within(0, 1000);
+        expect(Number.isInteger(latency)).to.be.true;
+    });
+
+    it("fails latency measurements when nothing is listening", async () => {
+        const closed = await startProbeServer();
+        await closed.close();
+
+        const probe = new TcpLatencyProbe({
+            host: closed.host,
+            port: closed.port,
+            samples: 1,
+        });
+
+        let error: Error | undefined;
+        try {
+            await probe.measure();
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.match(/ECONNREFUSED/);
+    });
+
+    it("measures download throughput in bits per second", async () => {
+        const probe = new HttpThroughputProbe({
+            url: server.downloadUrl(2 * 1024 * 1024),
+        });
+
+        const throughput = await probe.measure();
+        expect(throughput).to.be.greaterThan(0);
+        expect(Number.isInteger(throughput)).to.be.true;
+    });
+
+    it("stops reading after maxBytes", async () => {
+        const probe = new HttpThroughputProbe({
+            url: server.downloadUrl(64 * 1024 * 1024),
+            maxBytes: 256 * 1024,
+            timeoutMs: 5000,
+        });
+
+        expect(await probe.measure()).to.be.greaterThan(0);
+    });
+
+    it("rejects throughput measurements on HTTP errors", async () => {
+        const probe = new HttpThroughputProbe({
+            url: `http://${server.host}:${server.port}/missing`,
+        });
+
+        let error: Error | undefined;
+        try {
+            await probe.measure();
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.match(/status 404/);
+    });
+
+    it("computes availability over a rolling window", async () => {
+        const outcomes = [true, false, true, true, false];
+        const probe = new AvailabilityProbe(
+            async () => {
+                if (!outcomes.shift()) throw new Error("unreachable");
+            },
+            { windowSize: 4 }
+        );
+
+        const ratios: number[] = [];
+        for (let i = 0; i < 5; i++) {
+            ratios.push(await probe.measure());
+        }
+        // The first result falls out of the window on the fifth check
+        expect(ratios).to.deep.equal([1, 0.5, 2 / 3, 0.75, 0.5]);
+    });
+
+    it("reads signal strength through the provider hook", async () => {
+        expect(await new SignalStrengthProbe(() => -71.6).measure()).to.equal(
+            -72
+        );
+        expect(
+            await new SignalStrengthProbe(async () => -58).measure()
+        ).to.equal(-58);
+
+        let error: Error | undefined;
+        try {
+            await new SignalStrengthProbe(() => NaN).measure();
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.match(/no value/);
+    });
+
+    it("parses round-trip times from ping output", () => {
+        const linux = [
+            "64 bytes from 127.0.0.1: icmp_seq=1 ttl=64 time=0.045 ms",
+            "64 bytes from 127.0.0.1: icmp_seq=2 ttl=64 time=12.3 ms",
+        ].join("\n");
+        const windowsStyle = "Reply from 10.0.0.1: bytes=32 time<1ms TTL=64";
+
+        expect(parseIcmpTimes(linux)).to.deep.equal([0.045, 12.3]);
+        expect(parseIcmpTimes(windowsStyle)).to.deep.equal([1]);
+        expect(parseIcmpTimes("Request timed out.")).to.be.empty;
+    });
+
+    it("collects a full measurement from the Node probes", async () => {
+        const probes = createNodeProbes({
+            host: server.host,
+            port: server.port,
+            throughputUrl: server.downloadUrl(1024 * 1024),
+            signalStrength: () => -60,
+        });
+
+        const data = await measureNetworkQuality(probes);
+        expect(data.signalStrength).to.equal(-60);
+        expect(data.availability).to.equal(1);
+        expect(data.latency).to.be.at.least(0);
+        expect(data.throughput).to.be.greaterThan(0);
+    });
+
+    it("records an outage as zero availability instead of failing", async () => {
+        let online = false;
+        let pings = 0;
+        const flaky = (value: number): NetworkProbe => ({
+            async measure() {
+                if (!online) throw new Error("offline");
+                return value;
+            },
+        });
+        const availability = new AvailabilityProbe(null);
+        const probes = {
+            latency: trackAvailability(
+                {
+                    measure: () => {
+                        pings++;
+                        return flaky(20).measure();
+                    },
+                },
+                availability
+            ),
+            throughput: flaky(1000000),
+            signalStrength: new SignalStrengthProbe(() => -60),
+            availability,
+        };
+
+        expect(await measureNetworkQuality(probes)).to.deep.equal({
+            signalStrength: -60,
+            latency: MEASUREMENT_RANGES.latency.max,
+            throughput: 0,
+            availability: 0,
+        });
+
+        online = true;
+        const recovered = await measureNetworkQuality(probes);
+        expect(recovered.latency).to.equal(20);
+        expect(recovered.availability).to.equal(0.5);
+        // Availability reuses the latency check instead of pinging again
+        expect(pings).to.equal(2);
+    });
+
+    it("collects with the default probes of a mobile client", async () => {
+        const connection = new FakeConnection([]);
+        connection.rpcEndpoint = `http://${server.host}:${server.port}`;
+        const client = new DePINfinityClient(
+            connection as unknown as Connection,
+            new Wallet(Keypair.generate()),
+            Keypair.generate().publicKey
+        );
+        // Node has no geolocation, the only default without a fallback
+        const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+        const mobile = new MobileDePINClient(client, "router_01", {
+            location: { getLocation: async () => location },
+        });
+
+        await mobile["collectAndSubmitData"]();
+
+        expect(mobile.getQueueStatus().depth).to.equal(1);
+        const [item] = mobile["queue"]["items"];
+        expect(item.qualityData).to.deep.include({
+            signalStrength: MEASUREMENT_RANGES.signalStrength.min,
+            throughput: 0,
+            availability: 1,
+        });
+    });
+});
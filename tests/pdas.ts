@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import {
+    clearPdaCache,
+    dataSubmissionPda,
+    devicePda,
+    programStatePda,
+    vaultAuthorityPda,
+} from "../sdk/src/pdas";
+
+describe("pdas", () => {
+    const programId = Keypair.generate().publicKey;
+    const owner = Keypair.generate().publicKey;
+
+    afterEach(() => {
+        clearPdaCache();
+    });
+
+    it("derives the program state and vault authority", () => {
+        const [expected, bump] = PublicKey.findProgramAddressSync(
+            [Buffer.from("program_state")],
+            programId
+        );
+
+        expect(programStatePda(programId)[0].equals(expected)).to.be.true;
+        expect(programStatePda(programId)[1]).to.equal(bump);
+        expect(vaultAuthorityPda(programId)[0].equals(expected)).to.be.true;
+    });
+
+    it("seeds devices with the owner, then the device ID", () => {
+        const [expected] = PublicKey.findProgramAddressSync(
+            [Buffer.from("device"), owner.toBuffer(), Buffer.from("router_01")],
+            programId
+        );
+
+        expect(devicePda(programId, owner, "router_01")[0].equals(expected)).to
+            .be.true;
+        expect(
+            devicePda(programId, owner.toBase58(), "router_01")[0].equals(
+                expected
+            )
+        ).to.be.true;
+    });
+
+    it("caches repeated derivations per program and seeds", () => {
+        const first = devicePda(programId, owner, "router_01");
+
+        expect(devicePda(programId, owner, "router_01")).to.equal(first);
+        expect(devicePda(programId, owner, "router_02")).not.to.equal(first);
+        expect(
+            devicePda(
+                Keypair.generate().publicKey,
+                owner,
+                "router_01"
+            )[0].equals(first[0])
+        ).to.be.false;
+
+        clearPdaCache();
+        const fresh = devicePda(programId, owner, "router_01");
+        expect(fresh).not.to.equal(first);
+        expect(fresh[0].equals(first[0])).to.be.true;
+    });
+
+    it("rejects invalid submission indices", () => {
+        const [device] = devicePda(programId, owner, "router_01");
+
+        expect(() => dataSubmissionPda(programId, device, 1.5)).to.throw(
+            "Invalid submission index: 1.5"
+        );
+        expect(dataSubmissionPda(programId, device, 0)[0].equals(device)).to.be
+            .false;
+    });
+});
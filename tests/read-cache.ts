@@ -0,0 +1,176 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import {
+    DePINfinityClient,
+    DePINfinityEventStream,
+    Device,
+    FileCacheStore,
+    ReadCache,
+    devicePda,
+} from "../sdk/src";
+import { encodeDevice } from "./support/accounts";
+import { FakeConnection } from "./support/fake-connection";
+
+describe("read cache", () => {
+    const programId = Keypair.generate().publicKey;
+    const owner = Keypair.generate();
+    const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+
+    const device = (overrides: Partial<Device> = {}) => ({
+        owner: owner.publicKey.toBase58(),
+        deviceId: "router_01",
+        deviceType: "Router" as const,
+        location,
+        isActive: true,
+        totalUptime: 3,
+        totalRewardsEarned: 1200,
+        lastActivity: 1700000000,
+        submissionCount: 3,
+        ...overrides,
+    });
+
+    const setup = (ttlMs = 1000) => {
+        let now = 0;
+        const connection = new FakeConnection([
+            {
+                pubkey: devicePda(programId, owner.publicKey, "router_01")[0],
+                account: {
+                    data: encodeDevice(device()),
+                    executable: false,
+                    lamports: 1,
+                    owner: programId,
+                },
+            },
+        ]);
+        const client = new DePINfinityClient(
+            connection as unknown as Connection,
+            new Wallet(owner),
+            programId,
+            {
+                cache: {
+                    ttlMs: { device: ttlMs },
+                    clock: { now: () => now },
+                },
+            }
+        );
+        return {
+            client,
+            connection,
+            advance: (ms: number) => {
+                now += ms;
+            },
+        };
+    };
+
+    it("serves repeated reads until the TTL runs out", async () => {
+        const { client, connection, advance } = setup();
+
+        const first = await client.getDevice("router_01");
+        expect(await client.getDevice("router_01")).to.deep.equal(first);
+        expect(connection.accountInfoRequests).to.have.length(1);
+
+        advance(1000);
+        await client.getDevice("router_01");
+        expect(connection.accountInfoRequests).to.have.length(2);
+
+        const metrics = client.cache!.getMetrics();
+        expect(metrics.hits).to.equal(1);
+        expect(metrics.misses).to.equal(2);
+        expect(metrics.byKind.device).to.deep.equal({ hits: 1, misses: 2 });
+    });
+
+    it("reads from the RPC node when bypassed", async () => {
+        const { client, connection } = setup();
+
+        await client.getDevice("router_01");
+        await client.getDevice("router_01", owner.publicKey, {
+            bypassCache: true,
+        });
+        await client.getDevice("router_01");
+
+        expect(connection.accountInfoRequests).to.have.length(2);
+        expect(client.cache!.getMetrics().hits).to.equal(1);
+    });
+
+    it("never caches missing accounts", async () => {
+        const { client, connection } = setup();
+
+        expect(await client.getDevice("router_02")).to.be.null;
+        expect(await client.getDevice("router_02")).to.be.null;
+        expect(connection.accountInfoRequests).to.have.length(2);
+    });
+
+    it("drops entries changed by program events", async () => {
+        const { client, connection } = setup(60000);
+        const stream = client.events;
+
+        await client.getDevice("router_01");
+        stream.emit("deviceUpdated", { ...device(), bump: 254 });
+        await new Promise((resolve) => setImmediate(resolve));
+        await client.getDevice("router_01");
+
+        expect(connection.accountInfoRequests).to.have.length(2);
+        expect(client.cache!.getMetrics().invalidations).to.equal(1);
+    });
+
+    it("drops a device after the client writes to it", async () => {
+        const { client, connection } = setup(60000);
+
+        await client.getDevice("router_01");
+        await client.toggleDeviceStatus("router_01");
+        await client.getDevice("router_01");
+
+        expect(connection.sent).to.have.length(1);
+        expect(connection.accountInfoRequests).to.have.length(2);
+    });
+
+    it("shares entries through a file store", async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "read-cache-"));
+        try {
+            const load = async () => ({ totalDevices: 3 });
+            const writer = new ReadCache({
+                store: new FileCacheStore(directory),
+            });
+            await writer.get("programState", "", load);
+
+            const reader = new ReadCache({
+                store: new FileCacheStore(directory),
+            });
+            expect(
+                await reader.get("programState", "", async () => null)
+            ).to.deep.equal({ totalDevices: 3 });
+
+            await reader.invalidate("programState");
+            expect(await reader.get("programState", "", async () => null)).to.be
+                .null;
+            expect(fs.readdirSync(directory)).to.be.empty;
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    it("clears everything after the stream reconnects", async () => {
+        const cache = new ReadCache();
+        const stream = new DePINfinityEventStream(
+            {} as Connection,
+            PublicKey.default
+        );
+        const detach = cache.attach(stream);
+
+        await cache.get("programState", "", async () => ({ isActive: true }));
+        await cache.get("submission", "abc", async () => ({ latency: 4 }));
+        stream.emit("reconnected");
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(await cache.get("submission", "abc", async () => null)).to.be
+            .null;
+        expect(cache.getMetrics().hits).to.equal(0);
+
+        detach();
+        expect(stream.listenerCount("reconnected")).to.equal(0);
+    });
+});
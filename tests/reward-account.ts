@@ -0,0 +1,181 @@
+import { expect } from "chai";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import {
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { DePINfinityClient, devicePda } from "../sdk/src";
+import { encodeDevice } from "./support/accounts";
+import { FakeConnection } from "./support/fake-connection";
+
+const qualityData = {
+    signalStrength: -60,
+    latency: 40,
+    throughput: 1500000,
+    availability: 0.99,
+    location: { latitude: 35.6762, longitude: 139.6503, accuracy: 10 },
+};
+
+// Serialize an SPL token account holding `amount`
+const encodeTokenAccount = (
+    mint: PublicKey,
+    owner: PublicKey,
+    amount: number | bigint
+): Buffer => {
+    const data = Buffer.alloc(165);
+    mint.toBuffer().copy(data, 0);
+    owner.toBuffer().copy(data, 32);
+    data.writeBigUInt64LE(BigInt(amount), 64);
+    data.writeUInt8(1, 108); // initialized
+    return data;
+};
+
+describe("reward token account", () => {
+    const programId = Keypair.generate().publicKey;
+    const docomoMint = Keypair.generate().publicKey;
+    const rewardVault = Keypair.generate().publicKey;
+    let owner: Keypair;
+    let rewardAccount: PublicKey;
+
+    const clientFor = (
+        connection: FakeConnection,
+        feePayer?: Keypair
+    ): DePINfinityClient =>
+        new DePINfinityClient(
+            connection as unknown as Connection,
+            new Wallet(owner),
+            programId,
+            {
+                docomoMint,
+                rewardVault,
+                feePayer: feePayer && new Wallet(feePayer),
+            }
+        );
+
+    const tokenAccount = (amount: number | bigint) => ({
+        pubkey: rewardAccount,
+        account: {
+            data: encodeTokenAccount(docomoMint, owner.publicKey, amount),
+            executable: false,
+            lamports: 2039280,
+            owner: PublicKey.default,
+        },
+    });
+
+    // The device submitting data
+    const device = () => ({
+        pubkey: devicePda(programId, owner.publicKey, "device_1")[0],
+        account: {
+            data: encodeDevice({
+                owner: owner.publicKey.toBase58(),
+                deviceId: "device_1",
+                deviceType: "Smartphone",
+                location: qualityData.location,
+                isActive: true,
+                totalUptime: 0,
+                totalRewardsEarned: 0,
+                lastActivity: 0,
+                submissionCount: 0,
+            }),
+            executable: false,
+            lamports: 1,
+            owner: programId,
+        },
+    });
+
+    beforeEach(() => {
+        owner = Keypair.generate();
+        rewardAccount = getAssociatedTokenAddressSync(
+            docomoMint,
+            owner.publicKey
+        );
+    });
+
+    it("creates a missing account before the first submission", async () => {
+        const connection = new FakeConnection([device()]);
+        const client = clientFor(connection);
+
+        await client.submitData("device_1", qualityData);
+
+        const [create, submit] = connection.sent[0].instructions;
+        expect(create.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)).to.be.true;
+        expect(
+            create.keys.map((key) => key.pubkey.toBase58())
+        ).to.include.members([
+            owner.publicKey.toBase58(),
+            rewardAccount.toBase58(),
+            docomoMint.toBase58(),
+        ]);
+        expect(submit.programId.equals(programId)).to.be.true;
+        expect(submit.keys.some((key) => key.pubkey.equals(rewardAccount))).to
+            .be.true;
+    });
+
+    it("checks for the account only until it exists", async () => {
+        const connection = new FakeConnection([device()]);
+        const client = clientFor(connection);
+
+        await client.submitData("device_1", qualityData);
+        await client.submitData("device_1", qualityData);
+
+        expect(connection.sent[1].instructions).to.have.length(1);
+        expect(
+            connection.accountInfoRequests.filter((pubkey) =>
+                pubkey.equals(rewardAccount)
+            )
+        ).to.have.length(1);
+    });
+
+    it("leaves an existing account alone", async () => {
+        const connection = new FakeConnection([device(), tokenAccount(0)]);
+
+        await clientFor(connection).submitData("device_1", qualityData);
+
+        const [submit] = connection.sent[0].instructions;
+        expect(connection.sent[0].instructions).to.have.length(1);
+        expect(submit.programId.equals(programId)).to.be.true;
+    });
+
+    it("lets a separate fee payer fund the account", async () => {
+        const connection = new FakeConnection([device()]);
+        const feePayer = Keypair.generate();
+
+        await clientFor(connection, feePayer).submitData(
+            "device_1",
+            qualityData
+        );
+
+        const [transaction] = connection.sent;
+        const [create] = transaction.instructions;
+        expect(transaction.feePayer?.equals(feePayer.publicKey)).to.be.true;
+        expect(create.keys[0].pubkey.equals(feePayer.publicKey)).to.be.true;
+        expect(create.keys[0].isSigner).to.be.true;
+        expect(
+            transaction.signatures.map(({ publicKey }) => publicKey.toBase58())
+        ).to.have.members([
+            feePayer.publicKey.toBase58(),
+            owner.publicKey.toBase58(),
+        ]);
+        expect(transaction.verifySignatures()).to.be.true;
+    });
+
+    it("reads the reward balance", async () => {
+        const client = clientFor(new FakeConnection([tokenAccount(4200)]));
+
+        expect(await client.getRewardBalance()).to.equal(BigInt(4200));
+    });
+
+    it("keeps balances beyond Number.MAX_SAFE_INTEGER exact", async () => {
+        const amount = BigInt("18446744073709551615");
+        const client = clientFor(new FakeConnection([tokenAccount(amount)]));
+
+        expect(await client.getRewardBalance()).to.equal(amount);
+    });
+
+    it("reports a zero balance before the account exists", async () => {
+        const client = clientFor(new FakeConnection([]));
+
+        expect(await client.getRewardBalance()).to.equal(BigInt(0));
+    });
+});
@@ -0,0 +1,102 @@
+import * as fs from "fs";
+import * as path from "path";
+import { expect } from "chai";
+import { estimateReward } from "../sdk/src/rewards";
+import parity from "./fixtures/reward-parity.json";
+
+/**
+ * Parity matrix between the SDK reward estimator and the program.
+ *
+ * The fixture holds `calculate_reward` as it appears in lib.rs together with
+ * the rewards it returned, compiled natively, for every combination of the
+ * axes (iterated in declaration order, uptime fastest). When the program
+ * formula changes, the first test fails until the fixture is regenerated.
+ */
+describe("reward estimator", () => {
+    it("was checked against the current program formula", () => {
+        const source = fs.readFileSync(
+            path.join(__dirname, "../programs/depinfinity/src/lib.rs"),
+            "utf-8"
+        );
+        const match = source.match(/fn calculate_reward\([\s\S]*?\n}\n/);
+
+        expect(match?.[0]).to.equal(parity.source);
+    });
+
+    it("matches the program for every input in the matrix", () => {
+        const { signalStrength, latency, throughput, availability, uptime } =
+            parity.axes;
+        const mismatches: string[] = [];
+        let index = 0;
+
+        for (const s of signalStrength) {
+            for (const l of latency) {
+                for (const t of throughput) {
+                    for (const a of availability) {
+                        for (const u of uptime) {
+                            const expected = parity.rewards[index++];
+                            const actual = estimateReward(
+                                {
+                                    signalStrength: s,
+                                    latency: l,
+                                    throughput: t,
+                                    availability: a,
+                                },
+                                u
+                            );
+                            if (actual !== expected) {
+                                mismatches.push(
+                                    `signal=${s} latency=${l} throughput=${t} availability=${a} uptime=${u}: expected ${expected}, got ${actual}`
+                                );
+                            }
+                        }
+                    }
+                }
+            }
+        }
+
+        expect(index).to.equal(parity.rewards.length);
+        expect(mismatches).to.deep.equal([]);
+    });
+
+    it("caps the uptime bonus at +50%", () => {
+        const quality = {
+            signalStrength: -60,
+            latency: 40,
+            throughput: 2000000,
+            availability: 1,
+        };
+
+        expect(estimateReward(quality, 500)).to.equal(
+            estimateReward(quality, 1000000)
+        );
+    });
+
+    it("truncates like the program instead of rounding", () => {
+        // 1.5 * 1.2 * 1.3 * 1.5 is 3.51 exactly, but slightly less in f32
+        expect(
+            estimateReward(
+                {
+                    signalStrength: -60,
+                    latency: 40,
+                    throughput: 2000000,
+                    availability: 1,
+                },
+                500
+            )
+        ).to.equal(3509);
+    });
+
+    it("saturates like a Rust float-to-integer cast", () => {
+        const quality = {
+            signalStrength: -60,
+            latency: 40,
+            throughput: 2000000,
+        };
+
+        expect(estimateReward({ ...quality, availability: -1 }, 0)).to.equal(0);
+        expect(estimateReward({ ...quality, availability: NaN }, 0)).to.equal(
+            0
+        );
+    });
+});
@@ -0,0 +1,203 @@
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    SystemProgram,
+    Transaction,
+    TransactionMessage,
+    VersionedTransaction,
+} from "@solana/web3.js";
+import {
+    DePINfinityClient,
+    KeypairSigner,
+    RemoteSigner,
+    SigningError,
+    devicePda,
+} from "../sdk/src";
+import { SigningDaemon, startSigningDaemon } from "../scripts/signing-daemon";
+import { encodeDevice } from "./support/accounts";
+import { FakeConnection } from "./support/fake-connection";
+
+const blockhash = Keypair.generate().publicKey.toBase58();
+
+// A transfer paid for and signed by `from`
+const transfer = (from: PublicKey): Transaction =>
+    new Transaction({ feePayer: from, recentBlockhash: blockhash }).add(
+        SystemProgram.transfer({
+            fromPubkey: from,
+            toPubkey: Keypair.generate().publicKey,
+            lamports: 1,
+        })
+    );
+
+describe("signers", () => {
+    const key = Keypair.generate();
+    let daemon: SigningDaemon;
+
+    before(async () => {
+        daemon = await startSigningDaemon(key);
+    });
+
+    after(async () => {
+        await daemon.close();
+    });
+
+    it("signs legacy and versioned transactions in process", async () => {
+        const signer = new KeypairSigner(key);
+        const versioned = new VersionedTransaction(
+            new TransactionMessage({
+                payerKey: key.publicKey,
+                recentBlockhash: blockhash,
+                instructions: transfer(key.publicKey).instructions,
+            }).compileToV0Message()
+        );
+
+        const [legacy, v0] = await signer.signAllTransactions<
+            Transaction | VersionedTransaction
+        >([transfer(key.publicKey), versioned]);
+
+        expect((legacy as Transaction).verifySignatures()).to.be.true;
+        expect((v0 as VersionedTransaction).signatures[0]).to.not.deep.equal(
+            new Uint8Array(64)
+        );
+    });
+
+    it("signs through the daemon over HTTP", async () => {
+        const signer = await RemoteSigner.connect({ url: daemon.url! });
+        expect(signer.publicKey.equals(key.publicKey)).to.be.true;
+
+        const transactions = await signer.signAllTransactions([
+            transfer(key.publicKey),
+            transfer(key.publicKey),
+        ]);
+
+        for (const transaction of transactions) {
+            expect(transaction.verifySignatures()).to.be.true;
+        }
+    });
+
+    it("signs through the daemon over a Unix socket", async () => {
+        const socketPath = path.join(
+            os.tmpdir(),
+            `depinfinity-signer-${process.pid}.sock`
+        );
+        const local = await startSigningDaemon(key, { socketPath });
+
+        try {
+            const signer = await RemoteSigner.connect({ socketPath });
+            const transaction = await signer.signTransaction(
+                transfer(key.publicKey)
+            );
+            expect(transaction.verifySignatures()).to.be.true;
+            expect(local.signedCount()).to.equal(1);
+        } finally {
+            await local.close();
+        }
+    });
+
+    it("sends the bearer token", async () => {
+        const guarded = await startSigningDaemon(key, { token: "secret" });
+
+        try {
+            const refused = await RemoteSigner.connect({
+                url: guarded.url!,
+            }).catch((error) => error);
+            expect(refused).to.be.instanceOf(SigningError);
+            expect(refused.code).to.equal("SigningFailed");
+            expect(refused.status).to.equal(401);
+
+            const signer = await RemoteSigner.connect({
+                url: guarded.url!,
+                token: "secret",
+            });
+            expect(signer.publicKey.equals(key.publicKey)).to.be.true;
+        } finally {
+            await guarded.close();
+        }
+    });
+
+    it("reports messages refused by the daemon's policy", async () => {
+        const strict = await startSigningDaemon(key, { approve: () => false });
+
+        try {
+            const signer = new RemoteSigner(key.publicKey, {
+                url: strict.url!,
+            });
+            const error = await signer
+                .signTransaction(transfer(key.publicKey))
+                .catch((error) => error);
+
+            expect(error).to.be.instanceOf(SigningError);
+            expect(error.status).to.equal(403);
+            expect(error.message).to.match(/signing policy/);
+        } finally {
+            await strict.close();
+        }
+    });
+
+    it("fails when the daemon is unreachable", async () => {
+        const closed = await startSigningDaemon(key);
+        await closed.close();
+
+        const error = await RemoteSigner.connect({ url: closed.url! }).catch(
+            (error) => error
+        );
+        expect(error).to.be.instanceOf(SigningError);
+        expect(error.status).to.be.null;
+        expect(error.cause).to.be.instanceOf(Error);
+    });
+
+    it("lets a remote owner and an in-process fee payer share a transaction", async () => {
+        const programId = Keypair.generate().publicKey;
+        const feePayer = Keypair.generate();
+        const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+        const connection = new FakeConnection([
+            {
+                pubkey: devicePda(programId, key.publicKey, "router_01")[0],
+                account: {
+                    data: encodeDevice({
+                        owner: key.publicKey.toBase58(),
+                        deviceId: "router_01",
+                        deviceType: "Router",
+                        location,
+                        isActive: true,
+                        totalUptime: 0,
+                        totalRewardsEarned: 0,
+                        lastActivity: 0,
+                        submissionCount: 0,
+                    }),
+                    executable: false,
+                    lamports: 1,
+                    owner: programId,
+                },
+            },
+        ]);
+        const client = new DePINfinityClient(
+            connection as unknown as Connection,
+            await RemoteSigner.connect({ url: daemon.url! }),
+            programId,
+            { feePayer: new KeypairSigner(feePayer) }
+        );
+
+        await client.submitData("router_01", {
+            signalStrength: -60,
+            latency: 40,
+            throughput: 1500000,
+            availability: 0.95,
+            location,
+        });
+
+        const [transaction] = connection.sent;
+        expect(transaction.feePayer?.equals(feePayer.publicKey)).to.be.true;
+        expect(
+            transaction.signatures.map(({ publicKey }) => publicKey.toBase58())
+        ).to.have.members([
+            feePayer.publicKey.toBase58(),
+            key.publicKey.toBase58(),
+        ]);
+        expect(transaction.verifySignatures()).to.be.true;
+    });
+});
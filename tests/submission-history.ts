@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import { DePINfinityClient, devicePda } from "../sdk/src";
+import { SubmissionRecord, paginateSubmissions } from "../sdk/src/history";
+import { encodeDataSubmission } from "./support/accounts";
+import { FakeConnection } from "./support/fake-connection";
+
+const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+
+const record = (
+    timestamp: number,
+    address: string,
+    device: string = "device"
+): SubmissionRecord => ({
+    address,
+    device,
+    timestamp,
+    signalStrength: -60,
+    latency: 40,
+    throughput: 1500000,
+    availability: 0.95,
+    location,
+});
+
+const encodeSubmission = (device: PublicKey, timestamp: number): Buffer =>
+    encodeDataSubmission({
+        device: device.toBase58(),
+        timestamp,
+        signalStrength: -60,
+        latency: 40,
+        throughput: 1500000,
+        availability: 0.5,
+        location,
+    });
+
+describe("submission history", () => {
+    const history = [
+        record(100, "a"),
+        record(300, "c"),
+        record(200, "b"),
+        record(300, "d"),
+        record(400, "e"),
+    ];
+
+    it("returns submissions newest first", () => {
+        const page = paginateSubmissions(history);
+
+        expect(page.submissions.map((s) => s.address)).to.deep.equal([
+            "e",
+            "c",
+            "d",
+            "b",
+            "a",
+        ]);
+        expect(page.nextCursor).to.be.null;
+    });
+
+    it("filters by an inclusive time range", () => {
+        const page = paginateSubmissions(history, { from: 200, to: 300 });
+
+        expect(page.submissions.map((s) => s.address)).to.deep.equal([
+            "c",
+            "d",
+            "b",
+        ]);
+    });
+
+    it("walks pages with the cursor", () => {
+        const addresses: string[] = [];
+        let cursor: string | undefined;
+        let pages = 0;
+
+        do {
+            const page = paginateSubmissions(history, { limit: 2, cursor });
+            addresses.push(...page.submissions.map((s) => s.address));
+            cursor = page.nextCursor ?? undefined;
+            pages++;
+        } while (cursor);
+
+        expect(addresses).to.deep.equal(["e", "c", "d", "b", "a"]);
+        expect(pages).to.equal(3);
+    });
+
+    it("keeps pages stable when new submissions arrive", () => {
+        const first = paginateSubmissions(history, { limit: 2 });
+        const second = paginateSubmissions([...history, record(500, "f")], {
+            limit: 2,
+            cursor: first.nextCursor!,
+        });
+
+        expect(second.submissions.map((s) => s.address)).to.deep.equal([
+            "d",
+            "b",
+        ]);
+    });
+
+    it("rejects invalid cursors and limits", () => {
+        expect(() =>
+            paginateSubmissions(history, { cursor: "not a cursor" })
+        ).to.throw(/Invalid submission history cursor/);
+        expect(() => paginateSubmissions(history, { limit: 0 })).to.throw(
+            /Invalid page limit/
+        );
+    });
+
+    it("reads a device's submissions from the program", async () => {
+        const wallet = new Wallet(Keypair.generate());
+        const programId = Keypair.generate().publicKey;
+        const [device] = devicePda(programId, wallet.publicKey, "router_01");
+        const otherDevice = Keypair.generate().publicKey;
+
+        const account = (data: Buffer) => ({
+            pubkey: Keypair.generate().publicKey,
+            account: {
+                data,
+                executable: false,
+                lamports: 1,
+                owner: programId,
+            },
+        });
+        const connection = new FakeConnection([
+            account(encodeSubmission(device, 1760000000)),
+            account(encodeSubmission(otherDevice, 1760000100)),
+            account(encodeSubmission(device, 1760000200)),
+        ]);
+        const client = new DePINfinityClient(
+            connection as unknown as Connection,
+            wallet,
+            programId
+        );
+
+        const page = await client.getSubmissionHistory("router_01", {
+            limit: 1,
+        });
+
+        expect(page.submissions).to.have.length(1);
+        expect(page.submissions[0]).to.deep.include({
+            device: device.toBase58(),
+            timestamp: 1760000200,
+            availability: 0.5,
+        });
+
+        const next = await client.getSubmissionHistory("router_01", {
+            limit: 1,
+            cursor: page.nextCursor!,
+        });
+        expect(next.submissions[0].timestamp).to.equal(1760000000);
+        expect(next.nextCursor).to.be.null;
+    });
+});
@@ -0,0 +1,350 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import {
+    FileQueueStorage,
+    MemoryQueueStorage,
+    QueueClock,
+    SubmissionQueue,
+} from "../sdk/src/queue";
+import { DeviceInactiveError } from "../sdk/src/errors";
+import { MeasurementValidationError } from "../sdk/src/validation";
+import { NetworkQualityData } from "../sdk/src/types/depinfinity";
+
+class FakeClock implements QueueClock {
+    private time: number = 1_000_000;
+    private timers: { id: number; at: number; callback: () => void }[] = [];
+    private nextId: number = 1;
+
+    now(): number {
+        return this.time;
+    }
+
+    setTimeout(callback: () => void, ms: number): unknown {
+        const id = this.nextId++;
+        this.timers.push({ id, at: this.time + ms, callback });
+        return id;
+    }
+
+    clearTimeout(handle: unknown): void {
+        this.timers = this.timers.filter((timer) => timer.id !== handle);
+    }
+
+    // Move time forward, firing each timer at its due time and letting the
+    // work it starts settle
+    async advance(ms: number): Promise<void> {
+        const target = this.time + ms;
+        for (;;) {
+            await settle();
+            const [next] = [...this.timers].sort((a, b) => a.at - b.at);
+            if (!next || next.at > target) break;
+
+            this.timers = this.timers.filter((timer) => timer !== next);
+            this.time = Math.max(this.time, next.at);
+            next.callback();
+        }
+        this.time = target;
+        await settle();
+    }
+}
+
+class FlakyBackend {
+    submitted: { deviceId: string; qualityData: NetworkQualityData }[] = [];
+    failuresLeft: number;
+    /** Thrown instead of the RPC error, e.g. a program rejection */
+    failure: Error = new Error("RPC unavailable");
+    /** Failures that land anyway, like a confirmation timing out */
+    landFailures: boolean = false;
+    /** Submission count a stale read cache serves from getDevice */
+    cachedCount: number | null = null;
+
+    constructor(failures: number = 0) {
+        this.failuresLeft = failures;
+    }
+
+    async submitData(
+        deviceId: string,
+        qualityData: NetworkQualityData
+    ): Promise<string> {
+        if (this.failuresLeft > 0) {
+            this.failuresLeft -= 1;
+            if (this.landFailures) {
+                this.submitted.push({ deviceId, qualityData });
+            }
+            throw this.failure;
+        }
+        this.submitted.push({ deviceId, qualityData });
+        return `tx_${this.submitted.length}`;
+    }
+
+    async getDevice(deviceId: string) {
+        const device = await this.getDeviceUncached(deviceId);
+        return this.cachedCount === null
+            ? device
+            : { ...device, submissionCount: this.cachedCount };
+    }
+
+    async getDeviceUncached(deviceId: string) {
+        return {
+            owner: "owner",
+            deviceId,
+            deviceType: "Smartphone" as const,
+            location: { latitude: 0, longitude: 0, accuracy: 0 },
+            isActive: true,
+            totalUptime: 0,
+            totalRewardsEarned: 0,
+            lastActivity: 0,
+            submissionCount: this.submitted.filter(
+                (submission) => submission.deviceId === deviceId
+            ).length,
+        };
+    }
+}
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+const measurement = (latency: number): NetworkQualityData => ({
+    signalStrength: -60,
+    latency,
+    throughput: 1_000_000,
+    availability: 0.95,
+    location: { latitude: 35.6762, longitude: 139.6503, accuracy: 10 },
+});
+
+describe("submission queue", () => {
+    let clock: FakeClock;
+
+    beforeEach(() => {
+        clock = new FakeClock();
+    });
+
+    it("submits queued measurements in capture order", async () => {
+        const backend = new FlakyBackend();
+        const queue = new SubmissionQueue({ backend, clock });
+        await queue.start();
+
+        await queue.enqueue("device_1", measurement(10));
+        await queue.enqueue("device_1", measurement(20), clock.now() + 1);
+        await clock.advance(1);
+
+        expect(
+            backend.submitted.map((s) => s.qualityData.latency)
+        ).to.deep.equal([10, 20]);
+        expect(queue.getStatus()).to.include({ depth: 0, nextAttemptAt: null });
+    });
+
+    it("retries with exponential backoff and records the last error", async () => {
+        const backend = new FlakyBackend(3);
+        const queue = new SubmissionQueue({
+            backend,
+            clock,
+            baseDelayMs: 1000,
+        });
+        await queue.start();
+        const start = clock.now();
+
+        await queue.enqueue("device_1", measurement(10));
+        await clock.advance(0);
+
+        expect(queue.getStatus().lastError).to.deep.include({
+            message: "RPC unavailable",
+            at: start,
+        });
+        expect(queue.getStatus().nextAttemptAt).to.equal(start + 1000);
+
+        await clock.advance(1000);
+        expect(queue.getStatus().nextAttemptAt).to.equal(start + 3000);
+
+        await clock.advance(2000);
+        expect(queue.getStatus().nextAttemptAt).to.equal(start + 7000);
+        expect(backend.submitted).to.be.empty;
+
+        await clock.advance(3999);
+        expect(queue.depth).to.equal(1);
+
+        await clock.advance(1);
+        expect(backend.submitted).to.have.length(1);
+        expect(queue.getStatus()).to.include({ depth: 0, nextAttemptAt: null });
+    });
+
+    it("holds later measurements behind a failing one", async () => {
+        const backend = new FlakyBackend(1);
+        const queue = new SubmissionQueue({
+            backend,
+            clock,
+            baseDelayMs: 1000,
+        });
+        await queue.start();
+
+        await queue.enqueue("device_1", measurement(10));
+        await clock.advance(0);
+        await queue.enqueue("device_1", measurement(20), clock.now() + 1);
+        await clock.advance(1);
+
+        expect(queue.depth).to.equal(2);
+
+        await clock.advance(999);
+        expect(
+            backend.submitted.map((s) => s.qualityData.latency)
+        ).to.deep.equal([10, 20]);
+    });
+
+    it("drops a measurement after the maximum number of attempts", async () => {
+        const backend = new FlakyBackend(Infinity);
+        const queue = new SubmissionQueue({
+            backend,
+            clock,
+            baseDelayMs: 1000,
+            maxAttempts: 2,
+        });
+        await queue.start();
+
+        await queue.enqueue("device_1", measurement(10));
+        await clock.advance(1000);
+
+        expect(queue.getStatus()).to.include({ depth: 0, dropped: 1 });
+        expect(queue.getStatus().lastError?.message).to.equal(
+            "RPC unavailable"
+        );
+    });
+
+    it("drops measurements the backend rejects for good", async () => {
+        const backend = new FlakyBackend(2);
+        backend.failure = new MeasurementValidationError([
+            { field: "availability", value: 2, reason: "is above 1 ratio" },
+        ]);
+        const queue = new SubmissionQueue({ backend, clock });
+        await queue.start();
+
+        await queue.enqueue("device_1", measurement(10));
+        await queue.enqueue("device_1", measurement(20), clock.now() + 1);
+        await clock.advance(1);
+
+        expect(
+            backend.submitted.map((s) => s.qualityData.latency)
+        ).to.deep.equal([]);
+        expect(queue.getStatus()).to.include({
+            depth: 0,
+            dropped: 0,
+            rejected: 2,
+        });
+        expect(queue.getStatus().lastError?.code).to.equal(
+            "InvalidDataQuality"
+        );
+    });
+
+    it("keeps later measurements flowing past an inactive device", async () => {
+        const backend = new FlakyBackend(1);
+        backend.failure = new DeviceInactiveError();
+        const queue = new SubmissionQueue({ backend, clock });
+        await queue.start();
+
+        await queue.enqueue("device_1", measurement(10));
+        await queue.enqueue("device_1", measurement(20), clock.now() + 1);
+        await clock.advance(1);
+
+        expect(
+            backend.submitted.map((s) => s.qualityData.latency)
+        ).to.deep.equal([20]);
+        expect(queue.getStatus()).to.include({ depth: 0, rejected: 1 });
+    });
+
+    it("does not resend a submission that landed after failing", async () => {
+        const backend = new FlakyBackend(1);
+        backend.landFailures = true;
+        const queue = new SubmissionQueue({
+            backend,
+            clock,
+            baseDelayMs: 1000,
+        });
+        await queue.start();
+
+        await queue.enqueue("device_1", measurement(10));
+        await clock.advance(0);
+        expect(queue.depth).to.equal(1);
+
+        await clock.advance(1000);
+        expect(backend.submitted).to.have.length(1);
+        expect(queue.getStatus()).to.include({ depth: 0, dropped: 0 });
+    });
+
+    it("checks for a landed submission past a stale cache", async () => {
+        const backend = new FlakyBackend(1);
+        backend.landFailures = true;
+        backend.cachedCount = 0;
+        const queue = new SubmissionQueue({
+            backend,
+            clock,
+            baseDelayMs: 1000,
+        });
+        await queue.start();
+
+        await queue.enqueue("device_1", measurement(10));
+        await clock.advance(1000);
+
+        expect(backend.submitted).to.have.length(1);
+        expect(queue.depth).to.equal(0);
+    });
+
+    it("ignores duplicate measurements", async () => {
+        const queue = new SubmissionQueue({
+            backend: new FlakyBackend(),
+            clock,
+        });
+
+        expect(await queue.enqueue("device_1", measurement(10), 42)).to.be.true;
+        expect(await queue.enqueue("device_1", measurement(10), 42)).to.be
+            .false;
+        expect(await queue.enqueue("device_2", measurement(10), 42)).to.be.true;
+        expect(queue.depth).to.equal(2);
+    });
+
+    it("keeps measurements across restarts", async () => {
+        const storage = new MemoryQueueStorage();
+        const offline = new SubmissionQueue({
+            backend: new FlakyBackend(Infinity),
+            storage,
+            clock,
+        });
+        await offline.start();
+        await offline.enqueue("device_1", measurement(10));
+        await clock.advance(0);
+        offline.stop();
+
+        const backend = new FlakyBackend();
+        const restarted = new SubmissionQueue({ backend, storage, clock });
+        await restarted.start();
+        expect(restarted.depth).to.equal(1);
+
+        await clock.advance(10 * 60 * 1000);
+        expect(backend.submitted).to.have.length(1);
+        expect(restarted.depth).to.equal(0);
+    });
+
+    it("persists the queue to disk with FileQueueStorage", async () => {
+        const directory = fs.mkdtempSync(
+            path.join(os.tmpdir(), "depin-queue-")
+        );
+        try {
+            const storage = new FileQueueStorage(directory);
+            const queue = new SubmissionQueue({
+                backend: new FlakyBackend(Infinity),
+                storage,
+                clock,
+            });
+            await queue.enqueue("device_1", measurement(10), 42);
+
+            const reloaded = new SubmissionQueue({
+                backend: new FlakyBackend(),
+                storage: new FileQueueStorage(directory),
+                clock,
+            });
+            expect(await reloaded.enqueue("device_1", measurement(10), 42)).to
+                .be.false;
+            expect(reloaded.depth).to.equal(1);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+});
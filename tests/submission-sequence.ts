@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import {
+    DePINfinityClient,
+    DeviceNotFoundError,
+    devicePda,
+    findSubmissionAddress,
+} from "../sdk/src";
+import { encodeDevice } from "./support/accounts";
+import { FakeConnection } from "./support/fake-connection";
+
+const location = { latitude: 35.68, longitude: 139.76, accuracy: 10 };
+
+describe("submission sequence numbers", () => {
+    const programId = Keypair.generate().publicKey;
+    let wallet: Wallet;
+    let devicePDA: PublicKey;
+    let connection: FakeConnection;
+    let client: DePINfinityClient;
+
+    beforeEach(() => {
+        wallet = new Wallet(Keypair.generate());
+        [devicePDA] = devicePda(programId, wallet.publicKey, "router_01");
+        connection = new FakeConnection([
+            {
+                pubkey: devicePDA,
+                account: {
+                    data: encodeDevice({
+                        owner: wallet.publicKey.toBase58(),
+                        deviceId: "router_01",
+                        deviceType: "Router",
+                        location,
+                        isActive: true,
+                        totalUptime: 3,
+                        totalRewardsEarned: 4500,
+                        lastActivity: 1760860800,
+                        submissionCount: 3,
+                    }),
+                    executable: false,
+                    lamports: 1,
+                    owner: programId,
+                },
+            },
+        ]);
+        client = new DePINfinityClient(
+            connection as unknown as Connection,
+            wallet,
+            programId
+        );
+    });
+
+    it("derives addresses from the little-endian u64 sequence", () => {
+        const [expected] = PublicKey.findProgramAddressSync(
+            [
+                Buffer.from("data"),
+                devicePDA.toBuffer(),
+                Buffer.from([7, 1, 0, 0, 0, 0, 0, 0]),
+            ],
+            programId
+        );
+
+        expect(
+            findSubmissionAddress(programId, devicePDA, 263).equals(expected)
+        ).to.be.true;
+        expect(
+            findSubmissionAddress(programId, devicePDA, 0).equals(
+                findSubmissionAddress(programId, devicePDA, 1)
+            )
+        ).to.be.false;
+        expect(() => findSubmissionAddress(programId, devicePDA, -1)).to.throw(
+            /Invalid submission index/
+        );
+    });
+
+    it("submits to the address at the device's submission count", async () => {
+        await client.submitData("router_01", {
+            signalStrength: -60,
+            latency: 40,
+            throughput: 1500000,
+            availability: 0.95,
+            location,
+        });
+
+        const instructions = connection.sent[0].instructions;
+        const submit = instructions[instructions.length - 1];
+        // Accounts: device, dataSubmission, programState, ...
+        expect(submit.keys[1].pubkey.toBase58()).to.equal(
+            client.getSubmissionAddress("router_01", 3).toBase58()
+        );
+    });
+
+    it("uses an explicit sequence without reading the device", async () => {
+        const instruction = await client.submitDataInstruction(
+            "router_01",
+            {
+                signalStrength: -60,
+                latency: 40,
+                throughput: 1500000,
+                availability: 0.95,
+                location,
+            },
+            10
+        );
+
+        expect(instruction.keys[1].pubkey.toBase58()).to.equal(
+            client.getSubmissionAddress("router_01", 10).toBase58()
+        );
+        expect(connection.accountInfoRequests).to.be.empty;
+    });
+
+    it("enumerates every submission address in order", async () => {
+        const addresses = await client.getSubmissionAddresses("router_01");
+
+        expect(addresses.map((address) => address.toBase58())).to.deep.equal(
+            [0, 1, 2].map((index) =>
+                findSubmissionAddress(programId, devicePDA, index).toBase58()
+            )
+        );
+    });
+
+    it("rejects unknown devices", async () => {
+        const error = await client
+            .getSubmissionAddresses("missing")
+            .catch((error) => error);
+
+        expect(error).to.be.instanceOf(DeviceNotFoundError);
+    });
+});
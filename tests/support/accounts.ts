@@ -0,0 +1,73 @@
+import { PublicKey } from "@solana/web3.js";
+import { accountDecoder } from "../../sdk/src/coder";
+import {
+    DataSubmission,
+    Device,
+    DeviceType,
+} from "../../sdk/src/types/depinfinity";
+
+const DEVICE_TYPES: DeviceType[] = [
+    "Smartphone",
+    "Router",
+    "IoTDevice",
+    "Hotspot",
+];
+
+// Serialize a Device account the way the program lays it out
+export const encodeDevice = (device: Omit<Device, "bump">): Buffer => {
+    const id = Buffer.from(device.deviceId);
+    const data = Buffer.alloc(8 + 131);
+    let offset = 0;
+
+    accountDecoder.discriminator("Device").copy(data, offset);
+    offset += 8;
+    new PublicKey(device.owner).toBuffer().copy(data, offset);
+    offset += 32;
+    offset = data.writeUInt32LE(id.length, offset);
+    offset += id.copy(data, offset);
+    offset = data.writeUInt8(DEVICE_TYPES.indexOf(device.deviceType), offset);
+    offset = data.writeDoubleLE(device.location.latitude, offset);
+    offset = data.writeDoubleLE(device.location.longitude, offset);
+    offset = data.writeFloatLE(device.location.accuracy, offset);
+    offset = data.writeUInt8(device.isActive ? 1 : 0, offset);
+    offset = data.writeBigUInt64LE(BigInt(device.totalUptime), offset);
+    offset = data.writeBigUInt64LE(BigInt(device.totalRewardsEarned), offset);
+    offset = data.writeBigInt64LE(BigInt(device.lastActivity), offset);
+    offset = data.writeUInt8(254, offset);
+    data.writeBigUInt64LE(BigInt(device.submissionCount), offset);
+    return data;
+};
+
+// Serialize a DataSubmission account the way the program lays it out
+export const encodeDataSubmission = (submission: DataSubmission): Buffer => {
+    const data = Buffer.alloc(88);
+    let offset = 0;
+
+    accountDecoder.discriminator("DataSubmission").copy(data, offset);
+    offset += 8;
+    offset += new PublicKey(submission.device).toBuffer().copy(data, offset);
+    offset = data.writeBigInt64LE(BigInt(submission.timestamp), offset);
+    offset = data.writeInt32LE(submission.signalStrength, offset);
+    offset = data.writeUInt32LE(submission.latency, offset);
+    offset = data.writeBigUInt64LE(BigInt(submission.throughput), offset);
+    offset = data.writeFloatLE(submission.availability, offset);
+    offset = data.writeDoubleLE(submission.location.latitude, offset);
+    offset = data.writeDoubleLE(submission.location.longitude, offset);
+    data.writeFloatLE(submission.location.accuracy, offset);
+    return data;
+};
+
+// Serialize a ProgramState account the way the program lays it out
+export const encodeProgramState = (
+    authority: PublicKey,
+    isActive: boolean
+): Buffer => {
+    const data = Buffer.alloc(8 + 50);
+    accountDecoder.discriminator("ProgramState").copy(data, 0);
+    authority.toBuffer().copy(data, 8);
+    data.writeBigUInt64LE(BigInt(3), 40);
+    data.writeBigUInt64LE(BigInt(12000), 48);
+    data.writeUInt8(isActive ? 1 : 0, 56);
+    data.writeUInt8(254, 57);
+    return data;
+};
@@ -0,0 +1,225 @@
+import {
+    AccountInfo,
+    GetProgramAccountsConfig,
+    GetProgramAccountsFilter,
+    KeyedAccountInfo,
+    Keypair,
+    Logs,
+    PublicKey,
+    Transaction,
+} from "@solana/web3.js";
+import { utils } from "@coral-xyz/anchor";
+
+const matchesFilters = (
+    data: Buffer,
+    filters: GetProgramAccountsFilter[] = []
+): boolean =>
+    filters.every((filter) => {
+        if (!("memcmp" in filter)) return true;
+        const { offset, bytes, encoding } = filter.memcmp;
+        const expected =
+            encoding === "base64"
+                ? Buffer.from(bytes, "base64")
+                : Buffer.from(utils.bytes.bs58.decode(bytes));
+        return data.subarray(offset, offset + expected.length).equals(expected);
+    });
+
+/**
+ * Just enough of a Connection to serve getAccountInfo, and getProgramAccounts
+ * with memcmp filters and data slices, from an in-memory account list.
+ * Sent transactions are recorded and confirm immediately.
+ *
+ * Subscriptions are served too: `setAccount` and `pushLogs` notify them,
+ * and `offline` makes every RPC call fail the way a dropped node does.
+ */
+export class FakeConnection {
+    requests: GetProgramAccountsConfig[] = [];
+    accountInfoRequests: PublicKey[] = [];
+    sent: Transaction[] = [];
+    offline: boolean = false;
+    rpcEndpoint: string = "http://127.0.0.1:8899";
+
+    private nextSubscriptionId: number = 0;
+    private programSubscriptions: Map<
+        number,
+        {
+            callback: (keyedAccountInfo: KeyedAccountInfo) => void;
+            filters: GetProgramAccountsFilter[];
+        }
+    > = new Map();
+    private accountSubscriptions: Map<
+        number,
+        {
+            pubkey: PublicKey;
+            callback: (accountInfo: AccountInfo<Buffer>) => void;
+        }
+    > = new Map();
+    private logSubscriptions: Map<number, (logs: Logs) => void> = new Map();
+
+    constructor(
+        private accounts: { pubkey: PublicKey; account: AccountInfo<Buffer> }[]
+    ) {}
+
+    get subscriptionCount(): number {
+        return (
+            this.programSubscriptions.size +
+            this.accountSubscriptions.size +
+            this.logSubscriptions.size
+        );
+    }
+
+    async getSlot() {
+        this.assertOnline();
+        return 1;
+    }
+
+    async getAccountInfo(pubkey: PublicKey) {
+        this.assertOnline();
+        this.accountInfoRequests.push(pubkey);
+        return (
+            this.accounts.find((entry) => entry.pubkey.equals(pubkey))
+                ?.account ?? null
+        );
+    }
+
+    // SPL token accounts keep the amount after the mint and owner
+    async getTokenAccountBalance(pubkey: PublicKey) {
+        const account = await this.getAccountInfo(pubkey);
+        if (!account) {
+            throw new Error(`could not find account ${pubkey.toBase58()}`);
+        }
+        const amount = account.data.readBigUInt64LE(64);
+        return {
+            context: { slot: 1 },
+            value: {
+                amount: amount.toString(),
+                decimals: 9,
+                uiAmount: Number(amount) / 1e9,
+                uiAmountString: (Number(amount) / 1e9).toString(),
+            },
+        };
+    }
+
+    async getLatestBlockhash() {
+        return {
+            blockhash: Keypair.generate().publicKey.toBase58(),
+            lastValidBlockHeight: 1000,
+        };
+    }
+
+    async sendRawTransaction(raw: Buffer) {
+        this.sent.push(Transaction.from(raw));
+        return `signature_${this.sent.length}`;
+    }
+
+    async confirmTransaction() {
+        return { context: { slot: 1 }, value: { err: null } };
+    }
+
+    async getProgramAccounts(
+        _programId: PublicKey,
+        config: GetProgramAccountsConfig
+    ) {
+        this.assertOnline();
+        this.requests.push(config);
+
+        return this.accounts
+            .filter(({ account }) => matchesFilters(account.data, config.filters))
+            .map(({ pubkey, account }) => ({
+                pubkey,
+                account: {
+                    ...account,
+                    data: config.dataSlice
+                        ? account.data.subarray(
+                              config.dataSlice.offset,
+                              config.dataSlice.offset + config.dataSlice.length
+                          )
+                        : account.data,
+                },
+            }));
+    }
+
+    /**
+     * Create or replace an account and notify the subscriptions watching it
+     */
+    setAccount(pubkey: PublicKey, data: Buffer): void {
+        const account: AccountInfo<Buffer> = {
+            data,
+            executable: false,
+            lamports: 1_000_000,
+            owner: PublicKey.default,
+        };
+        const existing = this.accounts.find((entry) =>
+            entry.pubkey.equals(pubkey)
+        );
+        if (existing) {
+            existing.account = account;
+        } else {
+            this.accounts.push({ pubkey, account });
+        }
+
+        for (const { callback, filters } of this.programSubscriptions.values()) {
+            if (matchesFilters(data, filters)) {
+                callback({ accountId: pubkey, accountInfo: account });
+            }
+        }
+        for (const subscription of this.accountSubscriptions.values()) {
+            if (subscription.pubkey.equals(pubkey)) {
+                subscription.callback(account);
+            }
+        }
+    }
+
+    /**
+     * Deliver the log lines of a successful transaction
+     */
+    pushLogs(logs: string[], signature: string = "signature"): void {
+        for (const callback of this.logSubscriptions.values()) {
+            callback({ err: null, logs, signature });
+        }
+    }
+
+    onProgramAccountChange(
+        _programId: PublicKey,
+        callback: (keyedAccountInfo: KeyedAccountInfo) => void,
+        _commitment?: unknown,
+        filters: GetProgramAccountsFilter[] = []
+    ): number {
+        const id = this.nextSubscriptionId++;
+        this.programSubscriptions.set(id, { callback, filters });
+        return id;
+    }
+
+    onAccountChange(
+        pubkey: PublicKey,
+        callback: (accountInfo: AccountInfo<Buffer>) => void
+    ): number {
+        const id = this.nextSubscriptionId++;
+        this.accountSubscriptions.set(id, { pubkey, callback });
+        return id;
+    }
+
+    onLogs(_programId: PublicKey, callback: (logs: Logs) => void): number {
+        const id = this.nextSubscriptionId++;
+        this.logSubscriptions.set(id, callback);
+        return id;
+    }
+
+    async removeProgramAccountChangeListener(id: number) {
+        this.programSubscriptions.delete(id);
+    }
+
+    async removeAccountChangeListener(id: number) {
+        this.accountSubscriptions.delete(id);
+    }
+
+    async removeOnLogsListener(id: number) {
+        this.logSubscriptions.delete(id);
+    }
+
+    private assertOnline(): void {
+        if (this.offline) {
+            throw new Error("fetch failed");
+        }
+    }
+}
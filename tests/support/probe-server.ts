@@ -0,0 +1,68 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+
+export interface ProbeServer {
+    host: string;
+    port: number;
+    /** URL serving `bytes` bytes of payload */
+    downloadUrl(bytes: number): string;
+    close(): Promise<void>;
+}
+
+/**
+ * Local HTTP server standing in for a measurement endpoint, so latency and
+ * throughput probes can be exercised without internet access.
+ *
+ * GET /download?bytes=N streams N bytes in 64 KiB chunks; any other path
+ * returns 404.
+ */
+export async function startProbeServer(): Promise<ProbeServer> {
+    const chunk = Buffer.alloc(64 * 1024, 0x61);
+
+    const server = http.createServer((request, response) => {
+        const url = new URL(request.url ?? "/", "http://localhost");
+        if (url.pathname !== "/download") {
+            response.writeHead(404).end();
+            return;
+        }
+
+        let remaining = parseInt(url.searchParams.get("bytes") ?? "0", 10);
+        response.writeHead(200, {
+            "Content-Type": "application/octet-stream",
+            "Content-Length": remaining,
+        });
+
+        const write = () => {
+            while (remaining > 0) {
+                const part = chunk.subarray(
+                    0,
+                    Math.min(remaining, chunk.length)
+                );
+                remaining -= part.length;
+                if (!response.write(part)) {
+                    response.once("drain", write);
+                    return;
+                }
+            }
+            response.end();
+        };
+        write();
+    });
+
+    await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", () => resolve())
+    );
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        host: "127.0.0.1",
+        port,
+        downloadUrl: (bytes) =>
+            `http://127.0.0.1:${port}/download?bytes=${bytes}`,
+        close: () =>
+            new Promise((resolve) => {
+                server.closeAllConnections();
+                server.close(() => resolve());
+            }),
+    };
+}
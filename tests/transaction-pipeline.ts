@@ -0,0 +1,226 @@
+import { expect } from "chai";
+import {
+    ComputeBudgetProgram,
+    Connection,
+    Keypair,
+    SendTransactionError,
+    Transaction,
+    TransactionExpiredBlockheightExceededError,
+    TransactionInstruction,
+    VersionedTransaction,
+} from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor";
+import {
+    TransactionFailedError,
+    TransactionSender,
+} from "../sdk/src/transactions";
+import { DeviceInactiveError } from "../sdk/src/errors";
+
+const PROGRAM_LOGS = [
+    "Program DePiN11111111111111111111111111111111111 invoke [1]",
+    "Program log: AnchorError thrown in programs/depinfinity/src/lib.rs:60. Error Code: DeviceInactive. Error Number: 6000. Error Message: Device is not active.",
+    "Program DePiN11111111111111111111111111111111111 failed: custom program error: 0x1770",
+];
+
+/**
+ * Scripted RPC node: each send and confirm call takes the next outcome
+ */
+class ScriptedConnection {
+    blockhashes = 0;
+    sent: Transaction[] = [];
+    simulated: VersionedTransaction[] = [];
+    sendOutcomes: (Error | null)[] = [];
+    confirmOutcomes: (Error | { err: unknown } | null)[] = [];
+
+    async getLatestBlockhash() {
+        this.blockhashes++;
+        return {
+            blockhash: Keypair.generate().publicKey.toBase58(),
+            lastValidBlockHeight: 1000 + this.blockhashes,
+        };
+    }
+
+    async sendRawTransaction(raw: Buffer) {
+        this.sent.push(Transaction.from(raw));
+        const outcome = this.sendOutcomes.shift();
+        if (outcome) throw outcome;
+        return `signature_${this.sent.length}`;
+    }
+
+    async confirmTransaction() {
+        const outcome = this.confirmOutcomes.shift();
+        if (outcome instanceof Error) throw outcome;
+        return { context: { slot: 1 }, value: { err: outcome?.err ?? null } };
+    }
+
+    async getTransaction() {
+        return { meta: { logMessages: PROGRAM_LOGS } };
+    }
+
+    async simulateTransaction(transaction: VersionedTransaction) {
+        this.simulated.push(transaction);
+        return {
+            context: { slot: 1 },
+            value: { err: null, logs: PROGRAM_LOGS, unitsConsumed: 4321 },
+        };
+    }
+}
+
+const rejection = async (promise: Promise<unknown>): Promise<Error> => {
+    try {
+        await promise;
+    } catch (error) {
+        return error as Error;
+    }
+    throw new Error("Expected promise to reject");
+};
+
+describe("transaction pipeline", () => {
+    const instruction = new TransactionInstruction({
+        programId: Keypair.generate().publicKey,
+        keys: [],
+        data: Buffer.from([1, 2, 3]),
+    });
+
+    let connection: ScriptedConnection;
+    let sender: TransactionSender;
+
+    beforeEach(() => {
+        connection = new ScriptedConnection();
+        sender = new TransactionSender(
+            connection as unknown as Connection,
+            new Wallet(Keypair.generate())
+        );
+    });
+
+    it("signs, sends and confirms", async () => {
+        const signature = await sender.send([instruction]);
+
+        expect(signature).to.equal("signature_1");
+        expect(connection.sent).to.have.length(1);
+        expect(connection.sent[0].signatures[0].signature).to.not.be.null;
+        expect(connection.sent[0].instructions).to.have.length(1);
+    });
+
+    it("adds compute budget instructions for priority fees", async () => {
+        await sender.send([instruction], {
+            priorityFeeMicroLamports: 5000,
+            computeUnitLimit: 200000,
+        });
+
+        const programs = connection.sent[0].instructions.map((ix) =>
+            ix.programId.toBase58()
+        );
+        expect(programs).to.deep.equal([
+            ComputeBudgetProgram.programId.toBase58(),
+            ComputeBudgetProgram.programId.toBase58(),
+            instruction.programId.toBase58(),
+        ]);
+    });
+
+    it("resends with a fresh blockhash when the blockhash expires", async () => {
+        connection.confirmOutcomes = [
+            new TransactionExpiredBlockheightExceededError("signature_1"),
+        ];
+
+        expect(await sender.send([instruction])).to.equal("signature_2");
+        expect(connection.blockhashes).to.equal(2);
+        expect(connection.sent[0].recentBlockhash).to.not.equal(
+            connection.sent[1].recentBlockhash
+        );
+    });
+
+    it("retries when the node does not know the blockhash", async () => {
+        connection.sendOutcomes = [
+            new SendTransactionError({
+                action: "simulate",
+                signature: "",
+                transactionMessage:
+                    "Transaction simulation failed: Blockhash not found",
+                logs: [],
+            }),
+        ];
+
+        expect(await sender.send([instruction])).to.equal("signature_2");
+    });
+
+    it("gives up after maxRetries", async () => {
+        connection.confirmOutcomes = [1, 2, 3].map(
+            (n) => new TransactionExpiredBlockheightExceededError(`s${n}`)
+        );
+
+        const error = await rejection(
+            sender.send([instruction], { maxRetries: 2 })
+        );
+        expect(error).to.be.instanceOf(
+            TransactionExpiredBlockheightExceededError
+        );
+        expect(connection.sent).to.have.length(3);
+    });
+
+    it("decodes program errors from failed preflight", async () => {
+        connection.sendOutcomes = [
+            new SendTransactionError({
+                action: "simulate",
+                signature: "",
+                transactionMessage:
+                    "Transaction simulation failed: Error processing Instruction 0: custom program error: 0x1770",
+                logs: PROGRAM_LOGS,
+            }),
+        ];
+
+        const error = (await rejection(
+            sender.send([instruction])
+        )) as DeviceInactiveError;
+        expect(error).to.be.instanceOf(DeviceInactiveError);
+        expect(error.code).to.equal("DeviceInactive");
+        expect(error.logs).to.deep.equal(PROGRAM_LOGS);
+        expect(error.cause).to.be.instanceOf(TransactionFailedError);
+        expect((error.cause as Error).message).to.contain(
+            "Error Code: DeviceInactive"
+        );
+    });
+
+    it("decodes program errors from transactions failing on-chain", async () => {
+        connection.confirmOutcomes = [
+            { err: { InstructionError: [0, { Custom: 6001 }] } },
+        ];
+
+        const error = (await rejection(sender.send([instruction]))) as any;
+        expect(error.code).to.equal("ProgramPaused");
+        expect(error.logs).to.deep.equal(PROGRAM_LOGS);
+
+        const failure = error.cause as TransactionFailedError;
+        expect(failure).to.be.instanceOf(TransactionFailedError);
+        expect(failure.signature).to.equal("signature_1");
+    });
+
+    it("keeps failures without a program error as TransactionFailedError", async () => {
+        connection.confirmOutcomes = [
+            { err: { InstructionError: [0, "InvalidAccountData"] } },
+        ];
+
+        const error = (await rejection(
+            sender.send([instruction])
+        )) as TransactionFailedError;
+        expect(error).to.be.instanceOf(TransactionFailedError);
+        expect(error.code).to.equal("TransactionFailed");
+        expect(error.signature).to.equal("signature_1");
+    });
+
+    it("simulates without signing and reports compute units", async () => {
+        const result = await sender.simulate([instruction], {
+            computeUnitLimit: 100000,
+        });
+
+        expect(result).to.deep.equal({
+            error: null,
+            logs: PROGRAM_LOGS,
+            unitsConsumed: 4321,
+        });
+        expect(connection.sent).to.be.empty;
+        expect(
+            connection.simulated[0].message.compiledInstructions
+        ).to.have.length(2);
+    });
+});